@@ -11,11 +11,14 @@ import {
   setDecision, getContext, getDecision, searchByTags, getVersions, searchByLayer,
   quickSetDecision, searchAdvanced, setDecisionBatch, hasUpdates, setFromTemplate,
   createTemplate, listTemplates, hardDeleteDecision, addDecisionContextAction,
-  listDecisionContextsAction, handleAnalytics, decisionHelp, decisionExample
+  listDecisionContextsAction, handleAnalytics, exportDecisions, addDecisionTags, deprecateDecision, linkDecisions, unlinkDecisions, diffDecision, revertDecision, getChanges,
+  listDecisionRelations, decisionHelp, decisionExample
 } from '../tools/context/index.js';
 import {
   addConstraint, getConstraints, activateConstraint, deactivateConstraint, suggestPendingConstraints,
-  constraintHelp, constraintExample, activateConstraintsByTag
+  constraintHelp, constraintExample, activateConstraintsByTag,
+  updateConstraint, getConstraintVersions, checkConstraints, getConstraintsDueForReview,
+  listConstraintCategories, createConstraintCategory, renameConstraintCategory, retireConstraintCategory
 } from '../tools/constraints/index.js';
 import {
   queryAction, queryParams, queryTool, workflowHints, batchGuide, errorRecovery,
@@ -30,7 +33,7 @@ import {
 import { trackAndReturnHelp } from '../utils/help-tracking.js';
 import { handleSuggestAction } from '../tools/suggest/index.js';
 import {
-  listQueue, clearQueue, removeFromQueue
+  listQueue, clearQueue, removeFromQueue, retryQueue, approveQueue, rejectQueue
 } from '../tools/queue/index.js';
 import { getHelpLoader } from '../help-loader.js';
 import { ProjectContext } from '../utils/project-context.js';
@@ -188,14 +191,16 @@ export class LocalBackend implements ToolBackend {
       case 'hard_delete': return await hardDeleteDecision(params);
       case 'add_decision_context': return await addDecisionContextAction(params);
       case 'list_decision_contexts': return await listDecisionContextsAction(params);
+      case 'add_tags': return await addDecisionTags(params);
+      case 'deprecate': return await deprecateDecision(params);
       case 'analytics': return await handleAnalytics(params);
-      case 'export':
-        // SaaS-only feature - LocalBackend cannot provide export data
-        throw new Error(
-          'Export feature is SaaS-only. ' +
-          'To use document export, connect to sqlew SaaS (set SQLEW_API_KEY). ' +
-          'For local JSON backup, use: npm run db:export'
-        );
+      case 'export': return await exportDecisions(params);
+      case 'link': return await linkDecisions(params);
+      case 'unlink': return await unlinkDecisions(params);
+      case 'relations': return await listDecisionRelations(params);
+      case 'diff': return await diffDecision(params);
+      case 'revert': return await revertDecision(params);
+      case 'changes': return await getChanges(params);
       case 'help': {
         const helpContent = decisionHelp();
         trackAndReturnHelp('decision', 'help', JSON.stringify(helpContent));
@@ -228,6 +233,14 @@ export class LocalBackend implements ToolBackend {
       case 'activate_by_tag': return await activateConstraintsByTag(params.tag);
       case 'deactivate': return await deactivateConstraint(params);
       case 'suggest_pending': return await suggestPendingConstraints(params);
+      case 'update': return await updateConstraint(params);
+      case 'versions': return await getConstraintVersions(params);
+      case 'check': return await checkConstraints(params);
+      case 'due_for_review': return await getConstraintsDueForReview(params);
+      case 'list_categories': return await listConstraintCategories(params);
+      case 'create_category': return await createConstraintCategory(params);
+      case 'rename_category': return await renameConstraintCategory(params);
+      case 'retire_category': return await retireConstraintCategory(params);
       case 'help': {
         const constraintHelpContent = constraintHelp();
         trackAndReturnHelp('constraint', 'help', JSON.stringify(constraintHelpContent));
@@ -409,6 +422,12 @@ export class LocalBackend implements ToolBackend {
         return clearQueue(projectRoot, params);
       case 'remove':
         return removeFromQueue(projectRoot, params);
+      case 'retry':
+        return retryQueue(projectRoot, params);
+      case 'approve':
+        return approveQueue(projectRoot, params);
+      case 'reject':
+        return rejectQueue(projectRoot, params);
       case 'help': {
         const loader = await getHelpLoader();
         const tool = loader.getTool('queue');
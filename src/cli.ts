@@ -9,6 +9,7 @@ import { getContext, searchAdvanced } from './tools/context/index.js';
 import { dbDumpCommand } from './cli/db-dump.js';
 import { dbExportCommand } from './cli/db-export.js';
 import { dbImportCommand } from './cli/db-import.js';
+import { checkCommand } from './cli/check.js';
 // Claude Code Hooks commands
 import { suggestCommand } from './cli/hooks/suggest.js';
 import { trackPlanCommand } from './cli/hooks/track-plan.js';
@@ -167,6 +168,9 @@ LEGACY COMMANDS:
     db:export  Export project data to JSON format (data-only, for append-import)
     db:import  Import project data from JSON export (append to existing database)
 
+  Constraints:
+    check      Check the working tree against constraint rules (pre-commit / CI)
+
   Claude Code Hooks (internal use):
     suggest          Find related decisions (PreToolUse hook for Task)
     track-plan       Track plan files (PreToolUse hook for Write)
@@ -191,10 +195,14 @@ EXAMPLES:
   # Generate MySQL dump for database migration
   npm run db:dump -- mysql -o dump-mysql.sql
 
+  # Fail the build when a constraint rule is violated
+  sqlew check
+
 For more information on commands, run:
   npm run db:dump -- --help
   npm run db:export -- --help
   npm run db:import -- --help
+  sqlew check --help
 `);
 }
 
@@ -346,6 +354,12 @@ export async function runCli(rawArgs: string[]): Promise<void> {
     return;
   }
 
+  // Constraint rule check (v5.1.0+)
+  if (args.command === 'check') {
+    await checkCommand(rawArgs.slice(1));
+    return;
+  }
+
   // Claude Code Hooks commands (v4.1.0+)
   if (args.command === 'suggest') {
     await suggestCommand();
@@ -470,7 +484,7 @@ export async function runCli(rawArgs: string[]): Promise<void> {
  */
 export function isCliCommand(command: string): boolean {
   const cliCommands = [
-    'db:dump', 'db:export', 'db:import', 'query',
+    'db:dump', 'db:export', 'db:import', 'query', 'check',
     // Claude Code Hooks commands (v4.1.0+)
     'suggest', 'track-plan', 'save', 'check-completion', 'mark-done', 'init',
     // New hook events (v4.2.0+)
@@ -0,0 +1,155 @@
+/**
+ * check CLI command - Verify the working tree against constraint rules
+ *
+ * Runs the same check as constraint.check for use in pre-commit hooks and CI.
+ * Exits with code 1 when a rule is violated.
+ *
+ * Usage:
+ *   sqlew check                      # All active constraints with rules
+ *   sqlew check src/ lib/            # Only scan these paths
+ *   sqlew check --constraints 3,7    # Only these constraints
+ *   sqlew check --json               # Machine-readable output
+ *
+ * @since v5.1.0
+ */
+
+import { closeDatabase } from '../database.js';
+import { openProjectDatabase, findProjectForPath } from './project-database.js';
+import { determineProjectRoot } from '../utils/project-root.js';
+import { loadCheckableConstraints, checkConstraintRules } from '../utils/constraint-rules.js';
+import type { ConstraintViolation } from '../types.js';
+
+interface CheckArgs {
+  paths: string[];
+  constraints?: number[];
+  json: boolean;
+  help: boolean;
+}
+
+/**
+ * Show help message for check command
+ */
+export function showCheckHelp(): void {
+  console.log(`
+sqlew check - Check the working tree against constraint rules
+
+USAGE:
+  sqlew check [paths...] [options]
+
+ARGUMENTS:
+  [paths...]               Gitignore-style globs limiting the scan (default: whole project)
+
+OPTIONS:
+  --constraints <ids>      Comma-separated constraint IDs (default: all active constraints with rules)
+  --json                   Print the result as JSON
+  --help                   Show this help message
+
+Files ignored by .gitignore are skipped. Exits with code 1 on violations.
+
+EXAMPLES:
+  # Pre-commit hook
+  sqlew check
+
+  # Check only the API sources against constraint 12
+  sqlew check src/api/ --constraints 12
+`);
+}
+
+/**
+ * Parse command-line arguments for check
+ */
+export function parseCheckArgs(args: string[]): CheckArgs {
+  const parsed: CheckArgs = { paths: [], json: false, help: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--help' || arg === 'help') {
+      parsed.help = true;
+    } else if (arg === '--json') {
+      parsed.json = true;
+    } else if (arg === '--constraints' || arg.startsWith('--constraints=')) {
+      const value = arg.includes('=') ? arg.slice(arg.indexOf('=') + 1) : args[++i] ?? '';
+      parsed.constraints = value.split(',').map(id => Number(id.trim()));
+    } else if (!arg.startsWith('-')) {
+      parsed.paths.push(arg);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Print violations grouped by file
+ */
+function printViolations(violations: ConstraintViolation[]): void {
+  let currentFile: string | null = null;
+  for (const violation of violations) {
+    if (violation.file !== currentFile) {
+      currentFile = violation.file;
+      console.log(`\n${currentFile}`);
+    }
+    const location = violation.line !== null ? `${violation.line}` : '-';
+    console.log(`  ${location.padStart(5)}  ${violation.message}  [constraint #${violation.constraint_id}]`);
+  }
+}
+
+/**
+ * Main entry point for check command
+ */
+export async function checkCommand(args: string[]): Promise<void> {
+  const options = parseCheckArgs(args);
+  if (options.help) {
+    showCheckHelp();
+    return;
+  }
+  if (options.constraints?.some(id => !Number.isInteger(id) || id <= 0)) {
+    console.error('[sqlew check] --constraints must be a comma-separated list of constraint IDs');
+    process.exit(1);
+  }
+
+  const projectPath = determineProjectRoot();
+  let exitCode = 0;
+
+  try {
+    const adapter = await openProjectDatabase(projectPath);
+    if (!adapter) {
+      throw new Error(`No sqlew database found for ${projectPath}`);
+    }
+    const knex = adapter.getKnex();
+
+    const project = await findProjectForPath(knex, projectPath);
+    if (!project) {
+      throw new Error(`No sqlew project registered for ${projectPath}`);
+    }
+
+    const constraints = await loadCheckableConstraints(knex, project.id, options.constraints);
+    const result = checkConstraintRules(projectPath, constraints, { paths: options.paths });
+    const passed = result.violations.length === 0;
+
+    if (options.json) {
+      console.log(JSON.stringify({
+        passed,
+        constraints_checked: constraints.length,
+        files_scanned: result.files_scanned,
+        violations: result.violations,
+        count: result.violations.length,
+      }, null, 2));
+    } else if (passed) {
+      console.log(`[sqlew check] ✓ ${constraints.length} constraint(s), ${result.files_scanned} file(s): no violations`);
+    } else {
+      printViolations(result.violations);
+      console.log(`\n[sqlew check] ✗ ${result.violations.length} violation(s) of ${constraints.length} constraint(s) in ${result.files_scanned} file(s)`);
+    }
+
+    exitCode = passed ? 0 : 1;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[sqlew check] Error: ${message}`);
+    exitCode = 1;
+  } finally {
+    await closeDatabase();
+  }
+
+  process.exit(exitCode);
+}
@@ -12,7 +12,7 @@
  */
 
 import { readStdinJson, sendContinue, sendPostToolUseContext, getProjectPath } from './stdin-parser.js';
-import { processPlanPatterns } from './plan-processor.js';
+import { processPlanPatterns, PENDING_APPROVAL_MESSAGE } from './plan-processor.js';
 
 // ============================================================================
 // Main Entry Point
@@ -41,13 +41,14 @@ export async function onExitPlanCommand(): Promise<void> {
     }
 
     // Delegate to shared processor
-    const result = processPlanPatterns(projectPath);
+    const result = await processPlanPatterns(projectPath);
 
     if (!result.processed) {
       // Map skip reasons to user-friendly messages
       const messages: Record<string, string> = {
         no_active_plan: '[sqlew] No active plan tracked.',
         already_recorded: '[sqlew] Patterns already extracted.',
+        pending_approval: PENDING_APPROVAL_MESSAGE,
         plan_file_not_found: '[sqlew] Plan file not found.',
         read_error: '[sqlew] Could not read plan file.',
         no_patterns: '[sqlew] No decisions or constraints detected in plan.',
@@ -14,8 +14,8 @@
  * @since v5.0.0
  */
 
-import { readStdinJson, sendContinue, getProjectPath } from './stdin-parser.js';
-import { processPlanPatterns } from './plan-processor.js';
+import { readStdinJson, sendContinue, sendSessionStartContext, getProjectPath } from './stdin-parser.js';
+import { processPlanPatterns, PENDING_APPROVAL_MESSAGE } from './plan-processor.js';
 import { loadCurrentPlan, clearCurrentPlan } from '../../config/global-config.js';
 
 // ============================================================================
@@ -59,15 +59,20 @@ export async function onSessionStartCommand(): Promise<void> {
       return;
     }
 
-    // Process the cached plan (extract patterns and queue to pending.json)
-    const result = processPlanPatterns(projectPath);
+    // Process the cached plan (extract candidates and stage them for approval)
+    const result = await processPlanPatterns(projectPath);
 
     // Clear cache after processing (regardless of result)
     clearCurrentPlan(projectPath);
 
+    // Show the preview in the new session so candidates can be approved
     if (result.processed && result.confirmationMessage) {
-      // Log confirmation to stderr (visible in debug logs)
-      console.error(`[sqlew on-session-start] ${result.confirmationMessage}`);
+      sendSessionStartContext(result.confirmationMessage);
+      return;
+    }
+    if (result.skipReason === 'pending_approval') {
+      sendSessionStartContext(PENDING_APPROVAL_MESSAGE);
+      return;
     }
 
     sendContinue();
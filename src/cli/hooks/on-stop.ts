@@ -17,7 +17,7 @@ import {
   savePlanCache,
   type PlanCache,
 } from '../../config/global-config.js';
-import { enqueueDecisionCreate } from '../../utils/hook-queue.js';
+import { enqueuePlanDecisions } from '../../utils/hook-queue.js';
 
 // ============================================================================
 // TOML Decision/Constraint Processing
@@ -72,19 +72,19 @@ function formatConstraintPrompt(cache: PlanCache): string {
  * @returns Context message with results
  */
 function processPlanCache(projectPath: string, cache: PlanCache): string {
+  // Preview candidates are registered by queue.approve only (v5.1.0)
+  if (cache.pending_approval) {
+    const pending = cache.decisions.length + cache.constraints.length;
+    return pending > 0
+      ? `⏳ ${pending} plan candidate(s) awaiting approval: mcp__sqlew__queue({ action: "list" })`
+      : '';
+  }
+
   const messages: string[] = [];
 
   // Auto-register decisions (queued for MCP server processing)
   if (!cache.decisions_registered && cache.decisions.length > 0) {
-    for (const d of cache.decisions) {
-      enqueueDecisionCreate(projectPath, {
-        key: d.key,
-        value: d.value,
-        status: d.status || 'active',
-        layer: d.layer || 'cross-cutting',
-        tags: d.tags || [],
-      });
-    }
+    enqueuePlanDecisions(projectPath, cache.decisions);
     cache.decisions_registered = true;
     messages.push(`✅ Registered ${cache.decisions.length} decision(s) to queue`);
   }
@@ -62,7 +62,7 @@ export async function onSubagentStopCommand(): Promise<void> {
     }
 
     // Delegate to shared processor (handles recorded check internally)
-    const result = processPlanPatterns(projectPath);
+    const result = await processPlanPatterns(projectPath);
 
     if (result.processed && result.confirmationMessage) {
       sendPostToolUseContext(result.confirmationMessage);
@@ -6,11 +6,16 @@
  *
  * Uses smol-toml (already a project dependency) for parsing.
  *
+ * Decisions may carry ADR context (v5.1.0): rationale, alternatives,
+ * tradeoffs (string or { pros, cons } table), supersedes (key or list)
+ * and scopes. These reach t_decision_context via the plan cache and queue.
+ *
  * @since v4.2.0
  */
 
 import { parse as parseToml } from 'smol-toml';
 import type { DecisionCandidate, ConstraintCandidate } from '../../config/global-config.js';
+import { DEFAULT_CONSTRAINT_CATEGORIES } from '../../constants.js';
 
 // ============================================================================
 // Types
@@ -65,6 +70,13 @@ export function extractTomlBlocks(content: string): string[] {
 // Decision Parsing
 // ============================================================================
 
+/**
+ * String entries of a TOML array, or undefined if the value is not an array
+ */
+function stringList(value: unknown): string[] | undefined {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : undefined;
+}
+
 /**
  * Parse and validate a decision entry
  *
@@ -106,6 +118,23 @@ function parseDecision(raw: unknown): DecisionCandidate | null {
   }
   if (typeof obj.tradeoffs === 'string') {
     decision.tradeoffs = obj.tradeoffs;
+  } else if (typeof obj.tradeoffs === 'object' && obj.tradeoffs !== null && !Array.isArray(obj.tradeoffs)) {
+    // tradeoffs = { pros = [...], cons = [...] } (v5.1.0)
+    const table = obj.tradeoffs as Record<string, unknown>;
+    const pros = stringList(table.pros);
+    const cons = stringList(table.cons);
+    if (pros || cons) {
+      decision.tradeoffs = { ...(pros && { pros }), ...(cons && { cons }) };
+    }
+  }
+  // supersedes accepts one key or a list (v5.1.0)
+  const supersedes = typeof obj.supersedes === 'string' ? [obj.supersedes] : stringList(obj.supersedes);
+  if (supersedes && supersedes.length > 0) {
+    decision.supersedes = supersedes;
+  }
+  const scopes = stringList(obj.scopes);
+  if (scopes && scopes.length > 0) {
+    decision.scopes = scopes;
   }
 
   return decision;
@@ -119,9 +148,11 @@ function parseDecision(raw: unknown): DecisionCandidate | null {
  * Parse and validate a constraint entry
  *
  * @param raw - Raw constraint object from TOML
+ * @param categories - Accepted categories (v5.1.0: the project's active categories;
+ *   null accepts any category, validated later by constraint.add)
  * @returns Validated ConstraintCandidate or null if invalid
  */
-function parseConstraint(raw: unknown): ConstraintCandidate | null {
+function parseConstraint(raw: unknown, categories: readonly string[] | null): ConstraintCandidate | null {
   if (typeof raw !== 'object' || raw === null) {
     return null;
   }
@@ -132,6 +163,10 @@ function parseConstraint(raw: unknown): ConstraintCandidate | null {
   if (typeof obj.text !== 'string' || typeof obj.category !== 'string') {
     return null;
   }
+  if (categories && !categories.includes(obj.category)) {
+    console.error(`[plan-toml-parser] Skipping constraint with unknown category "${obj.category}" (valid: ${categories.join(', ')})`);
+    return null;
+  }
 
   const constraint: ConstraintCandidate = {
     text: obj.text,
@@ -163,9 +198,13 @@ function parseConstraint(raw: unknown): ConstraintCandidate | null {
  * Parse a single TOML block and extract decisions/constraints
  *
  * @param tomlContent - TOML content (without fences)
+ * @param categories - Project's active constraint categories (null accepts any)
  * @returns Parsed decisions and constraints
  */
-export function parseTomlBlock(tomlContent: string): ParsedPlanToml {
+export function parseTomlBlock(
+  tomlContent: string,
+  categories: readonly string[] | null = DEFAULT_CONSTRAINT_CATEGORIES
+): ParsedPlanToml {
   const result: ParsedPlanToml = {
     decisions: [],
     constraints: [],
@@ -187,7 +226,7 @@ export function parseTomlBlock(tomlContent: string): ParsedPlanToml {
     // Parse [[constraint]] entries
     if (Array.isArray(parsed.constraint)) {
       for (const raw of parsed.constraint) {
-        const constraint = parseConstraint(raw);
+        const constraint = parseConstraint(raw, categories);
         if (constraint) {
           result.constraints.push(constraint);
         }
@@ -207,9 +246,13 @@ export function parseTomlBlock(tomlContent: string): ParsedPlanToml {
  * Parse plan content and extract all decisions/constraints from TOML blocks
  *
  * @param content - Full markdown content of plan file
+ * @param categories - Project's active constraint categories (null accepts any)
  * @returns Merged decisions and constraints from all TOML blocks
  */
-export function parsePlanToml(content: string): ParsedPlanToml {
+export function parsePlanToml(
+  content: string,
+  categories: readonly string[] | null = DEFAULT_CONSTRAINT_CATEGORIES
+): ParsedPlanToml {
   const result: ParsedPlanToml = {
     decisions: [],
     constraints: [],
@@ -220,7 +263,7 @@ export function parsePlanToml(content: string): ParsedPlanToml {
 
   // Parse each block and merge results
   for (const block of blocks) {
-    const parsed = parseTomlBlock(block);
+    const parsed = parseTomlBlock(block, categories);
     result.decisions.push(...parsed.decisions);
     result.constraints.push(...parsed.constraints);
   }
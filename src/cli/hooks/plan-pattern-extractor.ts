@@ -11,18 +11,21 @@
  * - **Layer**: presentation | business | data | infrastructure | cross-cutting
  * - **Tags**: Why this decision was made
  *
- * ## 🚫 Constraint: [category]
+ * ## 🚫 Constraint: [category]   (one of the project's categories)
  * - **Rule**: Constraint description
  * - **Priority**: critical | high | medium | low
  * - **Tags**: Why this constraint exists
  *
  * @since v4.2.2
  * @modified v4.2.3 - Added resolvePlanPath and buildConfirmationMessage
+ * @modified v5.1.0 - buildConfirmationMessage replaced by buildPreviewMessage (approval flow)
  */
 
 import { existsSync } from 'fs';
 import { join } from 'path';
 import { homedir } from 'os';
+import { DEFAULT_CONSTRAINT_CATEGORIES } from '../../constants.js';
+import type { ParsedPlanToml } from './plan-parser.js';
 
 // ============================================================================
 // Types
@@ -73,9 +76,6 @@ export interface ExtractionResult {
 /** Valid layer values */
 const VALID_LAYERS = ['presentation', 'business', 'data', 'infrastructure', 'cross-cutting'];
 
-/** Valid constraint categories */
-const VALID_CATEGORIES = ['architecture', 'security', 'code-style', 'performance'];
-
 /** Valid priority values */
 const VALID_PRIORITIES = ['critical', 'high', 'medium', 'low'];
 
@@ -90,9 +90,13 @@ const GLOBAL_PLANS_DIR = join(homedir(), '.claude', 'plans');
  * Extract decisions and constraints from plan content using regex patterns
  *
  * @param content - Plan markdown content
+ * @param categories - Project's active constraint categories (v5.1.0; null accepts any)
  * @returns Extraction result with decisions and constraints
  */
-export function extractPatternsFromPlan(content: string): ExtractionResult {
+export function extractPatternsFromPlan(
+  content: string,
+  categories: readonly string[] | null = DEFAULT_CONSTRAINT_CATEGORIES
+): ExtractionResult {
   const decisions: ExtractedDecision[] = [];
   const constraints: ExtractedConstraint[] = [];
 
@@ -134,7 +138,7 @@ export function extractPatternsFromPlan(content: string): ExtractionResult {
     if (!rule) continue; // Skip if no rule
 
     constraints.push({
-      category: normalizeCategory(category),
+      category: normalizeCategory(category, categories),
       rule,
       priority: normalizePriority(extractField(body, 'Priority')),
       tags: extractField(body, 'Tags'),
@@ -199,13 +203,18 @@ function normalizeLayer(layer: string | undefined): string {
 /**
  * Normalize category value
  * Handles bracket notation: [code-style] → code-style
+ * Unknown categories fall back to architecture (or the first category if the project has none by that name).
+ * Without a category list, any category is kept as written (constraint.add validates it).
  */
-function normalizeCategory(category: string | undefined): string {
-  if (!category) return 'architecture';
+function normalizeCategory(category: string | undefined, categories: readonly string[] | null): string {
+  const fallback = !categories || categories.includes('architecture') ? 'architecture' : categories[0];
+  if (!category) return fallback;
   // Strip brackets: [code-style] → code-style
   const stripped = category.replace(/^\[|\]$/g, '');
   const normalized = stripped.toLowerCase().trim();
-  return VALID_CATEGORIES.includes(normalized) ? normalized : 'architecture';
+  if (!categories) return normalized || fallback;
+  const match = categories.find(c => c.toLowerCase() === normalized);
+  return match ?? fallback;
 }
 
 /**
@@ -255,39 +264,49 @@ export function resolvePlanPath(planFileName: string): string | null {
 // ============================================================================
 
 /**
- * Build confirmation message for user after pattern extraction
+ * Build preview message for user after pattern extraction (v5.1.0)
+ *
+ * Lists candidates with duplicate warnings and explains how to approve,
+ * edit or reject them. Indices match queue.approve / queue.reject.
  *
- * @param extracted - Extraction result
+ * @param candidates - Candidates awaiting approval
  * @param planFile - Plan file name
- * @returns Formatted confirmation message
+ * @returns Formatted preview message
  */
-export function buildConfirmationMessage(extracted: ExtractionResult, planFile: string): string {
+export function buildPreviewMessage(candidates: ParsedPlanToml, planFile: string): string {
   const lines: string[] = [
     '',
-    `📋 **Extracted from plan "${planFile}"**`,
+    `📋 **Extracted from plan "${planFile}"** → awaiting approval`,
     '',
   ];
 
-  if (extracted.decisions.length > 0) {
-    lines.push(`### ✅ Decisions (${extracted.decisions.length}) → auto-registered as draft`);
-    for (const d of extracted.decisions) {
-      lines.push(`- **${d.key}**: ${d.value}`);
-      if (d.layer) lines.push(`  - Layer: ${d.layer}`);
+  let index = 0;
+  if (candidates.decisions.length > 0) {
+    lines.push(`### Decisions (${candidates.decisions.length})`);
+    for (const d of candidates.decisions) {
+      lines.push(`${index++}. **${d.key}**: ${d.value}`);
+      if (d.layer) lines.push(`   - Layer: ${d.layer}`);
+      if (d.rationale) lines.push(`   - Rationale: ${d.rationale}`);
+      if (d.supersedes?.length) lines.push(`   - Supersedes: ${d.supersedes.join(', ')}`);
+      if (d.duplicate_warning) lines.push(`   - ⚠️ ${d.duplicate_warning}`);
     }
     lines.push('');
   }
 
-  if (extracted.constraints.length > 0) {
-    lines.push(`### ✅ Constraints (${extracted.constraints.length}) → auto-registered as active`);
-    for (const c of extracted.constraints) {
-      lines.push(`- **[${c.category}]** ${c.rule} (${c.priority || 'medium'})`);
+  if (candidates.constraints.length > 0) {
+    lines.push(`### Constraints (${candidates.constraints.length})`);
+    for (const c of candidates.constraints) {
+      lines.push(`${index++}. **[${c.category}]** ${c.text} (${c.priority || 'medium'})`);
+      if (c.duplicate_warning) lines.push(`   - ⚠️ ${c.duplicate_warning}`);
     }
     lines.push('');
   }
 
   lines.push('---');
-  lines.push('💡 Decisions will be promoted to active when implementation files are edited.');
-  lines.push('Check manually: `mcp__sqlew__decision({ action: "list", status: "draft" })`');
+  lines.push('💡 Nothing is saved until approved. Ask the user, then:');
+  lines.push('- Approve all: `mcp__sqlew__queue({ action: "approve" })`');
+  lines.push('- Edit, then approve one: `mcp__sqlew__queue({ action: "approve", index: 0, patch: { key: "..." } })`');
+  lines.push('- Drop one or all: `mcp__sqlew__queue({ action: "reject", index: 1 })`');
 
   return lines.join('\n');
 }
@@ -1,25 +1,42 @@
 /**
- * Plan Processor - Shared logic for plan pattern extraction and queue registration
+ * Plan Processor - Shared logic for plan pattern extraction and approval preview
  *
  * Consolidates duplicate logic from on-exit-plan.ts and on-subagent-stop.ts.
  * Single source of truth for:
- * - Pattern extraction from plan files
- * - Queue registration of decisions/constraints
+ * - Pattern extraction from plan files (markers and ```toml blocks)
+ * - Preview with duplicate warnings; candidates wait in the plan cache
+ *   for queue.approve / queue.reject (v5.1.0)
  * - Plan state management (recorded flag)
  *
  * @since v4.2.5
  */
 
 import { readFileSync } from 'fs';
-import { loadCurrentPlan, saveCurrentPlan, type CurrentPlanInfo } from '../../config/global-config.js';
-import { enqueueDecisionCreate, enqueueConstraintCreate } from '../../utils/hook-queue.js';
+import type { Knex } from 'knex';
+import {
+  loadCurrentPlan,
+  saveCurrentPlan,
+  loadPlanCache,
+  savePlanCache,
+  type CurrentPlanInfo,
+  type DecisionCandidate,
+  type ConstraintCandidate,
+} from '../../config/global-config.js';
+import { closeDatabase } from '../../database.js';
+import { openProjectDatabase, findProjectForPath } from '../project-database.js';
+import { listConstraintCategories } from '../../utils/constraint-categories.js';
+import { ProjectContext, type ProjectMetadata } from '../../utils/project-context.js';
+import { checkDuplicate } from '../../tools/suggest/actions/check-duplicate.js';
+import { constraintCheckDuplicate } from '../../tools/suggest/actions/constraint-check-duplicate.js';
+import { DEFAULT_CONSTRAINT_CATEGORIES } from '../../constants.js';
 import {
   extractPatternsFromPlan,
   hasPatterns,
   resolvePlanPath,
-  buildConfirmationMessage,
+  buildPreviewMessage,
   type ExtractionResult,
 } from './plan-pattern-extractor.js';
+import { extractTomlBlocks, parsePlanToml, type ParsedPlanToml } from './plan-parser.js';
 
 // ============================================================================
 // Types
@@ -31,35 +48,223 @@ export interface ProcessPlanResult {
   processed: boolean;
   /** Reason for skipping (if not processed) */
   skipReason?: string;
-  /** Extracted patterns (if processed) */
-  extracted?: ExtractionResult;
-  /** Confirmation message for user (if processed) */
+  /** Candidates awaiting approval (if processed, v5.1.0) */
+  candidates?: ParsedPlanToml;
+  /** Preview message for user (if processed) */
   confirmationMessage?: string;
 }
 
+/** Skip message when another plan's candidates still await approval (v5.1.0) */
+export const PENDING_APPROVAL_MESSAGE =
+  '[sqlew] Candidates from a previous plan still await approval. ' +
+  'Approve or reject them with queue.approve / queue.reject (see queue.list), then exit plan mode again.';
+
+// ============================================================================
+// Project Database
+// ============================================================================
+
+/**
+ * Open the project's database and look up its project row (v5.1.0)
+ *
+ * Read-only lookup shared by category loading and duplicate warnings, so a
+ * hook opens the database once. Returns null if the project has no database
+ * or is not registered in it. Callers must closeDatabase().
+ *
+ * @param projectPath - Project root path (project resolved by name, see findProjectForPath)
+ * @returns Knex instance and project, or null
+ */
+async function openPlanProject(projectPath: string): Promise<{ knex: Knex; project: ProjectMetadata } | null> {
+  try {
+    const adapter = await openProjectDatabase(projectPath);
+    if (!adapter) {
+      return null;
+    }
+    const knex = adapter.getKnex();
+    const project = await findProjectForPath(knex, projectPath);
+    return project ? { knex, project } : null;
+  } catch {
+    // Database not readable - preview without project data
+    return null;
+  }
+}
+
+// ============================================================================
+// Constraint Categories
+// ============================================================================
+
+/**
+ * Load the project's active constraint categories (v5.1.0)
+ *
+ * Extracted constraints then use a category constraint.add accepts when the
+ * queue is processed. Falls back to the default categories if the project
+ * has none. Returns null if the lookup fails: unknown categories are then
+ * kept and validated by constraint.add instead of being dropped.
+ *
+ * @param knex - Project database
+ * @param projectId - Project ID
+ * @returns Active category names, or null if they could not be read
+ */
+export async function loadConstraintCategories(knex: Knex, projectId: number): Promise<string[] | null> {
+  try {
+    const categories = await listConstraintCategories(knex, projectId);
+    return categories.length > 0 ? categories.map(c => c.name) : [...DEFAULT_CONSTRAINT_CATEGORIES];
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// Candidates
+// ============================================================================
+
+/**
+ * Merge marker patterns and TOML entries into plan candidates (v5.1.0)
+ *
+ * TOML entries win over a marker decision with the same key (they carry
+ * rationale, alternatives and tradeoffs). All candidates get the plan tags.
+ *
+ * @param extracted - Marker patterns (📌 Decision / 🚫 Constraint)
+ * @param toml - [[decision]] / [[constraint]] entries
+ * @param planTags - Tags identifying the plan
+ * @returns Decision and constraint candidates
+ */
+export function buildPlanCandidates(
+  extracted: ExtractionResult,
+  toml: ParsedPlanToml,
+  planTags: string[]
+): ParsedPlanToml {
+  const withPlanTags = (tags: string[] = []) => [...new Set([...planTags, ...tags])];
+  const splitTags = (tags?: string) => tags ? tags.split(',').map(t => t.trim()).filter(t => t) : [];
+  const tomlKeys = new Set(toml.decisions.map(d => d.key));
+
+  const decisions: DecisionCandidate[] = [
+    ...extracted.decisions
+      .filter(d => !tomlKeys.has(d.key))
+      .map(d => ({
+        key: d.key,
+        value: d.value,
+        status: 'active',  // Use active for suggest/duplicate detection
+        layer: d.layer || 'cross-cutting',
+        tags: withPlanTags(splitTags(d.tags)),
+      })),
+    ...toml.decisions.map(d => ({ ...d, tags: withPlanTags(d.tags) })),
+  ];
+
+  const constraints: ConstraintCandidate[] = [
+    ...extracted.constraints.map(c => ({
+      text: c.rule,
+      category: c.category,
+      priority: c.priority || 'medium',
+      layer: 'cross-cutting',
+      tags: withPlanTags(splitTags(c.tags)),
+    })),
+    ...toml.constraints.map(c => ({ ...c, tags: withPlanTags(c.tags) })),
+  ];
+
+  return { decisions, constraints };
+}
+
+/**
+ * Attach suggest.check_duplicate warnings to candidates (v5.1.0)
+ *
+ * Read-only. Runs against the already opened project database; skipped
+ * if the check fails.
+ *
+ * @param project - Project the candidates belong to
+ * @param candidates - Candidates to check (duplicate_warning is set in place)
+ */
+export async function addDuplicateWarnings(project: ProjectMetadata, candidates: ParsedPlanToml): Promise<void> {
+  try {
+    await ProjectContext.runWithProject(project, async () => {
+      for (const d of candidates.decisions) {
+        const result = await checkDuplicate({ key: d.key, value: d.value, tags: d.tags, rationale: d.rationale });
+        if (result.match_type === 'exact' && result.existing_decision) {
+          d.duplicate_warning = result.verdict === 'conflicting'
+            ? `Decision "${d.key}" already exists with a different value (v${result.existing_decision.version}): ${result.existing_decision.value}`
+            : `Decision "${d.key}" already exists (v${result.existing_decision.version}): ${result.existing_decision.value}`;
+        } else if (result.matches?.length) {
+          const match = result.matches[0];
+          d.duplicate_warning = `${result.explanation} (score ${match.similarity}): ${match.value}`;
+        }
+      }
+      for (const c of candidates.constraints) {
+        const result = await constraintCheckDuplicate({ text: c.text, category: c.category });
+        if (result.match_type === 'exact' && result.existing) {
+          c.duplicate_warning = `Constraint #${result.existing.id} already exists: ${result.existing.constraint_text}`;
+        } else if (result.match_type === 'similar' && result.similar_constraints?.length) {
+          const similar = result.similar_constraints[0];
+          c.duplicate_warning = `Similar to constraint #${similar.id} (score ${similar.score}): ${similar.constraint_text}`;
+        }
+      }
+    });
+  } catch {
+    // Duplicate check failed - preview without warnings
+  }
+}
+
+/**
+ * Extract plan candidates and attach duplicate warnings (v5.1.0)
+ *
+ * Opens the project's database once for categories and duplicate checks.
+ * Without a readable project database, candidates keep their categories as
+ * written (constraint.add validates them) and carry no warnings.
+ *
+ * @param projectPath - Project root path
+ * @param content - Plan markdown content
+ * @param planTags - Tags identifying the plan
+ * @returns Candidates awaiting approval
+ */
+export async function buildPlanPreview(
+  projectPath: string,
+  content: string,
+  planTags: string[]
+): Promise<ParsedPlanToml> {
+  try {
+    const opened = await openPlanProject(projectPath);
+    const categories = opened ? await loadConstraintCategories(opened.knex, opened.project.id) : null;
+
+    const candidates = buildPlanCandidates(
+      extractPatternsFromPlan(content, categories),
+      parsePlanToml(content, categories),
+      planTags
+    );
+
+    if (opened && (candidates.decisions.length > 0 || candidates.constraints.length > 0)) {
+      await addDuplicateWarnings(opened.project, candidates);
+    }
+    return candidates;
+  } finally {
+    await closeDatabase();
+  }
+}
+
 // ============================================================================
 // Main Processing Function
 // ============================================================================
 
 /**
- * Process plan patterns and enqueue decisions/constraints
+ * Process plan patterns and stage decisions/constraints for approval
  *
  * This is the single entry point for plan pattern processing.
  * Both on-exit-plan and on-subagent-stop should call this function.
  *
  * Flow:
  * 1. Load current plan info
- * 2. Check if already recorded (skip if true)
+ * 2. Check if already recorded (skip if true) or another plan awaits approval
  * 3. Read plan file content
- * 4. Extract patterns (decisions/constraints)
- * 5. Enqueue items for registration
- * 6. Mark plan as recorded
- * 7. Return confirmation message
+ * 4. Extract patterns and TOML entries using the project's categories
+ * 5. Check candidates for duplicates (one project database connection)
+ * 6. Save candidates to the plan cache (pending approval, v5.1.0)
+ * 7. Mark plan as recorded
+ * 8. Return preview message
+ *
+ * Nothing is queued here: queue.approve moves candidates to the queue,
+ * queue.reject drops them.
  *
  * @param projectPath - Project root path
  * @returns Processing result with status and message
  */
-export function processPlanPatterns(projectPath: string): ProcessPlanResult {
+export async function processPlanPatterns(projectPath: string): Promise<ProcessPlanResult> {
   // Load current plan info
   const planInfo = loadCurrentPlan(projectPath);
   if (!planInfo?.plan_file) {
@@ -71,6 +276,12 @@ export function processPlanPatterns(projectPath: string): ProcessPlanResult {
     return { processed: false, skipReason: 'already_recorded' };
   }
 
+  // Never overwrite another plan's candidates that still await approval
+  const pendingCache = loadPlanCache(projectPath);
+  if (pendingCache?.pending_approval && pendingCache.plan_id !== planInfo.plan_id) {
+    return { processed: false, skipReason: 'pending_approval' };
+  }
+
   // Resolve plan file path
   const planPath = resolvePlanPath(planInfo.plan_file);
   if (!planPath) {
@@ -86,51 +297,29 @@ export function processPlanPatterns(projectPath: string): ProcessPlanResult {
   }
 
   // Check for patterns (quick check)
-  if (!hasPatterns(content)) {
+  if (!hasPatterns(content) && extractTomlBlocks(content).length === 0) {
     return { processed: false, skipReason: 'no_patterns' };
   }
 
-  // Extract patterns
-  const extracted = extractPatternsFromPlan(content);
-
-  if (extracted.decisions.length === 0 && extracted.constraints.length === 0) {
-    return { processed: false, skipReason: 'no_valid_patterns' };
-  }
-
-  // Enqueue items
+  // Extract patterns and TOML entries, check them for duplicates
   const planIdTag = planInfo.plan_id.slice(0, 8);
+  const candidates = await buildPlanPreview(projectPath, content, ['plan', 'auto-extracted', planIdTag]);
 
-  for (const decision of extracted.decisions) {
-    const extractedTags = decision.tags
-      ? decision.tags.split(',').map(t => t.trim()).filter(t => t)
-      : [];
-    const allTags = ['plan', 'auto-extracted', planIdTag, ...extractedTags];
-
-    enqueueDecisionCreate(projectPath, {
-      key: decision.key,
-      value: decision.value,
-      status: 'active',  // Use active for suggest/duplicate detection
-      layer: decision.layer || 'cross-cutting',
-      tags: allTags,
-    });
+  if (candidates.decisions.length === 0 && candidates.constraints.length === 0) {
+    return { processed: false, skipReason: 'no_valid_patterns' };
   }
 
-  for (const constraint of extracted.constraints) {
-    const extractedTags = constraint.tags
-      ? constraint.tags.split(',').map(t => t.trim()).filter(t => t)
-      : [];
-    const allTags = ['plan', 'auto-extracted', planIdTag, ...extractedTags];
-
-    enqueueConstraintCreate(projectPath, {
-      text: constraint.rule,
-      category: constraint.category,
-      priority: constraint.priority || 'medium',
-      layer: 'cross-cutting',
-      tags: allTags,
-      active: true,
-      plan_id: planInfo.plan_id,
-    });
-  }
+  // Stage candidates until queue.approve / queue.reject
+  savePlanCache(projectPath, {
+    plan_id: planInfo.plan_id,
+    decisions: candidates.decisions,
+    constraints: candidates.constraints,
+    updated_at: new Date().toISOString(),
+    decisions_registered: false,
+    constraints_prompted: false,
+    pending_approval: true,
+    plan_file: planInfo.plan_file,
+  });
 
   // Mark plan as recorded (CRITICAL: prevents duplicate processing)
   const updatedInfo: CurrentPlanInfo = {
@@ -141,12 +330,9 @@ export function processPlanPatterns(projectPath: string): ProcessPlanResult {
   };
   saveCurrentPlan(projectPath, updatedInfo);
 
-  // Build confirmation message
-  const confirmationMessage = buildConfirmationMessage(extracted, planInfo.plan_file);
-
   return {
     processed: true,
-    extracted,
-    confirmationMessage,
+    candidates,
+    confirmationMessage: buildPreviewMessage(candidates, planInfo.plan_file),
   };
 }
@@ -111,6 +111,17 @@ export interface PostToolUseHookOutput {
   additionalContext?: string;
 }
 
+/**
+ * Hook-specific output for SessionStart (v5.1.0)
+ * Used for injecting context at session start
+ */
+export interface SessionStartHookOutput {
+  /** Hook event name */
+  hookEventName: 'SessionStart';
+  /** Additional context to inject into Claude's context */
+  additionalContext?: string;
+}
+
 /**
  * Hook output to Claude Code
  */
@@ -125,8 +136,8 @@ export interface HookOutput {
   systemMessage?: string;
   /** Whether to suppress output */
   suppressOutput?: boolean;
-  /** Hook-specific output (PreToolUse, PostToolUse) - v4.2.0+ */
-  hookSpecificOutput?: PreToolUseHookOutput | PostToolUseHookOutput;
+  /** Hook-specific output (PreToolUse, PostToolUse, SessionStart) - v4.2.0+ */
+  hookSpecificOutput?: PreToolUseHookOutput | PostToolUseHookOutput | SessionStartHookOutput;
   /** @deprecated Use hookSpecificOutput.updatedInput instead */
   updatedInput?: ToolInput;
 }
@@ -227,6 +238,22 @@ export function sendPostToolUseContext(additionalContext: string): void {
   writeHookOutput(output);
 }
 
+/**
+ * Send a continue response with context for SessionStart (v5.1.0)
+ *
+ * @param additionalContext - Context to inject at session start
+ */
+export function sendSessionStartContext(additionalContext: string): void {
+  const output: HookOutput = {
+    continue: true,
+    hookSpecificOutput: {
+      hookEventName: 'SessionStart',
+      additionalContext,
+    },
+  };
+  writeHookOutput(output);
+}
+
 /**
  * Send a block response (exit code 2)
  *
@@ -47,7 +47,7 @@ const PLAN_TEMPLATE = `
 - **Rationale**: Why this decision was made
 
 ### 🚫 Constraint: [category]
-- **Rule**: Description (category: architecture | security | code-style | performance)
+- **Rule**: Description (category: a project constraint category, e.g. architecture | security | code-style | performance)
 - **Priority**: critical | high | medium | low
 - **Tags**: comma-separated tags
 
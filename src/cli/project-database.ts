@@ -0,0 +1,68 @@
+/**
+ * Project database opener for CLI commands and hooks
+ *
+ * Resolves the database from the project's .sqlew/config.toml (like db:export)
+ * instead of the knexfile default, which points at the package directory
+ * when sqlew runs as an installed package.
+ *
+ * @since v5.1.0
+ */
+
+import { existsSync } from 'fs';
+import { resolve } from 'path';
+import type { Knex } from 'knex';
+import type { DatabaseAdapter } from '../adapters/index.js';
+import { initializeDatabase } from '../database.js';
+import { loadConfigFile } from '../config/loader.js';
+import { DEFAULT_DB_PATH } from '../constants.js';
+import { detectProjectName } from '../utils/project-detector.js';
+import { ProjectContext, type ProjectMetadata } from '../utils/project-context.js';
+
+/**
+ * Open the database configured for a project
+ *
+ * SQLite paths are resolved against the project root. Returns null if the
+ * project's SQLite database does not exist yet (nothing is created).
+ * Callers must closeDatabase() when an adapter is returned.
+ *
+ * @param projectPath - Project root path
+ * @returns Initialized adapter, or null if the project has no database
+ */
+export async function openProjectDatabase(projectPath: string): Promise<DatabaseAdapter | null> {
+  const fileConfig = loadConfigFile(projectPath);
+  const dbType = fileConfig.database?.type;
+
+  if (dbType === 'mysql' || dbType === 'postgres') {
+    return initializeDatabase({
+      databaseType: dbType === 'postgres' ? 'postgresql' : 'mysql',
+      connection: {
+        ...fileConfig.database!.connection,
+        user: fileConfig.database!.auth?.user,
+        password: fileConfig.database!.auth?.password,
+      },
+    });
+  }
+
+  const dbPath = resolve(projectPath, fileConfig.database?.path || DEFAULT_DB_PATH);
+  if (!existsSync(dbPath)) {
+    return null;
+  }
+  return initializeDatabase({ connection: { filename: dbPath } });
+}
+
+/**
+ * Find the registered project for a project root
+ *
+ * The name is resolved like the MCP server does at startup (config.toml
+ * [project] name, then git remote, then directory name) and looked up by
+ * name; project_root_path is not unique and may point at another checkout.
+ * Nothing is created.
+ *
+ * @param knex - Project database from openProjectDatabase()
+ * @param projectPath - Project root path
+ * @returns Project metadata, or null if no project has the resolved name
+ */
+export async function findProjectForPath(knex: Knex, projectPath: string): Promise<ProjectMetadata | null> {
+  const { name } = await detectProjectName(projectPath);
+  return ProjectContext.getInstance().findProject(knex, name);
+}
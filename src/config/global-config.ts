@@ -389,8 +389,14 @@ export interface DecisionCandidate {
   rationale?: string;
   /** Other options considered */
   alternatives?: string[];
-  /** Gains vs sacrifices */
-  tradeoffs?: string;
+  /** Gains vs sacrifices (v5.1.0: also a { pros, cons } table) */
+  tradeoffs?: string | { pros?: string[]; cons?: string[] };
+  /** Keys of decisions this one replaces; they become deprecated (v5.1.0) */
+  supersedes?: string[];
+  /** Scopes the decision applies to (v5.1.0) */
+  scopes?: string[];
+  /** Duplicate warning from the plan preview (v5.1.0) */
+  duplicate_warning?: string;
 }
 
 /**
@@ -399,7 +405,7 @@ export interface DecisionCandidate {
 export interface ConstraintCandidate {
   /** Required: rule description */
   text: string;
-  /** Required: architecture|security|code-style|performance */
+  /** Required: one of the project's constraint categories (default: architecture|security|code-style|performance) */
   category: string;
   /** Priority: critical|high|medium|low (default: medium) */
   priority?: string;
@@ -409,6 +415,8 @@ export interface ConstraintCandidate {
   tags?: string[];
   /** Why this rule exists */
   rationale?: string;
+  /** Duplicate warning from the plan preview (v5.1.0) */
+  duplicate_warning?: string;
 }
 
 /**
@@ -428,6 +436,13 @@ export interface PlanCache {
   decisions_registered: boolean;
   /** Whether user has been prompted about constraints */
   constraints_prompted: boolean;
+  /**
+   * Candidates wait for queue.approve / queue.reject instead of being
+   * registered automatically (v5.1.0, set by the ExitPlanMode preview)
+   */
+  pending_approval?: boolean;
+  /** Plan file the candidates were extracted from (v5.1.0) */
+  plan_file?: string;
 }
 
 /**
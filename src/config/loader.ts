@@ -75,6 +75,9 @@ export function loadConfigFile(projectRoot: string = process.cwd(), configPath?:
         ...DEFAULT_CONFIG.commands,
         ...parsed.commands,
       },
+      ...(parsed.server && { server: parsed.server }),
+      ...(parsed.queue && { queue: parsed.queue }),
+      ...(parsed.suggest && { suggest: parsed.suggest }),
     };
 
     // Validate the merged configuration
@@ -346,6 +349,60 @@ export function validateConfig(config: SqlewConfig): { valid: boolean; errors: s
     }
   }
 
+  // Validate HTTP transport settings (v5.1.0)
+  if (config.server) {
+    if (config.server.port !== undefined) {
+      if (!Number.isInteger(config.server.port) || config.server.port < 1 || config.server.port > 65535) {
+        errors.push('server.port must be between 1 and 65535');
+      }
+    }
+    if (config.server.auth_token !== undefined) {
+      if (typeof config.server.auth_token !== 'string' || config.server.auth_token.trim() === '') {
+        errors.push('server.auth_token must be a non-empty string');
+      }
+    }
+    if (config.server.session_idle_minutes !== undefined) {
+      if (config.server.session_idle_minutes < 1 || config.server.session_idle_minutes > 1440) {
+        errors.push('server.session_idle_minutes must be between 1 and 1440 (24 hours)');
+      }
+    }
+  }
+
+  // Validate hook queue settings (v5.1.0)
+  if (config.queue) {
+    if (config.queue.store !== undefined && !['spool', 'sqlite'].includes(config.queue.store)) {
+      errors.push('queue.store must be "spool" or "sqlite"');
+    }
+  }
+
+  // Validate suggest settings (v5.1.0)
+  const embeddings = config.suggest?.embeddings;
+  if (embeddings) {
+    if (embeddings.provider !== undefined && !['none', 'tfidf', 'transformers'].includes(embeddings.provider)) {
+      errors.push('suggest.embeddings.provider must be "none", "tfidf" or "transformers"');
+    }
+    if (embeddings.model_path !== undefined && (typeof embeddings.model_path !== 'string' || embeddings.model_path.trim() === '')) {
+      errors.push('suggest.embeddings.model_path must be a non-empty string');
+    }
+    if (embeddings.provider === 'transformers' && !embeddings.model_path) {
+      errors.push('suggest.embeddings.model_path is required when provider is "transformers"');
+    }
+  }
+  const weights = config.suggest?.weights;
+  if (weights) {
+    const validKeys = ['tags', 'layer', 'similarity', 'scope', 'recency', 'priority'] as const;
+    for (const [key, weight] of Object.entries(weights)) {
+      if (!(validKeys as readonly string[]).includes(key)) {
+        errors.push(`suggest.weights has invalid key: ${key} (valid: ${validKeys.join(', ')})`);
+      } else if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+        errors.push(`suggest.weights.${key} must be a non-negative number`);
+      }
+    }
+    if (validKeys.every(key => weights[key] === 0)) {
+      errors.push('suggest.weights must not all be 0');
+    }
+  }
+
   // Validate agents settings
   if (config.agents) {
     const validKeys = ['scrum_master', 'researcher', 'architect'];
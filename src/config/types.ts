@@ -358,6 +358,88 @@ export interface ProjectConfig {
   display_name?: string;
 }
 
+/**
+ * HTTP transport configuration (v5.1.0)
+ *
+ * Used when the server is started with --transport=http so several agents
+ * can share one sqlew process (e.g. against a shared PostgreSQL database).
+ */
+export interface ServerConfig {
+  /** Interface to bind (default: "127.0.0.1") */
+  host?: string;
+  /** Port to listen on (default: 3700, --port takes precedence) */
+  port?: number;
+  /**
+   * Bearer token clients must send as `Authorization: Bearer <token>`.
+   * Required when host is not a loopback address.
+   */
+  auth_token?: string;
+  /** Close HTTP sessions without requests for this many minutes (default: 30) */
+  session_idle_minutes?: number;
+}
+
+/**
+ * Hook queue configuration (v5.1.0)
+ */
+export interface QueueConfig {
+  /**
+   * Queue store for hook items:
+   * - "spool": one file per item in .sqlew/queue/spool/ (default)
+   * - "sqlite": table in .sqlew/queue/queue.db
+   */
+  store?: 'spool' | 'sqlite';
+}
+
+/**
+ * Embedding settings for semantic suggest scoring (v5.1.0)
+ */
+export interface EmbeddingsConfig {
+  /**
+   * Embedding provider:
+   * - "none": lexical similarity only (default)
+   * - "tfidf": built-in TF-IDF vectors, no model files needed
+   * - "transformers": local ONNX model via transformers.js (@huggingface/transformers)
+   */
+  provider?: 'none' | 'tfidf' | 'transformers';
+  /**
+   * Model directory for the "transformers" provider
+   * (e.g. ".sqlew/models/all-MiniLM-L6-v2", relative to the project root).
+   * Models are never downloaded.
+   */
+  model_path?: string;
+}
+
+/**
+ * Suggest score weights (v5.1.0)
+ *
+ * Relative points per score component; scores are scaled so the weights
+ * sum to 100. Omitted components keep their default.
+ */
+export interface SuggestWeightsConfig {
+  /** Tag overlap (default: 40) */
+  tags?: number;
+  /** Same layer (default: 25) */
+  layer?: number;
+  /** Key / constraint text similarity, or semantic similarity (default: 20) */
+  similarity?: number;
+  /** Scope overlap with the query scopes (default: 0) */
+  scope?: number;
+  /** Recently updated (default: 10) */
+  recency?: number;
+  /** Candidate priority (default: 5) */
+  priority?: number;
+}
+
+/**
+ * Suggest scoring configuration (v5.1.0)
+ */
+export interface SuggestConfig {
+  /** Semantic similarity via local embeddings */
+  embeddings?: EmbeddingsConfig;
+  /** Score component weights */
+  weights?: SuggestWeightsConfig;
+}
+
 // ============================================================================
 // Cloud Backend Configuration (v4.4.0+)
 // ============================================================================
@@ -411,6 +493,12 @@ export interface SqlewConfig {
   agents?: AgentsConfig;
   /** Slash commands settings */
   commands?: CommandsConfig;
+  /** HTTP transport settings (v5.1.0) */
+  server?: ServerConfig;
+  /** Hook queue settings (v5.1.0) */
+  queue?: QueueConfig;
+  /** Suggest scoring settings (v5.1.0) */
+  suggest?: SuggestConfig;
 }
 
 /**
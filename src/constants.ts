@@ -3,7 +3,7 @@
  * Enum mappings, default values, and standard data
  */
 
-import { Status, MessageType, Priority } from './types.js';
+import { Status, MessageType, Priority, DecisionRelationType, ChangeEventType } from './types.js';
 
 // ============================================================================
 // Database Configuration
@@ -237,6 +237,21 @@ export const FILE_OPTIONAL_LAYERS = [
   'review',        // Code review, verification
 ] as const;
 
+// ============================================================================
+// Constraint Categories (v5.1.0)
+// ============================================================================
+
+/**
+ * Categories seeded into every project's m_constraint_categories
+ * Projects can create, rename and retire categories from there on.
+ */
+export const DEFAULT_CONSTRAINT_CATEGORIES = [
+  'architecture',
+  'security',
+  'code-style',
+  'performance',
+] as const;
+
 // ============================================================================
 // Standard Categories
 // ============================================================================
@@ -274,6 +289,40 @@ export const COMMON_TAGS = [
 
 export type CommonTag = typeof COMMON_TAGS[number];
 
+// ============================================================================
+// Decision Relations (v5.1.0)
+// ============================================================================
+
+/**
+ * Relation types between decisions (source → target)
+ * A `supersedes` link moves the target decision to deprecated.
+ */
+export const DECISION_RELATION_TYPES: readonly DecisionRelationType[] = [
+  'supersedes',
+  'depends_on',
+  'refines',
+  'conflicts_with',
+];
+
+// ============================================================================
+// Change Feed (v5.1.0)
+// ============================================================================
+
+/**
+ * Event types returned by decision.changes
+ */
+export const CHANGE_EVENT_TYPES: readonly ChangeEventType[] = [
+  'created',
+  'updated',
+  'status_changed',
+  'deleted',
+  'context_added',
+  'constraint_added',
+  'constraint_updated',
+  'constraint_activated',
+  'constraint_deactivated',
+];
+
 // ============================================================================
 // Query Defaults
 // ============================================================================
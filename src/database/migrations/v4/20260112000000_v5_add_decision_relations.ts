@@ -0,0 +1,51 @@
+/**
+ * v5.1: Add explicit decision-to-decision relations
+ *
+ * Creates t_decision_relations, a first-class link table between decisions.
+ * Previously decisions were only related implicitly via tags, scopes and
+ * t_decision_context.related_constraint_id.
+ *
+ * Relation types (validated at application level):
+ * - supersedes: source replaces target (target moves to deprecated)
+ * - depends_on: source requires target
+ * - refines: source narrows or elaborates target
+ * - conflicts_with: source contradicts target
+ *
+ * IDEMPOTENT: Can be run multiple times safely.
+ * SQLite, MySQL, PostgreSQL compatible.
+ */
+
+import type { Knex } from 'knex';
+import { UniversalKnex } from '../../../utils/universal-knex.js';
+
+export async function up(knex: Knex): Promise<void> {
+  const db = new UniversalKnex(knex);
+
+  console.error('🔄 v5.1: Adding decision relations table...');
+
+  await db.createTableSafe('t_decision_relations', (table, helpers) => {
+    table.increments('id').primary();
+    table.integer('project_id').unsigned().notNullable();
+    table.integer('source_key_id').unsigned().notNullable();
+    table.integer('target_key_id').unsigned().notNullable();
+    table.string('relation_type', 32).notNullable();
+    table.text('note').nullable();
+    helpers.timestampColumn('ts');
+    table.unique(['project_id', 'source_key_id', 'target_key_id', 'relation_type']);
+    table.foreign('project_id').references('m_projects.id').onDelete('CASCADE');
+    table.foreign('source_key_id').references('m_context_keys.id');
+    table.foreign('target_key_id').references('m_context_keys.id');
+  });
+
+  await db.createIndexSafe('t_decision_relations', ['project_id', 'target_key_id'], 'idx_t_decision_relations_target');
+
+  console.error('✅ v5.1: t_decision_relations ready');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  console.error('🔄 Rolling back v5.1 decision relations...');
+
+  await knex.schema.dropTableIfExists('t_decision_relations');
+
+  console.error('✅ t_decision_relations dropped');
+}
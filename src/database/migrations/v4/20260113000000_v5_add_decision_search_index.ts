@@ -0,0 +1,144 @@
+/**
+ * v5.1: Add full-text search index for decisions
+ *
+ * Creates t_decision_search (one row per decision) covering key, value,
+ * rationale, alternatives and tradeoffs, then backfills it from existing data.
+ *
+ * Database-specific index:
+ * - SQLite:     FTS5 virtual table
+ * - PostgreSQL: generated weighted tsvector column + GIN index
+ * - MySQL:      FULLTEXT index (InnoDB)
+ *
+ * IDEMPOTENT: Can be run multiple times safely.
+ * SQLite, MySQL, PostgreSQL compatible.
+ */
+
+import type { Knex } from 'knex';
+import { UniversalKnex } from '../../../utils/universal-knex.js';
+
+/**
+ * Flatten a JSON context column (alternatives_considered / tradeoffs) into plain text
+ */
+function flattenJson(raw: string | null): string {
+  if (!raw) {
+    return '';
+  }
+  try {
+    const collect = (value: unknown): string[] => {
+      if (value === null || value === undefined) return [];
+      if (Array.isArray(value)) return value.flatMap(collect);
+      if (typeof value === 'object') return Object.values(value as Record<string, unknown>).flatMap(collect);
+      return [String(value)];
+    };
+    return collect(JSON.parse(raw)).join(' ');
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * Index every existing decision with its aggregated context
+ * Kept local to the migration so later changes to the live index code cannot alter it.
+ * @returns Number of indexed decisions
+ */
+async function backfillSearchIndex(knex: Knex): Promise<number> {
+  const decisions = await knex('t_decisions as d')
+    .join('m_context_keys as k', 'd.key_id', 'k.id')
+    .leftJoin('t_decisions_numeric as dn', function () {
+      this.on('dn.key_id', '=', 'd.key_id').andOn('dn.project_id', '=', 'd.project_id');
+    })
+    .select('d.project_id', 'd.key_id', 'k.key_name', 'd.value', 'dn.value as numeric_value') as Array<{
+      project_id: number; key_id: number; key_name: string; value: string; numeric_value: number | null;
+    }>;
+
+  const contexts = await knex('t_decision_context')
+    .orderBy('id', 'asc')
+    .select('project_id', 'decision_key_id', 'rationale', 'alternatives_considered', 'tradeoffs') as Array<{
+      project_id: number; decision_key_id: number;
+      rationale: string | null; alternatives_considered: string | null; tradeoffs: string | null;
+    }>;
+
+  const contextsByDecision = new Map<string, typeof contexts>();
+  for (const c of contexts) {
+    const id = `${c.project_id}:${c.decision_key_id}`;
+    contextsByDecision.set(id, [...(contextsByDecision.get(id) ?? []), c]);
+  }
+
+  for (const d of decisions) {
+    const related = contextsByDecision.get(`${d.project_id}:${d.key_id}`) ?? [];
+    await knex('t_decision_search').insert({
+      project_id: d.project_id,
+      key_id: d.key_id,
+      key_name: d.key_name,
+      value: d.numeric_value !== null && d.numeric_value !== undefined ? String(d.numeric_value) : d.value,
+      rationale: related.map(c => c.rationale ?? '').filter(Boolean).join('\n'),
+      alternatives: related.map(c => flattenJson(c.alternatives_considered)).filter(Boolean).join('\n'),
+      tradeoffs: related.map(c => flattenJson(c.tradeoffs)).filter(Boolean).join('\n'),
+    });
+  }
+
+  return decisions.length;
+}
+
+export async function up(knex: Knex): Promise<void> {
+  const db = new UniversalKnex(knex);
+
+  console.error('🔄 v5.1: Adding decision full-text search index...');
+
+  if (await knex.schema.hasTable('t_decision_search')) {
+    console.error('✓ t_decision_search already exists, skipping');
+    return;
+  }
+
+  if (db.isSQLite) {
+    await knex.raw(`
+      CREATE VIRTUAL TABLE t_decision_search USING fts5(
+        key_name, value, rationale, alternatives, tradeoffs,
+        project_id UNINDEXED, key_id UNINDEXED,
+        tokenize = 'unicode61 remove_diacritics 2'
+      )
+    `);
+  } else {
+    await knex.schema.createTable('t_decision_search', (table) => {
+      table.integer('project_id').unsigned().notNullable();
+      table.integer('key_id').unsigned().notNullable();
+      table.string('key_name', 255).notNullable();
+      table.text('value').notNullable();
+      table.text('rationale').notNullable();
+      table.text('alternatives').notNullable();
+      table.text('tradeoffs').notNullable();
+      table.primary(['project_id', 'key_id']);
+      table.foreign('project_id').references('m_projects.id').onDelete('CASCADE');
+    });
+
+    if (db.isPostgreSQL) {
+      await knex.raw(`
+        ALTER TABLE t_decision_search ADD COLUMN search_vector tsvector
+        GENERATED ALWAYS AS (
+          setweight(to_tsvector('simple', key_name), 'A') ||
+          setweight(to_tsvector('simple', value), 'A') ||
+          setweight(to_tsvector('simple', rationale), 'B') ||
+          setweight(to_tsvector('simple', alternatives || ' ' || tradeoffs), 'C')
+        ) STORED
+      `);
+      await knex.raw('CREATE INDEX idx_t_decision_search_vector ON t_decision_search USING GIN (search_vector)');
+    } else {
+      await knex.raw(`
+        ALTER TABLE t_decision_search
+        ADD FULLTEXT INDEX idx_t_decision_search_fulltext (key_name, value, rationale, alternatives, tradeoffs)
+      `);
+    }
+  }
+
+  const indexed = await backfillSearchIndex(knex);
+
+  console.error(`✅ v5.1: t_decision_search ready (${indexed} decisions indexed)`);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  console.error('🔄 Rolling back v5.1 decision search index...');
+
+  await knex.schema.dropTableIfExists('t_decision_search');
+
+  console.error('✅ t_decision_search dropped');
+}
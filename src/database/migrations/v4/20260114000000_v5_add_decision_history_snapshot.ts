@@ -0,0 +1,53 @@
+/**
+ * v5.1: Snapshot decision metadata in t_decision_history
+ *
+ * History rows previously stored only version and value, so a diff between
+ * versions could not show metadata changes. New nullable columns:
+ * - layer_id: Layer of the version (FK m_layers)
+ * - status:   Status integer of the version
+ * - tags:     Comma-separated tag names (sorted)
+ * - scopes:   Comma-separated scope names (sorted)
+ *
+ * Rows written before this migration keep NULL (metadata unknown).
+ *
+ * IDEMPOTENT: Can be run multiple times safely.
+ * SQLite, MySQL, PostgreSQL compatible.
+ */
+
+import type { Knex } from 'knex';
+import { UniversalKnex } from '../../../utils/universal-knex.js';
+
+export async function up(knex: Knex): Promise<void> {
+  const db = new UniversalKnex(knex);
+
+  console.error('🔄 v5.1: Adding metadata snapshot columns to t_decision_history...');
+
+  await db.addColumnSafe('t_decision_history', 'layer_id', (table) =>
+    table.integer('layer_id').unsigned().nullable()
+  );
+  await db.addColumnSafe('t_decision_history', 'status', (table) =>
+    table.integer('status').nullable()
+  );
+  await db.addColumnSafe('t_decision_history', 'tags', (table) =>
+    table.text('tags').nullable()
+  );
+  await db.addColumnSafe('t_decision_history', 'scopes', (table) =>
+    table.text('scopes').nullable()
+  );
+
+  console.error('✅ v5.1: t_decision_history snapshot columns ready');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  console.error('🔄 Rolling back v5.1 decision history snapshot...');
+
+  for (const column of ['layer_id', 'status', 'tags', 'scopes']) {
+    if (await knex.schema.hasColumn('t_decision_history', column)) {
+      await knex.schema.alterTable('t_decision_history', (table) => {
+        table.dropColumn(column);
+      });
+    }
+  }
+
+  console.error('✅ t_decision_history snapshot columns dropped');
+}
@@ -0,0 +1,51 @@
+/**
+ * v5.1: Add change event log for decision.changes
+ *
+ * Creates t_change_events, an append-only log of decision and constraint
+ * changes. Agents read it incrementally with a cursor (the event id) instead
+ * of polling counts via has_updates.
+ *
+ * Event types (validated at application level):
+ * - created, updated, status_changed, deleted: decision lifecycle
+ * - context_added: row added to t_decision_context
+ * - constraint_added, constraint_deactivated: constraint lifecycle
+ *
+ * key_id / constraint_id are plain columns without foreign keys so events
+ * outlive hard-deleted decisions and constraints.
+ *
+ * IDEMPOTENT: Can be run multiple times safely.
+ * SQLite, MySQL, PostgreSQL compatible.
+ */
+
+import type { Knex } from 'knex';
+import { UniversalKnex } from '../../../utils/universal-knex.js';
+
+export async function up(knex: Knex): Promise<void> {
+  const db = new UniversalKnex(knex);
+
+  console.error('🔄 v5.1: Adding change event log...');
+
+  await db.createTableSafe('t_change_events', (table, helpers) => {
+    table.increments('id').primary();
+    table.integer('project_id').unsigned().notNullable();
+    table.string('event_type', 32).notNullable();
+    table.integer('key_id').unsigned().nullable();
+    table.integer('constraint_id').unsigned().nullable();
+    table.string('version', 20).nullable();
+    table.text('details').nullable();
+    helpers.timestampColumn('ts');
+    table.foreign('project_id').references('m_projects.id').onDelete('CASCADE');
+  });
+
+  await db.createIndexSafe('t_change_events', ['project_id', 'id'], 'idx_t_change_events_project');
+
+  console.error('✅ v5.1: t_change_events ready');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  console.error('🔄 Rolling back v5.1 change event log...');
+
+  await knex.schema.dropTableIfExists('t_change_events');
+
+  console.error('✅ t_change_events dropped');
+}
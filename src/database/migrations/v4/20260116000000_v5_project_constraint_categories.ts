@@ -0,0 +1,138 @@
+/**
+ * v5.1: Per-project constraint categories
+ *
+ * m_constraint_categories was a global name list. Categories now belong to a
+ * project so each project can create, rename and retire its own. New columns:
+ * - project_id: Owning project (m_projects.id, enforced at application level)
+ * - active:     1 = usable for new constraints, 0 = retired
+ *
+ * Data migration, per project:
+ * 1. Seed the default categories (architecture, security, code-style, performance)
+ * 2. Copy every global category its constraints use and repoint t_constraints
+ * Global rows no constraint refers to any more are removed.
+ *
+ * UNIQUE(name) is replaced by UNIQUE(project_id, name).
+ *
+ * IDEMPOTENT: Can be run multiple times safely.
+ * SQLite, MySQL, PostgreSQL compatible.
+ */
+
+import type { Knex } from 'knex';
+import { UniversalKnex } from '../../../utils/universal-knex.js';
+
+const DEFAULT_CATEGORIES = ['architecture', 'security', 'code-style', 'performance'];
+
+/**
+ * Drop an index, ignoring a missing one
+ */
+async function dropIndexSafe(knex: Knex, db: UniversalKnex, indexName: string): Promise<void> {
+  if (db.isSQLite) {
+    await knex.raw(`DROP INDEX IF EXISTS ${indexName}`);
+  } else if (db.isMySQL) {
+    try {
+      await knex.raw(`ALTER TABLE m_constraint_categories DROP INDEX ${indexName}`);
+    } catch (error: any) {
+      if (!error.message?.includes("Can't DROP")) {
+        throw error;
+      }
+    }
+  } else {
+    // PostgreSQL: knex creates UNIQUE as a table constraint
+    await knex.raw(`ALTER TABLE m_constraint_categories DROP CONSTRAINT IF EXISTS ${indexName}`);
+    await knex.raw(`DROP INDEX IF EXISTS ${indexName}`);
+  }
+}
+
+export async function up(knex: Knex): Promise<void> {
+  const db = new UniversalKnex(knex);
+
+  console.error('🔄 v5.1: Scoping constraint categories to projects...');
+
+  await db.addColumnSafe('m_constraint_categories', 'project_id', (table) =>
+    table.integer('project_id').unsigned().nullable()
+  );
+  await db.addColumnSafe('m_constraint_categories', 'active', (table) =>
+    table.integer('active').notNullable().defaultTo(1)
+  );
+
+  await dropIndexSafe(knex, db, 'm_constraint_categories_name_unique');
+
+  const projects = await knex('m_projects').pluck('id') as number[];
+  for (const projectId of projects) {
+    const used = await knex('t_constraints as c')
+      .join('m_constraint_categories as cat', 'c.category_id', 'cat.id')
+      .where('c.project_id', projectId)
+      .whereNull('cat.project_id')
+      .distinct('cat.id', 'cat.name') as Array<{ id: number; name: string }>;
+
+    const names = new Set([...DEFAULT_CATEGORIES, ...used.map(row => row.name)]);
+    const projectIds = new Map<string, number>();
+    for (const name of names) {
+      const existing = await knex('m_constraint_categories')
+        .where({ project_id: projectId, name })
+        .first('id');
+      if (existing) {
+        projectIds.set(name, existing.id);
+      } else {
+        const [id] = await knex('m_constraint_categories').insert({ project_id: projectId, name, active: 1 });
+        projectIds.set(name, Number(id));
+      }
+    }
+
+    for (const row of used) {
+      await knex('t_constraints')
+        .where({ project_id: projectId, category_id: row.id })
+        .update({ category_id: projectIds.get(row.name) });
+    }
+  }
+
+  await knex('m_constraint_categories')
+    .whereNull('project_id')
+    .whereNotIn('id', knex('t_constraints').select('category_id'))
+    .delete();
+
+  await db.createIndexSafe(
+    'm_constraint_categories',
+    ['project_id', 'name'],
+    'idx_m_constraint_categories_project_name',
+    { unique: true }
+  );
+
+  console.error(`✅ v5.1: Constraint categories scoped to ${projects.length} project(s)`);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  const db = new UniversalKnex(knex);
+
+  console.error('🔄 Rolling back v5.1 per-project constraint categories...');
+
+  if (!(await knex.schema.hasColumn('m_constraint_categories', 'project_id'))) {
+    console.error('✓ m_constraint_categories is already global');
+    return;
+  }
+
+  // Collapse to one global row per name (lowest id wins)
+  const rows = await knex('m_constraint_categories').orderBy('id', 'asc').select('id', 'name') as Array<{ id: number; name: string }>;
+  const keep = new Map<string, number>();
+  for (const row of rows) {
+    const keptId = keep.get(row.name);
+    if (keptId === undefined) {
+      keep.set(row.name, row.id);
+      continue;
+    }
+    await knex('t_constraints').where({ category_id: row.id }).update({ category_id: keptId });
+    await knex('m_constraint_categories').where({ id: row.id }).delete();
+  }
+
+  await dropIndexSafe(knex, db, 'idx_m_constraint_categories_project_name');
+
+  for (const column of ['project_id', 'active']) {
+    await knex.schema.alterTable('m_constraint_categories', (table) => {
+      table.dropColumn(column);
+    });
+  }
+
+  await db.createIndexSafe('m_constraint_categories', ['name'], 'm_constraint_categories_name_unique', { unique: true });
+
+  console.error('✅ m_constraint_categories is global again');
+}
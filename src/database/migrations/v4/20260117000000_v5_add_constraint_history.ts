@@ -0,0 +1,56 @@
+/**
+ * v5.1: Add revision history for constraints
+ *
+ * Creates t_constraint_history. constraint.update edits a constraint in place
+ * and first archives the revision being replaced:
+ * - version:         Revision number (1 = as added, counting up per update)
+ * - constraint_text, priority, layer_id: Values of that revision
+ * - tags:            Comma-separated tag names (sorted)
+ * - ts:              When the revision was replaced
+ *
+ * The current revision lives in t_constraints; its number is the number of
+ * history rows + 1.
+ *
+ * IDEMPOTENT: Can be run multiple times safely.
+ * SQLite, MySQL, PostgreSQL compatible.
+ */
+
+import type { Knex } from 'knex';
+import { UniversalKnex } from '../../../utils/universal-knex.js';
+
+export async function up(knex: Knex): Promise<void> {
+  const db = new UniversalKnex(knex);
+
+  console.error('🔄 v5.1: Adding constraint history...');
+
+  await db.createTableSafe('t_constraint_history', (table, helpers) => {
+    table.increments('id').primary();
+    table.integer('constraint_id').unsigned().notNullable();
+    table.integer('project_id').unsigned().notNullable();
+    table.integer('version').notNullable();
+    table.text('constraint_text').notNullable();
+    table.integer('priority').notNullable();
+    table.integer('layer_id').unsigned().nullable();
+    table.text('tags').nullable();
+    helpers.timestampColumn('ts');
+    table.foreign('constraint_id').references('t_constraints.id').onDelete('CASCADE');
+    table.foreign('project_id').references('m_projects.id').onDelete('CASCADE');
+  });
+
+  await db.createIndexSafe(
+    't_constraint_history',
+    ['constraint_id', 'version'],
+    'idx_t_constraint_history_version',
+    { unique: true }
+  );
+
+  console.error('✅ v5.1: t_constraint_history ready');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  console.error('🔄 Rolling back v5.1 constraint history...');
+
+  await knex.schema.dropTableIfExists('t_constraint_history');
+
+  console.error('✅ t_constraint_history dropped');
+}
@@ -0,0 +1,44 @@
+/**
+ * v5.1: Add machine-checkable rules to constraints
+ *
+ * Adds a nullable `rules` column (JSON text) to t_constraints and
+ * t_constraint_history. constraint.check and `sqlew check` scan the working
+ * tree against these rules:
+ * - paths:              Gitignore-style globs the rules apply to
+ * - forbidden_imports:  Module specifiers that must not be imported
+ * - forbidden_patterns: Regexes that must not match any line
+ * - required_patterns:  Regexes that must match somewhere in each file
+ *
+ * Constraints without rules stay free text and are skipped by the check.
+ *
+ * IDEMPOTENT: Can be run multiple times safely.
+ * SQLite, MySQL, PostgreSQL compatible.
+ */
+
+import type { Knex } from 'knex';
+import { UniversalKnex } from '../../../utils/universal-knex.js';
+
+export async function up(knex: Knex): Promise<void> {
+  const db = new UniversalKnex(knex);
+
+  console.error('🔄 v5.1: Adding constraint rules...');
+
+  await db.addColumnSafe('t_constraints', 'rules', (table) => table.text('rules').nullable());
+  await db.addColumnSafe('t_constraint_history', 'rules', (table) => table.text('rules').nullable());
+
+  console.error('✅ v5.1: Constraint rules ready');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  console.error('🔄 Rolling back v5.1 constraint rules...');
+
+  for (const tableName of ['t_constraint_history', 't_constraints']) {
+    if (await knex.schema.hasColumn(tableName, 'rules')) {
+      await knex.schema.alterTable(tableName, (table) => {
+        table.dropColumn('rules');
+      });
+    }
+  }
+
+  console.error('✅ Constraint rules removed');
+}
@@ -0,0 +1,47 @@
+/**
+ * v5.1: Add expiry and review dates to constraints
+ *
+ * Adds nullable Unix timestamps to t_constraints (and t_constraint_history,
+ * so revisions keep them):
+ * - expires_at: Constraint is deactivated at server startup once this passes
+ * - review_by:  Constraint shows up in constraint.due_for_review from then on
+ *
+ * IDEMPOTENT: Can be run multiple times safely.
+ * SQLite, MySQL, PostgreSQL compatible.
+ */
+
+import type { Knex } from 'knex';
+import { UniversalKnex } from '../../../utils/universal-knex.js';
+
+export async function up(knex: Knex): Promise<void> {
+  const db = new UniversalKnex(knex);
+
+  console.error('🔄 v5.1: Adding constraint expiry and review dates...');
+
+  for (const tableName of ['t_constraints', 't_constraint_history']) {
+    await db.addColumnSafe(tableName, 'expires_at', (table) =>
+      table.integer('expires_at').nullable()
+    );
+    await db.addColumnSafe(tableName, 'review_by', (table) =>
+      table.integer('review_by').nullable()
+    );
+  }
+
+  console.error('✅ v5.1: Constraint expiry and review dates ready');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  console.error('🔄 Rolling back v5.1 constraint expiry and review dates...');
+
+  for (const tableName of ['t_constraint_history', 't_constraints']) {
+    for (const column of ['expires_at', 'review_by']) {
+      if (await knex.schema.hasColumn(tableName, column)) {
+        await knex.schema.alterTable(tableName, (table) => {
+          table.dropColumn(column);
+        });
+      }
+    }
+  }
+
+  console.error('✅ Constraint expiry and review dates removed');
+}
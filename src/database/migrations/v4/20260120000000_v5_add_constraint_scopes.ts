@@ -0,0 +1,53 @@
+/**
+ * v5.1: Attach constraints to scopes
+ *
+ * Creates t_constraint_scopes, the constraint counterpart of
+ * t_decision_scopes (scope names live in m_scopes). constraint.get filters
+ * by scope or file path through it; constraints without scopes apply
+ * everywhere.
+ *
+ * Also adds t_constraint_history.scopes (comma-separated, sorted) so
+ * revisions keep their scopes like they keep their tags.
+ *
+ * IDEMPOTENT: Can be run multiple times safely.
+ * SQLite, MySQL, PostgreSQL compatible.
+ */
+
+import type { Knex } from 'knex';
+import { UniversalKnex } from '../../../utils/universal-knex.js';
+
+export async function up(knex: Knex): Promise<void> {
+  const db = new UniversalKnex(knex);
+
+  console.error('🔄 v5.1: Adding constraint scopes...');
+
+  await db.createTableSafe('t_constraint_scopes', (table) => {
+    table.integer('constraint_id').unsigned().notNullable();
+    table.integer('scope_id').unsigned().notNullable();
+    table.integer('project_id').unsigned().notNullable();
+    table.primary(['constraint_id', 'scope_id']);
+    table.foreign('constraint_id').references('t_constraints.id').onDelete('CASCADE');
+    table.foreign('scope_id').references('m_scopes.id');
+    table.foreign('project_id').references('m_projects.id').onDelete('CASCADE');
+  });
+
+  await db.addColumnSafe('t_constraint_history', 'scopes', (table) =>
+    table.text('scopes').nullable()
+  );
+
+  console.error('✅ v5.1: t_constraint_scopes ready');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  console.error('🔄 Rolling back v5.1 constraint scopes...');
+
+  await knex.schema.dropTableIfExists('t_constraint_scopes');
+
+  if (await knex.schema.hasColumn('t_constraint_history', 'scopes')) {
+    await knex.schema.alterTable('t_constraint_history', (table) => {
+      table.dropColumn('scopes');
+    });
+  }
+
+  console.error('✅ t_constraint_scopes dropped');
+}
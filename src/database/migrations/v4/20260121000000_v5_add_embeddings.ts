@@ -0,0 +1,43 @@
+/**
+ * v5.1: Add embedding vectors for semantic suggest scoring
+ *
+ * Creates t_embeddings, one row per decision or constraint holding the
+ * vector of its text for the configured embedding provider. Rows are
+ * derived data: the suggest engine fills them lazily and recomputes them
+ * when the source text (source_hash) or the provider changes.
+ *
+ * IDEMPOTENT: Can be run multiple times safely.
+ * SQLite, MySQL, PostgreSQL compatible.
+ */
+
+import type { Knex } from 'knex';
+import { UniversalKnex } from '../../../utils/universal-knex.js';
+
+export async function up(knex: Knex): Promise<void> {
+  const db = new UniversalKnex(knex);
+
+  console.error('🔄 v5.1: Adding embedding vectors...');
+
+  await db.createTableSafe('t_embeddings', (table, helpers) => {
+    table.integer('project_id').unsigned().notNullable();
+    table.string('entity_type', 16).notNullable();  // 'decision' | 'constraint'
+    table.integer('entity_id').unsigned().notNullable();  // key_id or constraint id
+    table.string('provider', 255).notNullable();  // Provider name incl. model
+    table.integer('dims').notNullable();
+    table.text('vector').notNullable();  // JSON number array
+    table.string('source_hash', 64).notNullable();  // SHA-256 of the embedded text
+    helpers.timestampColumn('updated_ts');
+    table.primary(['project_id', 'entity_type', 'entity_id']);
+    table.foreign('project_id').references('m_projects.id').onDelete('CASCADE');
+  });
+
+  console.error('✅ v5.1: t_embeddings ready');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  console.error('🔄 Rolling back v5.1 embedding vectors...');
+
+  await knex.schema.dropTableIfExists('t_embeddings');
+
+  console.error('✅ t_embeddings dropped');
+}
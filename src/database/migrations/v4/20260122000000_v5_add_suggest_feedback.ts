@@ -0,0 +1,46 @@
+/**
+ * v5.1: Add suggestion feedback
+ *
+ * Creates t_suggest_feedback, one row per accept / reject signal recorded
+ * with suggest.feedback. A row pairs the query a suggestion was made for
+ * (decision key or constraint text, matched by query_hash) with the
+ * suggested decision (key_id) or constraint (id). The suggest scorers boost
+ * or penalize pairs from this history; suggest.analytics reports precision.
+ *
+ * IDEMPOTENT: Can be run multiple times safely.
+ * SQLite, MySQL, PostgreSQL compatible.
+ */
+
+import type { Knex } from 'knex';
+import { UniversalKnex } from '../../../utils/universal-knex.js';
+
+export async function up(knex: Knex): Promise<void> {
+  const db = new UniversalKnex(knex);
+
+  console.error('🔄 v5.1: Adding suggestion feedback...');
+
+  await db.createTableSafe('t_suggest_feedback', (table, helpers) => {
+    table.increments('id').primary();
+    table.integer('project_id').unsigned().notNullable();
+    table.string('target', 16).notNullable();  // 'decision' | 'constraint'
+    table.string('query_hash', 64).notNullable();  // SHA-256 of the normalized query
+    table.text('query_text').notNullable();  // Decision key or constraint text
+    table.integer('suggested_id').unsigned().notNullable();  // key_id or constraint id
+    table.integer('accepted').notNullable();  // 1 accepted, 0 rejected
+    helpers.timestampColumn('ts');
+    table.foreign('project_id').references('m_projects.id').onDelete('CASCADE');
+  });
+
+  await db.createIndexSafe('t_suggest_feedback', ['project_id', 'target', 'query_hash'], 'idx_t_suggest_feedback_query');
+  await db.createIndexSafe('t_suggest_feedback', ['project_id', 'ts'], 'idx_t_suggest_feedback_ts');
+
+  console.error('✅ v5.1: t_suggest_feedback ready');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  console.error('🔄 Rolling back v5.1 suggestion feedback...');
+
+  await knex.schema.dropTableIfExists('t_suggest_feedback');
+
+  console.error('✅ t_suggest_feedback dropped');
+}
@@ -0,0 +1,65 @@
+/**
+ * v5.1: Commit-ordered sequence for the change feed
+ *
+ * t_change_events.id is assigned at insert time, so on MySQL/PostgreSQL two
+ * transactions can commit out of id order and a reader past id N+1 never
+ * sees a later commit of id N. Events now also carry seq, a per-project
+ * number taken from m_change_sequence in the writing transaction: the
+ * counter row stays locked until commit, so seq order is commit order.
+ *
+ * Existing events get seq = id (cursors handed out earlier stay valid) and
+ * each project's counter starts at its largest id.
+ *
+ * IDEMPOTENT: Can be run multiple times safely.
+ * SQLite, MySQL, PostgreSQL compatible.
+ */
+
+import type { Knex } from 'knex';
+import { UniversalKnex } from '../../../utils/universal-knex.js';
+
+export async function up(knex: Knex): Promise<void> {
+  const db = new UniversalKnex(knex);
+
+  console.error('🔄 v5.1: Adding change event sequence...');
+
+  await db.createTableSafe('m_change_sequence', (table) => {
+    table.integer('project_id').unsigned().primary();
+    table.integer('last_seq').unsigned().notNullable().defaultTo(0);
+    table.foreign('project_id').references('m_projects.id').onDelete('CASCADE');
+  });
+
+  await db.addColumnSafe('t_change_events', 'seq', (table) =>
+    table.integer('seq').unsigned().nullable()
+  );
+
+  // Backfill: seq = id, counters at the largest id per project
+  await knex('t_change_events').whereNull('seq').update({ seq: knex.ref('id') });
+  const projects = await knex('t_change_events')
+    .groupBy('project_id')
+    .select('project_id')
+    .max('id as last_seq') as Array<{ project_id: number; last_seq: number }>;
+  for (const { project_id, last_seq } of projects) {
+    await knex('m_change_sequence')
+      .insert({ project_id, last_seq })
+      .onConflict('project_id')
+      .ignore();
+  }
+
+  await db.createIndexSafe('t_change_events', ['project_id', 'seq'], 'idx_t_change_events_seq');
+
+  console.error('✅ v5.1: Change event sequence ready');
+}
+
+export async function down(knex: Knex): Promise<void> {
+  console.error('🔄 Rolling back v5.1 change event sequence...');
+
+  if (await knex.schema.hasColumn('t_change_events', 'seq')) {
+    await knex.schema.alterTable('t_change_events', (table) => {
+      table.dropIndex(['project_id', 'seq'], 'idx_t_change_events_seq');
+      table.dropColumn('seq');
+    });
+  }
+  await knex.schema.dropTableIfExists('m_change_sequence');
+
+  console.error('✅ Change event sequence removed');
+}
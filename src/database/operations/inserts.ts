@@ -6,6 +6,8 @@ import { Knex } from 'knex';
 import type { DatabaseAdapter } from '../../adapters/index.js';
 import { getProjectContext } from '../../utils/project-context.js';
 import { validateNoCaseInsensitiveDuplicate } from '../../utils/case-insensitive-validator.js';
+import { syncDecisionSearchIndex } from '../../utils/fulltext-search.js';
+import { recordChangeEvent } from '../../utils/change-feed.js';
 
 /**
  * Validate JSON structure for alternatives array
@@ -189,21 +191,32 @@ export async function getOrCreateScope(
 }
 
 /**
- * Get or create category ID
+ * Get or create category ID (project-scoped since v5.1.0)
  */
 export async function getOrCreateCategoryId(
   adapter: DatabaseAdapter,
+  projectId: number,
   category: string,
   trx?: Knex.Transaction
 ): Promise<number> {
   const knex = trx || adapter.getKnex();
 
-  await knex('m_constraint_categories').insert({ name: category }).onConflict('name').ignore();
+  // Case-insensitive duplicate check, as for tags and scopes
+  await validateNoCaseInsensitiveDuplicate(
+    knex, 'm_constraint_categories', 'name', category, 'category', { project_id: projectId }
+  );
+
+  await knex('m_constraint_categories')
+    .insert({ project_id: projectId, name: category, active: 1 })
+    .onConflict(['project_id', 'name'])
+    .ignore();
 
-  const result = await knex('m_constraint_categories').where({ name: category }).first('id');
+  const result = await knex('m_constraint_categories')
+    .where({ project_id: projectId, name: category })
+    .first('id');
 
   if (!result) {
-    throw new Error(`Failed to get or create category: ${category}`);
+    throw new Error(`Failed to get or create category: ${category} (project: ${projectId})`);
   }
 
   return result.id;
@@ -222,16 +235,17 @@ export async function addDecisionContext(
   tradeoffs: string | null = null,
   decidedBy: string | null = null,  // @deprecated - ignored in v4.0
   relatedTaskId: number | null = null,
-  relatedConstraintId: number | null = null
+  relatedConstraintId: number | null = null,
+  trx?: Knex.Transaction
 ): Promise<number> {
   // Validate JSON inputs
   validateAlternativesJson(alternatives);
   validateTradeoffsJson(tradeoffs);
 
-  const knex = adapter.getKnex();
+  const knex = trx || adapter.getKnex();
 
   // Get decision key ID
-  const keyId = await getOrCreateContextKey(adapter, decisionKey);
+  const keyId = await getOrCreateContextKey(adapter, decisionKey, trx);
 
   // Note: decidedBy/agent_id removed in v4.0 - agent tracking no longer used
 
@@ -251,5 +265,11 @@ export async function addDecisionContext(
     ts: Math.floor(Date.now() / 1000),
   });
 
+  // Rationale, alternatives and tradeoffs are searchable (v5.1.0)
+  await syncDecisionSearchIndex(knex, projectId, keyId);
+
+  // Changefeed (v5.1.0)
+  await recordChangeEvent(knex, projectId, { type: 'context_added', key_id: keyId, details: { context_id: id } });
+
   return id;
 }
@@ -20,15 +20,16 @@ export async function getLayerId(
 }
 
 /**
- * Get constraint category ID by name
+ * Get constraint category ID by name (project-scoped since v5.1.0)
  */
 export async function getCategoryId(
   adapter: DatabaseAdapter,
+  projectId: number,
   name: string,
   trx?: Knex.Transaction
 ): Promise<number | null> {
   const knex = trx || adapter.getKnex();
-  const result = await knex('m_constraint_categories').where({ name }).first('id');
+  const result = await knex('m_constraint_categories').where({ project_id: projectId, name }).first('id');
   return result ? result.id : null;
 }
 
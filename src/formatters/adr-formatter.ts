@@ -72,7 +72,7 @@ export class AdrFormatter implements DocumentFormatter {
     // Status and metadata
     lines.push('| Field | Value |');
     lines.push('|-------|-------|');
-    lines.push(`| **Status** | Active |`);
+    lines.push(`| **Status** | ${this.formatStatus(item.status)} |`);
     if (item.updated) {
       lines.push(`| **Date** | ${item.updated.split('T')[0]} |`);
     }
@@ -132,6 +132,16 @@ export class AdrFormatter implements DocumentFormatter {
     return lines;
   }
 
+  private formatStatus(status?: string): string {
+    if (!status) {
+      return 'Active';
+    }
+    return status
+      .split('_')
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ');
+  }
+
   private toAnchor(title: string): string {
     return title
       .toLowerCase()
@@ -16,7 +16,7 @@ const firstArg = rawArgs[0] || '';
 
 // Check if this is a CLI command or flag
 const cliCommands = [
-  'db:dump', 'db:export', 'db:import', 'query',
+  'db:dump', 'db:export', 'db:import', 'query', 'check',
   'suggest', 'track-plan', 'save', 'check-completion', 'mark-done', 'init',
   // New hook events (v4.2.0+)
   'on-subagent-stop', 'on-stop', 'on-exit-plan',
@@ -42,15 +42,11 @@ if (isCliCommand) {
 // MCP Server
 // ============================================================================
 async function startMcpServer(): Promise<void> {
-  const { Server } = await import('@modelcontextprotocol/sdk/server/index.js');
   const { StdioServerTransport } = await import('@modelcontextprotocol/sdk/server/stdio.js');
-  const {
-    CallToolRequestSchema,
-    ListToolsRequestSchema,
-  } = await import('@modelcontextprotocol/sdk/types.js');
   const { parseArgs, validateArgs } = await import('./server/arg-parser.js');
-  const { getToolRegistry } = await import('./server/tool-registry.js');
-  const { handleToolCall } = await import('./server/tool-handlers.js');
+  const { createMcpServer } = await import('./server/mcp-server.js');
+  const { setResourceListChangedNotifier } = await import('./server/resource-handlers.js');
+  const { startHttpTransport, DEFAULT_HTTP_HOST, DEFAULT_HTTP_PORT, MCP_HTTP_PATH } = await import('./server/http-transport.js');
   const { initializeServer } = await import('./server/setup.js');
   const { registerShutdownHandlers, performCleanup } = await import('./server/shutdown.js');
   const { handleInitializationError, safeConsoleError } = await import('./utils/error-handler.js');
@@ -67,30 +63,7 @@ async function startMcpServer(): Promise<void> {
     process.exit(1);
   }
 
-  // Create MCP server
-  const server = new Server(
-    {
-      name: 'mcp-sqlew',
-      version: '4.2.0',
-    },
-    {
-      capabilities: {
-        tools: {},
-      },
-    }
-  );
-
-  // Handle tool listing
-  server.setRequestHandler(ListToolsRequestSchema, async () => {
-    return {
-      tools: getToolRegistry(),
-    };
-  });
-
-  // Handle tool execution
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    return await handleToolCall(request);
-  });
+  const useHttp = parsedArgs.transport === 'http';
 
   // Setup centralized global error handlers
   registerShutdownHandlers();
@@ -103,13 +76,38 @@ async function startMcpServer(): Promise<void> {
     const setupResult = await initializeServer(parsedArgs);
     debugLoggerInitialized = true;
 
-    // Connect MCP server transport FIRST (before any stderr writes)
-    // This prevents EPIPE errors with clients expecting pure JSON-RPC protocol
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
-
-    // NOW safe to write diagnostic messages (using EPIPE-safe wrapper)
-    safeConsoleError('✓ MCP Shared Context Server running on stdio');
+    if (useHttp) {
+      // HTTP transport (v5.1.0): one MCP server per session, shared database
+      const serverConfig = setupResult.fileConfig.server ?? {};
+      const host = serverConfig.host || DEFAULT_HTTP_HOST;
+      const port = parsedArgs.port ?? serverConfig.port ?? DEFAULT_HTTP_PORT;
+      await startHttpTransport({
+        host,
+        port,
+        authToken: serverConfig.auth_token,
+        sessionIdleTimeoutMs: serverConfig.session_idle_minutes !== undefined
+          ? serverConfig.session_idle_minutes * 60_000
+          : undefined,
+        createServer: createMcpServer,
+      });
+
+      safeConsoleError(`✓ MCP Shared Context Server listening on http://${host}:${port}${MCP_HTTP_PATH}`);
+      if (!serverConfig.auth_token) {
+        safeConsoleError('  ⚠️  No [server].auth_token configured - HTTP endpoint is unauthenticated (loopback only)');
+      }
+    } else {
+      // Connect MCP server transport FIRST (before any stderr writes)
+      // This prevents EPIPE errors with clients expecting pure JSON-RPC protocol
+      const server = createMcpServer();
+      const transport = new StdioServerTransport();
+      await server.connect(transport);
+
+      // Queue watcher writes new decisions/constraints → notify client (v5.1.0)
+      setResourceListChangedNotifier(() => server.sendResourceListChanged());
+
+      // NOW safe to write diagnostic messages (using EPIPE-safe wrapper)
+      safeConsoleError('✓ MCP Shared Context Server running on stdio');
+    }
 
     const dbPath = parsedArgs.dbPath || setupResult.fileConfig.database?.path;
     if (dbPath) {
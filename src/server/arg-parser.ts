@@ -11,6 +11,8 @@ export interface ParsedArgs {
   autodeleteMessageHours?: number;
   autodeleteFileHistoryDays?: number;
   debugLogPath?: string;
+  transport?: 'stdio' | 'http';
+  port?: number;
 }
 
 /**
@@ -26,6 +28,8 @@ export interface ParsedArgs {
  * - --autodelete-message-hours=<number> or --autodelete-message-hours <number>
  * - --autodelete-file-history-days=<number> or --autodelete-file-history-days <number>
  * - --debug-log=<path> or --debug-log <path>
+ * - --transport=<stdio|http> or --transport <stdio|http> (v5.1.0)
+ * - --port=<number> or --port <number> (HTTP transport only, v5.1.0)
  *
  * Backward compatibility: First non-flag argument is treated as dbPath
  */
@@ -68,6 +72,14 @@ export function parseArgs(args: string[]): ParsedArgs {
       parsedArgs.projectName = arg.split('=')[1];
     } else if (arg === '--project-name' && i + 1 < args.length) {
       parsedArgs.projectName = args[++i];
+    } else if (arg.startsWith('--transport=')) {
+      parsedArgs.transport = arg.split('=')[1] as ParsedArgs['transport'];
+    } else if (arg === '--transport' && i + 1 < args.length) {
+      parsedArgs.transport = args[++i] as ParsedArgs['transport'];
+    } else if (arg.startsWith('--port=')) {
+      parsedArgs.port = parseInt(arg.split('=')[1], 10);
+    } else if (arg === '--port' && i + 1 < args.length) {
+      parsedArgs.port = parseInt(args[++i], 10);
     } else if (!arg.startsWith('--')) {
       // Backward compatibility: first non-flag argument is dbPath
       if (!parsedArgs.dbPath) {
@@ -94,11 +106,14 @@ Command-line arguments:
   --autodelete-message-hours=<number>   Message retention hours (default: 48)
   --autodelete-file-history-days=<num>  File history retention days (default: 10)
   --debug-log=<path>                    Path to debug log file
+  --transport=<stdio|http>              MCP transport (default: stdio)
+  --port=<number>                       HTTP port (default: [server].port or 3700)
 
 Examples:
   node dist/index.js --db-path=./custom.db
   node dist/index.js --autodelete-ignore-weekend
   node dist/index.js --debug-log=./logs/debug.log
+  node dist/index.js --transport=http --port=3700
 
 See CLAUDE.md for detailed documentation.
 `.trim();
@@ -138,4 +153,17 @@ export function validateArgs(parsedArgs: ParsedArgs): void {
   if (parsedArgs.projectName !== undefined && parsedArgs.projectName.trim() === '') {
     throw new Error('--project-name cannot be empty');
   }
+
+  if (parsedArgs.transport !== undefined && !['stdio', 'http'].includes(parsedArgs.transport)) {
+    throw new Error('--transport must be "stdio" or "http"');
+  }
+
+  if (parsedArgs.port !== undefined) {
+    if (isNaN(parsedArgs.port) || parsedArgs.port < 1 || parsedArgs.port > 65535) {
+      throw new Error('--port must be between 1 and 65535');
+    }
+    if (parsedArgs.transport !== 'http') {
+      throw new Error('--port requires --transport=http');
+    }
+  }
 }
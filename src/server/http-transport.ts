@@ -0,0 +1,267 @@
+/**
+ * MCP Server - Streamable HTTP Transport (v5.1.0)
+ *
+ * Lets several agents share one sqlew process (e.g. against a shared
+ * PostgreSQL database) over MCP Streamable HTTP (POST + SSE) at /mcp.
+ *
+ * - Authentication: `Authorization: Bearer <token>` checked against
+ *   [server].auth_token in config.toml
+ * - Loopback binds only accept loopback Host headers (DNS rebinding protection)
+ * - Per-session project: the initialize request may select a project via the
+ *   `X-Sqlew-Project` header or `?project=` query parameter; otherwise the
+ *   server's own project is used. Only projects already registered with a
+ *   root path are served: clients cannot create projects, and tools that read
+ *   the project tree (constraint.check, suggest config) never fall back to
+ *   the server's own directory.
+ * - Sessions idle for [server].session_idle_minutes are closed.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse, type Server as HttpServer } from 'node:http';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { getAdapter } from '../database.js';
+import { ProjectContext, type ProjectMetadata } from '../utils/project-context.js';
+import { debugLog } from '../utils/debug-logger.js';
+import { setResourceListChangedNotifier } from './resource-handlers.js';
+
+export const DEFAULT_HTTP_HOST = '127.0.0.1';
+export const DEFAULT_HTTP_PORT = 3700;
+export const MCP_HTTP_PATH = '/mcp';
+export const PROJECT_HEADER = 'x-sqlew-project';
+export const DEFAULT_SESSION_IDLE_MINUTES = 30;
+
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+
+/** Longest wait between idle session sweeps */
+const MAX_IDLE_SWEEP_INTERVAL_MS = 60_000;
+
+export interface HttpTransportOptions {
+  host?: string;
+  port?: number;
+  /** Bearer token; required unless host is a loopback address */
+  authToken?: string;
+  /** Close sessions without requests for this long (default: 30 minutes) */
+  sessionIdleTimeoutMs?: number;
+  /** Factory for a fresh MCP server (one per session) */
+  createServer: () => Server;
+}
+
+interface HttpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  project: ProjectMetadata;
+  /** Requests still being served (open SSE streams count) */
+  openRequests: number;
+  lastActivity: number;
+}
+
+/**
+ * Check the Authorization header against the configured bearer token
+ * Uses constant-time comparison to avoid leaking the token through timing.
+ */
+export function isAuthorized(authorization: string | undefined, authToken: string | undefined): boolean {
+  if (!authToken) {
+    return true;
+  }
+  const match = /^Bearer\s+(.+)$/i.exec(authorization ?? '');
+  if (!match) {
+    return false;
+  }
+  const provided = Buffer.from(match[1].trim());
+  const expected = Buffer.from(authToken);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * Write a JSON-RPC error response (used before a request reaches the transport)
+ */
+function sendJsonRpcError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
+
+/**
+ * Host header values accepted on a loopback bind
+ */
+export function loopbackHostHeaders(port: number): string[] {
+  return [`127.0.0.1:${port}`, `localhost:${port}`, `[::1]:${port}`];
+}
+
+/**
+ * Resolve the project for a new session
+ * Falls back to the server-wide project when the client does not pick one.
+ *
+ * @throws Error if the project is not registered or has no root path
+ */
+async function resolveSessionProject(req: IncomingMessage, url: URL): Promise<ProjectMetadata> {
+  const projectContext = ProjectContext.getInstance();
+  const header = req.headers[PROJECT_HEADER];
+  const requested = (Array.isArray(header) ? header[0] : header) || url.searchParams.get('project');
+
+  if (!requested || requested === projectContext.getProjectName()) {
+    return projectContext.getProjectMetadata();
+  }
+
+  const project = await projectContext.findProject(getAdapter().getKnex(), requested);
+  if (!project) {
+    throw new Error(`Project "${requested}" is not registered. Run sqlew once in that project to register it`);
+  }
+  if (!project.project_root_path) {
+    throw new Error(`Project "${requested}" has no registered root path. Run sqlew once in that project to record it`);
+  }
+  return project;
+}
+
+/**
+ * Start the Streamable HTTP transport
+ *
+ * @returns Listening Node HTTP server (close it to stop accepting sessions)
+ * @throws Error if no auth token is configured for a non-loopback host
+ */
+export async function startHttpTransport(options: HttpTransportOptions): Promise<HttpServer> {
+  const host = options.host || DEFAULT_HTTP_HOST;
+  const port = options.port ?? DEFAULT_HTTP_PORT;
+  const authToken = options.authToken;
+
+  if (!authToken && !LOOPBACK_HOSTS.includes(host)) {
+    throw new Error(`[server].auth_token is required in config.toml to listen on ${host}`);
+  }
+  const isLoopback = LOOPBACK_HOSTS.includes(host);
+  const idleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_MINUTES * 60_000;
+
+  const sessions = new Map<string, HttpSession>();
+  const allowedHosts: string[] = [];
+
+  const closeSession = (session: HttpSession) => {
+    session.server.close().catch(() => {});
+  };
+
+  // Resource list changes go to every connected session
+  setResourceListChangedNotifier(async () => {
+    await Promise.all([...sessions.values()].map(s => s.server.sendResourceListChanged()));
+  });
+
+  const httpServer = createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url ?? '/', `http://${req.headers.host ?? host}`);
+      // DNS rebinding: a page on another origin resolving to 127.0.0.1 still sends its own Host
+      if (isLoopback && !allowedHosts.includes(req.headers.host ?? '')) {
+        sendJsonRpcError(res, 403, `Invalid Host header: ${req.headers.host ?? ''}`);
+        return;
+      }
+
+      if (url.pathname !== MCP_HTTP_PATH) {
+        sendJsonRpcError(res, 404, `Not found. MCP endpoint is ${MCP_HTTP_PATH}`);
+        return;
+      }
+
+      if (!isAuthorized(req.headers.authorization, authToken)) {
+        sendJsonRpcError(res, 401, 'Unauthorized', { 'WWW-Authenticate': 'Bearer' });
+        return;
+      }
+
+      const sessionHeader = req.headers['mcp-session-id'];
+      const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+      let session = sessionId ? sessions.get(sessionId) : undefined;
+
+      if (sessionId && !session) {
+        sendJsonRpcError(res, 404, `Session not found: ${sessionId}`);
+        return;
+      }
+
+      if (!session) {
+        if (req.method !== 'POST') {
+          sendJsonRpcError(res, 400, 'Missing mcp-session-id header');
+          return;
+        }
+
+        let project: ProjectMetadata;
+        try {
+          project = await resolveSessionProject(req, url);
+        } catch (error) {
+          sendJsonRpcError(res, 400, error instanceof Error ? error.message : String(error));
+          return;
+        }
+
+        const newSession: HttpSession = {
+          server: options.createServer(),
+          project,
+          openRequests: 0,
+          lastActivity: Date.now(),
+          transport: new StreamableHTTPServerTransport({
+            sessionIdGenerator: () => randomUUID(),
+            ...(isLoopback && { enableDnsRebindingProtection: true, allowedHosts }),
+            onsessioninitialized: (id) => {
+              sessions.set(id, newSession);
+              debugLog('INFO', 'HTTP session initialized', { sessionId: id, project: project.name });
+            },
+          }),
+        };
+        newSession.transport.onclose = () => {
+          if (newSession.transport.sessionId) {
+            sessions.delete(newSession.transport.sessionId);
+            debugLog('INFO', 'HTTP session closed', { sessionId: newSession.transport.sessionId });
+          }
+        };
+        await newSession.server.connect(newSession.transport);
+        session = newSession;
+      }
+
+      const active = session;
+      active.openRequests++;
+      active.lastActivity = Date.now();
+      res.once('close', () => {
+        active.openRequests--;
+        active.lastActivity = Date.now();
+      });
+      await ProjectContext.runWithProject(active.project, () => active.transport.handleRequest(req, res));
+
+      // Initialization was rejected (e.g. first request was not initialize)
+      if (!active.transport.sessionId) {
+        await active.server.close();
+      }
+    } catch (error) {
+      debugLog('ERROR', 'HTTP transport request failed', { error });
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, 'Internal server error');
+      }
+    }
+  });
+
+  // Close sessions that are neither serving a request nor used within the idle timeout
+  const idleSweep = setInterval(() => {
+    const cutoff = Date.now() - idleTimeoutMs;
+    for (const [id, session] of sessions) {
+      if (session.openRequests === 0 && session.lastActivity < cutoff) {
+        sessions.delete(id);
+        closeSession(session);
+        debugLog('INFO', 'HTTP session closed after idle timeout', { sessionId: id });
+      }
+    }
+  }, Math.min(idleTimeoutMs, MAX_IDLE_SWEEP_INTERVAL_MS));
+  idleSweep.unref();
+
+  httpServer.on('close', () => {
+    clearInterval(idleSweep);
+    setResourceListChangedNotifier(null);
+    for (const session of sessions.values()) {
+      closeSession(session);
+    }
+    sessions.clear();
+  });
+
+  await new Promise<void>((resolvePromise, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(port, host, () => {
+      httpServer.off('error', reject);
+      resolvePromise();
+    });
+  });
+
+  // The bound port (port 0 picks a free one) is part of the Host header
+  const address = httpServer.address();
+  allowedHosts.push(...loopbackHostHeaders(typeof address === 'object' && address ? address.port : port));
+
+  return httpServer;
+}
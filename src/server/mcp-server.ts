@@ -0,0 +1,77 @@
+/**
+ * MCP Server - Server Factory
+ * Creates an MCP Server with all tool, resource and prompt handlers registered
+ *
+ * stdio transport uses a single server; the HTTP transport (v5.1.0) creates
+ * one server per session because an MCP Server connects to one transport.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { getToolRegistry } from './tool-registry.js';
+import { handleToolCall } from './tool-handlers.js';
+import { listResources, getResourceTemplates, readResource } from './resource-handlers.js';
+import { listPrompts, getPrompt } from './prompt-handlers.js';
+
+/**
+ * Create a new MCP server instance with all handlers registered
+ */
+export function createMcpServer(): Server {
+  const server = new Server(
+    {
+      name: 'mcp-sqlew',
+      version: '4.2.0',
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { listChanged: true },  // v5.1.0
+        prompts: {},  // v5.1.0
+      },
+    }
+  );
+
+  // Handle tool listing
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: getToolRegistry(),
+    };
+  });
+
+  // Handle tool execution
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    return await handleToolCall(request);
+  });
+
+  // Handle resources: decisions and active constraints (v5.1.0)
+  server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+    return await listResources(request.params?.cursor);
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return getResourceTemplates();
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return await readResource(request.params.uri);
+  });
+
+  // Handle built-in prompts (v5.1.0)
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return listPrompts();
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return await getPrompt(request.params.name, request.params.arguments);
+  });
+
+  return server;
+}
@@ -0,0 +1,173 @@
+/**
+ * MCP Server - Prompt Handlers
+ * Built-in prompts that embed decisions/constraints directly into messages (v5.1.0)
+ *
+ * Lets MCP clients without tool-calling support get project context:
+ * - review_plan:      Review a plan against active constraints
+ * - summarize_layer:  Summarize decisions for an architecture layer
+ * - explain_decision: Explain a decision with its context and relations
+ */
+
+import type { GetPromptResult, ListPromptsResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import { getBackend } from '../backend/index.js';
+import type { GetContextResponse, GetDecisionResponse, GetConstraintsResponse } from '../types.js';
+
+/**
+ * Prompt definitions (ListPromptsRequest handler)
+ */
+const PROMPTS: Prompt[] = [
+  {
+    name: 'review_plan',
+    description: 'Review an implementation plan against the active architectural constraints',
+    arguments: [
+      { name: 'plan', description: 'Plan text to review', required: true },
+      { name: 'layer', description: 'Only include constraints for this layer', required: false },
+    ],
+  },
+  {
+    name: 'summarize_layer',
+    description: 'Summarize the decisions recorded for an architecture layer',
+    arguments: [
+      { name: 'layer', description: 'Layer name (e.g. data, business, infrastructure)', required: true },
+      { name: 'status', description: 'Decision status to include (default: active)', required: false },
+    ],
+  },
+  {
+    name: 'explain_decision',
+    description: 'Explain a decision using its rationale, alternatives and related decisions',
+    arguments: [
+      { name: 'key', description: 'Decision key', required: true },
+    ],
+  },
+];
+
+/**
+ * List built-in prompts
+ */
+export function listPrompts(): ListPromptsResult {
+  return { prompts: PROMPTS };
+}
+
+/**
+ * Render a prompt with its arguments (GetPromptRequest handler)
+ *
+ * @throws Error if the prompt is unknown or a required argument is missing
+ */
+export async function getPrompt(name: string, args: Record<string, string> = {}): Promise<GetPromptResult> {
+  const prompt = PROMPTS.find(p => p.name === name);
+  if (!prompt) {
+    throw new Error(`Unknown prompt: ${name}. Available: ${PROMPTS.map(p => p.name).join(', ')}`);
+  }
+
+  for (const arg of prompt.arguments ?? []) {
+    if (arg.required && !args[arg.name]) {
+      throw new Error(`Prompt "${name}" requires argument "${arg.name}"`);
+    }
+  }
+
+  let text: string;
+  switch (name) {
+    case 'review_plan': text = await renderReviewPlan(args.plan, args.layer); break;
+    case 'summarize_layer': text = await renderSummarizeLayer(args.layer, args.status || 'active'); break;
+    case 'explain_decision': text = await renderExplainDecision(args.key); break;
+    default: throw new Error(`Unknown prompt: ${name}`);
+  }
+
+  return {
+    description: prompt.description,
+    messages: [{ role: 'user', content: { type: 'text', text } }],
+  };
+}
+
+// ============================================================================
+// Prompt Renderers
+// ============================================================================
+
+async function renderReviewPlan(plan: string, layer?: string): Promise<string> {
+  const result = await getBackend().execute<GetConstraintsResponse>('constraint', 'get', {
+    limit: 1000,
+    ...(layer && { layer }),
+  });
+
+  const constraints = result.constraints.length > 0
+    ? result.constraints
+        .map(c => `- [${c.priority}] (${c.category}${c.layer ? `, ${c.layer}` : ''}) ${c.constraint_text}`)
+        .join('\n')
+    : '- (no active constraints)';
+
+  return [
+    'Review the following plan against the project\'s architectural constraints.',
+    'For each constraint the plan violates or puts at risk, quote the constraint and explain the conflict.',
+    'Finish with a short verdict: approve, approve with changes, or reject.',
+    '',
+    `## Active constraints${layer ? ` (${layer} layer)` : ''}`,
+    constraints,
+    '',
+    '## Plan',
+    plan,
+  ].join('\n');
+}
+
+async function renderSummarizeLayer(layer: string, status: string): Promise<string> {
+  const result = await getBackend().execute<GetContextResponse>('decision', 'list', {
+    layer,
+    status,
+    full_value: true,
+  });
+
+  const decisions = result.decisions.length > 0
+    ? result.decisions
+        .map(d => `- ${d.key} (v${d.version}${d.tags ? `, tags: ${d.tags}` : ''}): ${d.value}`)
+        .join('\n')
+    : '- (no decisions)';
+
+  return [
+    `Summarize the ${status} architectural decisions for the "${layer}" layer.`,
+    'Group related decisions, point out gaps or contradictions, and keep the summary concise.',
+    '',
+    `## Decisions (${result.count})`,
+    decisions,
+  ].join('\n');
+}
+
+async function renderExplainDecision(key: string): Promise<string> {
+  const result = await getBackend().execute<GetDecisionResponse>('decision', 'get', {
+    key,
+    include_context: true,
+  });
+  if (!result.found || !result.decision) {
+    throw new Error(`Decision "${key}" not found`);
+  }
+
+  const lines = [
+    `Explain the decision "${key}": what was decided, why, and how it relates to other decisions.`,
+    '',
+    '## Decision',
+    `- Value: ${result.decision.value}`,
+    `- Status: ${result.decision.status}`,
+    `- Layer: ${result.decision.layer ?? 'none'}`,
+    `- Version: ${result.decision.version}`,
+  ];
+
+  for (const ctx of result.context ?? []) {
+    lines.push('', '## Context', `- Rationale: ${ctx.rationale}`);
+    if (ctx.alternatives_considered) {
+      lines.push(`- Alternatives: ${JSON.stringify(ctx.alternatives_considered)}`);
+    }
+    if (ctx.tradeoffs) {
+      lines.push(`- Tradeoffs: ${JSON.stringify(ctx.tradeoffs)}`);
+    }
+  }
+
+  if (result.relations) {
+    lines.push('', '## Relations');
+    for (const r of result.relations.outbound) {
+      lines.push(`- ${key} ${r.relation_type} ${r.key}`);
+    }
+    for (const r of result.relations.inbound) {
+      lines.push(`- ${r.key} ${r.relation_type} ${key}`);
+    }
+  }
+
+  return lines.join('\n');
+}
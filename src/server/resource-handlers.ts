@@ -0,0 +1,219 @@
+/**
+ * MCP Server - Resource Handlers
+ * Exposes decisions and active constraints as MCP resources (v5.1.0)
+ *
+ * URIs:
+ * - sqlew://decision/{key}   - Decision with context and relations
+ * - sqlew://constraint/{id}  - Active constraint
+ *
+ * Resources are read through the active ToolBackend, so they work for
+ * both local and SaaS backends. resources/list is paginated with the MCP
+ * cursor: decisions (by key) first, then active constraints.
+ */
+
+import type {
+  ListResourcesResult,
+  ListResourceTemplatesResult,
+  ReadResourceResult,
+  Resource,
+} from '@modelcontextprotocol/sdk/types.js';
+import { getBackend } from '../backend/index.js';
+import { debugLog } from '../utils/debug-logger.js';
+import type { SearchAdvancedResponse, GetDecisionResponse, GetConstraintsResponse } from '../types.js';
+
+export const RESOURCE_SCHEME = 'sqlew://';
+const DECISION_PREFIX = `${RESOURCE_SCHEME}decision/`;
+const CONSTRAINT_PREFIX = `${RESOURCE_SCHEME}constraint/`;
+const JSON_MIME_TYPE = 'application/json';
+
+/**
+ * Resources per resources/list page
+ */
+export const RESOURCE_PAGE_SIZE = 100;
+
+/**
+ * Position in the resource list: decisions come first, then constraints
+ */
+interface ResourceCursor {
+  section: 'decision' | 'constraint';
+  offset: number;
+}
+
+/**
+ * Build the resource URI for a decision key
+ * Keys are hierarchical (e.g. "auth/method"), so each path segment is encoded separately.
+ */
+export function decisionResourceUri(key: string): string {
+  return DECISION_PREFIX + key.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * Build the resource URI for a constraint ID
+ */
+export function constraintResourceUri(id: number): string {
+  return `${CONSTRAINT_PREFIX}${id}`;
+}
+
+/**
+ * Encode a resource list position as an opaque MCP cursor
+ */
+function encodeResourceCursor(cursor: ResourceCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode an MCP cursor from a previous resources/list page
+ * @throws Error if the cursor was not produced by encodeResourceCursor
+ */
+function decodeResourceCursor(cursor: string): ResourceCursor {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if ((decoded?.section === 'decision' || decoded?.section === 'constraint') &&
+        Number.isInteger(decoded.offset) && decoded.offset >= 0) {
+      return { section: decoded.section, offset: decoded.offset };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error(`Invalid resources/list cursor: "${cursor}"`);
+}
+
+/**
+ * Get resource templates (ListResourceTemplatesRequest handler)
+ */
+export function getResourceTemplates(): ListResourceTemplatesResult {
+  return {
+    resourceTemplates: [
+      {
+        uriTemplate: `${DECISION_PREFIX}{key}`,
+        name: 'decision',
+        description: 'Architectural decision with value, tags, context and relations',
+        mimeType: JSON_MIME_TYPE,
+      },
+      {
+        uriTemplate: `${CONSTRAINT_PREFIX}{id}`,
+        name: 'constraint',
+        description: 'Active architectural constraint',
+        mimeType: JSON_MIME_TYPE,
+      },
+    ],
+  };
+}
+
+/**
+ * List decisions and active constraints as resources (ListResourcesRequest handler)
+ *
+ * @param cursor - nextCursor of the previous page (omit for the first page)
+ * @returns Up to RESOURCE_PAGE_SIZE resources, with nextCursor when more remain
+ */
+export async function listResources(cursor?: string): Promise<ListResourcesResult> {
+  const backend = getBackend();
+  const position: ResourceCursor = cursor ? decodeResourceCursor(cursor) : { section: 'decision', offset: 0 };
+
+  if (position.section === 'decision') {
+    const decisions = await backend.execute<SearchAdvancedResponse>('decision', 'search_advanced', {
+      sort_by: 'key',
+      sort_order: 'asc',
+      limit: RESOURCE_PAGE_SIZE,
+      offset: position.offset,
+    });
+    const next = position.offset + decisions.count;
+
+    return {
+      resources: decisions.decisions.map(d => ({
+        uri: decisionResourceUri(d.key),
+        name: d.key,
+        description: `[${d.status}${d.layer ? `, ${d.layer}` : ''}] ${d.value}`,
+        mimeType: JSON_MIME_TYPE,
+      })),
+      // Constraints start on the page after the last decision
+      nextCursor: encodeResourceCursor(
+        next < decisions.total_count ? { section: 'decision', offset: next } : { section: 'constraint', offset: 0 }
+      ),
+    };
+  }
+
+  // One extra row tells whether another page follows
+  const constraints = await backend.execute<GetConstraintsResponse>('constraint', 'get', {
+    limit: RESOURCE_PAGE_SIZE + 1,
+    offset: position.offset,
+  });
+  const resources: Resource[] = constraints.constraints.slice(0, RESOURCE_PAGE_SIZE).map(c => ({
+    uri: constraintResourceUri(c.id),
+    name: `constraint-${c.id}`,
+    description: `[${c.priority}, ${c.category}] ${c.constraint_text}`,
+    mimeType: JSON_MIME_TYPE,
+  }));
+
+  return {
+    resources,
+    ...(constraints.count > RESOURCE_PAGE_SIZE && {
+      nextCursor: encodeResourceCursor({ section: 'constraint', offset: position.offset + RESOURCE_PAGE_SIZE }),
+    }),
+  };
+}
+
+/**
+ * Read a single resource by URI (ReadResourceRequest handler)
+ *
+ * @throws Error if the URI is not a sqlew resource or the item does not exist
+ */
+export async function readResource(uri: string): Promise<ReadResourceResult> {
+  const backend = getBackend();
+
+  if (uri.startsWith(DECISION_PREFIX)) {
+    const key = uri.slice(DECISION_PREFIX.length).split('/').map(decodeURIComponent).join('/');
+    const result = await backend.execute<GetDecisionResponse>('decision', 'get', {
+      key,
+      include_context: true,
+    });
+    if (!result.found) {
+      throw new Error(`Decision "${key}" not found`);
+    }
+    return { contents: [{ uri, mimeType: JSON_MIME_TYPE, text: JSON.stringify(result, null, 2) }] };
+  }
+
+  if (uri.startsWith(CONSTRAINT_PREFIX)) {
+    const id = Number(uri.slice(CONSTRAINT_PREFIX.length));
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new Error(`Invalid constraint resource URI: ${uri}`);
+    }
+    const result = await backend.execute<GetConstraintsResponse>('constraint', 'get', { constraint_id: id });
+    const constraint = result.constraints[0];
+    if (!constraint) {
+      throw new Error(`Active constraint ${id} not found`);
+    }
+    return { contents: [{ uri, mimeType: JSON_MIME_TYPE, text: JSON.stringify(constraint, null, 2) }] };
+  }
+
+  throw new Error(`Unknown resource URI: ${uri}`);
+}
+
+// ============================================================================
+// Resource List Change Notifications
+// ============================================================================
+
+let resourceListChangedNotifier: (() => Promise<void>) | null = null;
+
+/**
+ * Register the callback that sends notifications/resources/list_changed
+ * Called once from the MCP server entry point after the server is created.
+ */
+export function setResourceListChangedNotifier(notifier: (() => Promise<void>) | null): void {
+  resourceListChangedNotifier = notifier;
+}
+
+/**
+ * Notify connected clients that the resource list changed
+ * No-op when no server is connected (CLI, tests). Never throws.
+ */
+export async function notifyResourceListChanged(): Promise<void> {
+  if (!resourceListChangedNotifier) {
+    return;
+  }
+  try {
+    await resourceListChangedNotifier();
+  } catch (error) {
+    debugLog('WARN', 'Failed to send resource list changed notification', { error });
+  }
+}
@@ -21,6 +21,7 @@ import { ensureProjectConfig } from '../config/writer.js';
 import { ProjectContext } from '../utils/project-context.js';
 import { detectVCS, GitAdapter } from '../utils/vcs-adapter.js';
 import { startQueueWatcher } from '../watcher/queue-watcher.js';
+import { deactivateExpiredConstraints } from '../utils/constraint-expiry.js';
 import { initDebugLogger, debugLog } from '../utils/debug-logger.js';
 import { ensureSqlewDirectory } from '../config/example-generator.js';
 import { determineProjectRoot } from '../utils/project-root.js';
@@ -379,7 +380,7 @@ export async function initializeServer(parsedArgs: ParsedArgs): Promise<SetupRes
   }
 
   // 9. Start queue watcher for hook-to-DB processing
-  // Watches .sqlew/queue/pending.json and processes queued decisions
+  // Watches the hook queue store (.sqlew/queue/) and processes queued decisions
   // Uses Backend abstraction to support both local DB and SaaS
   try {
     const backend = getBackend();
@@ -389,6 +390,20 @@ export async function initializeServer(parsedArgs: ParsedArgs): Promise<SetupRes
     // Non-fatal - hooks will still enqueue, processed on next startup
   }
 
+  // 10. Deactivate expired constraints (v5.1.0)
+  // Local DB only - the SaaS backend manages its own constraints
+  if (!isCloud) {
+    try {
+      const expired = await deactivateExpiredConstraints(getAdapter().getKnex(), projectContext.getProjectId());
+      if (expired.length > 0) {
+        debugLog('INFO', 'Deactivated expired constraints', { constraintIds: expired });
+      }
+    } catch (error) {
+      debugLog('WARN', 'Failed to deactivate expired constraints', { error });
+      // Non-fatal - retried on next startup
+    }
+  }
+
   return {
     db,
     fileConfig,
@@ -20,7 +20,7 @@ export function getToolRegistry(): Tool[] {
           action: {
             type: 'string',
             description: 'Action',
-            enum: ['set', 'get', 'list', 'search_tags', 'search_layer', 'versions', 'quick_set', 'search_advanced', 'set_batch', 'has_updates', 'set_from_template', 'create_template', 'list_templates', 'hard_delete', 'add_decision_context', 'list_decision_contexts', 'analytics', 'create_policy', 'list_policies', 'set_from_policy', 'help', 'example', 'use_case']
+            enum: ['set', 'get', 'list', 'search_tags', 'search_layer', 'versions', 'quick_set', 'search_advanced', 'set_batch', 'has_updates', 'set_from_template', 'create_template', 'list_templates', 'hard_delete', 'add_decision_context', 'list_decision_contexts', 'add_tags', 'deprecate', 'analytics', 'create_policy', 'list_policies', 'set_from_policy', 'export', 'link', 'unlink', 'relations', 'diff', 'revert', 'changes', 'help', 'example', 'use_case']
           }
         },
         required: ['action'],
@@ -36,7 +36,7 @@ export function getToolRegistry(): Tool[] {
           action: {
             type: 'string',
             description: 'Action',
-            enum: ['add', 'get', 'deactivate', 'suggest_pending', 'help', 'example', 'use_case']
+            enum: ['add', 'get', 'update', 'versions', 'check', 'due_for_review', 'deactivate', 'suggest_pending', 'list_categories', 'create_category', 'rename_category', 'retire_category', 'help', 'example', 'use_case']
           }
         },
         required: ['action'],
@@ -200,7 +200,7 @@ Use this tool to learn end-to-end workflows and multi-step operations. Returns w
           action: {
             type: 'string',
             description: 'Suggestion action to perform',
-            enum: ['by_key', 'by_tags', 'by_context', 'check_duplicate', 'help']
+            enum: ['by_key', 'by_tags', 'by_context', 'check_duplicate', 'conflicts', 'explain', 'feedback', 'analytics', 'help']
           },
           target: {
             type: 'string',
@@ -209,11 +209,19 @@ Use this tool to learn end-to-end workflows and multi-step operations. Returns w
           },
           key: {
             type: 'string',
-            description: 'Decision key (for by_key, by_context, check_duplicate when target=decision)'
+            description: 'Decision key (for by_key, by_context, check_duplicate, explain, feedback when target=decision)'
+          },
+          value: {
+            type: 'string',
+            description: 'Decision value (required for conflicts; optional for by_context and check_duplicate when target=decision; compared with existing values)'
+          },
+          rationale: {
+            type: 'string',
+            description: 'Decision rationale (optional, for check_duplicate when target=decision)'
           },
           text: {
             type: 'string',
-            description: 'Constraint text to search (for by_key, by_context, check_duplicate when target=constraint)'
+            description: 'Constraint text to search (for by_key, by_context, check_duplicate, feedback when target=constraint)'
           },
           constraint_text: {
             type: 'string',
@@ -226,12 +234,17 @@ Use this tool to learn end-to-end workflows and multi-step operations. Returns w
           tags: {
             type: 'array',
             items: { type: 'string' },
-            description: 'Tags array (for by_tags, by_context)'
+            description: 'Tags array (for by_tags, by_context, check_duplicate)'
           },
           layer: {
             type: 'string',
             description: 'Layer filter (optional)'
           },
+          scopes: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Decision scopes (optional, for by_context, conflicts and explain; scored by scope overlap)'
+          },
           priority: {
             type: 'number',
             description: 'Priority level (optional)'
@@ -243,6 +256,31 @@ Use this tool to learn end-to-end workflows and multi-step operations. Returns w
           min_score: {
             type: 'number',
             description: 'Minimum relevance score (default: 30)'
+          },
+          suggested_key: {
+            type: 'string',
+            description: 'Suggested decision key that was accepted or rejected (for feedback when target=decision)'
+          },
+          suggested_id: {
+            type: 'number',
+            description: 'Suggested constraint ID that was accepted or rejected (for feedback when target=constraint)'
+          },
+          accepted: {
+            type: 'boolean',
+            description: 'Whether the suggestion was accepted (true) or rejected (false) (required for feedback)'
+          },
+          bucket: {
+            type: 'string',
+            description: 'Time bucket for analytics (default: week)',
+            enum: ['day', 'week', 'month']
+          },
+          start_ts: {
+            type: 'number',
+            description: 'Start time for analytics (Unix seconds, optional)'
+          },
+          end_ts: {
+            type: 'number',
+            description: 'End time for analytics (Unix seconds, optional)'
           }
         },
         required: ['action'],
@@ -251,18 +289,22 @@ Use this tool to learn end-to-end workflows and multi-step operations. Returns w
     },
     {
       name: 'queue',
-      description: 'Hook queue management - list, clear, remove pending items from .sqlew/queue/pending.json. Use action: "help" for documentation.',
+      description: 'Hook queue management - list, clear, remove pending hook queue items, retry failed ones, and approve/reject plan candidates. Use action: "help" for documentation.',
       inputSchema: {
         type: 'object',
         properties: {
           action: {
             type: 'string',
             description: 'Queue action to perform',
-            enum: ['list', 'clear', 'remove', 'help', 'example']
+            enum: ['list', 'clear', 'remove', 'retry', 'approve', 'reject', 'help', 'example']
           },
           index: {
             type: 'number',
-            description: 'Item index for remove action (0-based)'
+            description: 'Item index for remove (pending), retry (failed), or approve/reject (plan candidate) action (0-based)'
+          },
+          patch: {
+            type: 'object',
+            description: 'Fields to change before retrying one failed item or approving one plan candidate (e.g. { "layer": "business" })'
           }
         },
         required: ['action'],
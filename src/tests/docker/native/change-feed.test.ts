@@ -0,0 +1,73 @@
+/**
+ * Change Feed Ordering - Native RDBMS Integration Tests
+ *
+ * Tests that decision.changes cursors follow commit order on MySQL, MariaDB
+ * and PostgreSQL, where two transactions can commit out of id order (v5.1.0).
+ *
+ * Key Tests:
+ * - A transaction that takes its sequence number first but commits last is
+ *   not skipped by a reader that resumes after a later event
+ */
+
+import { it } from 'node:test';
+import assert from 'node:assert';
+import type { Knex } from 'knex';
+import { runTestsOnAllDatabases } from './test-harness.js';
+import { recordChangeEvent } from '../../../utils/change-feed.js';
+
+runTestsOnAllDatabases('Change Feed Ordering', (getDb) => {
+  const PROJECT_ID = 1;
+
+  async function lastSeq(db: Knex): Promise<number> {
+    const row = await db('t_change_events').where('project_id', PROJECT_ID).max('seq as seq').first();
+    return Number(row?.seq ?? 0);
+  }
+
+  async function writersAfter(db: Knex, seq: number): Promise<string[]> {
+    const rows = await db('t_change_events')
+      .where('project_id', PROJECT_ID)
+      .where('seq', '>', seq)
+      .orderBy('seq', 'asc')
+      .select('details');
+    return rows.map(row => JSON.parse(row.details).writer);
+  }
+
+  it('should order interleaved transactions by commit', async () => {
+    const db = getDb();
+    const start = await lastSeq(db);
+
+    // A records its event first but commits last
+    const trxA = await db.transaction();
+    await recordChangeEvent(trxA, PROJECT_ID, { type: 'context_added', details: { writer: 'A' } });
+
+    let committedB = false;
+    const writerB = db.transaction(async (trx) => {
+      await recordChangeEvent(trx, PROJECT_ID, { type: 'context_added', details: { writer: 'B' } });
+    }).then(() => { committedB = true; });
+
+    // B waits on A's sequence row: a reader sees neither event yet
+    await new Promise(resolve => setTimeout(resolve, 300));
+    assert.strictEqual(committedB, false);
+    assert.deepStrictEqual(await writersAfter(db, start), []);
+
+    await trxA.commit();
+    await writerB;
+
+    // Resuming from any point in the feed yields A before B
+    assert.deepStrictEqual(await writersAfter(db, start), ['A', 'B']);
+    assert.deepStrictEqual(await writersAfter(db, start + 1), ['B']);
+  });
+
+  it('should not consume a sequence number on rollback', async () => {
+    const db = getDb();
+    const start = await lastSeq(db);
+
+    const trx = await db.transaction();
+    await recordChangeEvent(trx, PROJECT_ID, { type: 'context_added', details: { writer: 'rolled back' } });
+    await trx.rollback();
+    await recordChangeEvent(db, PROJECT_ID, { type: 'context_added', details: { writer: 'C' } });
+
+    assert.strictEqual(await lastSeq(db), start + 1);
+    assert.deepStrictEqual(await writersAfter(db, start), ['C']);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Decision Full-Text Search - Native RDBMS Integration Tests
+ *
+ * Tests the t_decision_search index on MySQL, MariaDB and PostgreSQL (v5.1.0).
+ *
+ * Key Tests:
+ * - The migration backfills existing decisions with their context
+ * - Every term must match as a word or word prefix (tsvector / FULLTEXT)
+ * - Terms the MySQL FULLTEXT index skips (short words, stopwords) still match
+ */
+
+import { it } from 'node:test';
+import assert from 'node:assert';
+import type { Knex } from 'knex';
+import { runTestsOnAllDatabases, cleanupTestData } from './test-harness.js';
+import {
+  SEARCH_INDEX_TABLE,
+  syncDecisionSearchIndex,
+  searchDecisionIndex,
+} from '../../../utils/fulltext-search.js';
+import { up, down } from '../../../database/migrations/v4/20260113000000_v5_add_decision_search_index.js';
+
+runTestsOnAllDatabases('Decision Full-Text Search', (getDb) => {
+  const PROJECT_ID = 1;
+
+  /**
+   * Insert a decision (and optional context) directly, returning its key_id
+   */
+  async function insertDecision(
+    db: Knex,
+    key: string,
+    value: string,
+    context?: { rationale: string; alternatives?: unknown; tradeoffs?: unknown }
+  ): Promise<number> {
+    const now = Math.floor(Date.now() / 1000);
+    await db('m_context_keys').insert({ key_name: key });
+    const { id: keyId } = await db('m_context_keys').where({ key_name: key }).first('id');
+
+    await db('t_decisions').insert({ key_id: keyId, project_id: PROJECT_ID, value, version: '1.0.0', ts: now });
+    if (context) {
+      await db('t_decision_context').insert({
+        decision_key_id: keyId,
+        project_id: PROJECT_ID,
+        rationale: context.rationale,
+        alternatives_considered: context.alternatives ? JSON.stringify(context.alternatives) : null,
+        tradeoffs: context.tradeoffs ? JSON.stringify(context.tradeoffs) : null,
+        decision_date: now,
+        ts: now,
+      });
+    }
+    return keyId;
+  }
+
+  async function searchKeys(db: Knex, text: string): Promise<string[]> {
+    return (await searchDecisionIndex(db, PROJECT_ID, text)).map(m => m.key).sort();
+  }
+
+  it('should backfill existing decisions when the migration runs', async () => {
+    const db = getDb();
+    await cleanupTestData(db);
+    await down(db);
+
+    const keyId = await insertDecision(db, 'fts/session', 'Stateless JWT access tokens', {
+      rationale: 'Horizontal scaling without sticky sessions',
+      alternatives: ['Server-side cookie sessions'],
+      tradeoffs: { cons: ['Harder revocation'] },
+    });
+    await up(db);
+
+    const row = await db(SEARCH_INDEX_TABLE).where({ project_id: PROJECT_ID, key_id: keyId }).first();
+    assert.ok(row, 'existing decision should be indexed');
+    assert.strictEqual(row.key_name, 'fts/session');
+    assert.strictEqual(row.rationale, 'Horizontal scaling without sticky sessions');
+    assert.strictEqual(row.alternatives, 'Server-side cookie sessions');
+    assert.strictEqual(row.tradeoffs, 'Harder revocation');
+
+    assert.deepStrictEqual(await searchKeys(db, 'revocation'), ['fts/session']);
+  });
+
+  it('should require every term as a word or word prefix', async () => {
+    const db = getDb();
+    const cacheId = await insertDecision(db, 'fts/cache', 'Redis cluster for response caching', {
+      rationale: 'Keeps the authentication service fast',
+    });
+    const queueId = await insertDecision(db, 'fts/queue', 'Redis streams for background jobs');
+    await syncDecisionSearchIndex(db, PROJECT_ID, cacheId);
+    await syncDecisionSearchIndex(db, PROJECT_ID, queueId);
+
+    assert.deepStrictEqual(await searchKeys(db, 'redis'), ['fts/cache', 'fts/queue']);
+    assert.deepStrictEqual(await searchKeys(db, 'redis authent'), ['fts/cache']);
+    assert.deepStrictEqual(await searchKeys(db, 'redis kafka'), []);
+
+    const [match] = await searchDecisionIndex(db, PROJECT_ID, 'streams');
+    assert.strictEqual(match.key, 'fts/queue');
+    assert.ok(match.rank > 0);
+    assert.match(match.snippet, /\*\*streams\*\*/i);
+  });
+
+  it('should match short terms and stopwords', async () => {
+    const db = getDb();
+    const uiId = await insertDecision(db, 'fts/ui', 'Dark ui theme for the admin console');
+    await syncDecisionSearchIndex(db, PROJECT_ID, uiId);
+
+    assert.deepStrictEqual(await searchKeys(db, 'ui'), ['fts/ui']);
+    assert.deepStrictEqual(await searchKeys(db, 'the admin'), ['fts/ui']);
+    assert.deepStrictEqual(await searchKeys(db, 'ui redis'), []);
+
+    await db(SEARCH_INDEX_TABLE).where('project_id', PROJECT_ID).del();
+    await cleanupTestData(db);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Constraint Category Tests
+ *
+ * Tests per-project constraint categories: default seeding, validation in
+ * constraint.add, create / rename / retire, and category-aware plan
+ * extraction (v5.1.0).
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  addConstraint,
+  getConstraints,
+  listConstraintCategories,
+  createConstraintCategory,
+  renameConstraintCategory,
+  retireConstraintCategory
+} from '../../../tools/constraints/index.js';
+import { initializeDatabase, closeDatabase, getAdapter } from '../../../database.js';
+import { ProjectContext } from '../../../utils/project-context.js';
+import { extractPatternsFromPlan } from '../../../cli/hooks/plan-pattern-extractor.js';
+import { parsePlanToml } from '../../../cli/hooks/plan-parser.js';
+
+const TEST_DB_PATH = '.sqlew/tmp/test-constraint-categories.db';
+
+describe('Constraint categories', () => {
+  before(async () => {
+    fs.mkdirSync(path.dirname(TEST_DB_PATH), { recursive: true });
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+
+    const adapter = await initializeDatabase({
+      databaseType: 'sqlite',
+      connection: { filename: TEST_DB_PATH }
+    });
+
+    const projectContext = ProjectContext.getInstance();
+    await projectContext.ensureProject(adapter.getKnex(), 'test-constraint-categories', 'config', {
+      projectRootPath: process.cwd(),
+    });
+  });
+
+  after(async () => {
+    await closeDatabase();
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+  });
+
+  it('should seed the default categories into new projects', async () => {
+    const result = await listConstraintCategories();
+    assert.deepStrictEqual(
+      result.categories.map(c => c.name),
+      ['architecture', 'code-style', 'performance', 'security']
+    );
+    assert.ok(result.categories.every(c => c.active && c.constraint_count === 0));
+
+    // The migration scoped the seeded categories to the default project as well
+    const knex = getAdapter().getKnex();
+    const defaults = await knex('m_constraint_categories').where({ project_id: 1 }).orderBy('name').pluck('name');
+    assert.deepStrictEqual(defaults, ['architecture', 'code-style', 'performance', 'security']);
+  });
+
+  it('should only accept the project\'s active categories in add', async () => {
+    await assert.rejects(
+      () => addConstraint({ constraint_text: 'Every page passes axe checks', category: 'accessibility', priority: 'high' }),
+      /Invalid category\. Must be one of: architecture, code-style, performance, security/
+    );
+
+    const created = await createConstraintCategory({ name: 'accessibility' });
+    assert.strictEqual(created.message, 'Category created');
+
+    const added = await addConstraint({ constraint_text: 'Every page passes axe checks', category: 'accessibility', priority: 'high' });
+    const result = await getConstraints({ category: 'accessibility' });
+    assert.deepStrictEqual(result.constraints.map(c => c.id), [added.constraint_id]);
+
+    const again = await createConstraintCategory({ name: 'accessibility' });
+    assert.strictEqual(again.message, 'Category already exists');
+    assert.strictEqual(again.category.constraint_count, 1);
+
+    await assert.rejects(() => createConstraintCategory({ name: 'Accessibility' }), /naming conflict/);
+    await assert.rejects(() => createConstraintCategory({ name: ' ' }), /non-empty string/);
+  });
+
+  it('should rename a category and carry its constraints', async () => {
+    await addConstraint({ constraint_text: 'Use 2-space indentation', category: 'code-style', priority: 'low' });
+
+    const renamed = await renameConstraintCategory({ name: 'code-style', new_name: 'maintainability' });
+    assert.strictEqual(renamed.category.name, 'maintainability');
+    assert.strictEqual(renamed.category.constraint_count, 1);
+
+    const result = await getConstraints({ category: 'maintainability' });
+    assert.strictEqual(result.constraints[0].constraint_text, 'Use 2-space indentation');
+    await assert.rejects(() => getConstraints({ category: 'code-style' }), /Invalid category/);
+
+    await assert.rejects(
+      () => renameConstraintCategory({ name: 'maintainability', new_name: 'security' }),
+      /Category "security" already exists/
+    );
+    await assert.rejects(
+      () => renameConstraintCategory({ name: 'missing', new_name: 'other' }),
+      /Category not found: missing/
+    );
+  });
+
+  it('should retire a category without touching its constraints', async () => {
+    await addConstraint({ constraint_text: 'p95 latency under 200ms', category: 'performance', priority: 'high' });
+
+    const retired = await retireConstraintCategory({ name: 'performance' });
+    assert.strictEqual(retired.category.active, false);
+
+    await assert.rejects(
+      () => addConstraint({ constraint_text: 'Cache hot paths', category: 'performance', priority: 'medium' }),
+      /Must be one of: accessibility, architecture, maintainability, security/
+    );
+
+    // Existing constraints stay queryable by the retired category
+    const result = await getConstraints({ category: 'performance' });
+    assert.strictEqual(result.count, 1);
+
+    const active = await listConstraintCategories();
+    assert.ok(!active.categories.some(c => c.name === 'performance'));
+    const all = await listConstraintCategories({ include_retired: true });
+    assert.deepStrictEqual(all.categories.find(c => c.name === 'performance'), {
+      name: 'performance', active: false, constraint_count: 1
+    });
+
+    const reactivated = await createConstraintCategory({ name: 'performance' });
+    assert.strictEqual(reactivated.message, 'Category reactivated');
+    assert.strictEqual(reactivated.category.active, true);
+  });
+
+  it('should refuse to retire the last active category', async () => {
+    for (const name of ['accessibility', 'architecture', 'maintainability', 'performance']) {
+      await retireConstraintCategory({ name });
+    }
+    await assert.rejects(() => retireConstraintCategory({ name: 'security' }), /last active category/);
+    await createConstraintCategory({ name: 'architecture' });
+  });
+
+  it('should extract and parse plan constraints with the project\'s categories', async () => {
+    const categories = ['architecture', 'testing'];
+
+    const markdown = [
+      '## 🚫 Constraint: [Testing]',
+      '- **Rule**: Every bug fix ships with a regression test',
+      '',
+      '## 🚫 Constraint: security',
+      '- **Rule**: Secrets come from the vault',
+      ''
+    ].join('\n');
+    const extracted = extractPatternsFromPlan(markdown, categories);
+    assert.deepStrictEqual(extracted.constraints.map(c => c.category), ['testing', 'architecture']);
+
+    const toml = [
+      '```toml',
+      '[[constraint]]',
+      'text = "Every bug fix ships with a regression test"',
+      'category = "testing"',
+      '',
+      '[[constraint]]',
+      'text = "Secrets come from the vault"',
+      'category = "security"',
+      '```'
+    ].join('\n');
+    assert.deepStrictEqual(parsePlanToml(toml, categories).constraints.map(c => c.category), ['testing']);
+    assert.deepStrictEqual(parsePlanToml(toml).constraints.map(c => c.category), ['security']);
+
+    // Categories unknown (project database unreadable): keep them for constraint.add to validate
+    assert.deepStrictEqual(extractPatternsFromPlan(markdown, null).constraints.map(c => c.category), ['testing', 'security']);
+    assert.deepStrictEqual(parsePlanToml(toml, null).constraints.map(c => c.category), ['testing', 'security']);
+  });
+});
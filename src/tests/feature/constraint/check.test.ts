@@ -0,0 +1,164 @@
+/**
+ * Constraint Check Tests
+ *
+ * Tests machine-checkable constraint rules and constraint.check against a
+ * fixture working tree (v5.1.0).
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  addConstraint,
+  getConstraints,
+  updateConstraint,
+  getConstraintVersions,
+  checkConstraints
+} from '../../../tools/constraints/index.js';
+import { initializeDatabase, closeDatabase } from '../../../database.js';
+import { ProjectContext } from '../../../utils/project-context.js';
+
+const TEST_DB_PATH = '.sqlew/tmp/test-constraint-check.db';
+const FIXTURE_ROOT = path.resolve('.sqlew/tmp/constraint-check-fixture');
+
+const FIXTURE_FILES: Record<string, string> = {
+  '.gitignore': 'generated/\n',
+  'src/ui/view.ts': "import { query } from '../database/query.js';\nexport const view = () => query();\n",
+  'src/ui/widget.ts': "import React from 'react';\nconsole.log('debug');\n",
+  'src/database/query.ts': "// @license MIT\nexport function query() { return 1; }\n",
+  'src/legacy/old.js': "const _ = require('lodash/fp');\n",
+  'generated/bundle.ts': "import { query } from '../src/database/query.js';\nconsole.log('ignored');\n",
+};
+
+describe('Constraint check', () => {
+  let importRuleId: number;
+  let consoleRuleId: number;
+  let licenseRuleId: number;
+
+  before(async () => {
+    fs.rmSync(FIXTURE_ROOT, { recursive: true, force: true });
+    for (const [file, content] of Object.entries(FIXTURE_FILES)) {
+      fs.mkdirSync(path.dirname(path.join(FIXTURE_ROOT, file)), { recursive: true });
+      fs.writeFileSync(path.join(FIXTURE_ROOT, file), content);
+    }
+
+    fs.mkdirSync(path.dirname(TEST_DB_PATH), { recursive: true });
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+
+    const adapter = await initializeDatabase({
+      databaseType: 'sqlite',
+      connection: { filename: TEST_DB_PATH }
+    });
+
+    const projectContext = ProjectContext.getInstance();
+    await projectContext.ensureProject(adapter.getKnex(), 'test-constraint-check', 'config', {
+      projectRootPath: FIXTURE_ROOT,
+    });
+
+    importRuleId = (await addConstraint({
+      constraint_text: 'UI must not import the database layer or lodash',
+      category: 'architecture',
+      priority: 'high',
+      rules: { paths: ['src/ui/', 'src/legacy/'], forbidden_imports: ['*/database/*', 'lodash'] }
+    })).constraint_id;
+
+    consoleRuleId = (await addConstraint({
+      constraint_text: 'No console.log',
+      category: 'code-style',
+      priority: 'medium',
+      rules: JSON.stringify({ forbidden_patterns: ['console\\.log\\('] })
+    })).constraint_id;
+
+    licenseRuleId = (await addConstraint({
+      constraint_text: 'TypeScript sources carry a license header',
+      category: 'code-style',
+      priority: 'low',
+      rules: { paths: ['src/**/*.ts'], required_patterns: ['^// @license'] }
+    })).constraint_id;
+
+    // Free-text constraints are not checked
+    await addConstraint({ constraint_text: 'Be nice', category: 'architecture', priority: 'low' });
+  });
+
+  after(async () => {
+    await closeDatabase();
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+    fs.rmSync(FIXTURE_ROOT, { recursive: true, force: true });
+  });
+
+  it('should report violations by file and line, skipping ignored files', async () => {
+    const result = await checkConstraints();
+
+    assert.strictEqual(result.passed, false);
+    assert.strictEqual(result.constraints_checked, 3);
+    assert.strictEqual(result.files_scanned, 4);
+    assert.ok(result.violations.every(v => !v.file.startsWith('generated/')));
+
+    const summary = result.violations.map(v => `${v.constraint_id}:${v.rule}:${v.file}:${v.line}`);
+    assert.deepStrictEqual(summary, [
+      `${importRuleId}:forbidden_import:src/legacy/old.js:1`,
+      `${licenseRuleId}:required_pattern:src/ui/view.ts:null`,
+      `${importRuleId}:forbidden_import:src/ui/view.ts:1`,
+      `${licenseRuleId}:required_pattern:src/ui/widget.ts:null`,
+      `${consoleRuleId}:forbidden_pattern:src/ui/widget.ts:2`,
+    ]);
+    assert.strictEqual(result.count, 5);
+    assert.strictEqual(result.violations[2].text, "import { query } from '../database/query.js';");
+    assert.strictEqual(result.violations[0].message, 'Import "lodash/fp" is forbidden');
+  });
+
+  it('should limit the scan to paths and constraints', async () => {
+    const byPath = await checkConstraints({ paths: ['src/legacy/'] });
+    assert.strictEqual(byPath.files_scanned, 1);
+    assert.strictEqual(byPath.count, 1);
+
+    const byConstraint = await checkConstraints({ constraint_ids: [consoleRuleId] });
+    assert.strictEqual(byConstraint.constraints_checked, 1);
+    assert.deepStrictEqual(byConstraint.violations.map(v => v.file), ['src/ui/widget.ts']);
+
+    const limited = await checkConstraints({ limit: 2 });
+    assert.strictEqual(limited.violations.length, 2);
+    assert.strictEqual(limited.count, 5);
+    assert.strictEqual(limited.truncated, true);
+  });
+
+  it('should reject invalid rules', async () => {
+    await assert.rejects(
+      () => addConstraint({ constraint_text: 'Bad regex', category: 'architecture', priority: 'low', rules: { forbidden_patterns: ['('] } }),
+      /Invalid regex in forbidden_patterns/
+    );
+    await assert.rejects(
+      () => addConstraint({ constraint_text: 'Unknown rule', category: 'architecture', priority: 'low', rules: { banned: ['x'] } as any }),
+      /Unknown rule "banned"/
+    );
+    await assert.rejects(
+      () => addConstraint({ constraint_text: 'Paths only', category: 'architecture', priority: 'low', rules: { paths: ['src/'] } }),
+      /at least one of/
+    );
+    await assert.rejects(
+      () => checkConstraints({ constraint_ids: [9999] }),
+      /Constraints not found or without rules: 9999/
+    );
+  });
+
+  it('should return rules from get and keep them in revisions', async () => {
+    const { constraints } = await getConstraints({ category: 'code-style' });
+    const consoleRule = constraints.find(c => c.id === consoleRuleId)!;
+    assert.deepStrictEqual(consoleRule.rules, { forbidden_patterns: ['console\\.log\\('] });
+
+    const updated = await updateConstraint({ constraint_id: consoleRuleId, rules: null });
+    assert.deepStrictEqual(updated.changed, ['rules']);
+
+    const versions = await getConstraintVersions({ constraint_id: consoleRuleId });
+    assert.deepStrictEqual(versions.history[0].rules, { forbidden_patterns: ['console\\.log\\('] });
+
+    const result = await checkConstraints();
+    assert.strictEqual(result.constraints_checked, 2);
+    assert.ok(result.violations.every(v => v.constraint_id !== consoleRuleId));
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Constraint Expiry Tests
+ *
+ * Tests expires_at / review_by, startup deactivation of expired constraints
+ * and constraint.due_for_review (v5.1.0).
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  addConstraint,
+  getConstraints,
+  updateConstraint,
+  getConstraintsDueForReview
+} from '../../../tools/constraints/index.js';
+import { getChanges, buildExportBlocks } from '../../../tools/context/index.js';
+import { initializeDatabase, closeDatabase } from '../../../database.js';
+import { ProjectContext } from '../../../utils/project-context.js';
+import { deactivateExpiredConstraints } from '../../../utils/constraint-expiry.js';
+import { loadCheckableConstraints } from '../../../utils/constraint-rules.js';
+import { getTaggedConstraints } from '../../../utils/view-queries.js';
+import type { DatabaseAdapter } from '../../../adapters/index.js';
+
+const TEST_DB_PATH = '.sqlew/tmp/test-constraint-expiry.db';
+const DAY = 86400;
+
+describe('Constraint expiry and review', () => {
+  let adapter: DatabaseAdapter;
+  let projectId: number;
+  let freezeId: number;
+  let reviewId: number;
+  let upcomingId: number;
+
+  before(async () => {
+    fs.mkdirSync(path.dirname(TEST_DB_PATH), { recursive: true });
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+
+    adapter = await initializeDatabase({
+      databaseType: 'sqlite',
+      connection: { filename: TEST_DB_PATH }
+    });
+
+    const project = await ProjectContext.getInstance().ensureProject(adapter.getKnex(), 'test-constraint-expiry', 'config', {
+      projectRootPath: process.cwd(),
+    });
+    projectId = project.id;
+
+    freezeId = (await addConstraint({
+      constraint_text: 'Do not upgrade lodash until the migration lands',
+      category: 'architecture',
+      priority: 'high',
+      expires_at: '2d'
+    })).constraint_id;
+
+    reviewId = (await addConstraint({
+      constraint_text: 'Cache responses for 5 minutes',
+      category: 'performance',
+      priority: 'medium',
+      review_by: new Date(Date.now() - DAY * 1000).toISOString()
+    })).constraint_id;
+
+    upcomingId = (await addConstraint({
+      constraint_text: 'Use TLS 1.3',
+      category: 'security',
+      priority: 'critical',
+      review_by: '10d'
+    })).constraint_id;
+  });
+
+  after(async () => {
+    await closeDatabase();
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+  });
+
+  it('should store and return expiry and review dates', async () => {
+    const { constraints } = await getConstraints({});
+    const freeze = constraints.find(c => c.id === freezeId)!;
+    assert.ok(freeze.expires_at);
+    assert.ok(Math.abs(new Date(freeze.expires_at!).getTime() - (Date.now() + 2 * DAY * 1000)) < 60_000);
+    assert.strictEqual(freeze.review_by, undefined);
+
+    await assert.rejects(
+      () => addConstraint({ constraint_text: 'Already over', category: 'architecture', priority: 'low', expires_at: '2020-01-01' }),
+      /expires_at" must be in the future/
+    );
+    await assert.rejects(
+      () => addConstraint({ constraint_text: 'Bad date', category: 'architecture', priority: 'low', review_by: 'next week' }),
+      /Invalid review_by/
+    );
+  });
+
+  it('should list overdue constraints and upcoming ones within a window', async () => {
+    const overdue = await getConstraintsDueForReview();
+    assert.deepStrictEqual(overdue.constraints.map(c => c.id), [reviewId]);
+    assert.strictEqual(overdue.constraints[0].reason, 'review');
+    assert.strictEqual(overdue.constraints[0].overdue, true);
+
+    const upcoming = await getConstraintsDueForReview({ within: '14d' });
+    assert.deepStrictEqual(upcoming.constraints.map(c => c.id), [reviewId, freezeId, upcomingId]);
+    assert.strictEqual(upcoming.constraints[1].reason, 'expiring');
+    assert.strictEqual(upcoming.constraints[1].overdue, false);
+  });
+
+  it('should deactivate expired constraints and record the change', async () => {
+    const knex = adapter.getKnex();
+    const inThreeDays = Math.floor(Date.now() / 1000) + 3 * DAY;
+
+    const expired = await deactivateExpiredConstraints(knex, projectId, inThreeDays);
+    assert.deepStrictEqual(expired, [freezeId]);
+    assert.deepStrictEqual(await deactivateExpiredConstraints(knex, projectId, inThreeDays), []);
+
+    const { constraints } = await getConstraints({});
+    assert.ok(!constraints.some(c => c.id === freezeId));
+
+    const changes = await getChanges({ event_types: ['constraint_deactivated'] });
+    const event = changes.events.find(e => e.constraint_id === freezeId)!;
+    assert.strictEqual(event.details?.reason, 'expired');
+  });
+
+  it('should skip constraints that expired since startup', async () => {
+    const knex = adapter.getKnex();
+    const lapsedId = (await addConstraint({
+      constraint_text: 'No console.log during the release freeze',
+      category: 'architecture',
+      priority: 'medium',
+      expires_at: '1d',
+      rules: { forbidden_patterns: ['console\\.log\\('] }
+    })).constraint_id;
+    assert.deepStrictEqual((await loadCheckableConstraints(knex, projectId)).map(c => c.id), [lapsedId]);
+
+    // Expired mid-session: still active in the table until the next startup
+    await knex('t_constraints').where({ id: lapsedId }).update({ expires_at: Math.floor(Date.now() / 1000) - 60 });
+
+    const { constraints } = await getConstraints({});
+    assert.ok(!constraints.some(c => c.id === lapsedId));
+    const all = await getConstraints({ include_inactive: true });
+    assert.ok(all.constraints.some(c => c.id === lapsedId));
+    assert.deepStrictEqual(await loadCheckableConstraints(knex, projectId), []);
+    const exported = await buildExportBlocks(knex, projectId, { format: 'blocks' });
+    assert.ok(!exported.constraints?.some(c => c.rule.includes('release freeze')));
+    assert.ok(!(await getTaggedConstraints(knex)).some(c => c.id === lapsedId));
+
+    assert.deepStrictEqual(await deactivateExpiredConstraints(knex, projectId), [lapsedId]);
+  });
+
+  it('should update and clear dates', async () => {
+    const updated = await updateConstraint({ constraint_id: reviewId, review_by: '90d' });
+    assert.deepStrictEqual(updated.changed, ['review_by']);
+    assert.strictEqual((await getConstraintsDueForReview()).count, 0);
+
+    const cleared = await updateConstraint({ constraint_id: upcomingId, review_by: null });
+    assert.deepStrictEqual(cleared.changed, ['review_by']);
+    const { constraints } = await getConstraints({ category: 'security' });
+    assert.strictEqual(constraints[0].review_by, undefined);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Constraint Scope Tests
+ *
+ * Tests scoped constraints and constraint.get filtering by scope or file
+ * path, including wildcard matching (v5.1.0).
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  addConstraint,
+  getConstraints,
+  updateConstraint,
+  getConstraintVersions
+} from '../../../tools/constraints/index.js';
+import { initializeDatabase, closeDatabase } from '../../../database.js';
+import { ProjectContext } from '../../../utils/project-context.js';
+import { scopeApplies } from '../../../tools/constraints/internal/scopes.js';
+
+const TEST_DB_PATH = '.sqlew/tmp/test-constraint-scopes.db';
+
+describe('Constraint scopes', () => {
+  let globalId: number;
+  let billingId: number;
+  let apiId: number;
+  let patternId: number;
+
+  before(async () => {
+    fs.mkdirSync(path.dirname(TEST_DB_PATH), { recursive: true });
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+
+    const adapter = await initializeDatabase({
+      databaseType: 'sqlite',
+      connection: { filename: TEST_DB_PATH }
+    });
+
+    await ProjectContext.getInstance().ensureProject(adapter.getKnex(), 'test-constraint-scopes', 'config', {
+      projectRootPath: process.cwd(),
+    });
+
+    globalId = (await addConstraint({
+      constraint_text: 'All code is TypeScript',
+      category: 'code-style',
+      priority: 'medium'
+    })).constraint_id;
+
+    billingId = (await addConstraint({
+      constraint_text: 'Amounts are integers in cents',
+      category: 'architecture',
+      priority: 'high',
+      scopes: ['src/billing/', 'src/billing']
+    })).constraint_id;
+
+    apiId = (await addConstraint({
+      constraint_text: 'Instrument endpoints are read-only',
+      category: 'architecture',
+      priority: 'high',
+      scopes: ['api/instruments/quotes']
+    })).constraint_id;
+
+    patternId = (await addConstraint({
+      constraint_text: 'Handlers validate input with zod',
+      category: 'security',
+      priority: 'critical',
+      scopes: ['src/*/handlers/**']
+    })).constraint_id;
+  });
+
+  after(async () => {
+    await closeDatabase();
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+  });
+
+  it('should match scopes by ancestry and wildcards', () => {
+    assert.ok(scopeApplies('src/billing', 'src/billing/invoice.ts'));
+    assert.ok(!scopeApplies('src/billing', 'src/billing-old/invoice.ts'));
+    assert.ok(scopeApplies('src/*/handlers/**', 'src/orders/handlers/create.ts'));
+    assert.ok(scopeApplies('api/instruments/quotes', 'api/instruments/*'));
+    assert.ok(!scopeApplies('api/orders', 'api/instruments/*'));
+  });
+
+  it('should return scopes and filter by file path', async () => {
+    const { constraints } = await getConstraints({});
+    assert.deepStrictEqual(constraints.find(c => c.id === billingId)!.scopes, ['src/billing']);
+    assert.strictEqual(constraints.find(c => c.id === globalId)!.scopes, undefined);
+
+    const forInvoice = await getConstraints({ file_path: path.join(process.cwd(), 'src/billing/invoice.ts') });
+    assert.deepStrictEqual(forInvoice.constraints.map(c => c.id).sort(), [globalId, billingId].sort());
+
+    const forHandler = await getConstraints({ file_path: 'src/billing/handlers/refund.ts', include_unscoped: false });
+    assert.deepStrictEqual(forHandler.constraints.map(c => c.id).sort(), [billingId, patternId].sort());
+
+    const forOther = await getConstraints({ file_path: 'src/ui/view.ts', include_unscoped: false });
+    assert.strictEqual(forOther.count, 0);
+  });
+
+  it('should filter by wildcard scope', async () => {
+    const result = await getConstraints({ scope: 'api/instruments/*', include_unscoped: false });
+    assert.deepStrictEqual(result.constraints.map(c => c.id), [apiId]);
+
+    await assert.rejects(
+      () => getConstraints({ scope: 'api', file_path: 'api/x.ts' }),
+      /either "scope" or "file_path"/
+    );
+  });
+
+  it('should replace scopes on update and keep them in revisions', async () => {
+    const updated = await updateConstraint({ constraint_id: billingId, scopes: [] });
+    assert.deepStrictEqual(updated.changed, ['scopes']);
+
+    const forOther = await getConstraints({ file_path: 'src/ui/view.ts' });
+    assert.ok(forOther.constraints.some(c => c.id === billingId));
+
+    const versions = await getConstraintVersions({ constraint_id: billingId });
+    assert.deepStrictEqual(versions.history[0].scopes, ['src/billing']);
+  });
+});
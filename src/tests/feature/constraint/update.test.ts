@@ -0,0 +1,129 @@
+/**
+ * Constraint Update Tests
+ *
+ * Tests constraint.update (in-place edits) and constraint.versions
+ * (revision history) (v5.1.0).
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  addConstraint,
+  getConstraints,
+  updateConstraint,
+  getConstraintVersions
+} from '../../../tools/constraints/index.js';
+import { getChanges } from '../../../tools/context/index.js';
+import { initializeDatabase, closeDatabase } from '../../../database.js';
+import { ProjectContext } from '../../../utils/project-context.js';
+
+const TEST_DB_PATH = '.sqlew/tmp/test-constraint-update.db';
+
+describe('Constraint update', () => {
+  let constraintId: number;
+
+  before(async () => {
+    fs.mkdirSync(path.dirname(TEST_DB_PATH), { recursive: true });
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+
+    const adapter = await initializeDatabase({
+      databaseType: 'sqlite',
+      connection: { filename: TEST_DB_PATH }
+    });
+
+    const projectContext = ProjectContext.getInstance();
+    await projectContext.ensureProject(adapter.getKnex(), 'test-constraint-update', 'config', {
+      projectRootPath: process.cwd(),
+    });
+
+    const added = await addConstraint({
+      constraint_text: 'API responses under 200ms',
+      category: 'performance',
+      priority: 'medium',
+      layer: 'business',
+      tags: ['api', 'latency']
+    });
+    constraintId = added.constraint_id;
+  });
+
+  after(async () => {
+    await closeDatabase();
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+  });
+
+  it('should edit text and priority in place, keeping ID and tags', async () => {
+    const result = await updateConstraint({
+      constraint_id: constraintId,
+      constraint_text: 'API responses under 100ms',
+      priority: 'high'
+    });
+    assert.strictEqual(result.version, 2);
+    assert.strictEqual(result.previous_version, 1);
+    assert.deepStrictEqual(result.changed, ['constraint_text', 'priority']);
+
+    const { constraints } = await getConstraints({ category: 'performance' });
+    assert.strictEqual(constraints.length, 1);
+    assert.strictEqual(constraints[0].id, constraintId);
+    assert.strictEqual(constraints[0].constraint_text, 'API responses under 100ms');
+    assert.strictEqual(constraints[0].priority, 'high');
+    assert.deepStrictEqual(constraints[0].tags, ['api', 'latency']);
+  });
+
+  it('should replace tags and layer, accepting id and text aliases', async () => {
+    const result = await updateConstraint({ id: constraintId, tags: ['api', 'sla'], layer: 'infrastructure' } as any);
+    assert.strictEqual(result.version, 3);
+    assert.deepStrictEqual(result.changed, ['layer', 'tags']);
+
+    const { constraints } = await getConstraints({ tags: ['sla'] });
+    assert.strictEqual(constraints[0].layer, 'infrastructure');
+    assert.deepStrictEqual((constraints[0].tags as unknown as string[]).slice().sort(), ['api', 'sla']);
+  });
+
+  it('should not create a revision when nothing changes', async () => {
+    const result = await updateConstraint({ constraint_id: constraintId, priority: 'high', tags: ['sla', 'api'] });
+    assert.strictEqual(result.message, 'No changes');
+    assert.strictEqual(result.version, 3);
+    assert.deepStrictEqual(result.changed, []);
+  });
+
+  it('should list previous revisions newest first', async () => {
+    const result = await getConstraintVersions({ constraint_id: constraintId });
+    assert.strictEqual(result.current_version, 3);
+    assert.strictEqual(result.count, 2);
+    assert.deepStrictEqual(
+      result.history.map(h => [h.version, h.constraint_text, h.priority, h.layer, h.tags]),
+      [
+        [2, 'API responses under 100ms', 'high', 'business', ['api', 'latency']],
+        [1, 'API responses under 200ms', 'medium', 'business', ['api', 'latency']]
+      ]
+    );
+    assert.ok(result.history.every(h => typeof h.timestamp === 'string' && h.timestamp.length > 0));
+  });
+
+  it('should record constraint_updated events', async () => {
+    const { events } = await getChanges({ event_types: ['constraint_updated'] });
+    assert.deepStrictEqual(events.map(e => [e.constraint_id, e.version]), [[constraintId, '2'], [constraintId, '3']]);
+    assert.deepStrictEqual(events[1].details, { previous_version: 2, changed: ['layer', 'tags'] });
+  });
+
+  it('should reject invalid updates', async () => {
+    await assert.rejects(() => updateConstraint({ constraint_id: constraintId }), /Nothing to update/);
+    await assert.rejects(() => updateConstraint({ constraint_id: constraintId, priority: 'urgent' as any }), /Invalid priority/);
+    await assert.rejects(() => updateConstraint({ constraint_id: 9999, priority: 'low' }), /Constraint not found: 9999/);
+    await assert.rejects(() => updateConstraint({ constraint_id: constraintId, category: 'security' } as any), /category/);
+
+    const other = await addConstraint({ constraint_text: 'Cache read-heavy endpoints', category: 'performance', priority: 'low' });
+    await assert.rejects(
+      () => updateConstraint({ constraint_id: other.constraint_id, constraint_text: 'API responses under 100ms' }),
+      new RegExp(`Constraint ${constraintId} already has this text`)
+    );
+
+    await assert.rejects(() => getConstraintVersions({ constraint_id: 9999 }), /Constraint not found: 9999/);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Point-in-time Query Tests
+ *
+ * Tests the as_of parameter of decision.list, decision.get and
+ * decision.search_advanced (v5.1.0).
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { setDecision, getDecision, getContext, searchAdvanced, addDecisionContextAction, linkDecisions } from '../../../tools/context/index.js';
+import { initializeDatabase, closeDatabase, getAdapter } from '../../../database.js';
+import { ProjectContext } from '../../../utils/project-context.js';
+import type { RankedDecision } from '../../../types.js';
+
+const TEST_DB_PATH = '.sqlew/tmp/test-decision-as-of.db';
+
+const JAN = Date.UTC(2025, 0, 1) / 1000;
+const FEB = Date.UTC(2025, 1, 1) / 1000;
+const MAR = Date.UTC(2025, 2, 1) / 1000;
+const APR = Date.UTC(2025, 3, 1) / 1000;
+
+/**
+ * Move a decision's versions to fixed timestamps (oldest first, last = current row)
+ */
+async function backdate(key: string, timestamps: number[]): Promise<void> {
+  const knex = getAdapter().getKnex();
+  const keyId = (await knex('m_context_keys').where({ key_name: key }).first('id')).id;
+  const history = await knex('t_decision_history').where({ key_id: keyId }).orderBy('id', 'asc').pluck('id');
+
+  assert.strictEqual(history.length, timestamps.length - 1);
+  for (let i = 0; i < history.length; i++) {
+    await knex('t_decision_history').where({ id: history[i] }).update({ ts: timestamps[i] });
+  }
+  await knex('t_decisions').where({ key_id: keyId }).update({ ts: timestamps[timestamps.length - 1] });
+}
+
+describe('Decision as_of', () => {
+  before(async () => {
+    fs.mkdirSync(path.dirname(TEST_DB_PATH), { recursive: true });
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+
+    const adapter = await initializeDatabase({
+      databaseType: 'sqlite',
+      connection: { filename: TEST_DB_PATH }
+    });
+
+    const projectContext = ProjectContext.getInstance();
+    await projectContext.ensureProject(adapter.getKnex(), 'test-decision-as-of', 'config', {
+      projectRootPath: process.cwd(),
+    });
+
+    // asof/db: PostgreSQL (Jan) → MySQL (Feb) → deprecated MySQL (Mar)
+    await setDecision({ key: 'asof/db', value: 'Use PostgreSQL for storage', layer: 'data', tags: ['db'] });
+    await setDecision({ key: 'asof/db', value: 'Use MySQL for storage', tags: ['db', 'mysql'] });
+    await setDecision({ key: 'asof/db', value: 'Use MySQL for storage', status: 'deprecated' });
+    await backdate('asof/db', [JAN, FEB, MAR]);
+
+    // asof/cache: created in March
+    await setDecision({ key: 'asof/cache', value: 'Use Redis for caching', layer: 'infrastructure', scopes: ['api/Cache'] });
+    await backdate('asof/cache', [MAR]);
+  });
+
+  after(async () => {
+    await closeDatabase();
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+  });
+
+  it('should get the version in force at a timestamp', async () => {
+    const jan = await getDecision({ key: 'asof/db', as_of: '2025-01-15T00:00:00Z' });
+    assert.strictEqual(jan.found, true);
+    assert.strictEqual(jan.as_of, '2025-01-15T00:00:00.000Z');
+    assert.strictEqual(jan.decision?.version, '1.0.0');
+    assert.strictEqual(jan.decision?.value, 'Use PostgreSQL for storage');
+    assert.strictEqual(jan.decision?.status, 'active');
+    assert.strictEqual(jan.decision?.tags, 'db');
+
+    const feb = await getDecision({ key: 'asof/db', as_of: '2025-02-01T00:00:00Z' });
+    assert.strictEqual(feb.decision?.version, '1.0.1');
+    assert.strictEqual(feb.decision?.tags, 'db,mysql');
+
+    const now = await getDecision({ key: 'asof/db', as_of: '1m' });
+    assert.strictEqual(now.decision?.version, '1.0.2');
+    assert.strictEqual(now.decision?.status, 'deprecated');
+  });
+
+  it('should report decisions that did not exist yet as not found', async () => {
+    const result = await getDecision({ key: 'asof/cache', as_of: '2025-02-15T00:00:00Z' });
+    assert.strictEqual(result.found, false);
+    assert.strictEqual(result.decision, undefined);
+  });
+
+  it('should only return context recorded up to as_of', async () => {
+    await addDecisionContextAction({ key: 'asof/db', rationale: 'Team knows PostgreSQL' });
+    const knex = getAdapter().getKnex();
+    await knex('t_decision_context').update({ decision_date: FEB + 3600, ts: FEB + 3600 });
+
+    const jan = await getDecision({ key: 'asof/db', as_of: '2025-01-15T00:00:00Z', include_context: true });
+    assert.deepStrictEqual(jan.context, []);
+
+    const mar = await getDecision({ key: 'asof/db', as_of: '2025-03-15T00:00:00Z', include_context: true });
+    assert.strictEqual(mar.context?.length, 1);
+    assert.strictEqual(mar.context?.[0].rationale, 'Team knows PostgreSQL');
+  });
+
+  it('should list decisions as they were and filter on the historical state', async () => {
+    const feb = await getContext({ as_of: '2025-02-15T00:00:00Z', full_value: true });
+    assert.deepStrictEqual(feb.decisions.map(d => [d.key, d.value]), [['asof/db', 'Use MySQL for storage']]);
+
+    const activeInMarch = await getContext({ as_of: '2025-03-15T00:00:00Z', status: 'active' });
+    assert.deepStrictEqual(activeInMarch.decisions.map(d => d.key), ['asof/cache']);
+
+    const mysqlInJan = await getContext({ as_of: '2025-01-15T00:00:00Z', tags: ['mysql'] });
+    assert.strictEqual(mysqlInJan.count, 0);
+  });
+
+  it('should search historical values with search_advanced', async () => {
+    const jan = await searchAdvanced({ as_of: '2025-01-15T00:00:00Z', search_text: 'postgres' });
+    assert.strictEqual(jan.total_count, 1);
+    const match = jan.decisions[0] as RankedDecision;
+    assert.strictEqual(match.key, 'asof/db');
+    assert.strictEqual(match.snippet, 'Use **PostgreSQL** for storage');
+
+    const mar = await searchAdvanced({ as_of: '2025-03-15T00:00:00Z', search_text: 'postgres' });
+    assert.strictEqual(mar.total_count, 0);
+
+    const layered = await searchAdvanced({ as_of: '2025-03-15T00:00:00Z', layers: ['data'], statuses: ['deprecated'] });
+    assert.deepStrictEqual(layered.decisions.map(d => d.key), ['asof/db']);
+    assert.strictEqual(layered.as_of, '2025-03-15T00:00:00.000Z');
+
+    const sorted = await searchAdvanced({ as_of: '2025-03-15T00:00:00Z', sort_by: 'key', sort_order: 'asc', limit: 1, offset: 1 });
+    assert.deepStrictEqual(sorted.decisions.map(d => d.key), ['asof/db']);
+    assert.strictEqual(sorted.total_count, 2);
+
+    // Scopes match case-sensitively, like scope LIKE on PostgreSQL
+    const scoped = await searchAdvanced({ as_of: '2025-03-15T00:00:00Z', scopes: ['api/*'] });
+    assert.deepStrictEqual(scoped.decisions.map(d => d.key), ['asof/cache']);
+    assert.strictEqual((await searchAdvanced({ as_of: '2025-03-15T00:00:00Z', scopes: ['API/*'] })).total_count, 0);
+    assert.strictEqual((await searchAdvanced({ as_of: '2025-03-15T00:00:00Z', scopes: ['api/cache'] })).total_count, 0);
+  });
+
+  it('should keep decisions superseded later in earlier views', async () => {
+    await setDecision({ key: 'asof/queue', value: 'Use RabbitMQ for jobs', layer: 'infrastructure' });
+    await backdate('asof/queue', [APR]);
+    await setDecision({ key: 'asof/queue-v2', value: 'Use SQS for jobs', layer: 'infrastructure' });
+    await linkDecisions({ key: 'asof/queue-v2', target_key: 'asof/queue', relation_type: 'supersedes' });
+
+    const before = await getDecision({ key: 'asof/queue', as_of: '2025-04-15T00:00:00Z' });
+    assert.strictEqual(before.found, true);
+    assert.strictEqual(before.decision?.status, 'active');
+    assert.strictEqual(before.decision?.value, 'Use RabbitMQ for jobs');
+
+    const listed = await getContext({ as_of: '2025-04-15T00:00:00Z', layer: 'infrastructure' });
+    assert.deepStrictEqual(listed.decisions.map(d => d.key).sort(), ['asof/cache', 'asof/queue']);
+
+    const now = await getDecision({ key: 'asof/queue' });
+    assert.strictEqual(now.decision?.status, 'deprecated');
+  });
+
+  it('should reject invalid as_of values', async () => {
+    await assert.rejects(() => getDecision({ key: 'asof/db', as_of: 'yesterday' }), /Invalid as_of format: yesterday/);
+    await assert.rejects(() => getContext({ as_of: 'soon' }), /Invalid as_of format/);
+    await assert.rejects(() => searchAdvanced({ as_of: 'later' }), /Invalid as_of format/);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Decision Changefeed Tests
+ *
+ * Tests decision.changes: event coverage, cursor resumption, pagination,
+ * event type filter and validation (v5.1.0).
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  setDecision,
+  hardDeleteDecision,
+  addDecisionContextAction,
+  linkDecisions,
+  getChanges
+} from '../../../tools/context/index.js';
+import {
+  addConstraint,
+  deactivateConstraint,
+  activateConstraint,
+  activateConstraintsByTag
+} from '../../../tools/constraints/index.js';
+import { initializeDatabase, closeDatabase, getAdapter } from '../../../database.js';
+import { ProjectContext } from '../../../utils/project-context.js';
+import { encodeChangeCursor, decodeChangeCursor, recordChangeEvent } from '../../../utils/change-feed.js';
+
+const TEST_DB_PATH = '.sqlew/tmp/test-decision-changes.db';
+
+describe('Decision Changes', () => {
+  before(async () => {
+    fs.mkdirSync(path.dirname(TEST_DB_PATH), { recursive: true });
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+
+    const adapter = await initializeDatabase({
+      databaseType: 'sqlite',
+      connection: { filename: TEST_DB_PATH }
+    });
+
+    const projectContext = ProjectContext.getInstance();
+    await projectContext.ensureProject(adapter.getKnex(), 'test-decision-changes', 'config', {
+      projectRootPath: process.cwd(),
+    });
+  });
+
+  after(async () => {
+    await closeDatabase();
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+  });
+
+  it('should start empty with a cursor to resume from', async () => {
+    const result = await getChanges();
+    assert.deepStrictEqual(result.events, []);
+    assert.strictEqual(result.has_more, false);
+    assert.strictEqual(decodeChangeCursor(result.cursor), 0);
+  });
+
+  it('should record decision, context and constraint events in order', async () => {
+    const start = await getChanges();
+
+    await setDecision({ key: 'changes/api', value: 'REST' });
+    await setDecision({ key: 'changes/api', value: 'GraphQL' });
+    await setDecision({ key: 'changes/api', value: 'GraphQL', status: 'in_review' });
+    await addDecisionContextAction({ key: 'changes/api', rationale: 'Clients need flexible queries' });
+    const { constraint_id } = await addConstraint({ constraint_text: 'All endpoints require auth', category: 'security', priority: 'high' });
+    await deactivateConstraint({ constraint_id });
+    await deactivateConstraint({ constraint_id });  // Already inactive: no event
+    await setDecision({ key: 'changes/old', value: 'SOAP' });
+    await linkDecisions({ key: 'changes/api', target_key: 'changes/old', relation_type: 'supersedes' });
+    await hardDeleteDecision({ key: 'changes/old' });
+
+    const result = await getChanges({ cursor: start.cursor });
+    assert.deepStrictEqual(
+      result.events.map(e => [e.type, e.key ?? e.constraint_id]),
+      [
+        ['created', 'changes/api'],
+        ['updated', 'changes/api'],
+        ['updated', 'changes/api'],
+        ['status_changed', 'changes/api'],
+        ['context_added', 'changes/api'],
+        ['constraint_added', constraint_id],
+        ['constraint_deactivated', constraint_id],
+        ['created', 'changes/old'],
+        ['status_changed', 'changes/old'],
+        ['deleted', 'changes/old']
+      ]
+    );
+
+    const statusChange = result.events[3];
+    assert.strictEqual(statusChange.version, '1.0.2');
+    assert.deepStrictEqual(statusChange.details, { from: 'active', to: 'in_review' });
+    assert.deepStrictEqual(result.events[1].details, { previous_version: '1.0.0' });
+    assert.deepStrictEqual(result.events[8].details, { from: 'active', to: 'deprecated' });
+    assert.ok(!isNaN(Date.parse(result.events[0].timestamp)));
+  });
+
+  it('should page with limit and resume from the returned cursor', async () => {
+    const first = await getChanges({ limit: 4 });
+    assert.strictEqual(first.count, 4);
+    assert.strictEqual(first.has_more, true);
+
+    const second = await getChanges({ cursor: first.cursor, limit: 4 });
+    assert.strictEqual(second.events[0].id, first.events[3].id + 1);
+
+    const rest = await getChanges({ cursor: second.cursor });
+    assert.strictEqual(rest.has_more, false);
+    assert.strictEqual(first.count + second.count + rest.count, 10);
+
+    // Nothing new: same cursor back
+    const idle = await getChanges({ cursor: rest.cursor });
+    assert.strictEqual(idle.count, 0);
+    assert.strictEqual(idle.cursor, rest.cursor);
+
+    await setDecision({ key: 'changes/cache', value: 'Redis' });
+    const next = await getChanges({ cursor: idle.cursor });
+    assert.deepStrictEqual(next.events.map(e => [e.type, e.key]), [['created', 'changes/cache']]);
+  });
+
+  it('should filter by event type and since', async () => {
+    const deletions = await getChanges({ event_types: ['deleted', 'constraint_deactivated'] });
+    assert.deepStrictEqual(deletions.events.map(e => e.type), ['constraint_deactivated', 'deleted']);
+
+    const future = await getChanges({ since: '2999-01-01T00:00:00Z' });
+    assert.strictEqual(future.count, 0);
+    // Empty first call still returns a cursor past the existing events
+    const after = await getChanges({ cursor: future.cursor });
+    assert.strictEqual(after.count, 0);
+  });
+
+  it('should record constraint reactivations', async () => {
+    const start = await getChanges();
+
+    const { constraint_id } = await addConstraint({
+      constraint_text: 'Cache responses for 60 seconds', category: 'performance', priority: 'medium', tags: ['plan-abc']
+    });
+    await deactivateConstraint({ constraint_id });
+    await activateConstraint({ constraint_id });
+    await activateConstraint({ constraint_id });  // Already active: no event
+    await deactivateConstraint({ constraint_id });
+    await activateConstraintsByTag('plan-abc');
+
+    const result = await getChanges({ cursor: start.cursor, event_types: ['constraint_activated', 'constraint_deactivated'] });
+    assert.deepStrictEqual(result.events.map(e => [e.type, e.constraint_id]), [
+      ['constraint_deactivated', constraint_id],
+      ['constraint_activated', constraint_id],
+      ['constraint_deactivated', constraint_id],
+      ['constraint_activated', constraint_id]
+    ]);
+  });
+
+  it('should resume by commit sequence without gaps from rolled back events', async () => {
+    const start = await getChanges();
+    const knex = getAdapter().getKnex();
+    const projectId = ProjectContext.getInstance().getProjectId();
+
+    await assert.rejects(
+      knex.transaction(async (trx) => {
+        await recordChangeEvent(trx, projectId, { type: 'context_added' });
+        throw new Error('rolled back');
+      }),
+      /rolled back/
+    );
+    await setDecision({ key: 'changes/after-rollback', value: 'kept' });
+
+    const result = await getChanges({ cursor: start.cursor });
+    assert.deepStrictEqual(result.events.map(e => [e.type, e.key]), [['created', 'changes/after-rollback']]);
+    assert.strictEqual(decodeChangeCursor(result.cursor), decodeChangeCursor(start.cursor) + 1);
+  });
+
+  it('should reject invalid cursors, event types and parameter combinations', async () => {
+    await assert.rejects(() => getChanges({ cursor: 'not-a-cursor' }), /Invalid cursor/);
+    await assert.rejects(() => getChanges({ event_types: ['renamed' as any] }), /Invalid event type: "renamed"/);
+    await assert.rejects(() => getChanges({ cursor: encodeChangeCursor(1), since: '7d' }), /either "cursor" or "since"/);
+    await assert.rejects(() => getChanges({ since: 'whenever' }), /Invalid since format/);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Decision Duplicate Check Tests
+ *
+ * Tests suggest.check_duplicate verdicts from key, value, tags and
+ * rationale comparison (v5.1.0).
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { setDecision, addDecisionContextAction } from '../../../tools/context/index.js';
+import { handleSuggestAction } from '../../../tools/suggest/index.js';
+import { initializeDatabase, closeDatabase } from '../../../database.js';
+import { ProjectContext } from '../../../utils/project-context.js';
+import type { CheckDuplicateResponse } from '../../../tools/suggest/types.js';
+
+const TEST_DB_PATH = '.sqlew/tmp/test-check-duplicate.db';
+
+function check(params: { key: string; value?: string; tags?: string[]; rationale?: string }): Promise<CheckDuplicateResponse> {
+  return handleSuggestAction({ action: 'check_duplicate', ...params });
+}
+
+describe('Decision duplicate check', () => {
+  before(async () => {
+    fs.mkdirSync(path.dirname(TEST_DB_PATH), { recursive: true });
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+
+    const adapter = await initializeDatabase({
+      databaseType: 'sqlite',
+      connection: { filename: TEST_DB_PATH }
+    });
+
+    await ProjectContext.getInstance().ensureProject(adapter.getKnex(), 'test-check-duplicate', 'config', {
+      projectRootPath: process.cwd(),
+    });
+
+    await setDecision({ key: 'db/orm', value: 'Prisma ORM for all database access', layer: 'data', tags: ['database', 'orm'] });
+    await addDecisionContextAction({ key: 'db/orm', rationale: 'Type-safe queries generated from the schema' });
+    await setDecision({ key: 'ui/theme', value: 'Dark mode by default', layer: 'presentation', tags: ['ui'] });
+  });
+
+  after(async () => {
+    await closeDatabase();
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+  });
+
+  it('should report exact keys and compare their values', async () => {
+    const same = await check({ key: 'db/orm' });
+    assert.strictEqual(same.verdict, 'exact');
+    assert.strictEqual(same.is_duplicate, true);
+
+    const changed = await check({ key: 'db/orm', value: 'Drizzle query builder' });
+    assert.strictEqual(changed.verdict, 'conflicting');
+    assert.strictEqual(changed.match_type, 'exact');
+    assert.match(changed.explanation, /different value/);
+  });
+
+  it('should detect the same choice under another key', async () => {
+    const result = await check({ key: 'persistence/orm-choice', value: 'Prisma ORM for all database access' });
+
+    assert.strictEqual(result.verdict, 'near-duplicate');
+    assert.strictEqual(result.is_duplicate, true);
+    assert.strictEqual(result.matches![0].key, 'db/orm');
+    assert.deepStrictEqual(result.matches![0].matched_fields, ['value']);
+    assert.match(result.explanation, /^Near-duplicate of "db\/orm": .*value matches \(100%\)/);
+  });
+
+  it('should detect a different choice for the same topic', async () => {
+    const result = await check({
+      key: 'database/orm',
+      value: 'Drizzle query builder',
+      tags: ['database', 'orm'],
+      rationale: 'Type-safe queries generated from the schema',
+    });
+
+    assert.strictEqual(result.verdict, 'conflicting');
+    assert.strictEqual(result.is_duplicate, false);
+    const match = result.matches![0];
+    assert.strictEqual(match.key, 'db/orm');
+    assert.deepStrictEqual(match.shared_tags, ['database', 'orm']);
+    assert.strictEqual(match.fields.rationale, 100);
+    assert.match(match.explanation, /value differs/);
+    assert.match(match.explanation, /2 shared tag\(s\) \(database, orm\)/);
+  });
+
+  it('should report related and unrelated decisions', async () => {
+    const related = await check({ key: 'db/orm-migrations', tags: ['database'] });
+    assert.strictEqual(related.verdict, 'related');
+    assert.strictEqual(related.match_type, 'similar');
+
+    const none = await check({ key: 'billing/currency', value: 'EUR' });
+    assert.strictEqual(none.verdict, 'none');
+    assert.strictEqual(none.match_type, 'none');
+    assert.strictEqual(none.matches, undefined);
+  });
+});
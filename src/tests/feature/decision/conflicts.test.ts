@@ -0,0 +1,156 @@
+/**
+ * Decision Conflict Tests
+ *
+ * Tests contradiction detection between a decision value and active
+ * constraints / decisions in the same layer, tags or scopes: decision.set
+ * conflicts and suggest.conflicts (v5.1.0).
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { setDecision } from '../../../tools/context/index.js';
+import { addConstraint } from '../../../tools/constraints/index.js';
+import { handleSuggestAction } from '../../../tools/suggest/index.js';
+import { initializeDatabase, closeDatabase } from '../../../database.js';
+import { ProjectContext } from '../../../utils/project-context.js';
+import { detectContradiction } from '../../../utils/contradiction-detector.js';
+import type { ConflictsResponse } from '../../../tools/suggest/types.js';
+
+const TEST_DB_PATH = '.sqlew/tmp/test-decision-conflicts.db';
+
+describe('Decision conflicts', () => {
+  let redisConstraintId: number;
+
+  before(async () => {
+    fs.mkdirSync(path.dirname(TEST_DB_PATH), { recursive: true });
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+
+    const adapter = await initializeDatabase({
+      databaseType: 'sqlite',
+      connection: { filename: TEST_DB_PATH }
+    });
+
+    await ProjectContext.getInstance().ensureProject(adapter.getKnex(), 'test-decision-conflicts', 'config', {
+      projectRootPath: process.cwd(),
+    });
+
+    redisConstraintId = (await addConstraint({
+      constraint_text: 'All reads go through Redis',
+      category: 'performance',
+      priority: 'high',
+      layer: 'infrastructure',
+      tags: ['cache'],
+    })).constraint_id;
+
+    await setDecision({
+      key: 'api/style',
+      value: 'Synchronous REST calls between services',
+      layer: 'business',
+      scopes: ['services/orders'],
+    });
+  });
+
+  after(async () => {
+    await closeDatabase();
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+  });
+
+  it('should detect negated and antonym stances', () => {
+    assert.deepStrictEqual(
+      detectContradiction({ text: 'no caching layer' }, { text: 'All reads go through Redis' })?.concepts,
+      ['cache']
+    );
+    assert.strictEqual(
+      detectContradiction({ text: 'Async API calls' }, { text: 'Synchronous API calls' })?.kind,
+      'antonym'
+    );
+    assert.strictEqual(detectContradiction({ text: 'Redis for sessions' }, { text: 'All reads go through Redis' }), null);
+    assert.strictEqual(detectContradiction({ text: 'Dark mode by default' }, { text: 'All reads go through Redis' }), null);
+  });
+
+  it('should compare named products and ignore mixed stances', () => {
+    assert.strictEqual(
+      detectContradiction({ text: 'Use Redis for sessions, not Memcached' }, { text: 'All reads go through Redis' }),
+      null
+    );
+    assert.deepStrictEqual(
+      detectContradiction({ text: 'Use Memcached, not Redis' }, { text: 'All reads go through Redis' })?.concepts,
+      ['cache']
+    );
+    assert.strictEqual(
+      detectContradiction({ text: 'no caching layer' }, { text: 'Use Redis for sessions, not Memcached' }),
+      null
+    );
+    assert.strictEqual(
+      detectContradiction({ text: 'Cache API responses, never cache auth tokens' }, { text: 'no caching layer' }),
+      null
+    );
+  });
+
+  it('should report contradicting constraints in decision.set', async () => {
+    const response = await setDecision({
+      key: 'cache/strategy',
+      value: 'no caching layer',
+      layer: 'infrastructure',
+    });
+
+    assert.strictEqual(response.success, true);
+    assert.strictEqual(response.conflicts?.length, 1);
+    const conflict = response.conflicts![0];
+    assert.strictEqual(conflict.type, 'constraint');
+    assert.strictEqual(conflict.id, redisConstraintId);
+    assert.strictEqual(conflict.kind, 'negation');
+    assert.deepStrictEqual(conflict.concepts, ['cache']);
+    assert.deepStrictEqual(conflict.shared, { layer: 'infrastructure' });
+  });
+
+  it('should skip candidates without shared context and honor check_conflicts', async () => {
+    const unrelated = await setDecision({ key: 'ui/cache-banner', value: 'no caching layer', layer: 'presentation' });
+    assert.strictEqual(unrelated.conflicts, undefined);
+
+    const disabled = await setDecision({
+      key: 'cache/fallback',
+      value: 'no caching layer',
+      tags: ['cache'],
+      check_conflicts: false,
+    });
+    assert.strictEqual(disabled.conflicts, undefined);
+  });
+
+  it('should check updates against the layer, tags and scopes kept from the previous version', async () => {
+    // cache/fallback keeps its "cache" tag: the update does not repeat it
+    const updated = await setDecision({ key: 'cache/fallback', value: 'no caching layer at all' });
+    assert.strictEqual(updated.conflicts?.length, 1);
+    assert.strictEqual(updated.conflicts![0].id, redisConstraintId);
+    assert.deepStrictEqual(updated.conflicts![0].shared, { tags: ['cache'] });
+  });
+
+  it('should find contradicting decisions in related scopes via suggest.conflicts', async () => {
+    const result: ConflictsResponse = await handleSuggestAction({
+      action: 'conflicts',
+      key: 'api/payments-style',
+      value: 'Asynchronous calls between services via a queue',
+      scopes: ['services/orders/payments'],
+    });
+
+    assert.strictEqual(result.count, 1);
+    const conflict = result.conflicts[0];
+    assert.strictEqual(conflict.type, 'decision');
+    assert.strictEqual(conflict.key, 'api/style');
+    assert.strictEqual(conflict.kind, 'antonym');
+    assert.deepStrictEqual(conflict.shared, { scopes: ['services/orders'] });
+  });
+
+  it('should require a value', async () => {
+    await assert.rejects(
+      handleSuggestAction({ action: 'conflicts', key: 'cache/strategy' }),
+      /Missing required parameter: value/
+    );
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Decision Diff Tests
+ *
+ * Tests decision.diff: default versions, explicit versions, line/word
+ * granularity, metadata changes and pre-v5.1.0 history rows (v5.1.0).
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { setDecision, diffDecision } from '../../../tools/context/index.js';
+import { initializeDatabase, closeDatabase, getAdapter } from '../../../database.js';
+import { ProjectContext } from '../../../utils/project-context.js';
+import { diffText, renderDiff } from '../../../utils/text-diff.js';
+
+const TEST_DB_PATH = '.sqlew/tmp/test-decision-diff.db';
+
+describe('Decision Diff', () => {
+  before(async () => {
+    fs.mkdirSync(path.dirname(TEST_DB_PATH), { recursive: true });
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+
+    const adapter = await initializeDatabase({
+      databaseType: 'sqlite',
+      connection: { filename: TEST_DB_PATH }
+    });
+
+    const projectContext = ProjectContext.getInstance();
+    await projectContext.ensureProject(adapter.getKnex(), 'test-decision-diff', 'config', {
+      projectRootPath: process.cwd(),
+    });
+
+    await setDecision({ key: 'diff/auth', value: 'Use session cookies for auth', layer: 'business', tags: ['auth'], scopes: ['api'] });
+    await setDecision({ key: 'diff/auth', value: 'Use JWT tokens for auth', layer: 'business', tags: ['auth', 'security'], scopes: ['api'] });
+    await setDecision({ key: 'diff/auth', value: 'Use JWT tokens for auth', layer: 'infrastructure', status: 'deprecated', tags: ['security'] });
+  });
+
+  after(async () => {
+    await closeDatabase();
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+  });
+
+  it('should diff the previous and current version by default', async () => {
+    const result = await diffDecision({ key: 'diff/auth' });
+
+    assert.strictEqual(result.from_version, '1.0.1');
+    assert.strictEqual(result.to_version, '1.0.2');
+    assert.strictEqual(result.value.changed, false);
+    assert.deepStrictEqual(result.changes, {
+      layer: { from: 'business', to: 'infrastructure' },
+      status: { from: 'active', to: 'deprecated' },
+      tags: { added: [], removed: ['auth'] }
+    });
+    assert.strictEqual(result.unknown_fields, undefined);
+  });
+
+  it('should diff explicit versions at word level', async () => {
+    const result = await diffDecision({ key: 'diff/auth', from_version: '1.0.0', to_version: '1.0.1' });
+
+    assert.strictEqual(result.granularity, 'word');
+    assert.strictEqual(result.value.changed, true);
+    assert.strictEqual(result.value.rendered, 'Use [-session cookies-]{+JWT tokens+} for auth');
+    assert.deepStrictEqual(result.changes, { tags: { added: ['security'], removed: [] } });
+  });
+
+  it('should use line granularity for multi-line values', async () => {
+    await setDecision({ key: 'diff/steps', value: 'lint\ntest\nbuild' });
+    await setDecision({ key: 'diff/steps', value: 'lint\ntest\npackage\nbuild' });
+
+    const result = await diffDecision({ key: 'diff/steps' });
+    assert.strictEqual(result.granularity, 'line');
+    assert.strictEqual(result.value.rendered, '  lint\n  test\n+ package\n  build');
+  });
+
+  it('should report unknown metadata for history recorded before v5.1.0', async () => {
+    await setDecision({ key: 'diff/legacy', value: 'v1' });
+    await setDecision({ key: 'diff/legacy', value: 'v2' });
+
+    const knex = getAdapter().getKnex();
+    await knex('t_decision_history')
+      .whereIn('key_id', function () {
+        this.select('id').from('m_context_keys').where('key_name', 'diff/legacy');
+      })
+      .update({ layer_id: null, status: null, tags: null, scopes: null });
+
+    const result = await diffDecision({ key: 'diff/legacy' });
+    assert.strictEqual(result.value.rendered, '[-v1-]{+v2+}');
+    assert.deepStrictEqual(result.unknown_fields, ['layer', 'status', 'tags', 'scopes']);
+  });
+
+  it('should reject unknown keys, versions and single-version decisions', async () => {
+    await setDecision({ key: 'diff/single', value: 'only one' });
+
+    await assert.rejects(() => diffDecision({ key: 'diff/missing' }), /Decision "diff\/missing" not found/);
+    await assert.rejects(() => diffDecision({ key: 'diff/auth', from_version: '9.9.9' }), /Version "9.9.9" not found/);
+    await assert.rejects(() => diffDecision({ key: 'diff/single' }), /has no version before 1.0.0/);
+    await assert.rejects(() => diffDecision({ key: 'diff/auth', granularity: 'char' as any }), /Invalid granularity/);
+  });
+
+  it('should produce chunks that rebuild both texts', () => {
+    const before = 'a b c d';
+    const after = 'a x c d e';
+    const chunks = diffText(before, after, 'word');
+
+    assert.strictEqual(chunks.filter(c => c.type !== 'added').map(c => c.value).join(''), before);
+    assert.strictEqual(chunks.filter(c => c.type !== 'removed').map(c => c.value).join(''), after);
+    assert.strictEqual(renderDiff(diffText('', 'new', 'line'), 'line'), '+ new');
+  });
+
+  it('should diff large values without a full LCS table', () => {
+    const lines = Array.from({ length: 20000 }, (_, i) => `line ${i}\n`);
+    const before = lines.join('');
+
+    // One changed line in a large text: common prefix/suffix trimmed
+    const edited = [...lines];
+    edited[10000] = 'changed\n';
+    assert.deepStrictEqual(diffText(before, edited.join(''), 'line').map(c => c.type), ['equal', 'removed', 'added', 'equal']);
+
+    // Every line changed: too large for LCS, whole value removed + added
+    const after = lines.map(line => `new ${line}`).join('');
+    assert.deepStrictEqual(diffText(before, after, 'line'), [
+      { type: 'removed', value: before },
+      { type: 'added', value: after },
+    ]);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Decision Export Action Tests
+ *
+ * Tests the decision.export action against the local database (v5.1.0).
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { exportDecisions, setDecision, addDecisionContextAction } from '../../../tools/context/index.js';
+import { addConstraint } from '../../../tools/constraints/index.js';
+import { initializeDatabase, closeDatabase } from '../../../database.js';
+import { ProjectContext } from '../../../utils/project-context.js';
+import type { ExportBlocks } from '../../../types.js';
+
+const TEST_DB_PATH = '.sqlew/tmp/test-decision-export.db';
+
+describe('Decision Export Action (local)', () => {
+  before(async () => {
+    fs.mkdirSync(path.dirname(TEST_DB_PATH), { recursive: true });
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+
+    const adapter = await initializeDatabase({
+      databaseType: 'sqlite',
+      connection: { filename: TEST_DB_PATH }
+    });
+
+    const projectContext = ProjectContext.getInstance();
+    await projectContext.ensureProject(adapter.getKnex(), 'test-decision-export', 'config', {
+      projectRootPath: process.cwd(),
+    });
+
+    await setDecision({ key: 'export/db-engine', value: 'PostgreSQL for relational data', layer: 'data', tags: ['database', 'export-test'] });
+    await setDecision({ key: 'export/cache', value: 'Redis for sessions', layer: 'infrastructure', tags: ['cache', 'export-test'] });
+    await setDecision({ key: 'export/old-orm', value: 'Sequelize', layer: 'data', tags: ['database'], status: 'deprecated' });
+    await setDecision({ key: 'export/pool-size', value: 20, layer: 'data', tags: ['database'] });
+
+    await addDecisionContextAction({
+      key: 'export/db-engine',
+      rationale: 'Need ACID transactions',
+      alternatives_considered: ['MongoDB', 'MySQL'],
+      tradeoffs: { pros: ['Mature'], cons: ['Heavier'] }
+    });
+
+    await addConstraint({
+      category: 'architecture',
+      constraint_text: 'All persistence goes through the repository layer',
+      priority: 'high',
+      layer: 'data',
+      tags: ['database']
+    });
+  });
+
+  after(async () => {
+    await closeDatabase();
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+  });
+
+  it('should build blocks grouped by layer with context and constraints', async () => {
+    const result = await exportDecisions({ format: 'blocks' });
+    const blocks = result.content as ExportBlocks;
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.metadata.total_decisions, 4);
+    assert.strictEqual(result.metadata.total_constraints, 1);
+    assert.deepStrictEqual(blocks.blocks.map(b => b.title), ['data', 'infrastructure']);
+
+    const dbEngine = blocks.blocks[0].items.find(i => i.key === 'export/db-engine');
+    assert.ok(dbEngine);
+    assert.strictEqual(dbEngine.rationale, 'Need ACID transactions');
+    assert.deepStrictEqual(dbEngine.alternatives, ['MongoDB', 'MySQL']);
+    assert.strictEqual(dbEngine.tradeoffs, 'Pros: Mature. Cons: Heavier');
+    assert.deepStrictEqual(dbEngine.tags, ['database', 'export-test']);
+
+    const poolSize = blocks.blocks[0].items.find(i => i.key === 'export/pool-size');
+    assert.strictEqual(poolSize?.value, '20');
+
+    assert.strictEqual(blocks.constraints?.[0].priority, 'high');
+    assert.deepStrictEqual(blocks.constraints?.[0].tags, ['database']);
+  });
+
+  it('should apply tags (AND), layers and status filters', async () => {
+    const byTags = await exportDecisions({ format: 'blocks', tags: ['database', 'export-test'] });
+    const tagBlocks = byTags.content as ExportBlocks;
+    assert.strictEqual(byTags.metadata.total_decisions, 1);
+    assert.strictEqual(tagBlocks.blocks[0].items[0].key, 'export/db-engine');
+    // Constraint lacks the export-test tag
+    assert.strictEqual(byTags.metadata.total_constraints, 0);
+
+    const byLayer = await exportDecisions({ format: 'blocks', layers: ['infrastructure'] });
+    assert.strictEqual(byLayer.metadata.total_decisions, 1);
+    assert.strictEqual(byLayer.metadata.total_constraints, 0);
+
+    const deprecated = await exportDecisions({ format: 'blocks', status: ['deprecated'] });
+    const deprecatedBlocks = deprecated.content as ExportBlocks;
+    assert.strictEqual(deprecated.metadata.total_decisions, 1);
+    assert.strictEqual(deprecatedBlocks.blocks[0].items[0].status, 'deprecated');
+  });
+
+  it('should filter by since timestamp', async () => {
+    const future = new Date(Date.now() + 3600 * 1000).toISOString();
+    const result = await exportDecisions({ format: 'blocks', since: future });
+    assert.strictEqual(result.metadata.total_decisions, 0);
+    assert.strictEqual(result.metadata.total_constraints, 0);
+  });
+
+  it('should group by tag and place items under each tag', async () => {
+    const result = await exportDecisions({ format: 'blocks', group_by: 'tag' });
+    const blocks = result.content as ExportBlocks;
+    const titles = blocks.blocks.map(b => b.title);
+    assert.deepStrictEqual(titles, ['cache', 'database', 'export-test']);
+    assert.strictEqual(blocks.blocks.find(b => b.title === 'database')?.items.length, 3);
+  });
+
+  it('should format as ADR and Markdown', async () => {
+    const adr = await exportDecisions({ format: 'adr', status: ['deprecated'] });
+    assert.ok(typeof adr.content === 'string');
+    assert.ok((adr.content as string).includes('## ADR-001: export/old-orm'));
+    assert.ok((adr.content as string).includes('| **Status** | Deprecated |'));
+
+    const markdown = await exportDecisions({ format: 'markdown', include_context: true, layers: ['data'] });
+    const text = markdown.content as string;
+    assert.ok(text.includes('### export/db-engine'));
+    assert.ok(text.includes('Need ACID transactions'));
+    assert.ok(text.includes('## Constraints'));
+  });
+
+  it('should reject invalid format', async () => {
+    await assert.rejects(
+      () => exportDecisions({ format: 'pdf' as any }),
+      /Invalid format/
+    );
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Decision Full-Text Search Tests
+ *
+ * Tests search_advanced search_text against the t_decision_search index:
+ * ranking, snippets, rationale/alternatives coverage, index maintenance
+ * on set / add_decision_context / hard_delete, and the migration backfill (v5.1.0).
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  setDecision,
+  searchAdvanced,
+  hardDeleteDecision,
+  addDecisionContextAction,
+  setDecisionBatch
+} from '../../../tools/context/index.js';
+import { initializeDatabase, closeDatabase, getAdapter } from '../../../database.js';
+import { ProjectContext } from '../../../utils/project-context.js';
+import { SEARCH_INDEX_TABLE, buildSnippet, tokenizeSearchText } from '../../../utils/fulltext-search.js';
+import { up, down } from '../../../database/migrations/v4/20260113000000_v5_add_decision_search_index.js';
+import type { RankedDecision } from '../../../types.js';
+
+const TEST_DB_PATH = '.sqlew/tmp/test-decision-fulltext.db';
+
+describe('Decision Full-Text Search', () => {
+  before(async () => {
+    fs.mkdirSync(path.dirname(TEST_DB_PATH), { recursive: true });
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+
+    const adapter = await initializeDatabase({
+      databaseType: 'sqlite',
+      connection: { filename: TEST_DB_PATH }
+    });
+
+    const projectContext = ProjectContext.getInstance();
+    await projectContext.ensureProject(adapter.getKnex(), 'test-decision-fulltext', 'config', {
+      projectRootPath: process.cwd(),
+    });
+
+    await setDecision({ key: 'fts/auth-method', value: 'JWT access tokens with refresh token rotation', layer: 'business' });
+    await setDecision({ key: 'fts/session-store', value: 'Redis stores refresh tokens', layer: 'infrastructure' });
+    await setDecision({ key: 'fts/orm', value: 'Prisma ORM for PostgreSQL', layer: 'data' });
+    await setDecision({ key: 'fts/retries', value: 3 });
+  });
+
+  after(async () => {
+    await closeDatabase();
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+  });
+
+  it('should rank matches and highlight snippets', async () => {
+    const result = await searchAdvanced({ search_text: 'refresh token' });
+    const decisions = result.decisions as RankedDecision[];
+
+    assert.strictEqual(result.total_count, 2);
+    assert.deepStrictEqual(decisions.map(d => d.key).sort(), ['fts/auth-method', 'fts/session-store']);
+    assert.ok(decisions[0].rank >= decisions[1].rank, 'results should be ordered by rank');
+    assert.match(decisions[0].snippet, /\*\*refresh\*\*/i);
+  });
+
+  it('should match word prefixes and keys', async () => {
+    const prefix = await searchAdvanced({ search_text: 'postg' });
+    assert.deepStrictEqual(prefix.decisions.map(d => d.key), ['fts/orm']);
+
+    const byKey = await searchAdvanced({ search_text: 'retries', full_value: true });
+    assert.deepStrictEqual(byKey.decisions.map(d => d.key), ['fts/retries']);
+  });
+
+  it('should index rationale and alternatives added via add_decision_context', async () => {
+    const before = await searchAdvanced({ search_text: 'sequelize' });
+    assert.strictEqual(before.total_count, 0);
+
+    await addDecisionContextAction({
+      key: 'fts/orm',
+      rationale: 'Type-safe queries and generated client',
+      alternatives_considered: ['Sequelize', 'TypeORM'],
+      tradeoffs: { pros: ['type safety'], cons: ['migration tooling'] }
+    });
+
+    const alternatives = await searchAdvanced({ search_text: 'sequelize' });
+    assert.deepStrictEqual(alternatives.decisions.map(d => d.key), ['fts/orm']);
+
+    const rationale = await searchAdvanced({ search_text: 'generated client' });
+    assert.deepStrictEqual(rationale.decisions.map(d => d.key), ['fts/orm']);
+  });
+
+  it('should refresh the index when a decision is updated', async () => {
+    await setDecision({ key: 'fts/session-store', value: 'Memcached stores sessions', layer: 'infrastructure' });
+
+    const old = await searchAdvanced({ search_text: 'redis' });
+    assert.strictEqual(old.total_count, 0);
+
+    const updated = await searchAdvanced({ search_text: 'memcached' });
+    assert.deepStrictEqual(updated.decisions.map(d => d.key), ['fts/session-store']);
+  });
+
+  it('should combine search_text with other filters and sort options', async () => {
+    const filtered = await searchAdvanced({ search_text: 'tokens', layers: ['infrastructure'] });
+    assert.strictEqual(filtered.total_count, 0);
+
+    const sorted = await searchAdvanced({ search_text: 'fts', sort_by: 'key', sort_order: 'asc', full_value: true });
+    assert.deepStrictEqual(sorted.decisions.map(d => d.key), ['fts/auth-method', 'fts/orm', 'fts/retries', 'fts/session-store']);
+
+    await assert.rejects(
+      () => searchAdvanced({ sort_by: 'relevance' }),
+      /requires search_text/
+    );
+  });
+
+  it('should treat query syntax as plain text', async () => {
+    const result = await searchAdvanced({ search_text: 'JWT" OR NEAR(*' });
+    assert.deepStrictEqual(result.decisions.map(d => d.key), []);
+
+    const empty = await searchAdvanced({ search_text: '***' });
+    assert.strictEqual(empty.total_count, 0);
+  });
+
+  it('should remove hard-deleted decisions from the index', async () => {
+    await hardDeleteDecision({ key: 'fts/auth-method' });
+    const result = await searchAdvanced({ search_text: 'jwt' });
+    assert.strictEqual(result.total_count, 0);
+  });
+
+  it('should backfill existing decisions when the migration runs', async () => {
+    const knex = getAdapter().getKnex();
+    await down(knex);
+    await up(knex);
+
+    const rows = await knex(SEARCH_INDEX_TABLE).orderBy('key_name').select('key_name', 'value', 'alternatives', 'tradeoffs');
+    assert.deepStrictEqual(rows.map(r => r.key_name), ['fts/orm', 'fts/retries', 'fts/session-store']);
+    assert.strictEqual(rows[0].alternatives, 'Sequelize TypeORM');
+    assert.strictEqual(rows[0].tradeoffs, 'type safety migration tooling');
+    assert.strictEqual(rows[1].value, '3');
+
+    const result = await searchAdvanced({ search_text: 'generated client' });
+    assert.deepStrictEqual(result.decisions.map(d => d.key), ['fts/orm']);
+  });
+
+  it('should filter, count and paginate every match in SQL', async () => {
+    // 520 strong matches outside the filter, 12 weak ones inside it
+    for (let batch = 0; batch < 13; batch++) {
+      await setDecisionBatch({
+        decisions: Array.from({ length: 40 }, (_, i) => ({ key: `bulk/data-${batch * 40 + i}`, value: 'bulk bulk bulk', layer: 'data' }))
+      });
+    }
+    await setDecisionBatch({
+      decisions: Array.from({ length: 12 }, (_, i) => ({
+        key: `bulk/weak-${i}`,
+        value: `A long description that mentions bulk loading only once among many other words ${i}`,
+        layer: 'business'
+      }))
+    });
+
+    const all = await searchAdvanced({ search_text: 'bulk', limit: 1 });
+    assert.strictEqual(all.total_count, 532);
+
+    const first = await searchAdvanced({ search_text: 'bulk', layers: ['business'], limit: 5 });
+    const second = await searchAdvanced({ search_text: 'bulk', layers: ['business'], limit: 5, offset: 5 });
+    const last = await searchAdvanced({ search_text: 'bulk', layers: ['business'], limit: 5, offset: 10 });
+    assert.strictEqual(first.total_count, 12);
+    assert.deepStrictEqual([first.count, second.count, last.count], [5, 5, 2]);
+
+    const pages = [...first.decisions, ...second.decisions, ...last.decisions] as RankedDecision[];
+    assert.strictEqual(new Set(pages.map(d => d.key)).size, 12);
+    assert.ok(pages.every(d => d.key.startsWith('bulk/weak-') && /\*\*bulk\*\*/.test(d.snippet)));
+    for (let i = 1; i < pages.length; i++) {
+      assert.ok(pages[i - 1].rank >= pages[i].rank, 'pages should follow rank order');
+    }
+  });
+
+  it('should tokenize and build snippets without database support', () => {
+    assert.deepStrictEqual(tokenizeSearchText('Refresh "token" OR refresh*'), ['refresh', 'token', 'or']);
+    assert.strictEqual(
+      buildSnippet('Use JWT with refresh tokens for mobile clients', ['refresh'], 4),
+      '…with **refresh** tokens for…'
+    );
+  });
+});
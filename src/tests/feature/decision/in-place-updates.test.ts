@@ -0,0 +1,91 @@
+/**
+ * In-place Decision Update Tests
+ *
+ * Tests decision.add_tags and decision.deprecate: tags and status change
+ * without a new version, policy or duplicate checks (v5.1.0).
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  setDecision,
+  getDecision,
+  getVersions,
+  addDecisionTags,
+  deprecateDecision,
+  getChanges
+} from '../../../tools/context/index.js';
+import { initializeDatabase, closeDatabase } from '../../../database.js';
+import { ProjectContext } from '../../../utils/project-context.js';
+
+const TEST_DB_PATH = '.sqlew/tmp/test-decision-in-place-updates.db';
+
+describe('In-place decision updates', () => {
+  before(async () => {
+    fs.mkdirSync(path.dirname(TEST_DB_PATH), { recursive: true });
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+
+    const adapter = await initializeDatabase({
+      databaseType: 'sqlite',
+      connection: { filename: TEST_DB_PATH }
+    });
+
+    const projectContext = ProjectContext.getInstance();
+    await projectContext.ensureProject(adapter.getKnex(), 'test-decision-in-place-updates', 'config', {
+      projectRootPath: process.cwd(),
+    });
+
+    await setDecision({ key: 'inplace/auth', value: 'Use JWT', layer: 'business', tags: ['auth'] });
+  });
+
+  after(async () => {
+    await closeDatabase();
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+  });
+
+  it('should add tags without bumping the version', async () => {
+    const start = await getChanges();
+
+    const result = await addDecisionTags({ key: 'inplace/auth', tags: ['security', 'auth'] });
+    assert.deepStrictEqual(result.added, ['security']);
+    assert.deepStrictEqual(result.tags, ['auth', 'security']);
+    assert.strictEqual(result.version, '1.0.0');
+
+    const again = await addDecisionTags({ key: 'inplace/auth', tags: ['security'] });
+    assert.deepStrictEqual(again.added, []);
+
+    const decision = (await getDecision({ key: 'inplace/auth' })).decision!;
+    assert.strictEqual(decision.version, '1.0.0');
+    assert.strictEqual(decision.value, 'Use JWT');
+    assert.strictEqual(decision.layer, 'business');
+    assert.deepStrictEqual(decision.tags!.split(',').sort(), ['auth', 'security']);
+
+    assert.deepStrictEqual((await getChanges({ cursor: start.cursor })).events, []);
+  });
+
+  it('should deprecate without bumping the version', async () => {
+    const result = await deprecateDecision({ key: 'inplace/auth' });
+    assert.strictEqual(result.deprecated, true);
+    assert.strictEqual(result.version, '1.0.0');
+    assert.strictEqual((await deprecateDecision({ key: 'inplace/auth' })).deprecated, false);
+
+    const decision = (await getDecision({ key: 'inplace/auth' })).decision!;
+    assert.strictEqual(decision.status, 'deprecated');
+    assert.strictEqual(decision.version, '1.0.0');
+    assert.strictEqual(decision.value, 'Use JWT');
+
+    const versions = await getVersions({ key: 'inplace/auth' });
+    assert.ok(versions.history.every(v => v.version === '1.0.0'));
+  });
+
+  it('should reject unknown decisions', async () => {
+    await assert.rejects(() => addDecisionTags({ key: 'inplace/missing', tags: ['x'] }), /Decision "inplace\/missing" not found/);
+    await assert.rejects(() => deprecateDecision({ key: 'inplace/missing' }), /Decision "inplace\/missing" not found/);
+  });
+});
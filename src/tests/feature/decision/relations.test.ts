@@ -0,0 +1,150 @@
+/**
+ * Decision Relations Tests
+ *
+ * Tests decision.link / unlink / relations, set with supersedes,
+ * relations in decision.get and cleanup on hard_delete (v5.1.0).
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  setDecision,
+  getDecision,
+  hardDeleteDecision,
+  linkDecisions,
+  unlinkDecisions,
+  listDecisionRelations
+} from '../../../tools/context/index.js';
+import { initializeDatabase, closeDatabase } from '../../../database.js';
+import { ProjectContext } from '../../../utils/project-context.js';
+
+const TEST_DB_PATH = '.sqlew/tmp/test-decision-relations.db';
+
+describe('Decision Relations', () => {
+  before(async () => {
+    fs.mkdirSync(path.dirname(TEST_DB_PATH), { recursive: true });
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+
+    const adapter = await initializeDatabase({
+      databaseType: 'sqlite',
+      connection: { filename: TEST_DB_PATH }
+    });
+
+    const projectContext = ProjectContext.getInstance();
+    await projectContext.ensureProject(adapter.getKnex(), 'test-decision-relations', 'config', {
+      projectRootPath: process.cwd(),
+    });
+
+    await setDecision({ key: 'rel/cache-redis', value: 'Redis for caching', layer: 'infrastructure' });
+    await setDecision({ key: 'rel/rate-limit', value: 'Token bucket per API key', layer: 'business' });
+    await setDecision({ key: 'rel/orm-sequelize', value: 'Sequelize ORM', layer: 'data' });
+    await setDecision({ key: 'rel/api-style', value: 'REST', layer: 'presentation' });
+  });
+
+  after(async () => {
+    await closeDatabase();
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+  });
+
+  it('should link decisions and list them in both directions', async () => {
+    const result = await linkDecisions({
+      key: 'rel/rate-limit',
+      target_key: 'rel/cache-redis',
+      relation_type: 'depends_on',
+      note: 'Counters live in Redis'
+    });
+    assert.strictEqual(result.created, true);
+    assert.strictEqual(result.deprecated_target, false);
+
+    const outbound = await listDecisionRelations({ key: 'rel/rate-limit' });
+    assert.strictEqual(outbound.count, 1);
+    assert.strictEqual(outbound.outbound[0].key, 'rel/cache-redis');
+    assert.strictEqual(outbound.outbound[0].relation_type, 'depends_on');
+    assert.strictEqual(outbound.outbound[0].note, 'Counters live in Redis');
+
+    const inbound = await listDecisionRelations({ key: 'rel/cache-redis', direction: 'inbound' });
+    assert.strictEqual(inbound.inbound[0].key, 'rel/rate-limit');
+    assert.strictEqual(inbound.outbound.length, 0);
+
+    const again = await linkDecisions({ key: 'rel/rate-limit', target_key: 'rel/cache-redis', relation_type: 'depends_on' });
+    assert.strictEqual(again.created, false);
+  });
+
+  it('should deprecate the target of a supersedes link', async () => {
+    await setDecision({ key: 'rel/orm-prisma', value: 'Prisma ORM', layer: 'data' });
+    const result = await linkDecisions({ key: 'rel/orm-prisma', target_key: 'rel/orm-sequelize', relation_type: 'supersedes' });
+    assert.strictEqual(result.deprecated_target, true);
+
+    const old = await getDecision({ key: 'rel/orm-sequelize' });
+    assert.strictEqual(old.decision?.status, 'deprecated');
+    assert.strictEqual(old.relations?.inbound[0].key, 'rel/orm-prisma');
+    assert.strictEqual(old.relations?.inbound[0].relation_type, 'supersedes');
+  });
+
+  it('should deprecate keys passed as supersedes on set', async () => {
+    const result = await setDecision({ key: 'rel/api-graphql', value: 'GraphQL', layer: 'presentation', supersedes: 'rel/api-style' });
+    assert.deepStrictEqual(result.superseded, ['rel/api-style']);
+
+    const old = await getDecision({ key: 'rel/api-style' });
+    assert.strictEqual(old.decision?.status, 'deprecated');
+
+    const current = await getDecision({ key: 'rel/api-graphql', include_context: true });
+    assert.strictEqual(current.relations?.outbound[0].key, 'rel/api-style');
+
+    await assert.rejects(
+      () => setDecision({ key: 'rel/api-grpc', value: 'gRPC', supersedes: ['rel/does-not-exist'] }),
+      /Superseded decision "rel\/does-not-exist" not found/
+    );
+    const rolledBack = await getDecision({ key: 'rel/api-grpc' });
+    assert.strictEqual(rolledBack.found, false);
+  });
+
+  it('should omit relations from get when there are none', async () => {
+    await setDecision({ key: 'rel/standalone', value: 'No links' });
+    const result = await getDecision({ key: 'rel/standalone' });
+    assert.strictEqual(result.found, true);
+    assert.strictEqual(result.relations, undefined);
+  });
+
+  it('should reject invalid relation types, self links and unknown keys', async () => {
+    await assert.rejects(
+      () => linkDecisions({ key: 'rel/rate-limit', target_key: 'rel/cache-redis', relation_type: 'blocks' as any }),
+      /Invalid relation_type/
+    );
+    await assert.rejects(
+      () => linkDecisions({ key: 'rel/rate-limit', target_key: 'rel/rate-limit', relation_type: 'refines' }),
+      /cannot be related to itself/
+    );
+    await assert.rejects(
+      () => linkDecisions({ key: 'rel/rate-limit', target_key: 'rel/missing', relation_type: 'refines' }),
+      /Decision "rel\/missing" not found/
+    );
+  });
+
+  it('should unlink relations', async () => {
+    await linkDecisions({ key: 'rel/rate-limit', target_key: 'rel/cache-redis', relation_type: 'refines' });
+
+    const one = await unlinkDecisions({ key: 'rel/rate-limit', target_key: 'rel/cache-redis', relation_type: 'refines' });
+    assert.strictEqual(one.removed, 1);
+
+    const rest = await unlinkDecisions({ key: 'rel/rate-limit', target_key: 'rel/cache-redis' });
+    assert.strictEqual(rest.removed, 1);
+
+    const none = await listDecisionRelations({ key: 'rel/rate-limit' });
+    assert.strictEqual(none.count, 0);
+  });
+
+  it('should remove relations on hard delete', async () => {
+    await linkDecisions({ key: 'rel/rate-limit', target_key: 'rel/cache-redis', relation_type: 'conflicts_with' });
+    await hardDeleteDecision({ key: 'rel/cache-redis' });
+
+    const result = await listDecisionRelations({ key: 'rel/rate-limit' });
+    assert.strictEqual(result.count, 0);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Decision Revert Tests
+ *
+ * Tests decision.revert: new version with the old value, reason in
+ * t_decision_context, numeric values, policy validation and errors (v5.1.0).
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { setDecision, getDecision, revertDecision, diffDecision } from '../../../tools/context/index.js';
+import { initializeDatabase, closeDatabase, getAdapter } from '../../../database.js';
+import { ProjectContext } from '../../../utils/project-context.js';
+
+const TEST_DB_PATH = '.sqlew/tmp/test-decision-revert.db';
+
+describe('Decision Revert', () => {
+  before(async () => {
+    fs.mkdirSync(path.dirname(TEST_DB_PATH), { recursive: true });
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+
+    const adapter = await initializeDatabase({
+      databaseType: 'sqlite',
+      connection: { filename: TEST_DB_PATH }
+    });
+
+    const projectContext = ProjectContext.getInstance();
+    await projectContext.ensureProject(adapter.getKnex(), 'test-decision-revert', 'config', {
+      projectRootPath: process.cwd(),
+    });
+  });
+
+  after(async () => {
+    await closeDatabase();
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+  });
+
+  it('should write the old value as a new version and keep metadata', async () => {
+    await setDecision({ key: 'revert/db', value: 'Use PostgreSQL', layer: 'data', tags: ['db'], status: 'in_review' });
+    await setDecision({ key: 'revert/db', value: 'Use MySQL', status: 'in_review' });
+
+    const result = await revertDecision({ key: 'revert/db', version: '1.0.0', reason: 'MySQL migration abandoned' });
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.previous_version, '1.0.1');
+    assert.strictEqual(result.reverted_to, '1.0.0');
+    assert.strictEqual(result.version, '1.0.2');
+    assert.strictEqual(result.version_action, 'auto_increment_patch');
+
+    const decision = await getDecision({ key: 'revert/db' });
+    assert.strictEqual(decision.decision?.value, 'Use PostgreSQL');
+    assert.strictEqual(decision.decision?.status, 'in_review');
+    assert.strictEqual(decision.decision?.layer, 'data');
+    assert.strictEqual(decision.decision?.tags, 'db');
+
+    // Both earlier versions stay in history
+    const diff = await diffDecision({ key: 'revert/db' });
+    assert.strictEqual(diff.from_version, '1.0.1');
+    assert.strictEqual(diff.value.rendered, 'Use [-MySQL-]{+PostgreSQL+}');
+  });
+
+  it('should record the reason in t_decision_context', async () => {
+    const result = await revertDecision({ key: 'revert/db', version: '1.0.1', reason: 'Load tests passed', auto_increment: 'minor' });
+    assert.strictEqual(result.version, '1.1.0');
+
+    const context = await getAdapter().getKnex()('t_decision_context').where({ id: result.context_id }).first();
+    assert.strictEqual(context.rationale, 'Reverted from 1.0.2 to 1.0.1: Load tests passed');
+  });
+
+  it('should restore numeric values as numbers', async () => {
+    await setDecision({ key: 'revert/pool-size', value: 10 });
+    await setDecision({ key: 'revert/pool-size', value: 25 });
+
+    await revertDecision({ key: 'revert/pool-size', version: '1.0.0', reason: 'Connection limit reached' });
+
+    const decision = await getDecision({ key: 'revert/pool-size' });
+    assert.strictEqual(Number(decision.decision?.value), 10);
+    const numeric = await getAdapter().getKnex()('t_decisions_numeric as dn')
+      .join('m_context_keys as k', 'dn.key_id', 'k.id')
+      .where('k.key_name', 'revert/pool-size')
+      .first('dn.value');
+    assert.strictEqual(numeric.value, 10);
+  });
+
+  it('should validate the restored value against matching policies', async () => {
+    const knex = getAdapter().getKnex();
+    const projectId = ProjectContext.getInstance().getProjectId();
+    await knex('t_decision_policies').where({ name: 'security_vulnerability', project_id: projectId }).delete();
+    await knex('t_decision_policies').insert({
+      name: 'security_vulnerability',
+      project_id: projectId,
+      required_fields: JSON.stringify(['cve_id']),
+      suggest_similar: 0,
+      ts: Math.floor(Date.now() / 1000)
+    });
+
+    await setDecision({ key: 'revert/security/tls', value: 'TLS 1.2' });
+    await setDecision({ key: 'revert/security/tls', value: 'TLS 1.3' });
+
+    const result = await revertDecision({ key: 'revert/security/tls', version: '1.0.0', reason: 'Legacy clients' });
+    assert.strictEqual(result.policy_validation?.matched_policy, 'security_vulnerability');
+    assert.ok(result.policy_validation?.violations.some(v => v.includes('cve_id')));
+  });
+
+  it('should reject unknown keys, unknown versions and the current version', async () => {
+    await assert.rejects(
+      () => revertDecision({ key: 'revert/missing', version: '1.0.0', reason: 'x' }),
+      /Decision "revert\/missing" not found/
+    );
+    await assert.rejects(
+      () => revertDecision({ key: 'revert/db', version: '9.9.9', reason: 'x' }),
+      /Version "9.9.9" not found/
+    );
+    await assert.rejects(
+      () => revertDecision({ key: 'revert/db', version: '1.1.0', reason: 'x' }),
+      /already at version 1.1.0/
+    );
+    await assert.rejects(
+      () => revertDecision({ key: 'revert/db', version: '1.0.0' } as any),
+      /reason/
+    );
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Advanced Search Tests
+ *
+ * Tests search_advanced filters, sorting and pagination now that they run
+ * as SQL clauses instead of in-memory filtering (v5.1.0).
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { setDecision, searchAdvanced } from '../../../tools/context/index.js';
+import { initializeDatabase, closeDatabase, getAdapter } from '../../../database.js';
+import { ProjectContext } from '../../../utils/project-context.js';
+
+const TEST_DB_PATH = '.sqlew/tmp/test-search-advanced.db';
+
+const keys = (result: { decisions: Array<{ key: string }> }) => result.decisions.map(d => d.key);
+
+describe('search_advanced SQL filtering', () => {
+  before(async () => {
+    fs.mkdirSync(path.dirname(TEST_DB_PATH), { recursive: true });
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+
+    const adapter = await initializeDatabase({
+      databaseType: 'sqlite',
+      connection: { filename: TEST_DB_PATH }
+    });
+
+    const projectContext = ProjectContext.getInstance();
+    await projectContext.ensureProject(adapter.getKnex(), 'test-search-advanced', 'config', {
+      projectRootPath: process.cwd(),
+    });
+
+    await setDecision({ key: 'sa/a', value: 'A', layer: 'business', tags: ['api', 'security'], scopes: ['api/auth'] });
+    await setDecision({ key: 'sa/b', value: 'B', layer: 'data', tags: ['api'], scopes: ['api/users'] });
+    await setDecision({ key: 'sa/c', value: 'C', layer: 'data', tags: ['oauth'], scopes: ['web'], status: 'deprecated' });
+    await setDecision({ key: 'sa/d', value: 4, layer: 'infrastructure', tags: ['security'] });
+    await setDecision({ key: 'sa/e', value: 'E', layer: 'business' });
+
+    // Same keys in another project must never leak into results
+    const other = await projectContext.loadProject(adapter.getKnex(), 'test-search-advanced-other', 'config');
+    await ProjectContext.runWithProject(other, async () => {
+      await setDecision({ key: 'sa/a', value: 'Other A', layer: 'presentation', tags: ['other'] });
+      await setDecision({ key: 'sa/z', value: 'Other Z', layer: 'business', tags: ['api'] });
+    });
+  });
+
+  after(async () => {
+    await closeDatabase();
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+  });
+
+  it('should filter by layers and statuses', async () => {
+    const layers = await searchAdvanced({ layers: ['data', 'infrastructure'], sort_by: 'key', sort_order: 'asc' });
+    assert.deepStrictEqual(keys(layers), ['sa/b', 'sa/c', 'sa/d']);
+
+    const deprecated = await searchAdvanced({ statuses: ['deprecated'] });
+    assert.deepStrictEqual(keys(deprecated), ['sa/c']);
+    assert.strictEqual(deprecated.decisions[0].status, 'deprecated');
+  });
+
+  it('should match whole tags for tags_all, tags_any and exclude_tags', async () => {
+    const all = await searchAdvanced({ tags_all: ['api', 'security'] });
+    assert.deepStrictEqual(keys(all), ['sa/a']);
+
+    // "auth" is a substring of "oauth" but not a tag of any decision
+    const none = await searchAdvanced({ tags_any: ['auth'] });
+    assert.strictEqual(none.total_count, 0);
+
+    const any = await searchAdvanced({ tags_any: ['oauth', 'security'], sort_by: 'key', sort_order: 'asc' });
+    assert.deepStrictEqual(keys(any), ['sa/a', 'sa/c', 'sa/d']);
+
+    const excluded = await searchAdvanced({ exclude_tags: ['api'], sort_by: 'key', sort_order: 'asc' });
+    assert.deepStrictEqual(keys(excluded), ['sa/c', 'sa/d', 'sa/e']);
+  });
+
+  it('should filter scopes exactly or by wildcard', async () => {
+    const exact = await searchAdvanced({ scopes: ['api/auth'] });
+    assert.deepStrictEqual(keys(exact), ['sa/a']);
+
+    const wildcard = await searchAdvanced({ scopes: ['api/*'], sort_by: 'key', sort_order: 'asc' });
+    assert.deepStrictEqual(keys(wildcard), ['sa/a', 'sa/b']);
+
+    // LIKE wildcards in scopes are literal: "_" must not match the "s" of "api/users"
+    const underscore = await searchAdvanced({ scopes: ['api/user_*'] });
+    assert.strictEqual(underscore.total_count, 0);
+    const percent = await searchAdvanced({ scopes: ['%/*'] });
+    assert.strictEqual(percent.total_count, 0);
+  });
+
+  it('should filter by update time', async () => {
+    const knex = getAdapter().getKnex();
+    const projectId = ProjectContext.getInstance().getProjectId();
+    const tenDaysAgo = Math.floor(Date.now() / 1000) - 10 * 86400;
+    await knex('t_decisions').where({ project_id: projectId }).whereIn('key_id', function () {
+      this.select('id').from('m_context_keys').where('key_name', 'sa/e');
+    }).update({ ts: tenDaysAgo });
+
+    const recent = await searchAdvanced({ updated_after: '7d', sort_by: 'key', sort_order: 'asc' });
+    assert.ok(!keys(recent).includes('sa/e'));
+    assert.strictEqual(recent.total_count, 4);
+
+    const old = await searchAdvanced({ updated_before: '7d' });
+    assert.deepStrictEqual(keys(old), ['sa/e']);
+
+    await assert.rejects(() => searchAdvanced({ updated_after: 'last week' }), /Invalid updated_after format/);
+  });
+
+  it('should paginate in SQL with total_count from the filtered set', async () => {
+    const page1 = await searchAdvanced({ sort_by: 'key', sort_order: 'asc', limit: 2 });
+    const page2 = await searchAdvanced({ sort_by: 'key', sort_order: 'asc', limit: 2, offset: 2 });
+    const page3 = await searchAdvanced({ sort_by: 'key', sort_order: 'asc', limit: 2, offset: 4 });
+
+    assert.deepStrictEqual(keys(page1), ['sa/a', 'sa/b']);
+    assert.deepStrictEqual(keys(page2), ['sa/c', 'sa/d']);
+    assert.deepStrictEqual(keys(page3), ['sa/e']);
+    assert.strictEqual(page1.count, 2);
+    assert.strictEqual(page1.total_count, 5);
+  });
+
+  it('should only return decisions of the current project', async () => {
+    const result = await searchAdvanced({ tags_any: ['api', 'other'], full_value: true, sort_by: 'key', sort_order: 'asc' });
+    assert.deepStrictEqual(keys(result), ['sa/a', 'sa/b']);
+    assert.strictEqual(result.decisions[0].value, 'A');
+    assert.deepStrictEqual(result.decisions[0].tags?.split(',').sort(), ['api', 'security']);
+  });
+
+  it('should return numeric values as strings', async () => {
+    const result = await searchAdvanced({ layers: ['infrastructure'] });
+    assert.strictEqual(result.decisions[0].value, '4');
+  });
+});
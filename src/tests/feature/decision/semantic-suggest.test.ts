@@ -0,0 +1,114 @@
+/**
+ * Semantic Suggest Tests
+ *
+ * Tests embedding-based similarity in suggest: TF-IDF vectors, stored
+ * vectors in t_embeddings, provider selection from [suggest.embeddings]
+ * and the fallback when no model is available (v5.1.0).
+ */
+
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { setDecision } from '../../../tools/context/index.js';
+import { suggestByContext } from '../../../tools/suggest/actions/by-context.js';
+import { initializeDatabase, closeDatabase, getAdapter } from '../../../database.js';
+import { ProjectContext } from '../../../utils/project-context.js';
+import {
+  createTfidfProvider,
+  cosineSimilarity,
+  getEmbeddingProvider,
+  resetEmbeddingProviders,
+} from '../../../utils/embeddings/index.js';
+
+const TEST_DB_PATH = '.sqlew/tmp/test-semantic-suggest.db';
+const PROJECT_ROOT = path.resolve('.sqlew/tmp/semantic-suggest');
+
+function writeConfig(root: string, toml: string): void {
+  fs.mkdirSync(path.join(root, '.sqlew'), { recursive: true });
+  fs.writeFileSync(path.join(root, '.sqlew', 'config.toml'), toml);
+}
+
+describe('Semantic suggest', () => {
+  before(async () => {
+    fs.rmSync(PROJECT_ROOT, { recursive: true, force: true });
+    fs.mkdirSync(path.dirname(TEST_DB_PATH), { recursive: true });
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+
+    const adapter = await initializeDatabase({
+      databaseType: 'sqlite',
+      connection: { filename: TEST_DB_PATH }
+    });
+
+    await ProjectContext.getInstance().ensureProject(adapter.getKnex(), 'test-semantic-suggest', 'config', {
+      projectRootPath: PROJECT_ROOT,
+    });
+
+    await setDecision({ key: 'db/session-store', value: 'session store on PostgreSQL', layer: 'data' });
+    await setDecision({ key: 'ui/theme', value: 'Dark mode by default', layer: 'presentation' });
+    await setDecision({ key: 'api/rate-limit', value: '100 requests per minute', layer: 'business' });
+  });
+
+  beforeEach(() => {
+    resetEmbeddingProviders();
+    fs.rmSync(path.join(PROJECT_ROOT, '.sqlew'), { recursive: true, force: true });
+  });
+
+  after(async () => {
+    resetEmbeddingProviders();
+    await closeDatabase();
+    fs.rmSync(PROJECT_ROOT, { recursive: true, force: true });
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+  });
+
+  it('should give paraphrases similar TF-IDF vectors', async () => {
+    const [query, paraphrase, unrelated] = await createTfidfProvider().embed([
+      'use Postgres for sessions',
+      'session store on PostgreSQL',
+      'Dark mode by default',
+    ]);
+
+    assert.ok(cosineSimilarity(query, paraphrase) > 0.4);
+    assert.ok(cosineSimilarity(query, unrelated) < 0.2);
+  });
+
+  it('should stay lexical when no provider is configured', async () => {
+    assert.strictEqual(await getEmbeddingProvider(), null);
+
+    const result = await suggestByContext({ key: 'infra/sessions', value: 'use Postgres for sessions', min_score: 0 });
+    assert.ok(result.suggestions.every(s => !('semantic_similarity' in s.score_breakdown)));
+  });
+
+  it('should score semantic matches and store vectors', async () => {
+    writeConfig(PROJECT_ROOT, '[suggest.embeddings]\nprovider = "tfidf"\n');
+
+    const result = await suggestByContext({ key: 'infra/sessions', value: 'use Postgres for sessions', min_score: 0 });
+    const top = result.suggestions[0];
+
+    assert.strictEqual(top.key, 'db/session-store');
+    assert.ok(top.score_breakdown.semantic_similarity > top.score_breakdown.key_similarity);
+    assert.strictEqual(result.suggestions.find(s => s.key === 'api/rate-limit')!.score_breakdown.semantic_similarity, 0);
+
+    const knex = getAdapter().getKnex();
+    const rows = await knex('t_embeddings').where({ entity_type: 'decision' }).select('provider', 'dims');
+    assert.strictEqual(rows.length, 3);
+    assert.ok(rows.every(r => r.provider === 'tfidf:512' && r.dims === 512));
+
+    // Changed value invalidates the stored vector
+    await setDecision({ key: 'ui/theme', value: 'Sessions persisted in Postgres', layer: 'presentation' });
+    const again = await suggestByContext({ key: 'infra/sessions', value: 'use Postgres for sessions', min_score: 0 });
+    const theme = again.suggestions.find(s => s.key === 'ui/theme')!;
+    assert.ok(theme.score_breakdown.semantic_similarity >= 5);
+  });
+
+  it('should fall back to TF-IDF when the model cannot be loaded', async () => {
+    writeConfig(PROJECT_ROOT, '[suggest.embeddings]\nprovider = "transformers"\nmodel_path = ".sqlew/models/missing"\n');
+
+    const provider = await getEmbeddingProvider();
+    assert.strictEqual(provider?.name, 'tfidf:512');
+  });
+});
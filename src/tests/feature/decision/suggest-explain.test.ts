@@ -0,0 +1,97 @@
+/**
+ * Suggest Explain Tests
+ *
+ * Tests [suggest.weights] from .sqlew/config.toml, scope overlap scoring and
+ * suggest.explain rankings (v5.1.0).
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { setDecision } from '../../../tools/context/index.js';
+import { handleSuggestAction } from '../../../tools/suggest/index.js';
+import { initializeDatabase, closeDatabase } from '../../../database.js';
+import { ProjectContext } from '../../../utils/project-context.js';
+import type { ExplainResponse } from '../../../tools/suggest/types.js';
+
+const TEST_DB_PATH = '.sqlew/tmp/test-suggest-explain.db';
+const PROJECT_ROOT = path.resolve('.sqlew/tmp/suggest-explain-project');
+const CONFIG_PATH = path.join(PROJECT_ROOT, '.sqlew', 'config.toml');
+
+const QUERY = {
+  action: 'explain' as const,
+  key: 'billing/tax',
+  tags: ['billing', 'money'],
+  scopes: ['services/billing/invoices'],
+};
+
+describe('Suggest explain', () => {
+  before(async () => {
+    fs.rmSync(PROJECT_ROOT, { recursive: true, force: true });
+    fs.mkdirSync(path.dirname(CONFIG_PATH), { recursive: true });
+    fs.mkdirSync(path.dirname(TEST_DB_PATH), { recursive: true });
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+
+    const adapter = await initializeDatabase({
+      databaseType: 'sqlite',
+      connection: { filename: TEST_DB_PATH }
+    });
+
+    await ProjectContext.getInstance().ensureProject(adapter.getKnex(), 'test-suggest-explain', 'config', {
+      projectRootPath: PROJECT_ROOT,
+    });
+
+    await setDecision({ key: 'billing/currency', value: 'EUR only', tags: ['billing', 'money'] });
+    await setDecision({ key: 'billing/rounding', value: 'Round per line', tags: ['billing'], scopes: ['services/billing'] });
+  });
+
+  after(async () => {
+    await closeDatabase();
+    fs.rmSync(PROJECT_ROOT, { recursive: true, force: true });
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+  });
+
+  it('should explain the ranking under the default weights', async () => {
+    const result: ExplainResponse = await handleSuggestAction(QUERY);
+
+    assert.deepStrictEqual(result.weights, { tags: 40, layer: 25, similarity: 20, scope: 0, recency: 10, priority: 5 });
+    assert.strictEqual(result.min_score, 20);
+    assert.deepStrictEqual(result.ranking.map(r => r.key), ['billing/currency', 'billing/rounding']);
+    assert.strictEqual(result.ranking[0].rank, 1);
+    assert.strictEqual(result.ranking[0].score_breakdown.tag_overlap, 20);
+    assert.strictEqual(result.ranking[1].score_breakdown.scope_overlap, 0);
+  });
+
+  it('should apply [suggest.weights] from config.toml without a restart', async () => {
+    fs.writeFileSync(CONFIG_PATH, '[suggest.weights]\ntags = 10\nscope = 40\n');
+
+    const result: ExplainResponse = await handleSuggestAction({ ...QUERY, min_score: 30 });
+
+    assert.strictEqual(result.weights.scope, 36.4);  // 40 / 110 of 100 points
+    assert.deepStrictEqual(result.ranking.map(r => r.key), ['billing/rounding', 'billing/currency']);
+    assert.strictEqual(result.ranking[0].score_breakdown.scope_overlap, 36);
+    assert.match(result.ranking[0].reason, /shared scope/);
+    assert.strictEqual(result.ranking[0].above_min_score, true);
+
+    // by_context uses the same weights
+    const suggestions = await handleSuggestAction({ ...QUERY, action: 'by_context' });
+    assert.strictEqual(suggestions.suggestions[0].key, 'billing/rounding');
+  });
+
+  it('should explain constraint rankings', async () => {
+    const result: ExplainResponse = await handleSuggestAction({ action: 'explain', target: 'constraint', text: 'Round invoices' });
+
+    assert.strictEqual(result.target, 'constraint');
+    assert.strictEqual(result.min_score, 30);
+    assert.strictEqual(result.count, 0);
+  });
+
+  it('should require a key for decisions', async () => {
+    await assert.rejects(handleSuggestAction({ action: 'explain' }), /Missing required parameter: key/);
+  });
+});
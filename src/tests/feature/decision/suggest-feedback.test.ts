@@ -0,0 +1,181 @@
+/**
+ * Suggest Feedback Tests
+ *
+ * Tests suggest.feedback signals, the feedback boost / penalty in by_key and
+ * by_context scores, and suggestion precision from suggest.analytics (v5.1.0).
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { setDecision } from '../../../tools/context/index.js';
+import { addConstraint } from '../../../tools/constraints/index.js';
+import { handleSuggestAction } from '../../../tools/suggest/index.js';
+import { initializeDatabase, closeDatabase } from '../../../database.js';
+import { ProjectContext } from '../../../utils/project-context.js';
+import type { AnalyticsResponse, FeedbackResponse, SuggestResponse } from '../../../tools/suggest/types.js';
+
+const TEST_DB_PATH = '.sqlew/tmp/test-suggest-feedback.db';
+
+const QUERY = {
+  action: 'by_context' as const,
+  key: 'auth/session-timeout',
+  tags: ['auth'],
+};
+
+describe('Suggest feedback', () => {
+  let tlsConstraintId: number;
+
+  before(async () => {
+    fs.mkdirSync(path.dirname(TEST_DB_PATH), { recursive: true });
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+
+    const adapter = await initializeDatabase({
+      databaseType: 'sqlite',
+      connection: { filename: TEST_DB_PATH }
+    });
+
+    await ProjectContext.getInstance().ensureProject(adapter.getKnex(), 'test-suggest-feedback', 'config', {
+      projectRootPath: process.cwd(),
+    });
+
+    await setDecision({ key: 'auth/token-ttl', value: '15 minutes', tags: ['auth'] });
+    await setDecision({ key: 'auth/password-policy', value: '12 characters minimum', tags: ['auth'] });
+
+    tlsConstraintId = (await addConstraint({
+      constraint_text: 'All endpoints require TLS',
+      category: 'security',
+      priority: 'high',
+      tags: ['auth'],
+    })).constraint_id;
+  });
+
+  after(async () => {
+    await closeDatabase();
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+  });
+
+  it('should score pairs without feedback as before', async () => {
+    const result: SuggestResponse = await handleSuggestAction(QUERY);
+
+    assert.strictEqual(result.count, 2);
+    for (const suggestion of result.suggestions) {
+      assert.strictEqual(suggestion.score_breakdown.feedback, undefined);
+    }
+  });
+
+  it('should record accepted and rejected suggestions', async () => {
+    const rejected: FeedbackResponse = await handleSuggestAction({
+      action: 'feedback',
+      key: 'auth/session-timeout',
+      suggested_key: 'auth/password-policy',
+      accepted: false,
+    });
+    assert.strictEqual(rejected.success, true);
+    assert.deepStrictEqual(rejected.totals, { accepted: 0, rejected: 1 });
+    assert.strictEqual(rejected.adjustment, -5);
+
+    await handleSuggestAction({ action: 'feedback', key: 'auth/session-timeout', suggested_key: 'auth/token-ttl', accepted: true });
+    // Queries are matched case- and whitespace-insensitively
+    const accepted: FeedbackResponse = await handleSuggestAction({
+      action: 'feedback',
+      key: ' Auth/Session-Timeout ',
+      suggested_key: 'auth/token-ttl',
+      accepted: true,
+    });
+    assert.deepStrictEqual(accepted.totals, { accepted: 2, rejected: 0 });
+    assert.strictEqual(accepted.adjustment, 10);
+  });
+
+  it('should boost accepted pairs and penalize rejected ones', async () => {
+    const otherQuery: SuggestResponse = await handleSuggestAction({ ...QUERY, key: 'auth/unrelated-query' });
+    const result: SuggestResponse = await handleSuggestAction(QUERY);
+
+    const [first, second] = result.suggestions;
+    assert.strictEqual(first.key, 'auth/token-ttl');
+    assert.strictEqual(first.score_breakdown.feedback, 10);
+    assert.match(first.reason, /accepted before/);
+    assert.strictEqual(second.key, 'auth/password-policy');
+    assert.strictEqual(second.score_breakdown.feedback, -5);
+    assert.match(second.reason, /rejected before/);
+
+    // Feedback only applies to the query it was given for
+    for (const suggestion of otherQuery.suggestions) {
+      assert.strictEqual(suggestion.score_breakdown.feedback, undefined);
+    }
+
+    const byKey: SuggestResponse = await handleSuggestAction({ action: 'by_key', key: 'auth/session-timeout', min_score: 0 });
+    const tokenTtl = byKey.suggestions.find(s => s.key === 'auth/token-ttl');
+    assert.strictEqual(tokenTtl?.score_breakdown.feedback, 10);
+  });
+
+  it('should cap the feedback adjustment', async () => {
+    let response: FeedbackResponse | undefined;
+    for (let i = 0; i < 4; i++) {
+      response = await handleSuggestAction({
+        action: 'feedback',
+        key: 'auth/session-timeout',
+        suggested_key: 'auth/token-ttl',
+        accepted: true,
+      });
+    }
+    assert.strictEqual(response?.adjustment, 15);
+  });
+
+  it('should apply constraint feedback to constraint suggestions', async () => {
+    await handleSuggestAction({
+      action: 'feedback',
+      target: 'constraint',
+      text: 'Use TLS for internal APIs',
+      suggested_id: tlsConstraintId,
+      accepted: false,
+    });
+
+    const result = await handleSuggestAction({
+      action: 'by_context',
+      target: 'constraint',
+      text: 'Use TLS for internal APIs',
+      tags: ['auth'],
+      min_score: 0,
+    });
+    assert.strictEqual(result.suggestions[0].id, tlsConstraintId);
+    assert.strictEqual(result.suggestions[0].score_breakdown.feedback, -5);
+  });
+
+  it('should report suggestion precision', async () => {
+    const all: AnalyticsResponse = await handleSuggestAction({ action: 'analytics' });
+    assert.strictEqual(all.target, 'all');
+    assert.strictEqual(all.bucket, 'week');
+    assert.deepStrictEqual(all.total, { accepted: 6, rejected: 2, precision: 0.75 });
+    assert.strictEqual(all.time_series.length, 1);
+    assert.strictEqual(all.time_series[0].precision, 0.75);
+
+    const constraints: AnalyticsResponse = await handleSuggestAction({ action: 'analytics', target: 'constraint', bucket: 'day' });
+    assert.deepStrictEqual(constraints.total, { accepted: 0, rejected: 1, precision: 0 });
+
+    const empty: AnalyticsResponse = await handleSuggestAction({ action: 'analytics', end_ts: 0 });
+    assert.deepStrictEqual(empty.total, { accepted: 0, rejected: 0, precision: null });
+    assert.deepStrictEqual(empty.time_series, []);
+  });
+
+  it('should reject unknown suggestions and missing parameters', async () => {
+    await assert.rejects(
+      handleSuggestAction({ action: 'feedback', key: 'auth/session-timeout', suggested_key: 'auth/missing', accepted: true }),
+      /Decision not found: auth\/missing/
+    );
+    await assert.rejects(
+      handleSuggestAction({ action: 'feedback', target: 'constraint', text: 'TLS', suggested_id: 9999, accepted: true }),
+      /Constraint not found: 9999/
+    );
+    await assert.rejects(
+      handleSuggestAction({ action: 'feedback', key: 'auth/session-timeout', suggested_key: 'auth/token-ttl' }),
+      /Missing required parameter: accepted/
+    );
+    await assert.rejects(handleSuggestAction({ action: 'analytics', bucket: 'year' as any }), /Invalid bucket: year/);
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * HTTP Transport Tests
+ *
+ * Tests the Streamable HTTP transport: bearer authentication, 401/403/404
+ * paths, session reuse, per-session projects and idle session expiry (v5.1.0).
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { startHttpTransport, isAuthorized, MCP_HTTP_PATH } from '../../../server/http-transport.js';
+import { initializeDatabase, closeDatabase, getAdapter } from '../../../database.js';
+import { ProjectContext } from '../../../utils/project-context.js';
+
+const TEST_DB_PATH = '.sqlew/tmp/test-http-transport.db';
+const AUTH_TOKEN = 'team-secret';
+
+interface HttpResult {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * MCP server whose only tool returns the project it runs in
+ */
+function createProjectEchoServer(): Server {
+  const server = new Server({ name: 'http-test', version: '1.0.0' }, { capabilities: { tools: {} } });
+  server.setRequestHandler(CallToolRequestSchema, async () => ({
+    content: [{ type: 'text', text: ProjectContext.getInstance().getProjectName() }],
+  }));
+  return server;
+}
+
+/**
+ * Send one request (no keep-alive, so the server can close right away)
+ */
+function send(
+  port: number,
+  options: { method?: string; path?: string; headers?: Record<string, string>; body?: unknown }
+): Promise<HttpResult> {
+  return new Promise((resolve, reject) => {
+    const req = http.request({
+      host: '127.0.0.1',
+      port,
+      agent: false,
+      method: options.method ?? 'POST',
+      path: options.path ?? MCP_HTTP_PATH,
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        Authorization: `Bearer ${AUTH_TOKEN}`,
+        ...options.headers,
+      },
+    }, (res) => {
+      let body = '';
+      res.setEncoding('utf8');
+      res.on('data', chunk => { body += chunk; });
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, headers: res.headers, body }));
+    });
+    req.on('error', reject);
+    req.end(options.body !== undefined ? JSON.stringify(options.body) : undefined);
+  });
+}
+
+/**
+ * JSON-RPC messages in a JSON or SSE response body
+ */
+function messages(result: HttpResult): any[] {
+  if (result.headers['content-type']?.startsWith('text/event-stream')) {
+    return result.body.split('\n').filter(line => line.startsWith('data: ')).map(line => JSON.parse(line.slice(6)));
+  }
+  return [JSON.parse(result.body)];
+}
+
+/**
+ * Initialize a session and return its id
+ */
+async function initializeSession(port: number, headers: Record<string, string> = {}, query = ''): Promise<string> {
+  const result = await send(port, {
+    path: MCP_HTTP_PATH + query,
+    headers,
+    body: {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+    },
+  });
+  assert.strictEqual(result.status, 200, result.body);
+  const sessionId = result.headers['mcp-session-id'] as string;
+  assert.ok(sessionId);
+
+  const initialized = await send(port, {
+    headers: { 'mcp-session-id': sessionId },
+    body: { jsonrpc: '2.0', method: 'notifications/initialized' },
+  });
+  assert.strictEqual(initialized.status, 202);
+  return sessionId;
+}
+
+/**
+ * Call the echo tool in a session
+ */
+async function callTool(port: number, sessionId: string): Promise<HttpResult> {
+  return send(port, {
+    headers: { 'mcp-session-id': sessionId },
+    body: { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'whoami', arguments: {} } },
+  });
+}
+
+async function sessionProject(port: number, sessionId: string): Promise<string> {
+  const result = await callTool(port, sessionId);
+  assert.strictEqual(result.status, 200, result.body);
+  return messages(result)[0].result.content[0].text;
+}
+
+async function stop(server: http.Server): Promise<void> {
+  server.closeAllConnections();
+  await new Promise<void>(resolve => server.close(() => resolve()));
+}
+
+describe('HTTP transport', () => {
+  let server: http.Server;
+  let port: number;
+
+  before(async () => {
+    fs.mkdirSync(path.dirname(TEST_DB_PATH), { recursive: true });
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+
+    const adapter = await initializeDatabase({
+      databaseType: 'sqlite',
+      connection: { filename: TEST_DB_PATH }
+    });
+    const knex = adapter.getKnex();
+
+    const projectContext = ProjectContext.getInstance();
+    await projectContext.ensureProject(knex, 'test-http-transport', 'config', {
+      projectRootPath: process.cwd(),
+    });
+    await projectContext.loadProject(knex, 'http-other', 'config', { projectRootPath: path.resolve('.sqlew/tmp') });
+    await projectContext.loadProject(knex, 'http-rootless', 'config');
+
+    server = await startHttpTransport({ port: 0, authToken: AUTH_TOKEN, createServer: createProjectEchoServer });
+    port = (server.address() as { port: number }).port;
+  });
+
+  after(async () => {
+    await stop(server);
+    await closeDatabase();
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+  });
+
+  it('should compare bearer tokens', () => {
+    assert.strictEqual(isAuthorized(undefined, undefined), true);
+    assert.strictEqual(isAuthorized('Bearer team-secret', 'team-secret'), true);
+    assert.strictEqual(isAuthorized('bearer  team-secret ', 'team-secret'), true);
+    assert.strictEqual(isAuthorized(undefined, 'team-secret'), false);
+    assert.strictEqual(isAuthorized('Basic team-secret', 'team-secret'), false);
+    assert.strictEqual(isAuthorized('Bearer team-secre', 'team-secret'), false);
+  });
+
+  it('should refuse to listen on a non-loopback host without a token', async () => {
+    await assert.rejects(
+      () => startHttpTransport({ host: '0.0.0.0', port: 0, createServer: createProjectEchoServer }),
+      /\[server\]\.auth_token is required/
+    );
+  });
+
+  it('should reject unknown paths, missing tokens and foreign hosts', async () => {
+    const notFound = await send(port, { path: '/other', body: {} });
+    assert.strictEqual(notFound.status, 404);
+
+    const missing = await send(port, { headers: { Authorization: '' }, body: {} });
+    assert.strictEqual(missing.status, 401);
+    assert.strictEqual(missing.headers['www-authenticate'], 'Bearer');
+    assert.strictEqual((await send(port, { headers: { Authorization: 'Bearer wrong' }, body: {} })).status, 401);
+
+    const rebound = await send(port, { headers: { Host: `attacker.example:${port}` }, body: {} });
+    assert.strictEqual(rebound.status, 403);
+    assert.match(rebound.body, /Invalid Host header/);
+    assert.strictEqual((await send(port, { headers: { Host: `localhost:${port}` }, path: '/other', body: {} })).status, 404);
+  });
+
+  it('should reuse sessions and reject unknown session ids', async () => {
+    const sessionId = await initializeSession(port);
+    assert.strictEqual(await sessionProject(port, sessionId), 'test-http-transport');
+    assert.strictEqual(await sessionProject(port, sessionId), 'test-http-transport');
+
+    const unknown = await callTool(port, 'no-such-session');
+    assert.strictEqual(unknown.status, 404);
+    assert.match(unknown.body, /Session not found: no-such-session/);
+
+    const noSession = await send(port, { method: 'GET' });
+    assert.strictEqual(noSession.status, 400);
+  });
+
+  it('should run each session in its requested project', async () => {
+    const other = await initializeSession(port, { 'X-Sqlew-Project': 'http-other' });
+    const byQuery = await initializeSession(port, {}, '?project=http-other');
+    const own = await initializeSession(port);
+
+    assert.strictEqual(await sessionProject(port, other), 'http-other');
+    assert.strictEqual(await sessionProject(port, byQuery), 'http-other');
+    assert.strictEqual(await sessionProject(port, own), 'test-http-transport');
+  });
+
+  it('should not create projects or serve projects without a root path', async () => {
+    const initialize = (project: string) => send(port, {
+      headers: { 'X-Sqlew-Project': project },
+      body: { jsonrpc: '2.0', id: 1, method: 'initialize', params: {} },
+    });
+
+    const unknown = await initialize('http-new');
+    assert.strictEqual(unknown.status, 400);
+    assert.match(unknown.body, /Project \\"http-new\\" is not registered/);
+    assert.strictEqual(await getAdapter().getKnex()('m_projects').where({ name: 'http-new' }).first(), undefined);
+
+    const rootless = await initialize('http-rootless');
+    assert.strictEqual(rootless.status, 400);
+    assert.match(rootless.body, /has no registered root path/);
+
+    assert.strictEqual((await initialize('bad name!')).status, 400);
+  });
+
+  it('should close idle sessions', async () => {
+    const idleServer = await startHttpTransport({
+      port: 0, authToken: AUTH_TOKEN, sessionIdleTimeoutMs: 100, createServer: createProjectEchoServer,
+    });
+    try {
+      const idlePort = (idleServer.address() as { port: number }).port;
+      const sessionId = await initializeSession(idlePort);
+
+      await new Promise(resolve => setTimeout(resolve, 400));
+      const expired = await callTool(idlePort, sessionId);
+      assert.strictEqual(expired.status, 404);
+    } finally {
+      await stop(idleServer);
+    }
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * MCP Prompt Tests
+ *
+ * Tests listing and rendering of the built-in prompts (review_plan,
+ * summarize_layer, explain_decision) through the local backend (v5.1.0).
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { listPrompts, getPrompt } from '../../../server/prompt-handlers.js';
+import { initializeBackend, resetBackend } from '../../../backend/index.js';
+import { setDecision, addDecisionContextAction, linkDecisions } from '../../../tools/context/index.js';
+import { addConstraint } from '../../../tools/constraints/index.js';
+import { initializeDatabase, closeDatabase } from '../../../database.js';
+import { ProjectContext } from '../../../utils/project-context.js';
+
+const TEST_DB_PATH = '.sqlew/tmp/test-server-prompts.db';
+
+/**
+ * Render a prompt and return its single user message text
+ */
+async function render(name: string, args?: Record<string, string>): Promise<string> {
+  const result = await getPrompt(name, args);
+  assert.strictEqual(result.messages.length, 1);
+  assert.strictEqual(result.messages[0].role, 'user');
+  const content = result.messages[0].content;
+  assert.strictEqual(content.type, 'text');
+  return content.text as string;
+}
+
+describe('MCP prompts', () => {
+  before(async () => {
+    fs.mkdirSync(path.dirname(TEST_DB_PATH), { recursive: true });
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+
+    const adapter = await initializeDatabase({
+      databaseType: 'sqlite',
+      connection: { filename: TEST_DB_PATH }
+    });
+
+    const projectContext = ProjectContext.getInstance();
+    await projectContext.ensureProject(adapter.getKnex(), 'test-server-prompts', 'config', {
+      projectRootPath: process.cwd(),
+    });
+
+    await initializeBackend({ database: { type: 'sqlite' } });
+
+    await setDecision({ key: 'db/engine', value: 'PostgreSQL 16', layer: 'data', tags: ['database'] });
+    await setDecision({ key: 'db/orm', value: 'Knex query builder', layer: 'data' });
+    await setDecision({ key: 'ui/theme', value: 'Light mode', layer: 'presentation' });
+    await addDecisionContextAction({
+      key: 'db/orm',
+      rationale: 'Works on SQLite, MySQL and PostgreSQL',
+      alternatives_considered: ['Prisma'],
+    });
+    await linkDecisions({ key: 'db/orm', target_key: 'db/engine', relation_type: 'depends_on' });
+
+    await addConstraint({ constraint_text: 'All queries go through the ORM', category: 'architecture', priority: 'high', layer: 'data' });
+    await addConstraint({ constraint_text: 'No inline styles', category: 'code-style', priority: 'low', layer: 'presentation' });
+  });
+
+  after(async () => {
+    await closeDatabase();
+    await resetBackend();
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+  });
+
+  it('should list prompts with their arguments', () => {
+    const { prompts } = listPrompts();
+    assert.deepStrictEqual(prompts.map(p => p.name), ['review_plan', 'summarize_layer', 'explain_decision']);
+
+    const reviewPlan = prompts.find(p => p.name === 'review_plan')!;
+    assert.deepStrictEqual(reviewPlan.arguments!.map(a => [a.name, a.required]), [['plan', true], ['layer', false]]);
+  });
+
+  it('should render review_plan with constraints of the requested layer', async () => {
+    const all = await render('review_plan', { plan: 'Add raw SQL for reports' });
+    assert.match(all, /## Active constraints\n/);
+    assert.match(all, /- \[high\] \(architecture, data\) All queries go through the ORM/);
+    assert.match(all, /No inline styles/);
+    assert.match(all, /## Plan\nAdd raw SQL for reports$/);
+
+    const data = await render('review_plan', { plan: 'Add raw SQL for reports', layer: 'data' });
+    assert.match(data, /## Active constraints \(data layer\)/);
+    assert.match(data, /All queries go through the ORM/);
+    assert.doesNotMatch(data, /No inline styles/);
+  });
+
+  it('should render summarize_layer with the layer decisions', async () => {
+    const text = await render('summarize_layer', { layer: 'data' });
+    assert.match(text, /^Summarize the active architectural decisions for the "data" layer\./);
+    assert.match(text, /## Decisions \(2\)/);
+    assert.match(text, /- db\/engine \(v1\.0\.0, tags: .*database.*\): PostgreSQL 16/);
+    assert.match(text, /- db\/orm \(v1\.0\.0\): Knex query builder/);
+    assert.doesNotMatch(text, /ui\/theme/);
+
+    const deprecated = await render('summarize_layer', { layer: 'data', status: 'deprecated' });
+    assert.match(deprecated, /## Decisions \(0\)\n- \(no decisions\)/);
+  });
+
+  it('should render explain_decision with context and relations', async () => {
+    const text = await render('explain_decision', { key: 'db/orm' });
+    assert.match(text, /- Value: Knex query builder/);
+    assert.match(text, /- Layer: data/);
+    assert.match(text, /- Rationale: Works on SQLite, MySQL and PostgreSQL/);
+    assert.match(text, /- Alternatives: .*Prisma/);
+    assert.match(text, /## Relations\n- db\/orm depends_on db\/engine/);
+  });
+
+  it('should reject unknown prompts, missing arguments and unknown decisions', async () => {
+    await assert.rejects(() => getPrompt('deploy'), /Unknown prompt: deploy\. Available: review_plan, summarize_layer, explain_decision/);
+    await assert.rejects(() => getPrompt('review_plan', {}), /Prompt "review_plan" requires argument "plan"/);
+    await assert.rejects(() => getPrompt('explain_decision', { key: 'db/missing' }), /Decision "db\/missing" not found/);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * MCP Resource Tests
+ *
+ * Tests resource templates, listing and reading of sqlew://decision/{key}
+ * and sqlew://constraint/{id} through the local backend (v5.1.0).
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  getResourceTemplates,
+  listResources,
+  readResource,
+  decisionResourceUri,
+  constraintResourceUri,
+  RESOURCE_PAGE_SIZE,
+} from '../../../server/resource-handlers.js';
+import { initializeBackend, resetBackend } from '../../../backend/index.js';
+import { setDecision, setDecisionBatch, addDecisionContextAction } from '../../../tools/context/index.js';
+import { addConstraint, deactivateConstraint } from '../../../tools/constraints/index.js';
+import { initializeDatabase, closeDatabase } from '../../../database.js';
+import { ProjectContext } from '../../../utils/project-context.js';
+import type { ListResourcesResult } from '@modelcontextprotocol/sdk/types.js';
+
+const TEST_DB_PATH = '.sqlew/tmp/test-server-resources.db';
+
+/**
+ * Read a resource and parse its single JSON text content
+ */
+async function readJson(uri: string): Promise<any> {
+  const { contents } = await readResource(uri);
+  assert.strictEqual(contents.length, 1);
+  assert.strictEqual(contents[0].uri, uri);
+  assert.strictEqual(contents[0].mimeType, 'application/json');
+  assert.ok('text' in contents[0]);
+  return JSON.parse(contents[0].text);
+}
+
+/**
+ * Follow nextCursor through every resources/list page
+ */
+async function listAllPages(): Promise<ListResourcesResult[]> {
+  const pages = [await listResources()];
+  while (pages[pages.length - 1].nextCursor) {
+    pages.push(await listResources(pages[pages.length - 1].nextCursor));
+  }
+  return pages;
+}
+
+describe('MCP resources', () => {
+  let constraintId: number;
+  let inactiveId: number;
+
+  before(async () => {
+    fs.mkdirSync(path.dirname(TEST_DB_PATH), { recursive: true });
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+
+    const adapter = await initializeDatabase({
+      databaseType: 'sqlite',
+      connection: { filename: TEST_DB_PATH }
+    });
+
+    const projectContext = ProjectContext.getInstance();
+    await projectContext.ensureProject(adapter.getKnex(), 'test-server-resources', 'config', {
+      projectRootPath: process.cwd(),
+    });
+
+    await initializeBackend({ database: { type: 'sqlite' } });
+
+    await setDecision({ key: 'auth/method', value: 'JWT access tokens', layer: 'business' });
+    await addDecisionContextAction({ key: 'auth/method', rationale: 'Stateless API servers' });
+    constraintId = (await addConstraint({ constraint_text: 'No secrets in logs', category: 'security', priority: 'critical' })).constraint_id;
+    inactiveId = (await addConstraint({ constraint_text: 'Use tabs', category: 'code-style', priority: 'low' })).constraint_id;
+    await deactivateConstraint({ constraint_id: inactiveId });
+  });
+
+  after(async () => {
+    await closeDatabase();
+    await resetBackend();
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+  });
+
+  it('should expose decision and constraint templates', () => {
+    const templates = getResourceTemplates().resourceTemplates.map(t => t.uriTemplate);
+    assert.deepStrictEqual(templates, ['sqlew://decision/{key}', 'sqlew://constraint/{id}']);
+  });
+
+  it('should list decisions and active constraints', async () => {
+    const resources = (await listAllPages()).flatMap(page => page.resources);
+
+    const decision = resources.find(r => r.uri === 'sqlew://decision/auth/method');
+    assert.ok(decision);
+    assert.strictEqual(decision.name, 'auth/method');
+    assert.strictEqual(decision.description, '[active, business] JWT access tokens');
+
+    const constraint = resources.find(r => r.uri === constraintResourceUri(constraintId));
+    assert.ok(constraint);
+    assert.strictEqual(constraint.description, '[critical, security] No secrets in logs');
+    assert.strictEqual(resources.some(r => r.uri === constraintResourceUri(inactiveId)), false);
+  });
+
+  it('should paginate the resource list with cursors', async () => {
+    await setDecisionBatch({
+      decisions: Array.from({ length: 50 }, (_, i) => ({ key: `bulk/a-${i}`, value: 'paged' }))
+    });
+    await setDecisionBatch({
+      decisions: Array.from({ length: 50 }, (_, i) => ({ key: `bulk/b-${i}`, value: 'paged' }))
+    });
+
+    const pages = await listAllPages();
+    assert.ok(pages.length >= 2);
+    assert.ok(pages.every(page => page.resources.length <= RESOURCE_PAGE_SIZE));
+    assert.strictEqual(pages[0].resources.length, RESOURCE_PAGE_SIZE);
+
+    const uris = pages.flatMap(page => page.resources.map(r => r.uri));
+    assert.strictEqual(new Set(uris).size, uris.length, 'no resource should appear twice');
+    assert.strictEqual(uris.filter(uri => uri.startsWith('sqlew://decision/')).length, 101);
+    assert.ok(uris.includes(constraintResourceUri(constraintId)));
+    assert.strictEqual(pages[pages.length - 1].nextCursor, undefined);
+
+    await assert.rejects(() => listResources('not-a-cursor'), /Invalid resources\/list cursor/);
+  });
+
+  it('should encode each key segment in decision URIs', () => {
+    assert.strictEqual(decisionResourceUri('api/v1 users'), 'sqlew://decision/api/v1%20users');
+  });
+
+  it('should read a decision with its context', async () => {
+    const body = await readJson(decisionResourceUri('auth/method'));
+    assert.strictEqual(body.decision.value, 'JWT access tokens');
+    assert.strictEqual(body.context[0].rationale, 'Stateless API servers');
+  });
+
+  it('should read an active constraint', async () => {
+    const body = await readJson(constraintResourceUri(constraintId));
+    assert.strictEqual(body.id, constraintId);
+    assert.strictEqual(body.constraint_text, 'No secrets in logs');
+  });
+
+  it('should reject unknown URIs and missing items', async () => {
+    await assert.rejects(() => readResource('sqlew://task/1'), /Unknown resource URI: sqlew:\/\/task\/1/);
+    await assert.rejects(() => readResource('sqlew://decision/auth/missing'), /Decision "auth\/missing" not found/);
+    await assert.rejects(() => readResource('sqlew://constraint/abc'), /Invalid constraint resource URI/);
+    await assert.rejects(() => readResource(constraintResourceUri(inactiveId)), new RegExp(`Active constraint ${inactiveId} not found`));
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Project Database Unit Tests
+ *
+ * Tests how CLI commands and hooks find the project of a project root:
+ * by the name the MCP server would detect, not by project_root_path (v5.1.0).
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { openProjectDatabase, findProjectForPath } from '../../../cli/project-database.js';
+import { initializeDatabase, closeDatabase } from '../../../database.js';
+import { ProjectContext } from '../../../utils/project-context.js';
+
+describe('Project database', () => {
+  let projectRoot: string;
+
+  before(async () => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'sqlew-cli-project-'));
+    fs.mkdirSync(path.join(projectRoot, '.sqlew'));
+
+    const adapter = await initializeDatabase({
+      connection: { filename: path.join(projectRoot, '.sqlew', 'sqlew.db') },
+    });
+    const projectContext = ProjectContext.getInstance();
+    // Registered from another checkout, and a different project at this root
+    await projectContext.loadProject(adapter.getKnex(), 'cli-lookup', 'config', { projectRootPath: '/other/checkout' });
+    await projectContext.loadProject(adapter.getKnex(), 'cli-stale', 'config', { projectRootPath: projectRoot });
+    await closeDatabase();
+  });
+
+  after(async () => {
+    await closeDatabase();
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should find the project by its configured name', async () => {
+    fs.writeFileSync(path.join(projectRoot, '.sqlew', 'config.toml'), '[project]\nname = "cli-lookup"\n');
+    try {
+      const adapter = await openProjectDatabase(projectRoot);
+      assert.ok(adapter);
+      const project = await findProjectForPath(adapter.getKnex(), projectRoot);
+      assert.strictEqual(project?.name, 'cli-lookup');
+    } finally {
+      await closeDatabase();
+    }
+  });
+
+  it('should fall back to the directory name and never create projects', async () => {
+    fs.rmSync(path.join(projectRoot, '.sqlew', 'config.toml'), { force: true });
+    try {
+      const adapter = await openProjectDatabase(projectRoot);
+      assert.ok(adapter);
+      const knex = adapter.getKnex();
+      assert.strictEqual(await findProjectForPath(knex, projectRoot), null);
+
+      const name = path.basename(projectRoot);
+      assert.strictEqual(await knex('m_projects').where({ name }).first(), undefined);
+
+      await ProjectContext.getInstance().loadProject(knex, name, 'directory');
+      assert.strictEqual((await findProjectForPath(knex, projectRoot))?.name, name);
+    } finally {
+      await closeDatabase();
+    }
+  });
+});
@@ -23,6 +23,7 @@ import {
   type ConstraintScoringContext,
   type ScoredConstraint,
 } from '../../utils/constraint-scorer.js';
+import { resolveSuggestWeights, DEFAULT_SUGGEST_WEIGHTS } from '../../utils/suggest-weights.js';
 
 describe('Constraint Scorer', () => {
   // ============================================================================
@@ -485,4 +486,62 @@ describe('Constraint Scorer', () => {
       assert.strictEqual(results.length, 0);
     });
   });
+
+  // ============================================================================
+  // Weights and Scope Overlap Tests (v5.1.0)
+  // ============================================================================
+
+  describe('weights and scope overlap', () => {
+    const now = Math.floor(Date.now() / 1000);
+    const candidate: ConstraintCandidate = {
+      id: 1,
+      constraint_text: 'Invoices are rounded per line',
+      category: 'architecture',
+      tags: ['billing'],
+      layer: 'business',
+      priority: 2,
+      ts: now,
+      scopes: ['services/billing'],
+    };
+
+    it('should scale configured weights to sum to 100', () => {
+      assert.deepStrictEqual(resolveSuggestWeights(), DEFAULT_SUGGEST_WEIGHTS);
+
+      const weights = resolveSuggestWeights({ tags: 10, scope: 40, priority: -1 } as any);
+      const total = Object.values(weights).reduce((sum, w) => sum + w, 0);
+      assert.ok(Math.abs(total - 100) < 1e-9);
+      assert.strictEqual(weights.scope, 4000 / 110);
+      assert.strictEqual(weights.priority, 500 / 110); // Invalid value keeps the default
+    });
+
+    it('should omit scope overlap without context scopes', () => {
+      const result = scoreConstraint(candidate, { text: '', tags: [] });
+      assert.strictEqual(result.score_breakdown.scope_overlap, undefined);
+    });
+
+    it('should score scope overlap by the share of covered context scopes', () => {
+      const weights = resolveSuggestWeights({ scope: 20, tags: 20 });
+      const context: ConstraintScoringContext = {
+        text: '',
+        tags: [],
+        scopes: ['services/billing/invoices', 'services/orders'],
+      };
+
+      const result = scoreConstraint(candidate, context, undefined, weights);
+      assert.strictEqual(result.score_breakdown.scope_overlap, 10); // 1 of 2 scopes, 20 points max
+      assert.match(result.reason, /shared scope/);
+
+      const defaults = scoreConstraint(candidate, context);
+      assert.strictEqual(defaults.score_breakdown.scope_overlap, 0);
+    });
+
+    it('should rank by the configured weights', () => {
+      const tagged: ConstraintCandidate = { ...candidate, id: 2, scopes: [], tags: ['billing', 'money'] };
+      const context: ConstraintScoringContext = { text: '', tags: ['billing', 'money'], scopes: ['services/billing'] };
+
+      assert.strictEqual(scoreConstraints([candidate, tagged], context)[0].id, 2);
+      const scoped = scoreConstraints([candidate, tagged], context, undefined, resolveSuggestWeights({ tags: 5, scope: 40 }));
+      assert.strictEqual(scoped[0].id, 1);
+    });
+  });
 });
@@ -0,0 +1,216 @@
+/**
+ * Plan Approval Unit Tests
+ *
+ * Tests the ExitPlanMode preview stage: merging marker and TOML candidates,
+ * the preview message, and queue.approve / queue.reject (v5.1.0).
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildPlanCandidates, buildPlanPreview, processPlanPatterns } from '../../../cli/hooks/plan-processor.js';
+import { buildPreviewMessage } from '../../../cli/hooks/plan-pattern-extractor.js';
+import {
+  getPlanCachePath,
+  loadPlanCache,
+  savePlanCache,
+  saveCurrentPlan,
+  loadCurrentPlan,
+  clearCurrentPlan,
+} from '../../../config/global-config.js';
+import { readQueue, type DecisionQueueItem, type ConstraintQueueItem } from '../../../utils/hook-queue.js';
+import { closeQueueStores } from '../../../utils/queue-store/index.js';
+import { approveQueue, rejectQueue, listQueue } from '../../../tools/queue/index.js';
+import { initializeDatabase, closeDatabase } from '../../../database.js';
+import { ProjectContext } from '../../../utils/project-context.js';
+import { setDecision } from '../../../tools/context/index.js';
+import { createConstraintCategory } from '../../../tools/constraints/index.js';
+
+const PROJECT_PATH = path.resolve('.sqlew/tmp/plan-approval');
+
+const PLAN_CONTENT = `
+## 📌 Decision: db/orm
+- **Value**: Prisma ORM for all database access
+- **Layer**: data
+
+\`\`\`toml
+[[decision]]
+key = "ui/theme"
+value = "Light mode"
+
+[[constraint]]
+text = "Personal data stays in the EU region"
+category = "compliance"
+\`\`\`
+`;
+
+function stageCandidates(): void {
+  savePlanCache(PROJECT_PATH, {
+    plan_id: 'abcdef12-0000',
+    plan_file: 'my-plan.md',
+    decisions: [
+      { key: 'auth/session', value: 'JWT access tokens', layer: 'business', tags: ['plan'], duplicate_warning: 'Similar to "auth/jwt" (score 80): Use JWT' },
+      { key: 'auth/cookie', value: 'Drop cookies', tags: ['plan'] },
+    ],
+    constraints: [
+      { text: 'No tokens in localStorage', category: 'security', priority: 'high', tags: ['plan'] },
+    ],
+    updated_at: new Date().toISOString(),
+    decisions_registered: false,
+    constraints_prompted: false,
+    pending_approval: true,
+  });
+}
+
+describe('Plan approval', () => {
+  beforeEach(() => {
+    closeQueueStores();
+    fs.rmSync(PROJECT_PATH, { recursive: true, force: true });
+    fs.mkdirSync(PROJECT_PATH, { recursive: true });
+  });
+
+  afterEach(() => {
+    closeQueueStores();
+    fs.rmSync(PROJECT_PATH, { recursive: true, force: true });
+    fs.rmSync(getPlanCachePath(PROJECT_PATH), { force: true });
+    clearCurrentPlan(PROJECT_PATH);
+  });
+
+  it('should merge marker and TOML candidates with plan tags', () => {
+    const candidates = buildPlanCandidates(
+      {
+        decisions: [
+          { key: 'auth/session', value: 'Marker value', layer: 'business' },
+          { key: 'db/engine', value: 'PostgreSQL', tags: 'database, storage' },
+        ],
+        constraints: [{ category: 'security', rule: 'No secrets in logs', priority: 'critical' }],
+      },
+      { decisions: [{ key: 'auth/session', value: 'TOML value', rationale: 'Stateless', tags: ['auth'] }], constraints: [] },
+      ['plan', 'abcdef12']
+    );
+
+    assert.deepStrictEqual(candidates.decisions, [
+      { key: 'db/engine', value: 'PostgreSQL', status: 'active', layer: 'cross-cutting', tags: ['plan', 'abcdef12', 'database', 'storage'] },
+      { key: 'auth/session', value: 'TOML value', rationale: 'Stateless', tags: ['plan', 'abcdef12', 'auth'] },
+    ]);
+    assert.deepStrictEqual(candidates.constraints, [
+      { text: 'No secrets in logs', category: 'security', priority: 'critical', layer: 'cross-cutting', tags: ['plan', 'abcdef12'] },
+    ]);
+  });
+
+  it('should list candidates with indices and duplicate warnings', () => {
+    stageCandidates();
+    const cache = loadPlanCache(PROJECT_PATH)!;
+
+    const message = buildPreviewMessage(cache, 'my-plan.md');
+    assert.match(message, /awaiting approval/);
+    assert.match(message, /0\. \*\*auth\/session\*\*/);
+    assert.match(message, /⚠️ Similar to "auth\/jwt"/);
+    assert.match(message, /2\. \*\*\[security\]\*\* No tokens in localStorage/);
+
+    const listed = listQueue(PROJECT_PATH);
+    assert.strictEqual(listed.count, 0);
+    assert.strictEqual(listed.pendingApprovalCount, 3);
+    assert.strictEqual(listed.planFile, 'my-plan.md');
+    assert.strictEqual(listed.pendingApproval![0].duplicateWarning, 'Similar to "auth/jwt" (score 80): Use JWT');
+    assert.strictEqual(listed.pendingApproval![2].type, 'constraint');
+  });
+
+  it('should queue approved candidates and drop rejected ones', () => {
+    stageCandidates();
+
+    assert.match(approveQueue(PROJECT_PATH, { index: 0, patch: { category: 'x' } }).message, /Cannot patch category on a decision/);
+    assert.match(approveQueue(PROJECT_PATH, { index: 2, patch: { rationale: 'x' } }).message, /Cannot patch rationale on a constraint/);
+    assert.match(approveQueue(PROJECT_PATH, { patch: { key: 'x' } }).message, /requires "index"/);
+    assert.strictEqual(
+      approveQueue(PROJECT_PATH, { index: 0, patch: { supersedes: 'auth/old', scopes: ['api/**'] } }).message,
+      'Invalid patch: "supersedes" must be an array of strings'
+    );
+    assert.match(approveQueue(PROJECT_PATH, { index: 2, patch: { tags: 'security' } }).message, /"tags" must be an array of strings/);
+    assert.match(approveQueue(PROJECT_PATH, { index: 0, patch: { tradeoffs: { pros: ['fast'], risks: ['x'] } } }).message, /"tradeoffs" must be a string or/);
+    assert.strictEqual(loadPlanCache(PROJECT_PATH)!.decisions[0].scopes, undefined);
+    assert.strictEqual(rejectQueue(PROJECT_PATH, { index: 3 }).success, false);
+
+    const rejected = rejectQueue(PROJECT_PATH, { index: 1 });
+    assert.deepStrictEqual(rejected.rejected, [{ type: 'decision', key: 'auth/cookie' }]);
+    assert.strictEqual(rejected.remainingPending, 2);
+
+    const one = approveQueue(PROJECT_PATH, { index: 0, patch: { key: 'auth/session/jwt' } });
+    assert.deepStrictEqual(one.approved, [{ type: 'decision', key: 'auth/session/jwt' }]);
+    assert.strictEqual(one.remainingPending, 1);
+    assert.strictEqual(loadPlanCache(PROJECT_PATH)!.pending_approval, true);
+
+    const rest = approveQueue(PROJECT_PATH);
+    assert.deepStrictEqual(rest.approved, [{ type: 'constraint', text: 'No tokens in localStorage' }]);
+
+    const items = readQueue(PROJECT_PATH).items;
+    assert.deepStrictEqual((items[0] as DecisionQueueItem).data, {
+      key: 'auth/session/jwt', value: 'JWT access tokens', status: 'active', layer: 'business', tags: ['plan'],
+    });
+    assert.deepStrictEqual((items[1] as ConstraintQueueItem).data, {
+      text: 'No tokens in localStorage', category: 'security', priority: 'high', layer: 'cross-cutting',
+      tags: ['plan'], active: true, plan_id: 'abcdef12-0000',
+    });
+
+    const cache = loadPlanCache(PROJECT_PATH)!;
+    assert.strictEqual(cache.pending_approval, false);
+    assert.strictEqual(cache.decisions_registered, true);
+    assert.strictEqual(listQueue(PROJECT_PATH).pendingApproval, undefined);
+    assert.strictEqual(approveQueue(PROJECT_PATH).message, 'No plan candidates awaiting approval.');
+  });
+
+  it('should not overwrite candidates of another plan awaiting approval', async () => {
+    stageCandidates();
+    saveCurrentPlan(PROJECT_PATH, {
+      plan_id: '99999999-0000',
+      plan_file: 'next-plan.md',
+      plan_updated_at: new Date().toISOString(),
+      recorded: false,
+    });
+
+    const result = await processPlanPatterns(PROJECT_PATH);
+    assert.deepStrictEqual(result, { processed: false, skipReason: 'pending_approval' });
+    assert.strictEqual(loadPlanCache(PROJECT_PATH)!.plan_id, 'abcdef12-0000');
+    assert.strictEqual(loadPlanCache(PROJECT_PATH)!.decisions.length, 2);
+    assert.strictEqual(loadCurrentPlan(PROJECT_PATH)!.recorded, false);
+  });
+
+  it('should preview against the project database outside the repo root', async () => {
+    const projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'sqlew-plan-preview-'));
+    try {
+      fs.mkdirSync(path.join(projectRoot, '.sqlew'));
+      fs.writeFileSync(path.join(projectRoot, '.sqlew', 'config.toml'), '[project]\nname = "plan-preview"\n');
+      const adapter = await initializeDatabase({
+        connection: { filename: path.join(projectRoot, '.sqlew', 'sqlew.db') },
+      });
+      // Found by name: the project was registered from another checkout
+      const project = await ProjectContext.getInstance().loadProject(adapter.getKnex(), 'plan-preview', 'config', {
+        projectRootPath: '/other/checkout',
+      });
+      await ProjectContext.runWithProject(project, async () => {
+        await setDecision({ key: 'db/orm', value: 'Drizzle query builder', layer: 'data', tags: ['database'] });
+        await createConstraintCategory({ name: 'compliance' });
+      });
+      await closeDatabase();
+
+      const candidates = await buildPlanPreview(projectRoot, PLAN_CONTENT, ['plan']);
+      assert.deepStrictEqual(candidates.decisions.map(d => d.key), ['db/orm', 'ui/theme']);
+      assert.match(candidates.decisions[0].duplicate_warning!, /^Decision "db\/orm" already exists with a different value \(v1\.0\.0\): Drizzle/);
+      assert.strictEqual(candidates.decisions[1].duplicate_warning, undefined);
+      assert.deepStrictEqual(candidates.constraints.map(c => c.category), ['compliance']);
+
+      // No project database: candidates without warnings, nothing created
+      const emptyRoot = path.join(projectRoot, 'no-db');
+      const preview = await buildPlanPreview(emptyRoot, PLAN_CONTENT, ['plan']);
+      assert.strictEqual(preview.decisions.length, 2);
+      assert.ok(preview.decisions.every(d => d.duplicate_warning === undefined));
+      assert.deepStrictEqual(preview.constraints.map(c => c.category), ['compliance']);
+      assert.strictEqual(fs.existsSync(path.join(emptyRoot, '.sqlew')), false);
+    } finally {
+      await closeDatabase();
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    }
+  });
+});
@@ -132,6 +132,34 @@ tradeoffs = "Learning curve vs flexibility"
       assert.strictEqual(d.tradeoffs, 'Learning curve vs flexibility');
     });
 
+    it('should parse tradeoffs tables, supersedes and scopes (v5.1.0)', () => {
+      const toml = `
+[[decision]]
+key = "auth/session"
+value = "JWT access tokens"
+rationale = "Stateless API servers"
+supersedes = "auth/cookie-session"
+scopes = ["api", "auth"]
+
+[decision.tradeoffs]
+pros = ["No session store"]
+cons = ["Harder revocation"]
+
+[[decision]]
+key = "auth/refresh"
+value = "Rotating refresh tokens"
+supersedes = ["auth/long-lived-token", "auth/remember-me"]
+tradeoffs = "Complexity vs security"
+`;
+      const [session, refresh] = parseTomlBlock(toml).decisions;
+      assert.deepStrictEqual(session.tradeoffs, { pros: ['No session store'], cons: ['Harder revocation'] });
+      assert.deepStrictEqual(session.supersedes, ['auth/cookie-session']);
+      assert.deepStrictEqual(session.scopes, ['api', 'auth']);
+      assert.deepStrictEqual(refresh.supersedes, ['auth/long-lived-token', 'auth/remember-me']);
+      assert.strictEqual(refresh.tradeoffs, 'Complexity vs security');
+      assert.strictEqual(refresh.scopes, undefined);
+    });
+
     it('should parse multiple decisions', () => {
       const toml = `
 [[decision]]
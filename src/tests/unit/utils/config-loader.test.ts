@@ -174,5 +174,27 @@ rejectUnauthorized = true
       assert.strictEqual(loadedConfig.database?.auth?.type, 'direct');
       assert.strictEqual(loadedConfig.database?.auth?.user, 'postgres');
     });
+
+    it('should load [server] section for HTTP transport', () => {
+      const tomlContent = `
+[server]
+host = "0.0.0.0"
+port = 3800
+auth_token = "team-secret"
+`;
+      writeFileSync(TEST_CONFIG_PATH, tomlContent, 'utf-8');
+      const loadedConfig = loadConfigFile(TEST_DIR, 'config.toml');
+
+      assert.strictEqual(loadedConfig.server?.host, '0.0.0.0');
+      assert.strictEqual(loadedConfig.server?.port, 3800);
+      assert.strictEqual(loadedConfig.server?.auth_token, 'team-secret');
+    });
+
+    it('should reject invalid [server] port and fall back to defaults', () => {
+      writeFileSync(TEST_CONFIG_PATH, '[server]\nport = 70000\n', 'utf-8');
+      const loadedConfig = loadConfigFile(TEST_DIR, 'config.toml');
+
+      assert.strictEqual(loadedConfig.server, undefined);
+    });
   });
 });
@@ -0,0 +1,148 @@
+/**
+ * Hook Queue Decision Item Tests
+ *
+ * Tests add_context, deprecate, tag and delete decision items: enqueue
+ * helpers, plan TOML decisions, and the backend calls QueueWatcher makes
+ * for them (v5.1.0).
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  enqueueDecisionCreate,
+  enqueueDecisionContext,
+  enqueueDecisionDeprecate,
+  enqueueDecisionTag,
+  enqueueDecisionDelete,
+  enqueuePlanDecisions,
+  processQueue,
+  readQueue,
+  readFailedQueue,
+  type QueueItem,
+} from '../../../utils/hook-queue.js';
+import { closeQueueStores } from '../../../utils/queue-store/index.js';
+import { QueueWatcher } from '../../../watcher/queue-watcher.js';
+import type { ToolBackend } from '../../../backend/types.js';
+
+const PROJECT_PATH = path.resolve('.sqlew/tmp/hook-queue-decision-items');
+
+type Call = { action: string; params: Record<string, unknown> };
+
+/** Backend that records calls; add_tags and deprecate fail for unknown decisions */
+function createBackend(calls: Call[]): ToolBackend {
+  const knownKeys = ['api/auth'];
+  return {
+    backendType: 'local',
+    async execute<T>(_tool: string, action: string, params: Record<string, unknown>): Promise<T> {
+      calls.push({ action, params });
+      if ((action === 'add_tags' || action === 'deprecate') && !knownKeys.includes(params.key as string)) {
+        throw new Error(`Decision "${params.key}" not found`);
+      }
+      return { success: true } as T;
+    },
+    async healthCheck() { return true; },
+    async disconnect() {},
+  } as unknown as ToolBackend;
+}
+
+async function processWithWatcher(calls: Call[]): Promise<number> {
+  const watcher = QueueWatcher.getInstance(PROJECT_PATH, createBackend(calls));
+  const processItem = (watcher as unknown as { processItem(item: QueueItem): Promise<void> }).processItem.bind(watcher);
+  return processQueue(PROJECT_PATH, processItem);
+}
+
+describe('Hook queue decision items', () => {
+  beforeEach(() => {
+    fs.rmSync(PROJECT_PATH, { recursive: true, force: true });
+    fs.mkdirSync(PROJECT_PATH, { recursive: true });
+  });
+
+  afterEach(() => {
+    QueueWatcher.reset();
+    closeQueueStores();
+    fs.rmSync(PROJECT_PATH, { recursive: true, force: true });
+  });
+
+  it('should enqueue context and tag items after a create for the same key', () => {
+    enqueueDecisionCreate(PROJECT_PATH, { key: 'api/auth', value: 'Use JWT', status: 'active', layer: 'business', tags: [] });
+    enqueueDecisionContext(PROJECT_PATH, { key: 'api/auth', rationale: 'Stateless' });
+    enqueueDecisionTag(PROJECT_PATH, { key: 'api/auth', tags: ['jwt'] });
+    // Duplicate create is still skipped
+    enqueueDecisionCreate(PROJECT_PATH, { key: 'api/auth', value: 'Use JWT', status: 'active', layer: 'business', tags: [] });
+
+    assert.deepStrictEqual(readQueue(PROJECT_PATH).items.map(i => i.action), ['create', 'add_context', 'tag']);
+  });
+
+  it('should enqueue plan decisions with context and supersedes links', () => {
+    enqueuePlanDecisions(PROJECT_PATH, [
+      {
+        key: 'auth/session',
+        value: 'JWT access tokens',
+        layer: 'business',
+        scopes: ['api'],
+        rationale: 'Stateless API servers',
+        alternatives: ['Cookie sessions'],
+        tradeoffs: { cons: ['Harder revocation'] },
+        supersedes: ['auth/cookie-session'],
+      },
+      { key: 'auth/refresh', value: 'Rotating refresh tokens' },
+    ]);
+
+    assert.deepStrictEqual(readQueue(PROJECT_PATH).items.map(i => ({ action: i.action, data: i.data })), [
+      { action: 'create', data: {
+        key: 'auth/session', value: 'JWT access tokens', status: 'active', layer: 'business', tags: [], scopes: ['api'],
+      } },
+      { action: 'add_context', data: {
+        key: 'auth/session',
+        rationale: 'Stateless API servers',
+        alternatives_considered: ['Cookie sessions'],
+        tradeoffs: { cons: ['Harder revocation'] },
+      } },
+      { action: 'deprecate', data: { key: 'auth/cookie-session', superseded_by: 'auth/session', reason: 'Stateless API servers' } },
+      { action: 'create', data: {
+        key: 'auth/refresh', value: 'Rotating refresh tokens', status: 'active', layer: 'cross-cutting', tags: [],
+      } },
+    ]);
+  });
+
+  it('should process each kind through the backend', async () => {
+    enqueueDecisionContext(PROJECT_PATH, {
+      key: 'api/auth',
+      rationale: 'Stateless scaling',
+      alternatives_considered: ['Sessions'],
+      tradeoffs: { pros: ['No session store'], cons: ['Token revocation'] },
+    });
+    enqueueDecisionTag(PROJECT_PATH, { key: 'api/auth', tags: ['jwt', 'auth'] });
+    enqueueDecisionDeprecate(PROJECT_PATH, { key: 'api/auth' });
+    enqueueDecisionDeprecate(PROJECT_PATH, { key: 'api/auth', superseded_by: 'api/auth/oauth', reason: 'Moved to OAuth' });
+    enqueueDecisionDelete(PROJECT_PATH, 'api/auth');
+
+    const calls: Call[] = [];
+    assert.strictEqual(await processWithWatcher(calls), 5);
+
+    assert.deepStrictEqual(calls, [
+      { action: 'add_decision_context', params: {
+        key: 'api/auth',
+        rationale: 'Stateless scaling',
+        alternatives_considered: ['Sessions'],
+        tradeoffs: { pros: ['No session store'], cons: ['Token revocation'] },
+        decided_by: undefined,
+      } },
+      { action: 'add_tags', params: { key: 'api/auth', tags: ['jwt', 'auth'] } },
+      { action: 'deprecate', params: { key: 'api/auth' } },
+      { action: 'link', params: { key: 'api/auth/oauth', target_key: 'api/auth', relation_type: 'supersedes', note: 'Moved to OAuth' } },
+      { action: 'hard_delete', params: { key: 'api/auth' } },
+    ]);
+  });
+
+  it('should fail items for unknown decisions', async () => {
+    enqueueDecisionTag(PROJECT_PATH, { key: 'missing', tags: ['x'] });
+
+    assert.strictEqual(await processWithWatcher([]), 0);
+    const failed = readFailedQueue(PROJECT_PATH).items;
+    assert.strictEqual(failed.length, 1);
+    assert.match(failed[0].error, /Decision "missing" not found/);
+  });
+});
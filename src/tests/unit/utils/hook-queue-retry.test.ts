@@ -0,0 +1,125 @@
+/**
+ * Hook Queue Retry Tests
+ *
+ * Tests attempt counting and backoff for failed queue items, automatic
+ * re-enqueueing and queue.retry with edit-then-retry (v5.1.0).
+ */
+
+import { describe, it, beforeEach, after } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  enqueueDecisionCreate,
+  enqueueConstraintCreate,
+  processQueue,
+  readQueue,
+  readFailedQueue,
+  requeueDueFailedItems,
+  getNextRetryTime,
+  getRetryDelayMs,
+  MAX_AUTO_RETRY_ATTEMPTS,
+  type QueueItem,
+  type DecisionQueueItem,
+} from '../../../utils/hook-queue.js';
+import { retryQueue, listQueue } from '../../../tools/queue/index.js';
+
+const PROJECT_PATH = path.resolve('.sqlew/tmp/hook-queue-retry');
+
+function enqueueSamples(): void {
+  enqueueDecisionCreate(PROJECT_PATH, {
+    key: 'api/auth', value: 'Use JWT', status: 'active', layer: 'presentation', tags: ['auth'],
+  });
+  enqueueConstraintCreate(PROJECT_PATH, { text: 'No console.log', category: 'code-style' });
+}
+
+describe('Hook queue retry', () => {
+  beforeEach(() => {
+    fs.rmSync(PROJECT_PATH, { recursive: true, force: true });
+    fs.mkdirSync(PROJECT_PATH, { recursive: true });
+  });
+
+  after(() => {
+    fs.rmSync(PROJECT_PATH, { recursive: true, force: true });
+  });
+
+  it('should schedule backoff only for transient failures', async () => {
+    enqueueSamples();
+    const before = Date.now();
+
+    await processQueue(PROJECT_PATH, async (item: QueueItem) => {
+      throw new Error(item.type === 'decision' ? 'SQLITE_BUSY: database is locked' : 'HighSimilarity: 72% similar');
+    });
+
+    const failed = readFailedQueue(PROJECT_PATH).items;
+    assert.strictEqual(failed.length, 2);
+    assert.strictEqual(failed[0].attempts, 1);
+    assert.ok(Date.parse(failed[0].nextRetryAt!) >= before + getRetryDelayMs(1));
+    assert.strictEqual(failed[1].attempts, 1);
+    assert.strictEqual(failed[1].nextRetryAt, undefined);
+    assert.strictEqual(getNextRetryTime(PROJECT_PATH), Date.parse(failed[0].nextRetryAt!));
+
+    const listed = listQueue(PROJECT_PATH);
+    assert.strictEqual(listed.failedCount, 2);
+    assert.strictEqual(listed.failedItems![0].layer, 'presentation');
+  });
+
+  it('should re-enqueue due items and keep counting attempts', async () => {
+    enqueueDecisionCreate(PROJECT_PATH, { key: 'api/auth', value: 'Use JWT', status: 'active', layer: 'presentation', tags: [] });
+    const failing = async () => { throw new Error('connect ECONNREFUSED 127.0.0.1:3306'); };
+
+    await processQueue(PROJECT_PATH, failing);
+    assert.strictEqual(requeueDueFailedItems(PROJECT_PATH), 0);
+
+    const later = Date.now() + getRetryDelayMs(1) + 1000;
+    assert.strictEqual(requeueDueFailedItems(PROJECT_PATH, later), 1);
+    assert.strictEqual(readFailedQueue(PROJECT_PATH).items.length, 0);
+    assert.strictEqual(readQueue(PROJECT_PATH).items[0].attempts, 1);
+
+    await processQueue(PROJECT_PATH, failing);
+    assert.strictEqual(readFailedQueue(PROJECT_PATH).items[0].attempts, 2);
+    assert.strictEqual(getRetryDelayMs(2), 2 * getRetryDelayMs(1));
+
+    // Stop retrying automatically after the last attempt
+    for (let attempt = 3; attempt <= MAX_AUTO_RETRY_ATTEMPTS; attempt++) {
+      requeueDueFailedItems(PROJECT_PATH, Date.now() + 60 * 60_000);
+      await processQueue(PROJECT_PATH, failing);
+    }
+    const exhausted = readFailedQueue(PROJECT_PATH).items[0];
+    assert.strictEqual(exhausted.attempts, MAX_AUTO_RETRY_ATTEMPTS);
+    assert.strictEqual(exhausted.nextRetryAt, undefined);
+  });
+
+  it('should retry one item with a patch, or all items', async () => {
+    enqueueSamples();
+    await processQueue(PROJECT_PATH, async () => { throw new Error('HighSimilarity'); });
+
+    const rejected = retryQueue(PROJECT_PATH, { index: 0, patch: { text: 'x' } });
+    assert.strictEqual(rejected.success, false);
+    assert.match(rejected.message, /Cannot patch text on a decision item/);
+    assert.strictEqual(retryQueue(PROJECT_PATH, { index: 5 }).success, false);
+
+    const mistyped = retryQueue(PROJECT_PATH, { index: 0, patch: { tags: 'auth', alternatives_considered: 'Sessions' } });
+    assert.strictEqual(mistyped.success, false);
+    assert.strictEqual(
+      mistyped.message,
+      'Invalid patch: "tags" must be an array of strings; "alternatives_considered" must be an array of strings'
+    );
+    assert.strictEqual(retryQueue(PROJECT_PATH, { index: 0, patch: { tradeoffs: { pros: 'fast' } } }).success, false);
+    assert.deepStrictEqual(readFailedQueue(PROJECT_PATH).items[0].item.data.tags, ['auth']);
+
+    const one = retryQueue(PROJECT_PATH, { index: 0, patch: { key: 'api/auth/jwt-strategy', layer: 'business' } });
+    assert.strictEqual(one.success, true);
+    assert.deepStrictEqual(one.retried, [{ type: 'decision', action: 'create', key: 'api/auth/jwt-strategy', attempts: 1 }]);
+    assert.strictEqual(one.remainingFailed, 1);
+
+    const pending = readQueue(PROJECT_PATH).items[0] as DecisionQueueItem;
+    assert.strictEqual(pending.data.key, 'api/auth/jwt-strategy');
+    assert.strictEqual(pending.data.layer, 'business');
+
+    const all = retryQueue(PROJECT_PATH);
+    assert.strictEqual(all.retried.length, 1);
+    assert.strictEqual(all.remainingFailed, 0);
+    assert.strictEqual(readQueue(PROJECT_PATH).items.length, 2);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * ProjectContext Tests
+ * Tests session-scoped projects used by the HTTP transport (v5.1.0)
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { initializeDatabase, closeDatabase } from '../../../database.js';
+import { ProjectContext } from '../../../utils/project-context.js';
+import type { Knex } from 'knex';
+
+const TEST_DB_PATH = '.sqlew/tmp/test-project-context.db';
+
+describe('ProjectContext session scope', () => {
+  let knex: Knex;
+
+  before(async () => {
+    fs.mkdirSync(path.dirname(TEST_DB_PATH), { recursive: true });
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+
+    const adapter = await initializeDatabase({
+      databaseType: 'sqlite',
+      connection: { filename: TEST_DB_PATH }
+    });
+    knex = adapter.getKnex();
+
+    ProjectContext.reset();
+    await ProjectContext.getInstance().ensureProject(knex, 'server-project', 'config');
+  });
+
+  after(async () => {
+    ProjectContext.reset();
+    await closeDatabase();
+    if (fs.existsSync(TEST_DB_PATH)) {
+      fs.unlinkSync(TEST_DB_PATH);
+    }
+  });
+
+  it('should load a project without replacing the server-wide project', async () => {
+    const context = ProjectContext.getInstance();
+    const other = await context.loadProject(knex, 'session-project', 'cli');
+
+    assert.equal(other.name, 'session-project');
+    assert.notEqual(other.id, context.getProjectId());
+    assert.equal(context.getProjectName(), 'server-project');
+
+    const again = await context.loadProject(knex, 'session-project', 'cli');
+    assert.equal(again.id, other.id);
+  });
+
+  it('should scope getProjectId() to runWithProject across awaits', async () => {
+    const context = ProjectContext.getInstance();
+    const serverId = context.getProjectId();
+    const other = await context.loadProject(knex, 'session-project', 'cli');
+
+    const scopedId = await ProjectContext.runWithProject(other, async () => {
+      await new Promise(resolve => setImmediate(resolve));
+      return context.getProjectId();
+    });
+
+    assert.equal(scopedId, other.id);
+    assert.equal(context.getProjectId(), serverId);
+  });
+
+  it('should validate project names on load', async () => {
+    await assert.rejects(
+      () => ProjectContext.getInstance().loadProject(knex, 'bad name!', 'cli'),
+      /Invalid project name/
+    );
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Queue Store Tests
+ *
+ * Runs the same contract against the spool and SQLite queue stores: ordering,
+ * atomic claims across store instances, ack/release, abandoned claims, and
+ * processQueue / legacy pending.json import through the store factory (v5.1.0).
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import {
+  SpoolQueueStore,
+  SqliteQueueStore,
+  getQueueStore,
+  closeQueueStores,
+  CLAIM_TIMEOUT_MS,
+  type QueueStore,
+  type QueueStoreKind,
+} from '../../../utils/queue-store/index.js';
+import {
+  enqueueDecisionCreate,
+  processQueue,
+  readQueue,
+  readFailedQueue,
+  type DecisionQueueItem,
+} from '../../../utils/hook-queue.js';
+
+const PROJECT_PATH = path.resolve('.sqlew/tmp/queue-store');
+const QUEUE_DIR = path.join(PROJECT_PATH, '.sqlew/queue');
+
+function decision(key: string): DecisionQueueItem {
+  return {
+    type: 'decision',
+    action: 'create',
+    timestamp: new Date().toISOString(),
+    data: { key, value: `Value of ${key}`, status: 'active', layer: 'business', tags: [] },
+  };
+}
+
+function keys(items: Array<{ data: unknown }>): string[] {
+  return items.map(item => (item.data as { key: string }).key);
+}
+
+function openStore(kind: QueueStoreKind): QueueStore {
+  return kind === 'sqlite' ? new SqliteQueueStore(QUEUE_DIR) : new SpoolQueueStore(QUEUE_DIR);
+}
+
+/** Make the store's current claims look older than CLAIM_TIMEOUT_MS */
+function ageClaims(kind: QueueStoreKind): void {
+  const past = Date.now() - CLAIM_TIMEOUT_MS - 1000;
+  if (kind === 'sqlite') {
+    const db = new Database(path.join(QUEUE_DIR, 'queue.db'));
+    db.prepare('UPDATE queue_items SET claimed_at = ? WHERE claimed_at IS NOT NULL').run(past);
+    db.close();
+    return;
+  }
+  // Spool claims carry their claim time in the file name ("<claim ms>@<item name>")
+  const claimedDir = path.join(QUEUE_DIR, 'spool/claimed');
+  for (const name of fs.readdirSync(claimedDir)) {
+    fs.renameSync(path.join(claimedDir, name), path.join(claimedDir, name.replace(/^\d+@/, `${past}@`)));
+  }
+}
+
+for (const kind of ['spool', 'sqlite'] as const) {
+  describe(`Queue store: ${kind}`, () => {
+    const opened: QueueStore[] = [];
+    const open = () => {
+      const store = openStore(kind);
+      opened.push(store);
+      return store;
+    };
+
+    beforeEach(() => {
+      fs.rmSync(PROJECT_PATH, { recursive: true, force: true });
+      fs.mkdirSync(QUEUE_DIR, { recursive: true });
+    });
+
+    afterEach(() => {
+      opened.splice(0).forEach(store => store.close());
+    });
+
+    it('should list items in enqueue order and remove or clear them', () => {
+      const store = open();
+      ['a', 'b', 'c'].forEach(key => store.enqueue(decision(key)));
+
+      assert.deepStrictEqual(keys(store.list()), ['a', 'b', 'c']);
+      assert.deepStrictEqual(keys([store.removeAt(1)!]), ['b']);
+      assert.strictEqual(store.removeAt(5), null);
+      assert.strictEqual(store.clear(), 2);
+      assert.deepStrictEqual(store.list(), []);
+    });
+
+    it('should hand each item to one claimer only', () => {
+      const first = open();
+      const second = open();
+      ['a', 'b', 'c'].forEach(key => first.enqueue(decision(key)));
+
+      const claimedByFirst = first.claim(2);
+      const claimedBySecond = second.claim();
+      assert.deepStrictEqual(keys(claimedByFirst.map(c => c.item)), ['a', 'b']);
+      assert.deepStrictEqual(keys(claimedBySecond.map(c => c.item)), ['c']);
+      assert.deepStrictEqual(first.claim(), []);
+      assert.deepStrictEqual(first.list(), []);
+
+      first.ack(claimedByFirst[0].id);
+      first.release(claimedByFirst[1].id);
+      assert.deepStrictEqual(keys(second.list()), ['b']);
+    });
+
+    it('should reclaim abandoned claims', () => {
+      const store = open();
+      store.enqueue(decision('a'));
+      assert.strictEqual(store.claim().length, 1);
+
+      ageClaims(kind);
+      const reclaimed = open().claim();
+      assert.deepStrictEqual(keys(reclaimed.map(c => c.item)), ['a']);
+    });
+
+    if (kind === 'spool') {
+      it('should take the claim time from the claim itself, not the file times', () => {
+        const store = open();
+        store.enqueue(decision('a'));
+        const [claimed] = store.claim();
+        assert.match(claimed.id, /^\d+@/);
+
+        // An old mtime (e.g. a copied item) does not make a fresh claim abandoned
+        const past = new Date(Date.now() - CLAIM_TIMEOUT_MS - 1000);
+        fs.utimesSync(path.join(QUEUE_DIR, 'spool/claimed', claimed.id), past, past);
+        assert.deepStrictEqual(open().claim(), []);
+
+        store.release(claimed.id);
+        assert.deepStrictEqual(keys(store.list()), ['a']);
+        assert.deepStrictEqual(fs.readdirSync(path.join(QUEUE_DIR, 'spool/claimed')), []);
+      });
+    }
+
+    it('should signal QueueWatcher only for new items', () => {
+      const store = open();
+      store.enqueue(decision('a'));
+      const signal = kind === 'sqlite'
+        ? path.join(QUEUE_DIR, 'queue.signal')
+        : path.join(QUEUE_DIR, 'spool', fs.readdirSync(path.join(QUEUE_DIR, 'spool')).find(n => n.endsWith('.json'))!);
+
+      assert.strictEqual(store.isChangeSignal(signal), true);
+      assert.strictEqual(store.isChangeSignal(path.join(QUEUE_DIR, 'failed.json')), false);
+      assert.strictEqual(store.isChangeSignal(path.join(QUEUE_DIR, 'spool/claimed/x.json')), false);
+    });
+  });
+}
+
+describe('Queue store factory', () => {
+  beforeEach(() => {
+    closeQueueStores();
+    fs.rmSync(PROJECT_PATH, { recursive: true, force: true });
+    fs.mkdirSync(QUEUE_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    closeQueueStores();
+    fs.rmSync(PROJECT_PATH, { recursive: true, force: true });
+  });
+
+  it('should use the store from config.toml and import a legacy pending.json', () => {
+    fs.writeFileSync(path.join(PROJECT_PATH, '.sqlew/config.toml'), '[queue]\nstore = "sqlite"\n');
+    fs.writeFileSync(path.join(QUEUE_DIR, 'pending.json'), JSON.stringify({ items: [decision('legacy')] }));
+
+    const store = getQueueStore(PROJECT_PATH);
+    assert.strictEqual(store.kind, 'sqlite');
+    assert.ok(!fs.existsSync(path.join(QUEUE_DIR, 'pending.json')));
+    assert.deepStrictEqual(keys(readQueue(PROJECT_PATH).items), ['legacy']);
+  });
+
+  it('should ack processed items and move failed ones to failed.json', async () => {
+    enqueueDecisionCreate(PROJECT_PATH, { key: 'ok', value: 'v', status: 'active', layer: 'business', tags: [] });
+    enqueueDecisionCreate(PROJECT_PATH, { key: 'bad', value: 'v', status: 'active', layer: 'business', tags: [] });
+    assert.strictEqual(getQueueStore(PROJECT_PATH).kind, 'spool');
+
+    const processed = await processQueue(PROJECT_PATH, async (item) => {
+      if ((item as DecisionQueueItem).data.key === 'bad') throw new Error('HighSimilarity');
+    });
+
+    assert.strictEqual(processed, 1);
+    assert.deepStrictEqual(readQueue(PROJECT_PATH).items, []);
+    assert.deepStrictEqual(keys(readFailedQueue(PROJECT_PATH).items.map(f => f.item)), ['bad']);
+    assert.deepStrictEqual(fs.readdirSync(path.join(QUEUE_DIR, 'spool/claimed')), []);
+  });
+
+  it('should claim one item at a time while processing', async () => {
+    for (const key of ['a', 'b', 'c']) {
+      enqueueDecisionCreate(PROJECT_PATH, { key, value: 'v', status: 'active', layer: 'business', tags: [] });
+    }
+
+    const stillPending: string[][] = [];
+    const processed = await processQueue(PROJECT_PATH, async () => {
+      stillPending.push(keys(readQueue(PROJECT_PATH).items));
+    });
+
+    assert.strictEqual(processed, 3);
+    assert.deepStrictEqual(stillPending, [['b', 'c'], ['c'], []]);
+  });
+});
@@ -12,6 +12,7 @@ import { getAdapter } from '../../../database.js';
 import { getProjectContext } from '../../../utils/project-context.js';
 import { normalizeParams, CONSTRAINT_ALIASES } from '../../../utils/param-normalizer.js';
 import connectionManager from '../../../utils/connection-manager.js';
+import { recordChangeEvent } from '../../../utils/change-feed.js';
 import { SQLITE_TRUE } from '../../../constants.js';
 
 /**
@@ -67,10 +68,16 @@ export async function activateConstraintsByTag(
       }
 
       // Activate all matching constraints
-      await knex('t_constraints')
-        .whereIn('id', constraintIds)
-        .where('project_id', projectId)
-        .update({ active: SQLITE_TRUE });
+      await knex.transaction(async (trx) => {
+        await trx('t_constraints')
+          .whereIn('id', constraintIds)
+          .where('project_id', projectId)
+          .update({ active: SQLITE_TRUE });
+
+        for (const constraintId of constraintIds) {
+          await recordChangeEvent(trx, projectId, { type: 'constraint_activated', constraint_id: constraintId });
+        }
+      });
 
       return {
         success: true,
@@ -123,10 +130,14 @@ export async function activateConstraint(
       }
 
       // Activate the constraint
-      await knex('t_constraints')
-        .where('id', normalizedParams.constraint_id)
-        .where('project_id', projectId)
-        .update({ active: SQLITE_TRUE });
+      await knex.transaction(async (trx) => {
+        await trx('t_constraints')
+          .where('id', normalizedParams.constraint_id)
+          .where('project_id', projectId)
+          .update({ active: SQLITE_TRUE });
+
+        await recordChangeEvent(trx, projectId, { type: 'constraint_activated', constraint_id: constraint.id });
+      });
 
       return {
         success: true,
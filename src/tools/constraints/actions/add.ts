@@ -1,14 +1,13 @@
 /**
  * Add a constraint with priority, layer, and tags
- * Auto-registers category and agent if they don't exist
+ * Category must be one of the project's active categories (v5.1.0)
  */
 
 import { DatabaseAdapter } from '../../../adapters/index.js';
 import {
   getAdapter,
   getLayerId,
-  getOrCreateTag,
-  getOrCreateCategoryId
+  getOrCreateTag
 } from '../../../database.js';
 import {
   STRING_TO_PRIORITY,
@@ -16,12 +15,17 @@ import {
   SQLITE_TRUE,
   STANDARD_LAYERS
 } from '../../../constants.js';
-import { validateCategory, validatePriority } from '../../../utils/validators.js';
+import { validatePriority } from '../../../utils/validators.js';
 import { validateActionParams } from '../../../utils/parameter-validator.js';
 import { normalizeParams, CONSTRAINT_ALIASES } from '../../../utils/param-normalizer.js';
 import { parseStringArray } from '../../../utils/param-parser.js';
 import { getProjectContext } from '../../../utils/project-context.js';
 import connectionManager from '../../../utils/connection-manager.js';
+import { recordChangeEvent } from '../../../utils/change-feed.js';
+import { getActiveCategoryId } from '../../../utils/constraint-categories.js';
+import { parseConstraintRules, serializeConstraintRules } from '../../../utils/constraint-rules.js';
+import { parseConstraintDate } from '../internal/validation.js';
+import { parseScopeList, setConstraintScopes } from '../internal/scopes.js';
 import type {
   AddConstraintParams,
   AddConstraintResponse
@@ -51,9 +55,6 @@ export async function addConstraint(
       // Validate parameters
       validateActionParams('constraint', 'add', normalizedParams);
 
-      // Validate category
-      validateCategory(normalizedParams.category);
-
       // Validate priority if provided
       const priorityStr = normalizedParams.priority || 'medium';
       validatePriority(priorityStr);
@@ -71,10 +72,27 @@ export async function addConstraint(
         }
       }
 
+      // Validate machine-checkable rules if provided (v5.1.0)
+      const rules = parseConstraintRules(normalizedParams.rules);
+
+      // Expiry and review dates (v5.1.0)
+      const expiresAt = normalizedParams.expires_at !== undefined
+        ? parseConstraintDate(normalizedParams.expires_at, 'expires_at')
+        : null;
+      if (expiresAt !== null && expiresAt <= Math.floor(Date.now() / 1000)) {
+        throw new Error('Parameter "expires_at" must be in the future');
+      }
+      const reviewBy = normalizedParams.review_by !== undefined
+        ? parseConstraintDate(normalizedParams.review_by, 'review_by')
+        : null;
+
+      // Scopes (v5.1.0): none means the constraint applies everywhere
+      const scopes = parseScopeList(parseStringArray(normalizedParams.scopes));
+
       // Use transaction for multi-table insert
       const result = await actualAdapter.transaction(async (trx) => {
-        // Get or create category
-        const categoryId = await getOrCreateCategoryId(actualAdapter, normalizedParams.category, trx);
+        // Validate category against the project's active categories (v5.1.0)
+        const categoryId = await getActiveCategoryId(trx, projectId, normalizedParams.category);
 
         // Duplicate check: skip if same text + category already exists
         const existing = await trx('t_constraints')
@@ -103,7 +121,10 @@ export async function addConstraint(
           priority: priority,
           active: activeValue,
           ts: ts,
-          project_id: projectId
+          project_id: projectId,
+          rules: serializeConstraintRules(rules),
+          expires_at: expiresAt,
+          review_by: reviewBy
         });
 
         // Insert m_tags if provided
@@ -119,6 +140,17 @@ export async function addConstraint(
           }
         }
 
+        if (scopes.length > 0) {
+          await setConstraintScopes(actualAdapter, trx, projectId, Number(constraintId), scopes);
+        }
+
+        // Changefeed (v5.1.0)
+        await recordChangeEvent(trx, projectId, {
+          type: 'constraint_added',
+          constraint_id: Number(constraintId),
+          details: { category: normalizedParams.category, priority: priorityStr, active: activeValue !== 0, has_rules: rules !== null }
+        });
+
         return { constraintId: Number(constraintId), alreadyExists: false };
       });
 
@@ -0,0 +1,269 @@
+/**
+ * Manage a project's constraint categories
+ *
+ * - listConstraintCategories: Categories with constraint counts
+ * - createConstraintCategory: New category (or reactivate a retired one)
+ * - renameConstraintCategory: Rename in place, constraints follow
+ * - retireConstraintCategory: Block new constraints, keep existing ones
+ *
+ * @since v5.1.0
+ */
+
+import { DatabaseAdapter } from '../../../adapters/index.js';
+import { getAdapter } from '../../../database.js';
+import { getProjectContext } from '../../../utils/project-context.js';
+import connectionManager from '../../../utils/connection-manager.js';
+import { checkNormalizedDuplicate } from '../../../utils/case-insensitive-validator.js';
+import {
+  listConstraintCategories as listCategoryRows,
+  findConstraintCategory
+} from '../../../utils/constraint-categories.js';
+import { validateActionParams, validateCategoryName } from '../internal/validation.js';
+import type { Knex } from 'knex';
+import type {
+  ListConstraintCategoriesParams,
+  ListConstraintCategoriesResponse,
+  CreateConstraintCategoryParams,
+  RenameConstraintCategoryParams,
+  RetireConstraintCategoryParams,
+  ConstraintCategoryResponse,
+  ConstraintCategoryInfo
+} from '../types.js';
+
+/**
+ * Count constraints per category ID
+ */
+async function countConstraints(
+  knex: Knex | Knex.Transaction,
+  projectId: number
+): Promise<Map<number, number>> {
+  const rows = await knex('t_constraints')
+    .where({ project_id: projectId })
+    .groupBy('category_id')
+    .select('category_id', knex.raw('COUNT(*) as count')) as Array<{ category_id: number; count: number | string }>;
+  return new Map(rows.map(row => [row.category_id, Number(row.count)]));
+}
+
+/**
+ * Load a category with its constraint count
+ * @throws Error if the category does not exist in the project
+ */
+async function loadCategory(
+  knex: Knex | Knex.Transaction,
+  projectId: number,
+  name: string
+): Promise<ConstraintCategoryInfo & { id: number }> {
+  const category = await findConstraintCategory(knex, projectId, name);
+  if (!category) {
+    throw new Error(`Category not found: ${name}`);
+  }
+  const counts = await countConstraints(knex, projectId);
+  return { ...category, constraint_count: counts.get(category.id) ?? 0 };
+}
+
+/**
+ * Strip the internal ID of a category
+ */
+function toInfo(category: ConstraintCategoryInfo & { id: number }): ConstraintCategoryInfo {
+  return { name: category.name, active: category.active, constraint_count: category.constraint_count };
+}
+
+/**
+ * Reject a name that already exists, exactly or as a case/naming variant
+ *
+ * @param exceptId - Category being renamed (may match its own variant)
+ */
+async function validateNewCategoryName(
+  knex: Knex | Knex.Transaction,
+  projectId: number,
+  name: string,
+  exceptId?: number
+): Promise<void> {
+  const existing = await findConstraintCategory(knex, projectId, name);
+  if (existing && existing.id !== exceptId) {
+    throw new Error(`Category "${name}" already exists${existing.active ? '' : ' (retired)'}`);
+  }
+
+  const variant = await checkNormalizedDuplicate(
+    knex, 'm_constraint_categories', 'name', name, { project_id: projectId }
+  );
+  if (variant.isDuplicate && variant.existingId !== exceptId) {
+    throw new Error(`Category "${variant.existingValue}" already exists (naming conflict with "${name}")`);
+  }
+}
+
+/**
+ * List the project's constraint categories
+ *
+ * @param params - include_retired to also list retired categories
+ * @param adapter - Optional database adapter (for testing)
+ * @returns Categories sorted by name with constraint counts
+ */
+export async function listConstraintCategories(
+  params: ListConstraintCategoriesParams = {},
+  adapter?: DatabaseAdapter
+): Promise<ListConstraintCategoriesResponse> {
+  const actualAdapter = adapter ?? getAdapter();
+  const knex = actualAdapter.getKnex();
+
+  try {
+    return await connectionManager.executeWithRetry(async () => {
+      const projectId = getProjectContext().getProjectId();
+
+      validateActionParams('constraint', 'list_categories', params);
+
+      const rows = await listCategoryRows(knex, projectId, { includeRetired: params.include_retired === true });
+      const counts = await countConstraints(knex, projectId);
+      const categories = rows.map(row => ({
+        name: row.name,
+        active: row.active,
+        constraint_count: counts.get(row.id) ?? 0
+      }));
+
+      return { categories, count: categories.length };
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to list categories: ${message}`);
+  }
+}
+
+/**
+ * Create a constraint category
+ * Creating a retired category reactivates it; an active one is left as is.
+ *
+ * @param params - Category name
+ * @param adapter - Optional database adapter (for testing)
+ * @returns The category and what happened to it
+ */
+export async function createConstraintCategory(
+  params: CreateConstraintCategoryParams,
+  adapter?: DatabaseAdapter
+): Promise<ConstraintCategoryResponse> {
+  const actualAdapter = adapter ?? getAdapter();
+
+  try {
+    return await connectionManager.executeWithRetry(async () => {
+      const projectId = getProjectContext().getProjectId();
+
+      validateActionParams('constraint', 'create_category', params);
+      validateCategoryName(params.name);
+
+      return await actualAdapter.transaction(async (trx) => {
+        const existing = await findConstraintCategory(trx, projectId, params.name);
+
+        if (existing?.active) {
+          const category = await loadCategory(trx, projectId, params.name);
+          return { success: true, category: toInfo(category), message: 'Category already exists' };
+        }
+
+        if (existing) {
+          await trx('m_constraint_categories').where({ id: existing.id }).update({ active: 1 });
+          const category = await loadCategory(trx, projectId, params.name);
+          return { success: true, category: toInfo(category), message: 'Category reactivated' };
+        }
+
+        await validateNewCategoryName(trx, projectId, params.name);
+        await trx('m_constraint_categories').insert({ project_id: projectId, name: params.name, active: 1 });
+
+        return {
+          success: true,
+          category: { name: params.name, active: true, constraint_count: 0 },
+          message: 'Category created'
+        };
+      });
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to create category: ${message}`);
+  }
+}
+
+/**
+ * Rename a constraint category
+ * Constraints reference the category by ID, so they carry the new name.
+ *
+ * @param params - Current name and new_name
+ * @param adapter - Optional database adapter (for testing)
+ * @returns The renamed category
+ */
+export async function renameConstraintCategory(
+  params: RenameConstraintCategoryParams,
+  adapter?: DatabaseAdapter
+): Promise<ConstraintCategoryResponse> {
+  const actualAdapter = adapter ?? getAdapter();
+
+  try {
+    return await connectionManager.executeWithRetry(async () => {
+      const projectId = getProjectContext().getProjectId();
+
+      validateActionParams('constraint', 'rename_category', params);
+      validateCategoryName(params.new_name, 'new_name');
+
+      return await actualAdapter.transaction(async (trx) => {
+        const category = await loadCategory(trx, projectId, params.name);
+        if (params.new_name === params.name) {
+          return { success: true, category: toInfo(category), message: 'Category name unchanged' };
+        }
+
+        await validateNewCategoryName(trx, projectId, params.new_name, category.id);
+        await trx('m_constraint_categories').where({ id: category.id }).update({ name: params.new_name });
+
+        return {
+          success: true,
+          category: { ...toInfo(category), name: params.new_name },
+          message: `Category renamed from "${params.name}" to "${params.new_name}"`
+        };
+      });
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to rename category: ${message}`);
+  }
+}
+
+/**
+ * Retire a constraint category
+ * Existing constraints keep it; constraint.add no longer accepts it.
+ *
+ * @param params - Category name
+ * @param adapter - Optional database adapter (for testing)
+ * @returns The retired category
+ */
+export async function retireConstraintCategory(
+  params: RetireConstraintCategoryParams,
+  adapter?: DatabaseAdapter
+): Promise<ConstraintCategoryResponse> {
+  const actualAdapter = adapter ?? getAdapter();
+
+  try {
+    return await connectionManager.executeWithRetry(async () => {
+      const projectId = getProjectContext().getProjectId();
+
+      validateActionParams('constraint', 'retire_category', params);
+
+      return await actualAdapter.transaction(async (trx) => {
+        const category = await loadCategory(trx, projectId, params.name);
+        if (!category.active) {
+          return { success: true, category: toInfo(category), message: 'Category already retired' };
+        }
+
+        const active = await listCategoryRows(trx, projectId);
+        if (active.length === 1) {
+          throw new Error(`Cannot retire "${params.name}": it is the last active category`);
+        }
+
+        await trx('m_constraint_categories').where({ id: category.id }).update({ active: 0 });
+
+        return {
+          success: true,
+          category: { ...toInfo(category), active: false },
+          message: 'Category retired'
+        };
+      });
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to retire category: ${message}`);
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Check the working tree against constraint rules
+ * Only constraints with machine-checkable rules take part
+ *
+ * @since v5.1.0
+ */
+
+import { DatabaseAdapter } from '../../../adapters/index.js';
+import { getAdapter } from '../../../database.js';
+import { validateActionParams } from '../../../utils/parameter-validator.js';
+import { parseStringArray } from '../../../utils/param-parser.js';
+import { getProjectContext } from '../../../utils/project-context.js';
+import { determineProjectRoot } from '../../../utils/project-root.js';
+import connectionManager from '../../../utils/connection-manager.js';
+import { loadCheckableConstraints, checkConstraintRules } from '../../../utils/constraint-rules.js';
+import type {
+  CheckConstraintsParams,
+  CheckConstraintsResponse
+} from '../types.js';
+
+/** Violations returned when no limit is given */
+const DEFAULT_VIOLATION_LIMIT = 100;
+
+/**
+ * Check the project's working tree against constraint rules
+ *
+ * Scans files under the project root, skipping .gitignore'd files, and
+ * reports violations ordered by file and line.
+ *
+ * @param params - Optional constraint_ids, paths and limit
+ * @param adapter - Optional database adapter (for testing)
+ * @returns Whether the check passed, and the violations found
+ */
+export async function checkConstraints(
+  params: CheckConstraintsParams = {},
+  adapter?: DatabaseAdapter
+): Promise<CheckConstraintsResponse> {
+  const actualAdapter = adapter ?? getAdapter();
+  const knex = actualAdapter.getKnex();
+
+  try {
+    return await connectionManager.executeWithRetry(async () => {
+      // Fail-fast project_id validation (Constraint #29)
+      const projectContext = getProjectContext();
+      const projectId = projectContext.getProjectId();
+
+      // Validate parameters
+      validateActionParams('constraint', 'check', params);
+
+      const constraintIds = params.constraint_ids !== undefined
+        ? parseStringArray(params.constraint_ids as any).map(Number)
+        : undefined;
+      if (constraintIds?.some(id => !Number.isInteger(id) || id <= 0)) {
+        throw new Error('Parameter "constraint_ids" must be an array of constraint IDs');
+      }
+      const limit = params.limit ?? DEFAULT_VIOLATION_LIMIT;
+      if (!Number.isInteger(limit) || limit < 1) {
+        throw new Error('Parameter "limit" must be a positive integer');
+      }
+
+      const constraints = await loadCheckableConstraints(knex, projectId, constraintIds);
+      const projectRoot = projectContext.getProjectMetadata().project_root_path || determineProjectRoot();
+      const paths = params.paths !== undefined ? parseStringArray(params.paths) : undefined;
+
+      const result = checkConstraintRules(projectRoot, constraints, { paths });
+
+      return {
+        passed: result.violations.length === 0,
+        constraints_checked: constraints.length,
+        files_scanned: result.files_scanned,
+        violations: result.violations.slice(0, limit),
+        count: result.violations.length,
+        ...(result.violations.length > limit ? { truncated: true } : {})
+      };
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to check constraints: ${message}`);
+  }
+}
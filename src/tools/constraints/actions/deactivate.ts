@@ -9,6 +9,7 @@ import { validateActionParams } from '../../../utils/parameter-validator.js';
 import { normalizeParams, CONSTRAINT_ALIASES } from '../../../utils/param-normalizer.js';
 import { getProjectContext } from '../../../utils/project-context.js';
 import connectionManager from '../../../utils/connection-manager.js';
+import { recordChangeEvent } from '../../../utils/change-feed.js';
 import { SQLITE_FALSE } from '../../../constants.js';
 import type {
   DeactivateConstraintParams,
@@ -56,6 +57,14 @@ export async function deactivateConstraint(
         .where({ id: normalizedParams.constraint_id, project_id: projectId })
         .update({ active: SQLITE_FALSE });
 
+      // Changefeed (v5.1.0): only an actual transition is an event
+      if (constraint.active) {
+        await recordChangeEvent(knex, projectId, {
+          type: 'constraint_deactivated',
+          constraint_id: constraint.id
+        });
+      }
+
       return {
         success: true,
       };
@@ -0,0 +1,111 @@
+/**
+ * List constraints due for review
+ * Constraints whose review_by (or expires_at) has passed or falls within a window
+ *
+ * @since v5.1.0
+ */
+
+import { DatabaseAdapter } from '../../../adapters/index.js';
+import { getAdapter } from '../../../database.js';
+import { PRIORITY_TO_STRING } from '../../../constants.js';
+import { getProjectContext } from '../../../utils/project-context.js';
+import connectionManager from '../../../utils/connection-manager.js';
+import { UniversalKnex } from '../../../utils/universal-knex.js';
+import { validateActionParams, parseConstraintDate } from '../internal/validation.js';
+import type {
+  DueForReviewParams,
+  DueForReviewResponse,
+  ConstraintReviewItem,
+  Priority
+} from '../types.js';
+
+/**
+ * List constraints due for review, earliest date first
+ *
+ * A constraint is due when its review_by has passed, or when it is still
+ * active and its expires_at has passed. `within` widens both to upcoming dates.
+ *
+ * @param params - Optional within, include_inactive and limit
+ * @param adapter - Optional database adapter (for testing)
+ * @returns Constraints with the reason they are due
+ */
+export async function getConstraintsDueForReview(
+  params: DueForReviewParams = {},
+  adapter?: DatabaseAdapter
+): Promise<DueForReviewResponse> {
+  const actualAdapter = adapter ?? getAdapter();
+  const knex = actualAdapter.getKnex();
+
+  try {
+    return await connectionManager.executeWithRetry(async () => {
+      // Fail-fast project_id validation (Constraint #29)
+      const projectId = getProjectContext().getProjectId();
+
+      // Validate parameters
+      validateActionParams('constraint', 'due_for_review', params);
+
+      const now = Math.floor(Date.now() / 1000);
+      const horizon = params.within !== undefined ? parseConstraintDate(params.within, 'within')! : now;
+      const db = new UniversalKnex(knex);
+
+      const query = knex('t_constraints as c')
+        .join('m_constraint_categories as cat', 'c.category_id', 'cat.id')
+        .leftJoin('m_layers as l', 'c.layer_id', 'l.id')
+        .where('c.project_id', projectId)
+        .where(function () {
+          this.where('c.review_by', '<=', horizon)
+            .orWhere(function () {
+              this.where('c.expires_at', '<=', horizon).where('c.active', db.boolTrue());
+            });
+        })
+        .select(
+          'c.id',
+          'cat.name as category',
+          'l.name as layer',
+          'c.constraint_text',
+          'c.priority',
+          'c.active',
+          'c.review_by',
+          'c.expires_at'
+        );
+
+      if (!params.include_inactive) {
+        query.where('c.active', db.boolTrue());
+      }
+
+      const rows = await query as Array<{
+        id: number; category: string; layer: string | null; constraint_text: string;
+        priority: Priority; active: number | boolean; review_by: number | null; expires_at: number | null;
+      }>;
+
+      const toIso = (ts: number | null) => ts ? new Date(ts * 1000).toISOString() : null;
+      const items = rows.map(row => {
+        const reviewDue = row.review_by !== null && row.review_by <= horizon;
+        const dueAt = reviewDue ? row.review_by! : row.expires_at!;
+        return {
+          item: {
+            id: row.id,
+            category: row.category,
+            layer: row.layer,
+            constraint_text: row.constraint_text,
+            priority: PRIORITY_TO_STRING[row.priority] as ConstraintReviewItem['priority'],
+            active: Boolean(row.active),
+            review_by: toIso(row.review_by),
+            expires_at: toIso(row.expires_at),
+            reason: reviewDue ? 'review' : 'expiring',
+            overdue: dueAt <= now
+          } as ConstraintReviewItem,
+          dueAt
+        };
+      });
+
+      items.sort((a, b) => a.dueAt - b.dueAt || a.item.id - b.item.id);
+      const constraints = items.slice(0, params.limit ?? 50).map(entry => entry.item);
+
+      return { constraints, count: constraints.length };
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to get constraints due for review: ${message}`);
+  }
+}
@@ -5,13 +5,17 @@
 
 import { DatabaseAdapter } from '../../../adapters/index.js';
 import { getAdapter } from '../../../database.js';
-import { validateCategory } from '../../../utils/validators.js';
 import { validateActionParams } from '../../../utils/parameter-validator.js';
 import { parseStringArray } from '../../../utils/param-parser.js';
 import { getProjectContext } from '../../../utils/project-context.js';
 import connectionManager from '../../../utils/connection-manager.js';
 import { UniversalKnex } from '../../../utils/universal-knex.js';
 import { convertPriorityArray } from '../../../utils/enum-converter.js';
+import { findConstraintCategory, listConstraintCategories } from '../../../utils/constraint-categories.js';
+import { readConstraintRules } from '../../../utils/constraint-rules.js';
+import { whereNotExpired } from '../../../utils/constraint-expiry.js';
+import { determineProjectRoot } from '../../../utils/project-root.js';
+import { filePathToScope, findApplicableScopeIds } from '../internal/scopes.js';
 import type {
   GetConstraintsParams,
   GetConstraintsResponse,
@@ -36,7 +40,8 @@ export async function getConstraints(
   try {
     return await connectionManager.executeWithRetry(async () => {
       // Fail-fast project_id validation (Constraint #29)
-      const projectId = getProjectContext().getProjectId();
+      const projectContext = getProjectContext();
+      const projectId = projectContext.getProjectId();
 
       // Validate parameters
       validateActionParams('constraint', 'get', params);
@@ -51,13 +56,23 @@ export async function getConstraints(
         ;
 
       // Filter by active status (default: active only, unless include_inactive=true)
+      // Expired constraints count as inactive before the next startup deactivates them
       if (!params.include_inactive) {
-        query = query.where('c.active', db.boolTrue());
+        query = whereNotExpired(query.where('c.active', db.boolTrue()), 'c.expires_at');
+      }
+
+      // Direct lookup by ID (v5.1.0)
+      if (params.constraint_id !== undefined) {
+        query = query.where('c.id', params.constraint_id);
       }
 
       // Filter by category
+      // Retired categories stay filterable (v5.1.0)
       if (params.category) {
-        validateCategory(params.category);
+        if (!(await findConstraintCategory(knex, projectId, params.category))) {
+          const categories = await listConstraintCategories(knex, projectId, { includeRetired: true });
+          throw new Error(`Invalid category. Must be one of: ${categories.map(c => c.name).join(', ')}`);
+        }
         query = query.where('cat.name', params.category);
       }
 
@@ -90,15 +105,45 @@ export async function getConstraints(
         });
       }
 
+      // Filter by scope or file path (v5.1.0)
+      // Only constraints whose scopes apply to the target, plus unscoped ones
+      // unless include_unscoped=false
+      if (params.scope !== undefined || params.file_path !== undefined) {
+        if (params.scope !== undefined && params.file_path !== undefined) {
+          throw new Error('Use either "scope" or "file_path", not both');
+        }
+        const target = params.file_path !== undefined
+          ? filePathToScope(params.file_path, projectContext.getProjectMetadata().project_root_path || determineProjectRoot())
+          : params.scope!;
+        const scopeIds = await findApplicableScopeIds(knex, projectId, target);
+        const includeUnscoped = params.include_unscoped !== false;
+
+        query = query.where(function() {
+          this.whereExists(function() {
+            this.select(knex.raw('1'))
+              .from('t_constraint_scopes as cs')
+              .whereRaw('cs.constraint_id = c.id')
+              .whereIn('cs.scope_id', scopeIds.length > 0 ? scopeIds : [-1]);
+          });
+          if (includeUnscoped) {
+            this.orWhereNotExists(function() {
+              this.select(knex.raw('1'))
+                .from('t_constraint_scopes as cs2')
+                .whereRaw('cs2.constraint_id = c.id');
+            });
+          }
+        });
+      }
+
       // Order by priority DESC, category, ts DESC
       query = query
         .orderBy('c.priority', 'desc')
         .orderBy('cat.name', 'asc')
         .orderBy('c.ts', 'desc');
 
-      // Add limit
+      // Add limit and offset
       const limit = params.limit || 50;
-      query = query.limit(limit);
+      query = query.limit(limit).offset(params.offset || 0);
 
       // Select columns with tags subquery
       const rawRows = await query.select([
@@ -108,6 +153,9 @@ export async function getConstraints(
         'l.name as layer',
         'c.constraint_text',
         'c.priority',
+        'c.rules',
+        'c.expires_at',
+        'c.review_by',
         knex.raw(`${db.dateFunction('c.ts')} as created_at`),
         // Tags subquery
         knex.raw(`(
@@ -116,14 +164,30 @@ export async function getConstraints(
           JOIN m_tags t2 ON ct2.tag_id = t2.id
           WHERE ct2.constraint_id = c.id
         ) as tags`),
+        // Scopes subquery (v5.1.0)
+        knex.raw(`(
+          SELECT ${db.stringAgg('s2.name', ',')}
+          FROM t_constraint_scopes cs3
+          JOIN m_scopes s2 ON cs3.scope_id = s2.id
+          WHERE cs3.constraint_id = c.id
+        ) as scopes`),
       ]);
 
       // Convert priority integer to string and parse tags
       const rows = convertPriorityArray(rawRows) as TaggedConstraint[];
-      const constraints = rows.map(row => ({
-        ...row,
-        tags: row.tags ? row.tags.split(',') : null,
-      })) as any[];
+      // Scopes, rules and dates are only included for constraints that have them (v5.1.0)
+      const constraints = rows.map(({ scopes, rules, expires_at, review_by, ...row }) => {
+        const scopeList = scopes as unknown as string | null;
+        const parsedRules = readConstraintRules(rules as unknown as string | null);
+        return {
+          ...row,
+          tags: row.tags ? row.tags.split(',') : null,
+          ...(scopeList ? { scopes: scopeList.split(',').sort() } : {}),
+          ...(parsedRules ? { rules: parsedRules } : {}),
+          ...(expires_at ? { expires_at: new Date(Number(expires_at) * 1000).toISOString() } : {}),
+          ...(review_by ? { review_by: new Date(Number(review_by) * 1000).toISOString() } : {}),
+        };
+      }) as any[];
 
       return {
         constraints,
@@ -0,0 +1,215 @@
+/**
+ * Update a constraint in place (text, priority, layer, tags, scopes, rules, dates)
+ * The replaced revision is archived in t_constraint_history
+ *
+ * @since v5.1.0
+ */
+
+import { DatabaseAdapter } from '../../../adapters/index.js';
+import { getAdapter, getLayerId, getOrCreateTag } from '../../../database.js';
+import { STRING_TO_PRIORITY, STANDARD_LAYERS } from '../../../constants.js';
+import { validatePriority } from '../../../utils/validators.js';
+import { validateActionParams } from '../../../utils/parameter-validator.js';
+import { normalizeParams, CONSTRAINT_ALIASES } from '../../../utils/param-normalizer.js';
+import { parseStringArray } from '../../../utils/param-parser.js';
+import { getProjectContext } from '../../../utils/project-context.js';
+import connectionManager from '../../../utils/connection-manager.js';
+import { recordChangeEvent } from '../../../utils/change-feed.js';
+import { parseConstraintRules, readConstraintRules, serializeConstraintRules } from '../../../utils/constraint-rules.js';
+import { getConstraintTagList, getCurrentConstraintVersion } from '../internal/history.js';
+import { parseConstraintDate } from '../internal/validation.js';
+import { parseScopeList, getConstraintScopeList, setConstraintScopes } from '../internal/scopes.js';
+import type {
+  UpdateConstraintParams,
+  UpdateConstraintResponse,
+  Priority
+} from '../types.js';
+
+/** Fields constraint.update can change */
+const UPDATABLE_FIELDS = [
+  'constraint_text', 'priority', 'layer', 'tags', 'scopes', 'rules', 'expires_at', 'review_by'
+] as const;
+
+/**
+ * Update a constraint
+ *
+ * Only the given fields change; tags, scopes and rules replace the existing
+ * ones. null removes rules, expires_at and review_by; scopes=[] removes scopes.
+ * Category changes are not supported (add a new constraint instead).
+ *
+ * @param params - constraint_id and the fields to change
+ * @param adapter - Optional database adapter (for testing)
+ * @returns New revision number and the changed fields
+ */
+export async function updateConstraint(
+  params: UpdateConstraintParams,
+  adapter?: DatabaseAdapter
+): Promise<UpdateConstraintResponse> {
+  const actualAdapter = adapter ?? getAdapter();
+
+  // Normalize aliases: id → constraint_id, text → constraint_text
+  const normalizedParams = normalizeParams(params, CONSTRAINT_ALIASES) as UpdateConstraintParams;
+
+  try {
+    return await connectionManager.executeWithRetry(async () => {
+      // Fail-fast project_id validation (Constraint #29)
+      const projectId = getProjectContext().getProjectId();
+
+      // Validate parameters
+      validateActionParams('constraint', 'update', normalizedParams);
+
+      const { constraint_text, priority, layer, tags } = normalizedParams;
+      if (UPDATABLE_FIELDS.every(field => normalizedParams[field] === undefined)) {
+        throw new Error(`Nothing to update. Provide at least one of: ${UPDATABLE_FIELDS.join(', ')}`);
+      }
+      if (constraint_text !== undefined && constraint_text.trim() === '') {
+        throw new Error('Parameter "constraint_text" cannot be empty');
+      }
+      if (priority !== undefined) {
+        validatePriority(priority);
+      }
+      if (layer !== undefined && !STANDARD_LAYERS.includes(layer as any)) {
+        throw new Error(`Invalid layer. Must be one of: ${STANDARD_LAYERS.join(', ')}`);
+      }
+      const newScopeList = normalizedParams.scopes !== undefined
+        ? parseScopeList(parseStringArray(normalizedParams.scopes))
+        : undefined;
+      const rules = normalizedParams.rules !== undefined ? parseConstraintRules(normalizedParams.rules) : undefined;
+      const expiresAt = normalizedParams.expires_at !== undefined
+        ? parseConstraintDate(normalizedParams.expires_at, 'expires_at')
+        : undefined;
+      if (expiresAt && expiresAt <= Math.floor(Date.now() / 1000)) {
+        throw new Error('Parameter "expires_at" must be in the future');
+      }
+      const reviewBy = normalizedParams.review_by !== undefined
+        ? parseConstraintDate(normalizedParams.review_by, 'review_by')
+        : undefined;
+
+      return await actualAdapter.transaction(async (trx) => {
+        const current = await trx('t_constraints as c')
+          .leftJoin('m_layers as l', 'c.layer_id', 'l.id')
+          .where({ 'c.id': normalizedParams.constraint_id, 'c.project_id': projectId })
+          .first('c.id', 'c.category_id', 'c.constraint_text', 'c.priority', 'c.layer_id', 'l.name as layer', 'c.rules', 'c.expires_at', 'c.review_by') as {
+            id: number; category_id: number; constraint_text: string; priority: Priority;
+            layer_id: number | null; layer: string | null; rules: string | null;
+            expires_at: number | null; review_by: number | null;
+          } | undefined;
+
+        if (!current) {
+          throw new Error(`Constraint not found: ${normalizedParams.constraint_id}`);
+        }
+
+        const currentTags = await getConstraintTagList(trx, current.id);
+        const newTags = tags !== undefined ? [...new Set(parseStringArray(tags))].sort() : currentTags;
+
+        // Work out what actually changes
+        const changed: string[] = [];
+        if (constraint_text !== undefined && constraint_text !== current.constraint_text) changed.push('constraint_text');
+        if (priority !== undefined && STRING_TO_PRIORITY[priority] !== current.priority) changed.push('priority');
+        if (layer !== undefined && layer !== current.layer) changed.push('layer');
+        if (newTags.join(',') !== currentTags.join(',')) changed.push('tags');
+        const currentScopes = await getConstraintScopeList(trx, current.id);
+        if (newScopeList !== undefined && newScopeList.join(',') !== currentScopes.join(',')) changed.push('scopes');
+        const newRules = rules !== undefined ? serializeConstraintRules(rules) : undefined;
+        if (newRules !== undefined && newRules !== serializeConstraintRules(readConstraintRules(current.rules))) changed.push('rules');
+        if (expiresAt !== undefined && expiresAt !== current.expires_at) changed.push('expires_at');
+        if (reviewBy !== undefined && reviewBy !== current.review_by) changed.push('review_by');
+
+        const currentVersion = await getCurrentConstraintVersion(trx, current.id);
+
+        if (changed.length === 0) {
+          return {
+            success: true,
+            constraint_id: current.id,
+            version: currentVersion,
+            changed: [],
+            message: 'No changes'
+          };
+        }
+
+        if (changed.includes('constraint_text')) {
+          const duplicate = await trx('t_constraints')
+            .where({ project_id: projectId, category_id: current.category_id, constraint_text })
+            .whereNot('id', current.id)
+            .first('id');
+          if (duplicate) {
+            throw new Error(`Constraint ${duplicate.id} already has this text in the same category`);
+          }
+        }
+
+        // Archive the revision being replaced
+        const ts = Math.floor(Date.now() / 1000);
+        await trx('t_constraint_history').insert({
+          constraint_id: current.id,
+          project_id: projectId,
+          version: currentVersion,
+          constraint_text: current.constraint_text,
+          priority: current.priority,
+          layer_id: current.layer_id,
+          tags: currentTags.length > 0 ? currentTags.join(',') : null,
+          scopes: currentScopes.length > 0 ? currentScopes.join(',') : null,
+          rules: current.rules,
+          expires_at: current.expires_at,
+          review_by: current.review_by,
+          ts
+        });
+
+        const updates: Record<string, unknown> = {};
+        if (changed.includes('constraint_text')) {
+          updates.constraint_text = constraint_text;
+        }
+        if (changed.includes('priority')) {
+          updates.priority = STRING_TO_PRIORITY[priority!];
+        }
+        if (changed.includes('layer')) {
+          updates.layer_id = await getLayerId(actualAdapter, layer!, trx);
+        }
+        if (changed.includes('rules')) {
+          updates.rules = newRules;
+        }
+        if (changed.includes('expires_at')) {
+          updates.expires_at = expiresAt;
+        }
+        if (changed.includes('review_by')) {
+          updates.review_by = reviewBy;
+        }
+        if (Object.keys(updates).length > 0) {
+          await trx('t_constraints').where({ id: current.id }).update(updates);
+        }
+
+        if (changed.includes('tags')) {
+          await trx('t_constraint_tags').where({ constraint_id: current.id }).delete();
+          for (const tagName of newTags) {
+            const tagId = await getOrCreateTag(actualAdapter, projectId, tagName, trx);
+            await trx('t_constraint_tags').insert({ constraint_id: current.id, tag_id: tagId });
+          }
+        }
+
+        if (changed.includes('scopes')) {
+          await setConstraintScopes(actualAdapter, trx, projectId, current.id, newScopeList!);
+        }
+
+        // Changefeed (v5.1.0)
+        await recordChangeEvent(trx, projectId, {
+          type: 'constraint_updated',
+          constraint_id: current.id,
+          version: String(currentVersion + 1),
+          details: { previous_version: currentVersion, changed }
+        });
+
+        return {
+          success: true,
+          constraint_id: current.id,
+          version: currentVersion + 1,
+          previous_version: currentVersion,
+          changed,
+          message: `Constraint updated to version ${currentVersion + 1} (${changed.join(', ')})`
+        };
+      });
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to update constraint: ${message}`);
+  }
+}
+
@@ -0,0 +1,110 @@
+/**
+ * Get revision history for a constraint
+ * Returns replaced revisions ordered newest first, like decision.versions
+ *
+ * @since v5.1.0
+ */
+
+import { DatabaseAdapter } from '../../../adapters/index.js';
+import { getAdapter } from '../../../database.js';
+import { PRIORITY_TO_STRING } from '../../../constants.js';
+import { validateActionParams } from '../../../utils/parameter-validator.js';
+import { normalizeParams, CONSTRAINT_ALIASES } from '../../../utils/param-normalizer.js';
+import { getProjectContext } from '../../../utils/project-context.js';
+import { UniversalKnex } from '../../../utils/universal-knex.js';
+import { readConstraintRules } from '../../../utils/constraint-rules.js';
+import type {
+  GetConstraintVersionsParams,
+  GetConstraintVersionsResponse,
+  Priority
+} from '../types.js';
+
+/**
+ * Get revision history for a constraint
+ *
+ * Each entry is a revision that was replaced by constraint.update; its
+ * timestamp is when that revision took effect (creation for version 1).
+ *
+ * @param params - Constraint ID
+ * @param adapter - Optional database adapter (for testing)
+ * @returns Current version number and previous revisions
+ */
+export async function getConstraintVersions(
+  params: GetConstraintVersionsParams,
+  adapter?: DatabaseAdapter
+): Promise<GetConstraintVersionsResponse> {
+  // Normalize aliases: id → constraint_id
+  const normalizedParams = normalizeParams(params, CONSTRAINT_ALIASES) as GetConstraintVersionsParams;
+
+  // Validate parameters
+  validateActionParams('constraint', 'versions', normalizedParams);
+
+  const actualAdapter = adapter ?? getAdapter();
+  const knex = actualAdapter.getKnex();
+  const db = new UniversalKnex(knex);
+
+  // Validate project context
+  const projectId = getProjectContext().getProjectId();
+
+  try {
+    const constraint = await knex('t_constraints')
+      .where({ id: normalizedParams.constraint_id, project_id: projectId })
+      .first('id', knex.raw(`${db.dateFunction('ts')} as created_at`)) as { id: number; created_at: string } | undefined;
+
+    if (!constraint) {
+      throw new Error(`Constraint not found: ${normalizedParams.constraint_id}`);
+    }
+
+    // Oldest first to derive when each revision took effect
+    const rows = await knex('t_constraint_history as ch')
+      .leftJoin('m_layers as l', 'ch.layer_id', 'l.id')
+      .where({ 'ch.constraint_id': constraint.id, 'ch.project_id': projectId })
+      .orderBy('ch.version', 'asc')
+      .select(
+        'ch.version',
+        'ch.constraint_text',
+        'ch.priority',
+        'l.name as layer',
+        'ch.tags',
+        'ch.scopes',
+        'ch.rules',
+        'ch.expires_at',
+        'ch.review_by',
+        knex.raw(`${db.dateFunction('ch.ts')} as replaced_at`)
+      ) as Array<{
+        version: number;
+        constraint_text: string;
+        priority: Priority;
+        layer: string | null;
+        tags: string | null;
+        scopes: string | null;
+        rules: string | null;
+        expires_at: number | null;
+        review_by: number | null;
+        replaced_at: string;
+      }>;
+
+    const history = rows.map((row, i) => ({
+      version: row.version,
+      constraint_text: row.constraint_text,
+      priority: PRIORITY_TO_STRING[row.priority] as 'low' | 'medium' | 'high' | 'critical',
+      layer: row.layer,
+      tags: row.tags ? row.tags.split(',') : [],
+      scopes: row.scopes ? row.scopes.split(',') : [],
+      rules: readConstraintRules(row.rules),
+      expires_at: row.expires_at ? new Date(row.expires_at * 1000).toISOString() : null,
+      review_by: row.review_by ? new Date(row.review_by * 1000).toISOString() : null,
+      timestamp: i === 0 ? constraint.created_at : rows[i - 1].replaced_at
+    })).reverse();
+
+    return {
+      constraint_id: constraint.id,
+      current_version: rows.length + 1,
+      history,
+      count: history.length
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to get constraint versions: ${message}`);
+  }
+}
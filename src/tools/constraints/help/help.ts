@@ -9,22 +9,39 @@
 export function constraintHelp(): any {
   return {
     tool: 'constraint',
-    description: 'Manage project constraints (performance, architecture, security, code-style)',
+    description: 'Manage project constraints and their per-project categories',
     note: '💡 TIP: Use action: "example" to see comprehensive usage scenarios and real-world examples for all constraint actions.',
     actions: {
-      add: 'Add constraint. Params: category (required), constraint_text (required), priority, layer, tags, created_by',
-      get: 'Get constraints. Params: category, layer, priority, tags, include_inactive, limit. Returns only active constraints by default.',
+      add: 'Add constraint. Params: category (required, an active project category), constraint_text (required), priority, layer, tags, scopes, created_by, rules, expires_at, review_by (ISO date or "30d")',
+      get: 'Get constraints. Params: constraint_id, category, layer, priority, tags, scope or file_path (applicable constraints only), include_unscoped, include_inactive, limit, offset. Returns only active constraints by default.',
+      update: 'Edit a constraint in place; the previous revision is kept. Params: constraint_id (required), constraint_text, priority, layer, tags (replaces), scopes (replaces), rules (replaces), expires_at, review_by (null removes)',
+      versions: 'List previous revisions of a constraint. Params: constraint_id (required)',
+      check: 'Scan the working tree (honoring .gitignore) against constraint rules; reports violations by file and line. Params: constraint_ids, paths, limit',
+      due_for_review: 'List constraints past review_by (or active past expires_at), earliest first. Params: within (e.g. "14d" for upcoming), include_inactive, limit',
       activate: 'Activate an inactive constraint. Params: constraint_id (required)',
       deactivate: 'Deactivate constraint. Params: constraint_id (required)',
-      suggest_pending: 'Get pending constraint candidates from plan TOML cache. Params: project_path (optional). Returns constraints defined in plan file that haven\'t been registered yet.'
+      suggest_pending: 'Get pending constraint candidates from plan TOML cache. Params: project_path (optional). Returns constraints defined in plan file that haven\'t been registered yet.',
+      list_categories: 'List the project\'s constraint categories with constraint counts. Params: include_retired',
+      create_category: 'Create a category (reactivates a retired one). Params: name (required)',
+      rename_category: 'Rename a category; its constraints follow. Params: name (required), new_name (required)',
+      retire_category: 'Retire a category: no new constraints, existing ones kept. Params: name (required)'
     },
     examples: {
       add: '{ action: "add", category: "performance", constraint_text: "API response time <100ms", priority: "high", tags: ["api"] }',
       get: '{ action: "get", category: "performance" }',
+      get_for_file: '{ action: "get", file_path: "src/billing/invoice.ts" }',
       get_with_inactive: '{ action: "get", include_inactive: true }',
+      update: '{ action: "update", constraint_id: 5, priority: "critical" }',
+      versions: '{ action: "versions", constraint_id: 5 }',
+      add_with_rules: '{ action: "add", category: "architecture", constraint_text: "UI must not import the database layer", priority: "high", rules: { paths: ["src/ui/"], forbidden_imports: ["*/database/*"] } }',
+      check: '{ action: "check", paths: ["src/"] }',
+      add_temporary: '{ action: "add", category: "architecture", constraint_text: "Freeze lodash until the migration lands", priority: "high", expires_at: "2026-12-31", review_by: "30d" }',
+      due_for_review: '{ action: "due_for_review", within: "14d" }',
       activate: '{ action: "activate", constraint_id: 5 }',
       deactivate: '{ action: "deactivate", constraint_id: 5 }',
-      suggest_pending: '{ action: "suggest_pending" }'
+      suggest_pending: '{ action: "suggest_pending" }',
+      create_category: '{ action: "create_category", name: "accessibility" }',
+      retire_category: '{ action: "retire_category", name: "performance" }'
     },
     documentation: {
     }
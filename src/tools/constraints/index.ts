@@ -9,7 +9,17 @@ export { addConstraint } from './actions/add.js';
 export { getConstraints } from './actions/get.js';
 export { activateConstraint, activateConstraintsByTag } from './actions/activate.js';
 export { deactivateConstraint } from './actions/deactivate.js';
+export { updateConstraint } from './actions/update.js';
+export { getConstraintVersions } from './actions/versions.js';
+export { checkConstraints } from './actions/check.js';
+export { getConstraintsDueForReview } from './actions/due-for-review.js';
 export { suggestPendingConstraints } from './actions/suggest-pending.js';
+export {
+  listConstraintCategories,
+  createConstraintCategory,
+  renameConstraintCategory,
+  retireConstraintCategory
+} from './actions/categories.js';
 
 // Help exports
 export { constraintHelp } from './help/help.js';
@@ -24,5 +34,23 @@ export type {
   GetConstraintsResponse,
   DeactivateConstraintResponse,
   TaggedConstraint,
-  Priority
+  Priority,
+  UpdateConstraintParams,
+  UpdateConstraintResponse,
+  GetConstraintVersionsParams,
+  GetConstraintVersionsResponse,
+  CheckConstraintsParams,
+  CheckConstraintsResponse,
+  ConstraintRules,
+  ConstraintViolation,
+  DueForReviewParams,
+  DueForReviewResponse,
+  ConstraintReviewItem,
+  ListConstraintCategoriesParams,
+  CreateConstraintCategoryParams,
+  RenameConstraintCategoryParams,
+  RetireConstraintCategoryParams,
+  ListConstraintCategoriesResponse,
+  ConstraintCategoryResponse,
+  ConstraintCategoryInfo
 } from './types.js';
@@ -0,0 +1,36 @@
+/**
+ * Constraint revision helpers (v5.1.0)
+ *
+ * The current revision lives in t_constraints; t_constraint_history keeps
+ * every replaced revision, numbered from 1.
+ */
+
+import type { Knex } from 'knex';
+
+/**
+ * Sorted tag names of a constraint (history snapshot format when joined with ",")
+ */
+export async function getConstraintTagList(
+  knex: Knex | Knex.Transaction,
+  constraintId: number
+): Promise<string[]> {
+  const tags = await knex('t_constraint_tags as ct')
+    .join('m_tags as t', 'ct.tag_id', 't.id')
+    .where('ct.constraint_id', constraintId)
+    .pluck('t.name') as string[];
+  return tags.sort();
+}
+
+/**
+ * Revision number of the current constraint (history rows + 1)
+ */
+export async function getCurrentConstraintVersion(
+  knex: Knex | Knex.Transaction,
+  constraintId: number
+): Promise<number> {
+  const row = await knex('t_constraint_history')
+    .where({ constraint_id: constraintId })
+    .max('version as version')
+    .first() as { version: number | null } | undefined;
+  return (row?.version ?? 0) + 1;
+}
@@ -0,0 +1,120 @@
+/**
+ * Constraint scope helpers (v5.1.0)
+ *
+ * Constraints attach to m_scopes through t_constraint_scopes. A constraint
+ * scope applies to a target scope or file path when it is the target, one of
+ * its ancestors ("billing" covers "billing/invoices"), or a wildcard pattern
+ * matching it ("src/billing/**"). A wildcard target selects the scopes it
+ * matches, as in search_advanced ("api/instruments/*").
+ */
+
+import type { Knex } from 'knex';
+import { isAbsolute, relative } from 'path';
+import { DatabaseAdapter } from '../../../adapters/index.js';
+import { getOrCreateScope } from '../../../database.js';
+
+/**
+ * Normalize a scope or file path: forward slashes, no leading "./" or trailing "/"
+ */
+export function normalizeScopePath(value: string): string {
+  return value.trim().replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '');
+}
+
+/**
+ * Parse scope names given to constraint.add / constraint.update
+ * @returns Normalized, de-duplicated and sorted names
+ */
+export function parseScopeList(scopes: string[]): string[] {
+  const names = scopes.map(scope => normalizeScopePath(String(scope)));
+  if (names.some(name => name === '')) {
+    throw new Error('Parameter "scopes" must not contain empty scope names');
+  }
+  return [...new Set(names)].sort();
+}
+
+/**
+ * Turn a file path into a scope target relative to the project root
+ */
+export function filePathToScope(filePath: string, projectRoot?: string): string {
+  let path = filePath.trim();
+  if (projectRoot && isAbsolute(path)) {
+    const rel = relative(projectRoot, path);
+    if (!rel.startsWith('..')) {
+      path = rel;
+    }
+  }
+  return normalizeScopePath(path);
+}
+
+/**
+ * Compile a scope pattern; `*` (and `**`) match any characters
+ */
+function wildcardRegex(pattern: string): RegExp {
+  const source = pattern
+    .split(/\*+/)
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Whether a constraint scope applies to a target scope or file path
+ */
+export function scopeApplies(scope: string, target: string): boolean {
+  const s = normalizeScopePath(scope);
+  const t = normalizeScopePath(target);
+
+  // Constraint scope covers the target: same scope, ancestor, or matching pattern
+  if (t === s || t.startsWith(`${s}/`) || (s.includes('*') && wildcardRegex(s).test(t))) {
+    return true;
+  }
+
+  // Wildcard target selects the constraint scope (search_advanced semantics)
+  return t.includes('*') && wildcardRegex(t).test(s);
+}
+
+/**
+ * IDs of the project's constraint scopes that apply to a target
+ */
+export async function findApplicableScopeIds(
+  knex: Knex | Knex.Transaction,
+  projectId: number,
+  target: string
+): Promise<number[]> {
+  const scopes = await knex('t_constraint_scopes as cs')
+    .join('m_scopes as s', 'cs.scope_id', 's.id')
+    .where('cs.project_id', projectId)
+    .distinct('s.id', 's.name') as Array<{ id: number; name: string }>;
+  return scopes.filter(scope => scopeApplies(scope.name, target)).map(scope => scope.id);
+}
+
+/**
+ * Sorted scope names of a constraint (history snapshot format when joined with ",")
+ */
+export async function getConstraintScopeList(
+  knex: Knex | Knex.Transaction,
+  constraintId: number
+): Promise<string[]> {
+  const scopes = await knex('t_constraint_scopes as cs')
+    .join('m_scopes as s', 'cs.scope_id', 's.id')
+    .where('cs.constraint_id', constraintId)
+    .pluck('s.name') as string[];
+  return scopes.sort();
+}
+
+/**
+ * Replace the scopes of a constraint, creating missing scopes
+ */
+export async function setConstraintScopes(
+  adapter: DatabaseAdapter,
+  trx: Knex.Transaction,
+  projectId: number,
+  constraintId: number,
+  scopes: string[]
+): Promise<void> {
+  await trx('t_constraint_scopes').where({ constraint_id: constraintId }).delete();
+  for (const scopeName of scopes) {
+    const scopeId = await getOrCreateScope(adapter, projectId, scopeName, trx);
+    await trx('t_constraint_scopes').insert({ constraint_id: constraintId, scope_id: scopeId, project_id: projectId });
+  }
+}
@@ -2,7 +2,7 @@
  * Parameter validation utilities for constraint operations
  */
 
-import { validateCategory, validatePriority } from '../../../utils/validators.js';
+import { validatePriority, validateLength } from '../../../utils/validators.js';
 import { validateActionParams } from '../../../utils/parameter-validator.js';
 import { STANDARD_LAYERS } from '../../../constants.js';
 
@@ -17,5 +17,42 @@ export function validateLayerParam(layer?: string): void {
   }
 }
 
+/**
+ * Validate a category name for create_category / rename_category (v5.1.0)
+ */
+export function validateCategoryName(name: string, paramName: string = 'name'): void {
+  if (typeof name !== 'string' || name.trim() === '') {
+    throw new Error(`Parameter "${paramName}" must be a non-empty string`);
+  }
+  if (name !== name.trim()) {
+    throw new Error(`Parameter "${paramName}" must not have leading or trailing whitespace`);
+  }
+  validateLength(name, paramName, 100);
+}
+
+/**
+ * Parse expires_at / review_by (v5.1.0)
+ * Accepts an ISO date or timestamp, or a duration from now like "30d", "12h", "2w".
+ *
+ * @returns Unix timestamp, or null when value is null (clears the date)
+ */
+export function parseConstraintDate(value: string | null, paramName: string): number | null {
+  if (value === null) {
+    return null;
+  }
+
+  const match = String(value).match(/^(\d+)(m|h|d|w)$/);
+  if (match) {
+    const seconds = { m: 60, h: 3600, d: 86400, w: 604800 }[match[2] as 'm' | 'h' | 'd' | 'w'];
+    return Math.floor(Date.now() / 1000) + parseInt(match[1], 10) * seconds;
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid ${paramName}: ${value}. Use an ISO date or a duration like "30d", "12h", "2w"`);
+  }
+  return Math.floor(date.getTime() / 1000);
+}
+
 // Re-export common validators
-export { validateCategory, validatePriority, validateActionParams };
+export { validatePriority, validateActionParams };
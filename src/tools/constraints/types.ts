@@ -11,5 +11,23 @@ export type {
   GetConstraintsResponse,
   DeactivateConstraintResponse,
   TaggedConstraint,
-  Priority
+  Priority,
+  UpdateConstraintParams,
+  UpdateConstraintResponse,
+  GetConstraintVersionsParams,
+  GetConstraintVersionsResponse,
+  CheckConstraintsParams,
+  CheckConstraintsResponse,
+  ConstraintRules,
+  ConstraintViolation,
+  DueForReviewParams,
+  DueForReviewResponse,
+  ConstraintReviewItem,
+  ListConstraintCategoriesParams,
+  CreateConstraintCategoryParams,
+  RenameConstraintCategoryParams,
+  RetireConstraintCategoryParams,
+  ListConstraintCategoriesResponse,
+  ConstraintCategoryResponse,
+  ConstraintCategoryInfo
 } from '../../types.js';
@@ -0,0 +1,102 @@
+/**
+ * Add tags to a decision in place (v5.1.0)
+ * Existing tags are kept and the version is not bumped.
+ */
+
+import { DatabaseAdapter } from '../../../adapters/index.js';
+import { getAdapter } from '../../../database.js';
+import { getProjectContext } from '../../../utils/project-context.js';
+import connectionManager from '../../../utils/connection-manager.js';
+import { getOrCreateTag } from '../../../database/operations/inserts.js';
+import { validateActionParams, parseStringArray } from '../internal/validation.js';
+import { findDecisionKeyId } from '../internal/relations.js';
+import { getDecisionLabels, recordDecisionHistory } from '../internal/history.js';
+import { Status } from '../../../types.js';
+import type { AddDecisionTagsParams, AddDecisionTagsResponse } from '../types.js';
+
+/**
+ * Add tags to an existing decision without creating a new version
+ *
+ * @param params - Decision key and tags to add
+ * @param adapter - Optional database adapter (for testing)
+ * @returns Added tags and the full tag list
+ */
+export async function addDecisionTags(
+  params: AddDecisionTagsParams,
+  adapter?: DatabaseAdapter
+): Promise<AddDecisionTagsResponse> {
+  // Validate parameters
+  validateActionParams('decision', 'add_tags', params);
+  const tags = [...new Set(parseStringArray(params.tags))];
+
+  const actualAdapter = adapter ?? getAdapter();
+
+  // Validate project context (fail-fast)
+  const projectId = getProjectContext().getProjectId();
+
+  try {
+    return await connectionManager.executeWithRetry(async () => {
+      return await actualAdapter.transaction(async (trx) => {
+        const keyId = await findDecisionKeyId(trx, projectId, params.key);
+        if (keyId === null) {
+          throw new Error(`Decision "${params.key}" not found`);
+        }
+
+        const decision = await trx('t_decisions')
+          .where({ key_id: keyId, project_id: projectId })
+          .first('key_id', 'value', 'version', 'layer_id', 'status', 'ts') as {
+            key_id: number; value: string; version: string; layer_id: number | null; status: Status; ts: number;
+          };
+
+        const existing = (await getDecisionLabels(trx, projectId, keyId)).tags;
+        const added = tags.filter(tag => !existing.includes(tag));
+
+        if (added.length > 0) {
+          // Keep the previous tag set for as_of views (same version)
+          await recordDecisionHistory(trx, projectId, decision);
+
+          const ts = Math.floor(Date.now() / 1000);
+          await trx('t_decisions')
+            .where({ key_id: keyId, project_id: projectId })
+            .update({ ts });
+          await trx('t_decisions_numeric')
+            .where({ key_id: keyId, project_id: projectId })
+            .update({ ts });
+
+          for (const tagName of added) {
+            const tagId = await getOrCreateTag(actualAdapter, projectId, tagName, trx);
+            await trx('t_decision_tags').insert({
+              decision_key_id: keyId,
+              tag_id: tagId,
+              project_id: projectId
+            });
+            await trx('t_tag_index')
+              .insert({
+                tag: tagName,
+                source_type: 'decision',
+                source_id: keyId,
+                project_id: projectId,
+                created_ts: ts
+              })
+              .onConflict(['tag', 'source_type', 'source_id', 'project_id'])
+              .ignore();
+          }
+        }
+
+        return {
+          success: true,
+          key: params.key,
+          version: decision.version,
+          added,
+          tags: [...existing, ...added].sort(),
+          message: added.length > 0
+            ? `Added ${added.length} tag${added.length === 1 ? '' : 's'} to "${params.key}"`
+            : `"${params.key}" already has all given tags`
+        };
+      });
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to add tags: ${message}`);
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Read the decision changefeed (v5.1.0)
+ * Ordered change events after a cursor, covering decisions, context and constraints
+ */
+
+import { DatabaseAdapter } from '../../../adapters/index.js';
+import { getAdapter } from '../../../database.js';
+import { getProjectContext } from '../../../utils/project-context.js';
+import { CHANGE_EVENT_TYPES, DEFAULT_QUERY_LIMIT } from '../../../constants.js';
+import {
+  CHANGE_EVENTS_TABLE,
+  encodeChangeCursor,
+  decodeChangeCursor
+} from '../../../utils/change-feed.js';
+import {
+  validateActionParams,
+  parseStringArray,
+  parseRelativeTime,
+  validatePaginationParams
+} from '../internal/validation.js';
+import type { GetChangesParams, GetChangesResponse, ChangeEvent, ChangeEventType } from '../types.js';
+
+/**
+ * Get change events after a cursor
+ *
+ * Without a cursor the feed starts at the oldest event (or at `since`).
+ * The returned cursor always points after the last returned event, so
+ * passing it back never skips or repeats events. Events are ordered by
+ * commit (seq), not by id: see utils/change-feed.ts.
+ *
+ * @param params - Cursor or since, optional event_types filter and limit
+ * @param adapter - Optional database adapter (for testing)
+ * @returns Events oldest first, next cursor and has_more flag
+ */
+export async function getChanges(
+  params: GetChangesParams = {},
+  adapter?: DatabaseAdapter
+): Promise<GetChangesResponse> {
+  // Validate parameters
+  validateActionParams('decision', 'changes', params);
+  if (params.cursor && params.since) {
+    throw new Error('Use either "cursor" or "since", not both');
+  }
+
+  const limit = params.limit !== undefined ? params.limit : DEFAULT_QUERY_LIMIT;
+  validatePaginationParams(limit);
+
+  const eventTypes = params.event_types ? parseStringArray(params.event_types) as ChangeEventType[] : [];
+  for (const type of eventTypes) {
+    if (!CHANGE_EVENT_TYPES.includes(type)) {
+      throw new Error(`Invalid event type: "${type}". Valid values: ${CHANGE_EVENT_TYPES.join(', ')}`);
+    }
+  }
+
+  const afterSeq = params.cursor ? decodeChangeCursor(params.cursor) : 0;
+
+  let sinceTs: number | null = null;
+  if (params.since) {
+    sinceTs = parseRelativeTime(params.since);
+    if (sinceTs === null) {
+      throw new Error(`Invalid since format: ${params.since}. Use ISO timestamp or relative time like "7d", "2h", "30m"`);
+    }
+  }
+
+  const actualAdapter = adapter ?? getAdapter();
+  const knex = actualAdapter.getKnex();
+
+  // Validate project context
+  const projectId = getProjectContext().getProjectId();
+
+  try {
+    const query = knex(`${CHANGE_EVENTS_TABLE} as e`)
+      .leftJoin('m_context_keys as k', 'e.key_id', 'k.id')
+      .where('e.project_id', projectId)
+      .where('e.seq', '>', afterSeq)
+      .orderBy('e.seq', 'asc')
+      .limit(limit + 1)  // One extra row tells whether more events are waiting
+      .select('e.id', 'e.seq', 'e.event_type', 'k.key_name', 'e.constraint_id', 'e.version', 'e.details', 'e.ts');
+
+    if (eventTypes.length > 0) {
+      query.whereIn('e.event_type', eventTypes);
+    }
+    if (sinceTs !== null) {
+      query.where('e.ts', '>=', sinceTs);
+    }
+
+    const rows = await query as Array<{
+      id: number; seq: number; event_type: ChangeEventType; key_name: string | null; constraint_id: number | null;
+      version: string | null; details: string | null; ts: number;
+    }>;
+
+    const hasMore = rows.length > limit;
+    const events: ChangeEvent[] = rows.slice(0, limit).map(row => ({
+      id: row.id,
+      type: row.event_type,
+      key: row.key_name,
+      constraint_id: row.constraint_id,
+      version: row.version,
+      details: row.details ? JSON.parse(row.details) : null,
+      timestamp: new Date(row.ts * 1000).toISOString()
+    }));
+
+    // Resume point: last returned event; on an empty first call, the newest event so far
+    let nextSeq = afterSeq;
+    if (events.length > 0) {
+      nextSeq = rows[events.length - 1].seq;
+    } else if (!params.cursor) {
+      const newest = await knex(CHANGE_EVENTS_TABLE)
+        .where('project_id', projectId)
+        .max('seq as seq')
+        .first() as { seq: number | null } | undefined;
+      nextSeq = newest?.seq ?? 0;
+    }
+
+    return {
+      events,
+      count: events.length,
+      cursor: encodeChangeCursor(nextSeq),
+      has_more: hasMore
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to get changes: ${message}`);
+  }
+}
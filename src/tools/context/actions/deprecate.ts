@@ -0,0 +1,61 @@
+/**
+ * Deprecate a decision in place (v5.1.0)
+ * Only the status changes; the version is not bumped.
+ */
+
+import { DatabaseAdapter } from '../../../adapters/index.js';
+import { getAdapter } from '../../../database.js';
+import { getProjectContext } from '../../../utils/project-context.js';
+import connectionManager from '../../../utils/connection-manager.js';
+import { validateActionParams } from '../internal/validation.js';
+import { deprecateDecision as moveToDeprecated, findDecisionKeyId } from '../internal/relations.js';
+import type { DeprecateDecisionParams, DeprecateDecisionResponse } from '../types.js';
+
+/**
+ * Move an existing decision to deprecated status without creating a new version
+ *
+ * @param params - Decision key
+ * @param adapter - Optional database adapter (for testing)
+ * @returns Whether the status changed (false if already deprecated)
+ */
+export async function deprecateDecision(
+  params: DeprecateDecisionParams,
+  adapter?: DatabaseAdapter
+): Promise<DeprecateDecisionResponse> {
+  // Validate parameters
+  validateActionParams('decision', 'deprecate', params);
+
+  const actualAdapter = adapter ?? getAdapter();
+
+  // Validate project context (fail-fast)
+  const projectId = getProjectContext().getProjectId();
+
+  try {
+    return await connectionManager.executeWithRetry(async () => {
+      return await actualAdapter.transaction(async (trx) => {
+        const keyId = await findDecisionKeyId(trx, projectId, params.key);
+        if (keyId === null) {
+          throw new Error(`Decision "${params.key}" not found`);
+        }
+
+        const deprecated = await moveToDeprecated(trx, projectId, keyId, Math.floor(Date.now() / 1000));
+        const { version } = await trx('t_decisions')
+          .where({ key_id: keyId, project_id: projectId })
+          .first('version') as { version: string };
+
+        return {
+          success: true,
+          key: params.key,
+          version,
+          deprecated,
+          message: deprecated
+            ? `Deprecated "${params.key}" (v${version})`
+            : `"${params.key}" is already deprecated`
+        };
+      });
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to deprecate decision: ${message}`);
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Diff two versions of a decision (v5.1.0)
+ * Compares value (line or word level) and layer, status, tags and scopes
+ */
+
+import { DatabaseAdapter } from '../../../adapters/index.js';
+import { getAdapter } from '../../../database.js';
+import { getProjectContext } from '../../../utils/project-context.js';
+import { STATUS_TO_STRING } from '../../../constants.js';
+import { diffText, renderDiff, type DiffGranularity } from '../../../utils/text-diff.js';
+import { validateActionParams } from '../internal/validation.js';
+import { findDecisionKeyId } from '../internal/relations.js';
+import { getDecisionLabels } from '../internal/history.js';
+import type { DiffDecisionParams, DiffDecisionResponse, DecisionLabelChange, Status, StatusString } from '../types.js';
+
+/**
+ * State of one decision version
+ * Metadata is null for history rows recorded before v5.1.0.
+ */
+interface VersionState {
+  version: string;
+  value: string;
+  ts: number;
+  metadata: {
+    layer: string | null;
+    status: StatusString;
+    tags: string[];
+    scopes: string[];
+  } | null;
+}
+
+const splitLabels = (labels: string | null): string[] =>
+  labels ? labels.split(',').filter(Boolean) : [];
+
+function diffLabels(from: string[], to: string[]): DecisionLabelChange | undefined {
+  const added = to.filter(label => !from.includes(label));
+  const removed = from.filter(label => !to.includes(label));
+  return added.length > 0 || removed.length > 0 ? { added, removed } : undefined;
+}
+
+/**
+ * Diff decision versions
+ *
+ * @param params - Decision key, optional from/to versions and granularity
+ * @param adapter - Optional database adapter (for testing)
+ * @returns Value diff and metadata changes between the two versions
+ */
+export async function diffDecision(
+  params: DiffDecisionParams,
+  adapter?: DatabaseAdapter
+): Promise<DiffDecisionResponse> {
+  // Validate parameters
+  validateActionParams('decision', 'diff', params);
+  if (params.granularity && !['line', 'word'].includes(params.granularity)) {
+    throw new Error(`Invalid granularity: "${params.granularity}". Valid values: line, word`);
+  }
+
+  const actualAdapter = adapter ?? getAdapter();
+  const knex = actualAdapter.getKnex();
+
+  // Validate project context
+  const projectId = getProjectContext().getProjectId();
+
+  try {
+    const keyId = await findDecisionKeyId(knex, projectId, params.key);
+    if (keyId === null) {
+      throw new Error(`Decision "${params.key}" not found`);
+    }
+
+    // Current version
+    const current = await knex('t_decisions as d')
+      .leftJoin('m_layers as l', 'd.layer_id', 'l.id')
+      .leftJoin('t_decisions_numeric as dn', function () {
+        this.on('dn.key_id', '=', 'd.key_id').andOn('dn.project_id', '=', 'd.project_id');
+      })
+      .where({ 'd.key_id': keyId, 'd.project_id': projectId })
+      .first('d.version', 'd.value', 'dn.value as numeric_value', 'd.status', 'd.ts', 'l.name as layer') as {
+        version: string; value: string; numeric_value: number | null; status: Status; ts: number; layer: string | null;
+      };
+    const labels = await getDecisionLabels(knex, projectId, keyId);
+
+    // Previous versions, newest first
+    const history = await knex('t_decision_history as dh')
+      .leftJoin('m_layers as l', 'dh.layer_id', 'l.id')
+      .where({ 'dh.key_id': keyId, 'dh.project_id': projectId })
+      .orderBy([{ column: 'dh.ts', order: 'desc' }, { column: 'dh.id', order: 'desc' }])
+      .select('dh.version', 'dh.value', 'dh.ts', 'dh.status', 'dh.tags', 'dh.scopes', 'l.name as layer') as Array<{
+        version: string; value: string; ts: number; status: Status | null;
+        tags: string | null; scopes: string | null; layer: string | null;
+      }>;
+
+    const versions: VersionState[] = [
+      {
+        version: current.version,
+        value: current.numeric_value !== null && current.numeric_value !== undefined
+          ? String(current.numeric_value)
+          : current.value,
+        ts: current.ts,
+        metadata: {
+          layer: current.layer,
+          status: STATUS_TO_STRING[current.status] as StatusString,
+          tags: labels.tags,
+          scopes: labels.scopes
+        }
+      },
+      ...history.map(row => ({
+        version: row.version,
+        value: row.value,
+        ts: row.ts,
+        metadata: row.status === null ? null : {
+          layer: row.layer,
+          status: STATUS_TO_STRING[row.status] as StatusString,
+          tags: splitLabels(row.tags),
+          scopes: splitLabels(row.scopes)
+        }
+      }))
+    ];
+
+    // Resolve versions (the newest entry wins if a version string repeats)
+    const findVersion = (version: string): number => {
+      const index = versions.findIndex(v => v.version === version);
+      if (index === -1) {
+        throw new Error(`Version "${version}" not found for "${params.key}". Available: ${versions.map(v => v.version).join(', ')}`);
+      }
+      return index;
+    };
+
+    const toIndex = params.to_version ? findVersion(params.to_version) : 0;
+    const fromIndex = params.from_version ? findVersion(params.from_version) : toIndex + 1;
+    if (fromIndex >= versions.length) {
+      throw new Error(`Decision "${params.key}" has no version before ${versions[toIndex].version}`);
+    }
+
+    const from = versions[fromIndex];
+    const to = versions[toIndex];
+
+    const granularity: DiffGranularity = params.granularity
+      ?? (from.value.includes('\n') || to.value.includes('\n') ? 'line' : 'word');
+    const chunks = diffText(from.value, to.value, granularity);
+
+    const response: DiffDecisionResponse = {
+      key: params.key,
+      from_version: from.version,
+      to_version: to.version,
+      from_timestamp: new Date(from.ts * 1000).toISOString(),
+      to_timestamp: new Date(to.ts * 1000).toISOString(),
+      granularity,
+      value: {
+        changed: from.value !== to.value,
+        chunks,
+        rendered: renderDiff(chunks, granularity)
+      },
+      changes: {}
+    };
+
+    if (from.metadata && to.metadata) {
+      if (from.metadata.layer !== to.metadata.layer) {
+        response.changes.layer = { from: from.metadata.layer, to: to.metadata.layer };
+      }
+      if (from.metadata.status !== to.metadata.status) {
+        response.changes.status = { from: from.metadata.status, to: to.metadata.status };
+      }
+      const tags = diffLabels(from.metadata.tags, to.metadata.tags);
+      if (tags) {
+        response.changes.tags = tags;
+      }
+      const scopes = diffLabels(from.metadata.scopes, to.metadata.scopes);
+      if (scopes) {
+        response.changes.scopes = scopes;
+      }
+    } else {
+      response.unknown_fields = ['layer', 'status', 'tags', 'scopes'];
+    }
+
+    return response;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to diff decision: ${message}`);
+  }
+}
@@ -1,38 +1,58 @@
 /**
  * Export decisions/constraints to document formats
- * SaaS-only feature (v5.0.0)
  *
- * This action retrieves structured blocks from SaaS and formats them
- * into various document formats (Markdown, ADR, Notion, Confluence).
+ * Builds structured blocks from the local database (or receives them from
+ * SaaS) and formats them into various document formats
+ * (Markdown, ADR, Notion, Confluence).
  *
- * Note: LocalBackend throws an error for this action.
- * Only SaaS backend can provide the data.
+ * v5.0.0: SaaS-only
+ * v5.1.0: LocalBackend builds ExportBlocks from t_decisions, t_decision_context,
+ *         t_decision_tags and t_constraints
  */
 
+import { Knex } from 'knex';
+import { DatabaseAdapter } from '../../../adapters/index.js';
+import { getAdapter } from '../../../database.js';
+import { getProjectContext } from '../../../utils/project-context.js';
+import { UniversalKnex } from '../../../utils/universal-knex.js';
+import { whereNotExpired } from '../../../utils/constraint-expiry.js';
+import { validateActionParams } from '../internal/validation.js';
+import { STATUS_TO_STRING, STRING_TO_STATUS, PRIORITY_TO_STRING } from '../../../constants.js';
 import type {
   ExportDecisionParams,
   ExportDecisionResponse,
   ExportBlocks,
-  ExportFormat
+  ExportBlockItem,
+  ExportBlockSection,
+  ExportBlockConstraint,
+  ExportFormat,
+  Status,
+  Priority
 } from '../../../types.js';
 import { formatBlocks } from '../../../formatters/index.js';
 
 /**
- * SaaS-only error message
- * Thrown when LocalBackend attempts to call export action
+ * Section title for decisions without a layer (group_by: layer)
  */
-export const EXPORT_SAAS_ONLY_ERROR =
-  'Export feature is SaaS-only. ' +
-  'To use document export, connect to sqlew SaaS (set SQLEW_API_KEY). ' +
-  'For local JSON backup, use: npm run db:export';
+const UNASSIGNED_LAYER_TITLE = 'Unassigned';
 
 /**
- * Format export blocks from SaaS into the requested output format
+ * Section title for decisions without tags (group_by: tag)
+ */
+const UNTAGGED_TITLE = 'Untagged';
+
+/**
+ * Section title when grouping is disabled (group_by: none)
+ */
+const UNGROUPED_TITLE = 'Decisions';
+
+/**
+ * Format export blocks into the requested output format
  *
- * This function is called after receiving ExportBlocks from SaaS backend.
- * It applies the appropriate formatter based on the requested format.
+ * Called with ExportBlocks built locally (buildExportBlocks) or received
+ * from the SaaS backend. Applies the formatter matching the requested format.
  *
- * @param blocks - Structured blocks from SaaS
+ * @param blocks - Structured export blocks
  * @param params - Export parameters including format and options
  * @returns Formatted export response
  */
@@ -113,3 +133,401 @@ export function validateExportParams(params: ExportDecisionParams): void {
     }
   }
 }
+
+/**
+ * Export decisions and constraints from the local database
+ *
+ * @param params - Export parameters (filters, grouping, format)
+ * @param adapter - Optional database adapter (for testing)
+ * @returns Formatted export response
+ */
+export async function exportDecisions(
+  params: ExportDecisionParams,
+  adapter?: DatabaseAdapter
+): Promise<ExportDecisionResponse> {
+  // Validate parameters
+  validateActionParams('decision', 'export', params);
+  validateExportParams(params);
+
+  const actualAdapter = adapter ?? getAdapter();
+  const knex = actualAdapter.getKnex();
+
+  // Validate project context
+  const projectId = getProjectContext().getProjectId();
+
+  try {
+    const blocks = await buildExportBlocks(knex, projectId, params);
+    return formatExportBlocks(blocks, params);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to export decisions: ${message}`);
+  }
+}
+
+/**
+ * Build ExportBlocks from local decision and constraint tables
+ *
+ * Filters:
+ * - tags: AND logic (decision/constraint must have ALL tags)
+ * - layers: OR logic
+ * - since: updated at or after the given ISO timestamp
+ * - status: decision status (constraints are always active-only)
+ *
+ * @param knex - Knex instance or transaction
+ * @param projectId - Project to export
+ * @param params - Export parameters
+ * @returns Structured export blocks
+ */
+export async function buildExportBlocks(
+  knex: Knex,
+  projectId: number,
+  params: ExportDecisionParams
+): Promise<ExportBlocks> {
+  const sinceTs = params.since ? Math.floor(new Date(params.since).getTime() / 1000) : undefined;
+
+  const items = await queryDecisionItems(knex, projectId, params, sinceTs);
+  const constraints = await queryConstraints(knex, projectId, params, sinceTs);
+
+  const filtersApplied: Record<string, unknown> = {};
+  if (params.tags && params.tags.length > 0) filtersApplied.tags = params.tags;
+  if (params.layers && params.layers.length > 0) filtersApplied.layers = params.layers;
+  if (params.since) filtersApplied.since = params.since;
+  if (params.status && params.status.length > 0) filtersApplied.status = params.status;
+  filtersApplied.group_by = params.group_by || 'layer';
+
+  return {
+    metadata: {
+      exported_at: new Date().toISOString(),
+      total_decisions: items.length,
+      total_constraints: constraints.length,
+      filters_applied: filtersApplied
+    },
+    blocks: groupItems(items, params.group_by || 'layer'),
+    constraints
+  };
+}
+
+/**
+ * Query decisions matching the export filters, with tags and latest context
+ */
+async function queryDecisionItems(
+  knex: Knex,
+  projectId: number,
+  params: ExportDecisionParams,
+  sinceTs: number | undefined
+): Promise<ExportBlockItem[]> {
+  let query = knex('t_decisions as d')
+    .join('m_context_keys as k', 'd.key_id', 'k.id')
+    .leftJoin('m_layers as l', 'd.layer_id', 'l.id')
+    .leftJoin('t_decisions_numeric as dn', function () {
+      this.on('dn.key_id', '=', 'd.key_id').andOn('dn.project_id', '=', 'd.project_id');
+    })
+    .where('d.project_id', projectId)
+    .select(
+      'd.key_id',
+      'k.key_name as key',
+      'd.value',
+      'dn.value as numeric_value',
+      'd.version',
+      'd.status',
+      'd.ts',
+      'l.name as layer'
+    );
+
+  if (params.layers && params.layers.length > 0) {
+    query = query.whereIn('l.name', params.layers);
+  }
+
+  if (params.status && params.status.length > 0) {
+    query = query.whereIn('d.status', params.status.map(s => STRING_TO_STATUS[s]));
+  }
+
+  if (sinceTs !== undefined) {
+    query = query.where('d.ts', '>=', sinceTs);
+  }
+
+  // AND logic: one EXISTS clause per required tag
+  for (const tag of params.tags || []) {
+    query = query.whereExists(function () {
+      this.select(knex.raw('1'))
+        .from('t_decision_tags as dt')
+        .join('m_tags as t', 'dt.tag_id', 't.id')
+        .whereRaw('dt.decision_key_id = d.key_id')
+        .andWhereRaw('dt.project_id = d.project_id')
+        .andWhere('t.name', tag);
+    });
+  }
+
+  const rows = await query.orderBy('k.key_name', 'asc') as Array<{
+    key_id: number;
+    key: string;
+    value: string;
+    numeric_value: number | null;
+    version: string;
+    status: number;
+    ts: number;
+    layer: string | null;
+  }>;
+
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const keyIds = rows.map(r => r.key_id);
+
+  // Tags per decision
+  const tagRows = await knex('t_decision_tags as dt')
+    .join('m_tags as t', 'dt.tag_id', 't.id')
+    .where('dt.project_id', projectId)
+    .whereIn('dt.decision_key_id', keyIds)
+    .select('dt.decision_key_id', 't.name')
+    .orderBy('t.name', 'asc') as Array<{ decision_key_id: number; name: string }>;
+
+  const tagsByKey = new Map<number, string[]>();
+  for (const row of tagRows) {
+    const tags = tagsByKey.get(row.decision_key_id) || [];
+    tags.push(row.name);
+    tagsByKey.set(row.decision_key_id, tags);
+  }
+
+  // Latest context per decision (newest first, keep first seen)
+  const contextRows = await knex('t_decision_context')
+    .where('project_id', projectId)
+    .whereIn('decision_key_id', keyIds)
+    .select('decision_key_id', 'rationale', 'alternatives_considered', 'tradeoffs')
+    .orderBy('decision_date', 'desc')
+    .orderBy('id', 'desc') as Array<{
+      decision_key_id: number;
+      rationale: string;
+      alternatives_considered: string | null;
+      tradeoffs: string | null;
+    }>;
+
+  const contextByKey = new Map<number, typeof contextRows[number]>();
+  for (const row of contextRows) {
+    if (!contextByKey.has(row.decision_key_id)) {
+      contextByKey.set(row.decision_key_id, row);
+    }
+  }
+
+  return rows.map(row => {
+    const value = row.value !== '' || row.numeric_value === null
+      ? row.value
+      : String(row.numeric_value);
+
+    const item: ExportBlockItem = {
+      key: row.key,
+      value,
+      version: row.version,
+      status: STATUS_TO_STRING[row.status as Status] || 'draft',
+      updated: new Date(row.ts * 1000).toISOString()
+    };
+
+    if (row.layer) {
+      item.layer = row.layer;
+    }
+
+    const tags = tagsByKey.get(row.key_id);
+    if (tags && tags.length > 0) {
+      item.tags = tags;
+    }
+
+    const context = contextByKey.get(row.key_id);
+    if (context) {
+      item.rationale = context.rationale;
+      const alternatives = parseAlternatives(context.alternatives_considered);
+      if (alternatives.length > 0) {
+        item.alternatives = alternatives;
+      }
+      const tradeoffs = parseTradeoffs(context.tradeoffs);
+      if (tradeoffs) {
+        item.tradeoffs = tradeoffs;
+      }
+    }
+
+    return item;
+  });
+}
+
+/**
+ * Query active constraints matching the export filters
+ */
+async function queryConstraints(
+  knex: Knex,
+  projectId: number,
+  params: ExportDecisionParams,
+  sinceTs: number | undefined
+): Promise<ExportBlockConstraint[]> {
+  const db = new UniversalKnex(knex);
+
+  let query = knex('t_constraints as c')
+    .join('m_constraint_categories as cat', 'c.category_id', 'cat.id')
+    .leftJoin('m_layers as l', 'c.layer_id', 'l.id')
+    .where('c.project_id', projectId)
+    .where('c.active', db.boolTrue())
+    .select('c.id', 'cat.name as category', 'c.constraint_text', 'c.priority');
+  query = whereNotExpired(query, 'c.expires_at');
+
+  if (params.layers && params.layers.length > 0) {
+    query = query.whereIn('l.name', params.layers);
+  }
+
+  if (sinceTs !== undefined) {
+    query = query.where('c.ts', '>=', sinceTs);
+  }
+
+  for (const tag of params.tags || []) {
+    query = query.whereExists(function () {
+      this.select(knex.raw('1'))
+        .from('t_constraint_tags as ct')
+        .join('m_tags as t', 'ct.tag_id', 't.id')
+        .whereRaw('ct.constraint_id = c.id')
+        .andWhere('t.name', tag);
+    });
+  }
+
+  const rows = await query
+    .orderBy('c.priority', 'desc')
+    .orderBy('c.id', 'asc') as Array<{
+      id: number;
+      category: string;
+      constraint_text: string;
+      priority: number;
+    }>;
+
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const tagRows = await knex('t_constraint_tags as ct')
+    .join('m_tags as t', 'ct.tag_id', 't.id')
+    .whereIn('ct.constraint_id', rows.map(r => r.id))
+    .select('ct.constraint_id', 't.name')
+    .orderBy('t.name', 'asc') as Array<{ constraint_id: number; name: string }>;
+
+  const tagsById = new Map<number, string[]>();
+  for (const row of tagRows) {
+    const tags = tagsById.get(row.constraint_id) || [];
+    tags.push(row.name);
+    tagsById.set(row.constraint_id, tags);
+  }
+
+  return rows.map(row => {
+    const constraint: ExportBlockConstraint = {
+      category: row.category,
+      rule: row.constraint_text,
+      priority: PRIORITY_TO_STRING[row.priority as Priority] || 'medium'
+    };
+    const tags = tagsById.get(row.id);
+    if (tags && tags.length > 0) {
+      constraint.tags = tags;
+    }
+    return constraint;
+  });
+}
+
+/**
+ * Group decision items into sections
+ *
+ * - layer: one section per layer (alphabetical), unlayered items last
+ * - tag: one section per tag (an item appears under each of its tags), untagged last
+ * - none: a single section
+ */
+function groupItems(
+  items: ExportBlockItem[],
+  groupBy: 'layer' | 'tag' | 'none'
+): ExportBlockSection[] {
+  if (items.length === 0) {
+    return [];
+  }
+
+  if (groupBy === 'none') {
+    return [{ type: 'section', title: UNGROUPED_TITLE, items }];
+  }
+
+  const groups = new Map<string, ExportBlockItem[]>();
+  const fallback: ExportBlockItem[] = [];
+
+  for (const item of items) {
+    const groupKeys = groupBy === 'layer'
+      ? (item.layer ? [item.layer] : [])
+      : (item.tags || []);
+
+    if (groupKeys.length === 0) {
+      fallback.push(item);
+      continue;
+    }
+
+    for (const groupKey of groupKeys) {
+      const group = groups.get(groupKey) || [];
+      group.push(item);
+      groups.set(groupKey, group);
+    }
+  }
+
+  const sections: ExportBlockSection[] = [...groups.keys()]
+    .sort()
+    .map(title => ({ type: 'section', title, items: groups.get(title)! }));
+
+  if (fallback.length > 0) {
+    sections.push({
+      type: 'section',
+      title: groupBy === 'layer' ? UNASSIGNED_LAYER_TITLE : UNTAGGED_TITLE,
+      items: fallback
+    });
+  }
+
+  return sections;
+}
+
+/**
+ * Parse stored alternatives_considered JSON into a string list
+ */
+function parseAlternatives(raw: string | null): string[] {
+  if (!raw) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    if (Array.isArray(parsed)) {
+      return parsed.map(alt => typeof alt === 'string' ? alt : JSON.stringify(alt));
+    }
+    return [String(parsed)];
+  } catch {
+    return [raw];
+  }
+}
+
+/**
+ * Parse stored tradeoffs JSON into a single line of text
+ *
+ * Accepts { pros, cons }, { description } (add_decision_context string form)
+ * or a plain string.
+ */
+function parseTradeoffs(raw: string | null): string | undefined {
+  if (!raw) {
+    return undefined;
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    if (typeof parsed === 'string') {
+      return parsed;
+    }
+    if (parsed && typeof parsed === 'object') {
+      const parts: string[] = [];
+      if (typeof parsed.description === 'string') {
+        parts.push(parsed.description);
+      }
+      if (Array.isArray(parsed.pros) && parsed.pros.length > 0) {
+        parts.push(`Pros: ${parsed.pros.join(', ')}`);
+      }
+      if (Array.isArray(parsed.cons) && parsed.cons.length > 0) {
+        parts.push(`Cons: ${parsed.cons.join(', ')}`);
+      }
+      return parts.length > 0 ? parts.join('. ') : undefined;
+    }
+    return String(parsed);
+  } catch {
+    return raw;
+  }
+}
@@ -2,6 +2,7 @@
  * Get a specific decision by key
  * Returns full metadata including tags, layer, scopes, version
  * Optionally includes decision context (v3.2.2)
+ * Optional as_of returns the version in force at that time (v5.1.0)
  */
 
 import { DatabaseAdapter } from '../../../adapters/index.js';
@@ -9,12 +10,15 @@ import { getAdapter, getDecisionWithContext as dbGetDecisionWithContext } from '
 import { getProjectContext } from '../../../utils/project-context.js';
 import { validateActionParams } from '../internal/validation.js';
 import { getTaggedDecisions } from '../../../utils/view-queries.js';
-import type { GetDecisionParams, GetDecisionResponse, TaggedDecision, StatusString } from '../types.js';
+import { UniversalKnex } from '../../../utils/universal-knex.js';
+import { getDecisionsAsOf, parseAsOf, toTaggedDecision } from '../internal/as-of.js';
+import { findDecisionKeyId, getDecisionRelations } from '../internal/relations.js';
+import type { GetDecisionParams, GetDecisionResponse, TaggedDecision, StatusString, DecisionRelations } from '../types.js';
 
 /**
  * Get a specific decision by key
  *
- * @param params - Decision key and optional include_context flag
+ * @param params - Decision key, optional include_context flag and as_of
  * @param adapter - Optional database adapter (for testing)
  * @returns Decision details or not found
  */
@@ -40,7 +44,59 @@ export async function getDecision(
     throw new Error('Parameter "key" is required and cannot be empty');
   }
 
+  // Inbound/outbound relations (v5.1.0) - omitted when the decision has none
+  const loadRelations = async (key: string): Promise<DecisionRelations | undefined> => {
+    const keyId = await findDecisionKeyId(knex, projectId, key);
+    if (keyId === null) {
+      return undefined;
+    }
+    const relations = await getDecisionRelations(knex, projectId, keyId);
+    return relations.outbound.length + relations.inbound.length > 0 ? relations : undefined;
+  };
+
   try {
+    // Point-in-time lookup (v5.1.0): version in force at as_of, context recorded up to then.
+    // Relations are not versioned and are omitted.
+    if (params.as_of) {
+      const asOf = parseAsOf(params.as_of);
+      const asOfIso = new Date(asOf * 1000).toISOString();
+      const [row] = await getDecisionsAsOf(knex, projectId, asOf, params.key);
+
+      if (!row) {
+        return {
+          found: false,
+          as_of: asOfIso
+        };
+      }
+
+      const response: GetDecisionResponse = {
+        found: true,
+        decision: toTaggedDecision(row),
+        as_of: asOfIso
+      };
+
+      if (params.include_context) {
+        const db = new UniversalKnex(knex);
+        const contexts = await knex('t_decision_context')
+          .where({ decision_key_id: row.key_id, project_id: projectId })
+          .where('decision_date', '<=', asOf)
+          .orderBy('decision_date', 'desc')
+          .select(
+            'id', 'rationale', 'alternatives_considered', 'tradeoffs',
+            knex.raw(`${db.dateFunction('decision_date')} as decision_date`),
+            'related_task_id', 'related_constraint_id'
+          );
+        response.context = contexts.map(ctx => ({
+          ...ctx,
+          decided_by: null,
+          alternatives_considered: ctx.alternatives_considered ? JSON.parse(ctx.alternatives_considered) : null,
+          tradeoffs: ctx.tradeoffs ? JSON.parse(ctx.tradeoffs) : null
+        }));
+      }
+
+      return response;
+    }
+
     // If include_context is true, use the context-aware function
     if (params.include_context) {
       const result = await dbGetDecisionWithContext(actualAdapter, params.key);
@@ -51,8 +107,11 @@ export async function getDecision(
         };
       }
 
+      const relations = await loadRelations(params.key);
+
       return {
         found: true,
+        ...(relations && { relations }),
         decision: {
           key: result.key,
           value: result.value,
@@ -83,9 +142,12 @@ export async function getDecision(
       };
     }
 
+    const relations = await loadRelations(params.key);
+
     return {
       found: true,
-      decision: row
+      decision: row,
+      ...(relations && { relations })
     };
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
@@ -3,7 +3,7 @@
  * Unlike soft delete (status=deprecated), this removes all records from database
  *
  * WARNING: This operation is irreversible. Version history and all relationships
- * (tags, scopes) will also be deleted due to CASCADE constraints.
+ * (tags, scopes, relations) will also be deleted due to CASCADE constraints.
  */
 
 import { DatabaseAdapter } from '../../../adapters/index.js';
@@ -11,6 +11,11 @@ import { getAdapter } from '../../../database.js';
 import { getProjectContext } from '../../../utils/project-context.js';
 import connectionManager from '../../../utils/connection-manager.js';
 import { validateActionParams } from '../internal/validation.js';
+import { deleteDecisionRelations } from '../internal/relations.js';
+import { removeFromDecisionSearchIndex } from '../../../utils/fulltext-search.js';
+import { removeEmbedding } from '../../../utils/embeddings/index.js';
+import { removeSuggestFeedback } from '../../../utils/suggest-feedback.js';
+import { recordChangeEvent } from '../../../utils/change-feed.js';
 import type { HardDeleteDecisionParams, HardDeleteDecisionResponse } from '../types.js';
 
 /**
@@ -78,8 +83,21 @@ export async function hardDeleteDecision(
           .where({ decision_key_id: keyId, project_id: projectId })
           .delete();
 
+        // Delete from t_decision_relations (both directions, this project only)
+        const deletedRelations = await deleteDecisionRelations(trx, projectId, keyId);
+
+        // Remove from full-text search index (derived data, not counted)
+        await removeFromDecisionSearchIndex(trx, projectId, keyId);
+        await removeEmbedding(trx, projectId, 'decision', keyId);
+        await removeSuggestFeedback(trx, projectId, 'decision', keyId);
+
+        // Changefeed (v5.1.0)
+        if (deletedString > 0) {
+          await recordChangeEvent(trx, projectId, { type: 'deleted', key_id: keyId });
+        }
+
         // Calculate total deleted records
-        const totalDeleted = deletedString + deletedNumeric + deletedHistory + deletedTags + deletedScopes;
+        const totalDeleted = deletedString + deletedNumeric + deletedHistory + deletedTags + deletedScopes + deletedRelations;
 
         if (totalDeleted === 0) {
           return {
@@ -0,0 +1,80 @@
+/**
+ * Link two decisions with a typed relation (v5.1.0)
+ * A `supersedes` link moves the target decision to deprecated.
+ */
+
+import { DatabaseAdapter } from '../../../adapters/index.js';
+import { getAdapter } from '../../../database.js';
+import { getProjectContext } from '../../../utils/project-context.js';
+import connectionManager from '../../../utils/connection-manager.js';
+import { validateActionParams } from '../internal/validation.js';
+import { findDecisionKeyId, upsertDecisionRelation, validateRelationType } from '../internal/relations.js';
+import type { LinkDecisionParams, LinkDecisionResponse } from '../types.js';
+
+/**
+ * Create a relation from one decision to another
+ *
+ * @param params - Source key, target key, relation type and optional note
+ * @param adapter - Optional database adapter (for testing)
+ * @returns Link result including whether the target was deprecated
+ */
+export async function linkDecisions(
+  params: LinkDecisionParams,
+  adapter?: DatabaseAdapter
+): Promise<LinkDecisionResponse> {
+  // Validate parameters
+  validateActionParams('decision', 'link', params);
+  validateRelationType(params.relation_type);
+
+  const actualAdapter = adapter ?? getAdapter();
+
+  // Validate project context (fail-fast)
+  const projectId = getProjectContext().getProjectId();
+
+  try {
+    return await connectionManager.executeWithRetry(async () => {
+      return await actualAdapter.transaction(async (trx) => {
+        const sourceKeyId = await findDecisionKeyId(trx, projectId, params.key);
+        if (sourceKeyId === null) {
+          throw new Error(`Decision "${params.key}" not found`);
+        }
+
+        const targetKeyId = await findDecisionKeyId(trx, projectId, params.target_key);
+        if (targetKeyId === null) {
+          throw new Error(`Decision "${params.target_key}" not found`);
+        }
+
+        const ts = Math.floor(Date.now() / 1000);
+        const result = await upsertDecisionRelation(
+          trx,
+          projectId,
+          sourceKeyId,
+          targetKeyId,
+          params.relation_type,
+          params.note ?? null,
+          ts
+        );
+
+        let message = result.created
+          ? `Linked "${params.key}" ${params.relation_type} "${params.target_key}"`
+          : `Relation "${params.key}" ${params.relation_type} "${params.target_key}" already exists`;
+        if (result.deprecated_target) {
+          message += ` ("${params.target_key}" moved to deprecated)`;
+        }
+
+        return {
+          success: true,
+          key: params.key,
+          target_key: params.target_key,
+          relation_type: params.relation_type,
+          created: result.created,
+          deprecated_target: result.deprecated_target,
+          message
+        };
+      });
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to link decisions: ${message}`);
+  }
+}
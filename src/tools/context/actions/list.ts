@@ -2,6 +2,7 @@
  * Get context decisions with advanced filtering
  * Uses cross-database query functions for portability
  * Supports filtering by status, layer, tags, and scope
+ * Optional as_of returns decisions as they were at that time (v5.1.0)
  */
 
 import { DatabaseAdapter } from '../../../adapters/index.js';
@@ -11,6 +12,7 @@ import { debugLog } from '../../../utils/debug-logger.js';
 import { STRING_TO_STATUS } from '../../../constants.js';
 import { validateActionParams } from '../internal/validation.js';
 import { getTaggedDecisions } from '../../../utils/view-queries.js';
+import { getDecisionsAsOf, parseAsOf, toTaggedDecision } from '../internal/as-of.js';
 import { truncateValue } from '../../../utils/text-truncate.js';
 import type { GetContextParams, GetContextResponse, TaggedDecision } from '../types.js';
 
@@ -59,12 +61,20 @@ export async function getContext(
     projectId = getProjectContext().getProjectId();
   }
 
+  const asOf = params.as_of ? parseAsOf(params.as_of) : undefined;
+
   try {
     // Get all decisions then filter in JavaScript
-    let rows = await getTaggedDecisions(knex) as TaggedDecision[];
-
-    // Filter by project_id
-    rows = rows.filter(r => r.project_id === projectId);
+    let rows: TaggedDecision[];
+    if (asOf !== undefined) {
+      // Point-in-time state rebuilt from t_decision_history (v5.1.0)
+      rows = (await getDecisionsAsOf(knex, projectId, asOf)).map(toTaggedDecision);
+    } else {
+      rows = await getTaggedDecisions(knex) as TaggedDecision[];
+
+      // Filter by project_id
+      rows = rows.filter(r => r.project_id === projectId);
+    }
 
     // Filter by status
     if (params.status) {
@@ -120,7 +130,8 @@ export async function getContext(
 
     return {
       decisions: rows,
-      count: rows.length
+      count: rows.length,
+      ...(asOf !== undefined && { as_of: new Date(asOf * 1000).toISOString() })
     };
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
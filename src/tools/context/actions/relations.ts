@@ -0,0 +1,59 @@
+/**
+ * List inbound and outbound relations of a decision (v5.1.0)
+ */
+
+import { DatabaseAdapter } from '../../../adapters/index.js';
+import { getAdapter } from '../../../database.js';
+import { getProjectContext } from '../../../utils/project-context.js';
+import { validateActionParams } from '../internal/validation.js';
+import { findDecisionKeyId, getDecisionRelations, validateRelationType } from '../internal/relations.js';
+import type { GetDecisionRelationsParams, GetDecisionRelationsResponse } from '../types.js';
+
+/**
+ * Get relations of a decision
+ *
+ * @param params - Decision key, optional direction and relation type filter
+ * @param adapter - Optional database adapter (for testing)
+ * @returns Outbound (this → other) and inbound (other → this) relations
+ */
+export async function listDecisionRelations(
+  params: GetDecisionRelationsParams,
+  adapter?: DatabaseAdapter
+): Promise<GetDecisionRelationsResponse> {
+  // Validate parameters
+  validateActionParams('decision', 'relations', params);
+  if (params.relation_type) {
+    validateRelationType(params.relation_type);
+  }
+  if (params.direction && !['outbound', 'inbound', 'both'].includes(params.direction)) {
+    throw new Error(`Invalid direction: "${params.direction}". Valid values: outbound, inbound, both`);
+  }
+
+  const actualAdapter = adapter ?? getAdapter();
+  const knex = actualAdapter.getKnex();
+
+  // Validate project context
+  const projectId = getProjectContext().getProjectId();
+
+  try {
+    const keyId = await findDecisionKeyId(knex, projectId, params.key);
+    if (keyId === null) {
+      throw new Error(`Decision "${params.key}" not found`);
+    }
+
+    const relations = await getDecisionRelations(knex, projectId, keyId, {
+      direction: params.direction,
+      relationType: params.relation_type
+    });
+
+    return {
+      key: params.key,
+      outbound: relations.outbound,
+      inbound: relations.inbound,
+      count: relations.outbound.length + relations.inbound.length
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to get decision relations: ${message}`);
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Revert a decision to a previous version (v5.1.0)
+ * Writes the old value as a NEW version so history is never rewritten
+ */
+
+import { DatabaseAdapter } from '../../../adapters/index.js';
+import { getAdapter } from '../../../database.js';
+import { getProjectContext } from '../../../utils/project-context.js';
+import connectionManager from '../../../utils/connection-manager.js';
+import { validateAgainstPolicies } from '../../../utils/policy-validator.js';
+import { addDecisionContext } from '../../../database/operations/inserts.js';
+import { STATUS_TO_STRING } from '../../../constants.js';
+import { validateActionParams } from '../internal/validation.js';
+import { findDecisionKeyId } from '../internal/relations.js';
+import { setDecisionInternal } from '../internal/queries.js';
+import type { RevertDecisionParams, RevertDecisionResponse, SetDecisionParams, Status, StatusString } from '../types.js';
+
+/**
+ * Revert a decision
+ *
+ * Restores the value of an earlier version through the regular set path
+ * (auto_increment versioning, history snapshot, search index). Status, layer,
+ * tags and scopes of the current version are kept. The reason is recorded in
+ * t_decision_context and the restored value is checked against policies.
+ *
+ * @param params - Decision key, target version, reason and optional auto_increment
+ * @param adapter - Optional database adapter (for testing)
+ * @returns New version and policy validation result
+ */
+export async function revertDecision(
+  params: RevertDecisionParams,
+  adapter?: DatabaseAdapter
+): Promise<RevertDecisionResponse> {
+  // Validate parameters
+  validateActionParams('decision', 'revert', params);
+  if (params.reason.trim() === '') {
+    throw new Error('Parameter "reason" cannot be empty');
+  }
+  if (params.auto_increment && !['major', 'minor', 'patch'].includes(params.auto_increment)) {
+    throw new Error(`Invalid auto_increment: "${params.auto_increment}". Valid values: major, minor, patch`);
+  }
+
+  const actualAdapter = adapter ?? getAdapter();
+
+  // Validate project context (fail-fast before mutations)
+  const projectId = getProjectContext().getProjectId();
+
+  try {
+    return await connectionManager.executeWithRetry(async () => {
+      return await actualAdapter.transaction(async (trx) => {
+        const keyId = await findDecisionKeyId(trx, projectId, params.key);
+        if (keyId === null) {
+          throw new Error(`Decision "${params.key}" not found`);
+        }
+
+        const current = await trx('t_decisions as d')
+          .leftJoin('t_decisions_numeric as dn', function () {
+            this.on('dn.key_id', '=', 'd.key_id').andOn('dn.project_id', '=', 'd.project_id');
+          })
+          .where({ 'd.key_id': keyId, 'd.project_id': projectId })
+          .first('d.version', 'd.status', 'dn.value as numeric_value') as {
+            version: string; status: Status; numeric_value: number | null;
+          };
+
+        if (current.version === params.version) {
+          throw new Error(`Decision "${params.key}" is already at version ${params.version}`);
+        }
+
+        // Newest history row wins if a version string repeats
+        const target = await trx('t_decision_history')
+          .where({ key_id: keyId, project_id: projectId, version: params.version })
+          .orderBy([{ column: 'ts', order: 'desc' }, { column: 'id', order: 'desc' }])
+          .first('value') as { value: string } | undefined;
+        if (!target) {
+          const available = await trx('t_decision_history')
+            .where({ key_id: keyId, project_id: projectId })
+            .orderBy('ts', 'desc')
+            .pluck('version') as string[];
+          throw new Error(
+            `Version "${params.version}" not found for "${params.key}". Available: ${[current.version, ...available].join(', ')}`
+          );
+        }
+
+        // History stores text; numeric decisions get their number back
+        const isNumeric = current.numeric_value !== null && current.numeric_value !== undefined
+          && target.value.trim() !== '' && !isNaN(Number(target.value));
+        const value: string | number = isNumeric ? Number(target.value) : target.value;
+
+        // Non-blocking, same as decision.set
+        const validation = await validateAgainstPolicies(
+          actualAdapter,
+          params.key,
+          value,
+          { rationale: params.reason },
+          trx
+        );
+
+        // Status would otherwise reset to the default; layer, tags and scopes are kept when omitted
+        const setParams: SetDecisionParams = {
+          key: params.key,
+          value,
+          status: STATUS_TO_STRING[current.status] as StatusString,
+          auto_increment: params.auto_increment ?? 'patch',
+          ignore_suggest: true,  // Restoring a known value, not a new decision
+          suggest_constraints: false,
+          check_conflicts: false
+        };
+        const result = await setDecisionInternal(setParams, actualAdapter, projectId, trx);
+
+        // Record the reason
+        const contextId = await addDecisionContext(
+          actualAdapter,
+          params.key,
+          `Reverted from ${current.version} to ${params.version}: ${params.reason}`,
+          null,
+          null,
+          null,
+          null,
+          null,
+          trx
+        );
+
+        const response: RevertDecisionResponse = {
+          success: true,
+          key: params.key,
+          reverted_to: params.version,
+          previous_version: current.version,
+          version: result.version,
+          version_action: result.version_action,
+          context_id: contextId,
+          message: `Decision "${params.key}" reverted to ${params.version} as version ${result.version}`
+        };
+
+        if (validation.matchedPolicy) {
+          response.policy_validation = {
+            matched_policy: validation.matchedPolicy.name,
+            violations: validation.violations
+          };
+        }
+
+        return response;
+      });
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to revert decision: ${message}`);
+  }
+}
@@ -1,8 +1,13 @@
 /**
  * Advanced query composition with complex filtering capabilities
  * Supports multiple filter types, sorting, and pagination
+ *
+ * Filters, sort and LIMIT/OFFSET run in SQL (v5.1.0), built with query-builder
+ * on top of taggedDecisionsQuery, so response time does not grow with the
+ * size of the decision store. as_of searches rebuilt historical states instead.
  */
 
+import type { Knex } from 'knex';
 import { DatabaseAdapter } from '../../../adapters/index.js';
 import { getAdapter } from '../../../database.js';
 import { getProjectContext } from '../../../utils/project-context.js';
@@ -14,10 +19,248 @@ import {
   validateSortParams
 } from '../internal/validation.js';
 import { normalizeParams } from '../../../utils/param-normalizer.js';
-import { getTaggedDecisions } from '../../../utils/view-queries.js';
+import { taggedDecisionsQuery } from '../../../utils/view-queries.js';
+import { buildWhereClause, type FilterCondition } from '../../../utils/query-builder.js';
+import { convertStatusArray } from '../../../utils/enum-converter.js';
+import { STRING_TO_STATUS, VALID_STATUSES } from '../../../constants.js';
 import { truncateValue } from '../../../utils/text-truncate.js';
+import {
+  decisionSearchQuery,
+  tokenizeSearchText,
+  buildSnippet,
+  matchSnippet
+} from '../../../utils/fulltext-search.js';
+import { getDecisionsAsOf, parseAsOf, toTaggedDecision } from '../internal/as-of.js';
 import type { SearchAdvancedParams, SearchAdvancedResponse, TaggedDecision } from '../types.js';
 
+/**
+ * SQL columns for sort_by (fts = full-text match query joined for search_text)
+ */
+const SORT_COLUMNS: Record<string, string> = {
+  relevance: 'fts.score',
+  updated: 'd.ts',
+  key: 'k.key_name',
+  version: 'd.version'
+};
+
+/**
+ * Correlated subquery matching a decision's tags (t_decision_tags → m_tags)
+ */
+function tagSubquery(tagCount: number): string {
+  return `SELECT 1 FROM t_decision_tags dt JOIN m_tags t ON dt.tag_id = t.id
+    WHERE dt.decision_key_id = d.key_id AND dt.project_id = d.project_id
+    AND t.name IN (${Array(tagCount).fill('?').join(', ')})`;
+}
+
+/**
+ * Turn a scope pattern into a LIKE pattern ("api/user_*" → 'api/user!_%')
+ * '!' escapes LIKE wildcards; the same ESCAPE character works on SQLite, PostgreSQL and MySQL.
+ */
+function scopeLikePattern(scope: string): string {
+  return scope.replace(/[!%_]/g, '!$&').replace(/\*/g, '%');
+}
+
+/**
+ * Parse a temporal filter into a Unix timestamp
+ */
+function parseTimeFilter(name: string, value: string): number {
+  const timestamp = parseRelativeTime(value);
+  if (timestamp === null) {
+    throw new Error(`Invalid ${name} format: ${value}. Use ISO timestamp or relative time like "7d", "2h", "30m"`);
+  }
+  return timestamp;
+}
+
+/**
+ * Translate search_advanced params into SQL filter conditions
+ * Column aliases follow taggedDecisionsQuery (d, k, l).
+ */
+function buildFilterConditions(params: SearchAdvancedParams): FilterCondition[] {
+  const conditions: FilterCondition[] = [];
+
+  // Filter by layers (OR relationship)
+  if (params.layers && params.layers.length > 0) {
+    conditions.push({ type: 'in', field: 'l.name', values: params.layers, operator: 'OR' });
+  }
+
+  // Filter by tags_all (AND relationship - must have ALL tags)
+  if (params.tags_all && params.tags_all.length > 0) {
+    for (const tag of parseStringArray(params.tags_all)) {
+      conditions.push({ type: 'exists', subquery: tagSubquery(1), params: [tag] });
+    }
+  }
+
+  // Filter by tags_any (OR relationship - must have ANY tag)
+  if (params.tags_any && params.tags_any.length > 0) {
+    const tagsAny = parseStringArray(params.tags_any);
+    conditions.push({ type: 'exists', subquery: tagSubquery(tagsAny.length), params: tagsAny });
+  }
+
+  // Exclude tags
+  if (params.exclude_tags && params.exclude_tags.length > 0) {
+    const excludeTags = parseStringArray(params.exclude_tags);
+    conditions.push({ type: 'exists', subquery: tagSubquery(excludeTags.length), params: excludeTags, negate: true });
+  }
+
+  // Filter by scopes with wildcard support ("api/*" → LIKE 'api/%')
+  if (params.scopes && params.scopes.length > 0) {
+    const scopes = parseStringArray(params.scopes);
+    const scopeMatch = scopes.map(scope => scope.includes('*') ? "s.name LIKE ? ESCAPE '!'" : 's.name = ?').join(' OR ');
+    conditions.push({
+      type: 'exists',
+      subquery: `SELECT 1 FROM t_decision_scopes ds JOIN m_scopes s ON ds.scope_id = s.id
+        WHERE ds.decision_key_id = d.key_id AND ds.project_id = d.project_id
+        AND (${scopeMatch})`,
+      params: scopes.map(scope => scope.includes('*') ? scopeLikePattern(scope) : scope)
+    });
+  }
+
+  // Temporal filtering
+  if (params.updated_after) {
+    conditions.push({ type: 'greaterThanOrEqual', field: 'd.ts', value: parseTimeFilter('updated_after', params.updated_after) });
+  }
+  if (params.updated_before) {
+    conditions.push({ type: 'lessThanOrEqual', field: 'd.ts', value: parseTimeFilter('updated_before', params.updated_before) });
+  }
+
+  // Note: decided_by is accepted for compatibility but ignored (agent tracking removed in v4.0)
+
+  // Filter by statuses (OR relationship)
+  if (params.statuses && params.statuses.length > 0) {
+    for (const status of params.statuses) {
+      if (!STRING_TO_STATUS[status]) {
+        throw new Error(`Invalid status: "${status}". Valid values: ${VALID_STATUSES.join(', ')}`);
+      }
+    }
+    conditions.push({ type: 'in', field: 'd.status', values: params.statuses.map(s => STRING_TO_STATUS[s]), operator: 'OR' });
+  }
+
+  return conditions;
+}
+
+/**
+ * Search decisions as they were at a point in time (as_of, v5.1.0)
+ *
+ * Historical states are rebuilt from t_decision_history, so filters, sort and
+ * pagination run in JavaScript. The full-text index only holds current text:
+ * search_text matches the historical key and value instead (every term as a
+ * word prefix), ranked by the number of matching words.
+ */
+async function searchAsOf(
+  knex: Knex,
+  projectId: number,
+  params: SearchAdvancedParams,
+  asOf: number,
+  sortBy: string,
+  sortOrder: 'asc' | 'desc',
+  limit: number,
+  offset: number
+): Promise<SearchAdvancedResponse> {
+  const splitLabels = (labels: string | null): string[] => labels ? labels.split(',') : [];
+  let rows = await getDecisionsAsOf(knex, projectId, asOf);
+
+  if (params.layers && params.layers.length > 0) {
+    rows = rows.filter(r => r.layer !== null && params.layers!.includes(r.layer));
+  }
+  if (params.tags_all && params.tags_all.length > 0) {
+    const tagsAll = parseStringArray(params.tags_all);
+    rows = rows.filter(r => tagsAll.every(tag => splitLabels(r.tags).includes(tag)));
+  }
+  if (params.tags_any && params.tags_any.length > 0) {
+    const tagsAny = parseStringArray(params.tags_any);
+    rows = rows.filter(r => tagsAny.some(tag => splitLabels(r.tags).includes(tag)));
+  }
+  if (params.exclude_tags && params.exclude_tags.length > 0) {
+    const excludeTags = parseStringArray(params.exclude_tags);
+    rows = rows.filter(r => !excludeTags.some(tag => splitLabels(r.tags).includes(tag)));
+  }
+  if (params.scopes && params.scopes.length > 0) {
+    // Same wildcard semantics as the SQL path ("api/*" → LIKE 'api/%')
+    const patterns = parseStringArray(params.scopes).map(scope =>
+      new RegExp('^' + scope.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*') + '$')
+    );
+    rows = rows.filter(r => splitLabels(r.scopes).some(scope => patterns.some(pattern => pattern.test(scope))));
+  }
+  if (params.updated_after) {
+    const after = parseTimeFilter('updated_after', params.updated_after);
+    rows = rows.filter(r => r.ts >= after);
+  }
+  if (params.updated_before) {
+    const before = parseTimeFilter('updated_before', params.updated_before);
+    rows = rows.filter(r => r.ts <= before);
+  }
+  if (params.statuses && params.statuses.length > 0) {
+    for (const status of params.statuses) {
+      if (!STRING_TO_STATUS[status]) {
+        throw new Error(`Invalid status: "${status}". Valid values: ${VALID_STATUSES.join(', ')}`);
+      }
+    }
+    rows = rows.filter(r => params.statuses!.includes(r.status));
+  }
+
+  // Historical full-text match on key and value
+  const ranks = new Map<string, number>();
+  if (params.search_text) {
+    const terms = tokenizeSearchText(params.search_text);
+    rows = rows.filter(r => {
+      const words = tokenizeSearchText(`${r.key} ${r.value}`);
+      if (!terms.every(term => words.some(word => word.startsWith(term)))) {
+        return false;
+      }
+      ranks.set(r.key, words.filter(word => terms.some(term => word.startsWith(term))).length);
+      return true;
+    });
+  }
+
+  const direction = sortOrder === 'asc' ? 1 : -1;
+  rows.sort((a, b) => {
+    let order = 0;
+    if (sortBy === 'relevance') {
+      order = ranks.get(a.key)! - ranks.get(b.key)!;
+    } else if (sortBy === 'updated') {
+      order = a.ts - b.ts;
+    } else if (sortBy === 'version') {
+      order = a.version < b.version ? -1 : a.version > b.version ? 1 : 0;
+    }
+    // Key as tie-breaker keeps pages stable when sort values are equal
+    return order !== 0 ? direction * order : (sortBy === 'key' ? direction : 1) * a.key.localeCompare(b.key);
+  });
+
+  const totalCount = rows.length;
+  let decisions = rows.slice(offset, offset + limit).map(toTaggedDecision);
+
+  if (!params.full_value) {
+    decisions = decisions.map(row => ({
+      ...row,
+      value: truncateValue(row.value)
+    }));
+  }
+
+  const asOfIso = new Date(asOf * 1000).toISOString();
+
+  if (params.search_text) {
+    const terms = tokenizeSearchText(params.search_text);
+    const fullValues = new Map(rows.map(r => [r.key, r.value]));
+    return {
+      decisions: decisions.map(row => ({
+        ...row,
+        rank: ranks.get(row.key)!,
+        snippet: buildSnippet(fullValues.get(row.key)!, terms)
+      })),
+      count: decisions.length,
+      total_count: totalCount,
+      as_of: asOfIso
+    };
+  }
+
+  return {
+    decisions,
+    count: decisions.length,
+    total_count: totalCount,
+    as_of: asOfIso
+  };
+}
+
 /**
  * Advanced search with complex filtering
  *
@@ -45,141 +288,81 @@ export async function searchAdvanced(
   const projectId = getProjectContext().getProjectId();
 
   try {
-    // Get all decisions then filter in JavaScript
-    let rows = await getTaggedDecisions(knex) as TaggedDecision[];
-
-    // Filter by project_id
-    rows = rows.filter(r => r.project_id === projectId);
-
-    // Filter by layers (OR relationship)
-    if (normalizedParams.layers && normalizedParams.layers.length > 0) {
-      rows = rows.filter(r => r.layer && normalizedParams.layers!.includes(r.layer));
-    }
+    // Sorting
+    const sortBy = normalizedParams.sort_by || (normalizedParams.search_text ? 'relevance' : 'updated');
+    const sortOrder = normalizedParams.sort_order || 'desc';
 
-    // Filter by tags_all (AND relationship - must have ALL tags)
-    if (normalizedParams.tags_all && normalizedParams.tags_all.length > 0) {
-      const tagsAll = parseStringArray(normalizedParams.tags_all);
-      rows = rows.filter(r => {
-        if (!r.tags) return false;
-        return tagsAll.every(tag => r.tags!.includes(tag));
-      });
+    // Validate sort parameters
+    validateSortParams(sortBy, sortOrder);
+    if (sortBy === 'relevance' && !normalizedParams.search_text) {
+      throw new Error('sort_by "relevance" requires search_text');
     }
 
-    // Filter by tags_any (OR relationship - must have ANY tag)
-    if (normalizedParams.tags_any && normalizedParams.tags_any.length > 0) {
-      const tagsAny = parseStringArray(normalizedParams.tags_any);
-      rows = rows.filter(r => {
-        if (!r.tags) return false;
-        return tagsAny.some(tag => r.tags!.includes(tag));
-      });
-    }
+    // Pagination
+    const limit = normalizedParams.limit !== undefined ? normalizedParams.limit : 20;
+    const offset = normalizedParams.offset || 0;
 
-    // Exclude tags
-    if (normalizedParams.exclude_tags && normalizedParams.exclude_tags.length > 0) {
-      const excludeTags = parseStringArray(normalizedParams.exclude_tags);
-      rows = rows.filter(r => {
-        if (!r.tags) return true; // No tags means no excluded tags
-        return !excludeTags.some(tag => r.tags!.includes(tag));
-      });
-    }
+    // Validate pagination parameters
+    validatePaginationParams(limit, offset);
 
-    // Filter by scopes with wildcard support
-    if (normalizedParams.scopes && normalizedParams.scopes.length > 0) {
-      const scopes = parseStringArray(normalizedParams.scopes);
-      rows = rows.filter(r => {
-        if (!r.scopes) return false;
-        return scopes.some(scope => {
-          if (scope.includes('*')) {
-            // Wildcard pattern - convert to regex
-            const regexPattern = scope.replace(/\*/g, '.*');
-            const regex = new RegExp(regexPattern);
-            return r.scopes!.split(',').some(s => regex.test(s.trim()));
-          } else {
-            // Exact match
-            return r.scopes!.includes(scope);
-          }
-        });
-      });
+    // Point-in-time search (v5.1.0)
+    if (normalizedParams.as_of) {
+      return await searchAsOf(
+        knex, projectId, normalizedParams, parseAsOf(normalizedParams.as_of),
+        sortBy, sortOrder, limit, offset
+      );
     }
 
-    // Temporal filtering - updated_after
-    if (normalizedParams.updated_after) {
-      const timestamp = parseRelativeTime(normalizedParams.updated_after);
-      if (timestamp !== null) {
-        rows = rows.filter(r => {
-          const updatedTs = new Date(r.updated).getTime() / 1000;
-          return updatedTs >= timestamp;
-        });
-      } else {
-        throw new Error(`Invalid updated_after format: ${normalizedParams.updated_after}. Use ISO timestamp or relative time like "7d", "2h", "30m"`);
+    // Full-text search (v5.1.0): key, value, rationale, alternatives, tradeoffs
+    // The match query is joined as a derived table (fts), so every filter,
+    // the count and the page run against all matches in SQL
+    let terms: string[] | null = null;
+    if (normalizedParams.search_text) {
+      terms = tokenizeSearchText(normalizedParams.search_text);
+      if (terms.length === 0) {
+        return { decisions: [], count: 0, total_count: 0 };
       }
     }
 
-    // Temporal filtering - updated_before
-    if (normalizedParams.updated_before) {
-      const timestamp = parseRelativeTime(normalizedParams.updated_before);
-      if (timestamp !== null) {
-        rows = rows.filter(r => {
-          const updatedTs = new Date(r.updated).getTime() / 1000;
-          return updatedTs <= timestamp;
-        });
-      } else {
-        throw new Error(`Invalid updated_before format: ${normalizedParams.updated_before}. Use ISO timestamp or relative time like "7d", "2h", "30m"`);
+    const { whereClause, params: whereParams } = buildWhereClause(buildFilterConditions(normalizedParams));
+
+    // Filters are pushed into SQL; only the surrounding query differs between count and page
+    const applyFilters = (query: Knex.QueryBuilder): Knex.QueryBuilder => {
+      if (terms) {
+        query.join(decisionSearchQuery(knex, projectId, terms).as('fts'), 'fts.key_id', 'd.key_id');
       }
-    }
+      query.where('d.project_id', projectId);
+      if (whereClause) {
+        query.whereRaw(whereClause.replace(/^ AND /, ''), whereParams);
+      }
+      return query;
+    };
 
-    // Filter by decided_by (OR relationship)
-    if (normalizedParams.decided_by && normalizedParams.decided_by.length > 0) {
-      rows = rows.filter(r => r.decided_by && normalizedParams.decided_by!.includes(r.decided_by));
-    }
+    // Count total matching records (before pagination)
+    const countRow = await applyFilters(
+      knex('t_decisions as d')
+        .join('m_context_keys as k', 'd.key_id', 'k.id')
+        .leftJoin('m_layers as l', 'd.layer_id', 'l.id')
+    ).count('* as total').first() as { total: number | string } | undefined;
+    const totalCount = Number(countRow?.total ?? 0);
 
-    // Filter by statuses (OR relationship)
-    if (normalizedParams.statuses && normalizedParams.statuses.length > 0) {
-      rows = rows.filter(r => normalizedParams.statuses!.includes(r.status));
+    const query = applyFilters(taggedDecisionsQuery(knex));
+    if (terms) {
+      query.select('fts.score', 'fts.snippet', 'fts.document');
     }
 
-    // Full-text search in value field
-    if (normalizedParams.search_text) {
-      rows = rows.filter(r => r.value.includes(normalizedParams.search_text!));
+    // Key as tie-breaker keeps pages stable when sort values are equal
+    query.orderBy(SORT_COLUMNS[sortBy], sortOrder);
+    if (sortBy !== 'key') {
+      query.orderBy('k.key_name', 'asc');
     }
+    query.limit(limit).offset(offset);
 
-    // Count total matching records (before pagination)
-    const totalCount = rows.length;
-
-    // Sorting
-    const sortBy = normalizedParams.sort_by || 'updated';
-    const sortOrder = normalizedParams.sort_order || 'desc';
-
-    // Validate sort parameters
-    validateSortParams(sortBy, sortOrder);
-
-    rows.sort((a, b) => {
-      let aVal: any;
-      let bVal: any;
-
-      if (sortBy === 'updated') {
-        aVal = new Date(a.updated).getTime();
-        bVal = new Date(b.updated).getTime();
-      } else {
-        aVal = a[sortBy as keyof TaggedDecision];
-        bVal = b[sortBy as keyof TaggedDecision];
-      }
-
-      if (sortOrder === 'asc') {
-        return aVal < bVal ? -1 : aVal > bVal ? 1 : 0;
-      } else {
-        return aVal > bVal ? -1 : aVal < bVal ? 1 : 0;
-      }
-    });
-
-    // Pagination
-    const limit = normalizedParams.limit !== undefined ? normalizedParams.limit : 20;
-    const offset = normalizedParams.offset || 0;
-
-    // Validate pagination parameters
-    validatePaginationParams(limit, offset);
-
-    rows = rows.slice(offset, offset + limit);
+    const rawRows: any[] = await query;
+    let rows = convertStatusArray(rawRows).map(row => ({
+      ...row,
+      value: String(row.value)  // Numeric decisions come back as numbers on SQLite
+    })) as TaggedDecision[];
 
     // Truncate values (default: 30 chars) unless full_value is requested
     if (!normalizedParams.full_value) {
@@ -189,6 +372,22 @@ export async function searchAdvanced(
       }));
     }
 
+    // Attach relevance and highlighted snippet to full-text matches
+    if (terms) {
+      return {
+        decisions: rows.map(row => {
+          const { score, snippet, document, ...decision } = row as TaggedDecision & {
+            score: number | string;
+            snippet: string | null;
+            document: string | null;
+          };
+          return { ...decision, rank: Number(score), snippet: matchSnippet({ snippet, document }, terms!) };
+        }),
+        count: rows.length,
+        total_count: totalCount
+      };
+    }
+
     return {
       decisions: rows,
       count: rows.length,
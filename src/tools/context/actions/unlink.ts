@@ -0,0 +1,74 @@
+/**
+ * Remove relations between two decisions (v5.1.0)
+ * Unlinking does not restore the status of a previously superseded decision.
+ */
+
+import { DatabaseAdapter } from '../../../adapters/index.js';
+import { getAdapter } from '../../../database.js';
+import { getProjectContext } from '../../../utils/project-context.js';
+import connectionManager from '../../../utils/connection-manager.js';
+import { validateActionParams } from '../internal/validation.js';
+import { validateRelationType } from '../internal/relations.js';
+import type { UnlinkDecisionParams, UnlinkDecisionResponse } from '../types.js';
+
+/**
+ * Remove the relation(s) from one decision to another
+ *
+ * @param params - Source key, target key and optional relation type (omit to remove all)
+ * @param adapter - Optional database adapter (for testing)
+ * @returns Number of removed relations
+ */
+export async function unlinkDecisions(
+  params: UnlinkDecisionParams,
+  adapter?: DatabaseAdapter
+): Promise<UnlinkDecisionResponse> {
+  // Validate parameters
+  validateActionParams('decision', 'unlink', params);
+  if (params.relation_type) {
+    validateRelationType(params.relation_type);
+  }
+
+  const actualAdapter = adapter ?? getAdapter();
+
+  // Validate project context (fail-fast)
+  const projectId = getProjectContext().getProjectId();
+
+  try {
+    return await connectionManager.executeWithRetry(async () => {
+      return await actualAdapter.transaction(async (trx) => {
+        const keys = await trx('m_context_keys')
+          .whereIn('key_name', [params.key, params.target_key])
+          .select('id', 'key_name') as Array<{ id: number; key_name: string }>;
+
+        const sourceKeyId = keys.find(k => k.key_name === params.key)?.id;
+        const targetKeyId = keys.find(k => k.key_name === params.target_key)?.id;
+
+        let removed = 0;
+        if (sourceKeyId !== undefined && targetKeyId !== undefined) {
+          const query = trx('t_decision_relations').where({
+            project_id: projectId,
+            source_key_id: sourceKeyId,
+            target_key_id: targetKeyId
+          });
+          if (params.relation_type) {
+            query.andWhere('relation_type', params.relation_type);
+          }
+          removed = await query.delete();
+        }
+
+        return {
+          success: true,
+          key: params.key,
+          target_key: params.target_key,
+          removed,
+          message: removed > 0
+            ? `Removed ${removed} relation${removed === 1 ? '' : 's'} from "${params.key}" to "${params.target_key}"`
+            : `No relation from "${params.key}" to "${params.target_key}" found`
+        };
+      });
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to unlink decisions: ${message}`);
+  }
+}
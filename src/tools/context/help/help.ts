@@ -37,22 +37,31 @@ export function decisionHelp(): any {
       cleanup_rule: 'Delete decisions that start with "COMPLETED:", contain task status, test results, or implementation logs. Keep only architectural reasoning and design rationale.'
     },
     actions: {
-      set: 'Set/update a decision. Params: key (required), value (required), agent, layer, version, status, tags, scopes',
-      get: 'Get specific decision by key. Params: key (required), include_context (optional, boolean, default: false)',
-      list: 'List/filter decisions. Params: status, layer, tags, scope, tag_match',
+      set: 'Set/update a decision. Params: key (required), value (required), agent, layer, version, status, tags, scopes, supersedes',
+      get: 'Get specific decision by key. Params: key (required), include_context (optional, boolean, default: false), as_of (ISO or relative, v5.1.0)',
+      list: 'List/filter decisions. Params: status, layer, tags, scope, tag_match, as_of (ISO or relative, v5.1.0)',
       search_tags: 'Search decisions by tags. Params: tags (required), match_mode, status, layer',
       search_layer: 'Search decisions by layer. Params: layer (required), status, include_tags',
       versions: 'Get version history for a decision. Params: key (required)',
       quick_set: 'Quick set with smart defaults (FR-002). Auto-infers layer, tags, scope from key',
-      search_advanced: 'Advanced query with complex filtering (FR-004). Supports layers, tags, scopes, temporal filters',
+      search_advanced: 'Advanced query with complex filtering (FR-004). Supports layers, tags, scopes, temporal filters, ranked full-text search_text, as_of point-in-time state',
       set_batch: 'Batch set decisions (FR-005). Max 50 items. Atomic or non-atomic modes',
-      has_updates: 'Check for updates since timestamp (FR-003 Phase A). Lightweight polling mechanism',
+      has_updates: 'Check for updates since timestamp (FR-003 Phase A). Lightweight polling mechanism (counts only; use changes for events)',
       set_from_template: 'Set decision using template (FR-006). Applies defaults and validates required fields',
       create_template: 'Create new decision template (FR-006). Define reusable defaults',
       list_templates: 'List all decision templates (FR-006)',
       hard_delete: 'Permanently delete a decision. WARNING: IRREVERSIBLE',
       add_decision_context: 'Add rich context to a decision (v3.2.2). Rationale, alternatives, tradeoffs',
-      list_decision_contexts: 'List decision contexts with filters (v3.2.2)'
+      list_decision_contexts: 'List decision contexts with filters (v3.2.2)',
+      add_tags: 'Add tags without a new version (v5.1.0). Params: key (required), tags (required)',
+      deprecate: 'Deprecate without a new version (v5.1.0). Params: key (required)',
+      export: 'Export decisions and constraints as documents (v5.0.0). Params: format (required: blocks, markdown, adr, notion, confluence), tags, layers, since, status, group_by, include_metadata, include_context',
+      link: 'Link two decisions (v5.1.0). Params: key (required), target_key (required), relation_type (required: supersedes, depends_on, refines, conflicts_with), note',
+      unlink: 'Remove relations between two decisions (v5.1.0). Params: key (required), target_key (required), relation_type',
+      relations: 'List inbound/outbound relations of a decision (v5.1.0). Params: key (required), direction, relation_type',
+      diff: 'Diff two versions of a decision (v5.1.0). Params: key (required), from_version, to_version, granularity (line, word)',
+      revert: 'Restore an earlier version as a new version (v5.1.0). Params: key (required), version (required), reason (required), auto_increment',
+      changes: 'Changefeed of decision, context and constraint events after a cursor (v5.1.0). Params: cursor, since, event_types, limit'
     },
     documentation: {
     }
@@ -26,12 +26,26 @@ export { handleAnalytics } from './actions/analytics.js';
 export { createPolicy } from './actions/create-policy.js';
 export { listPolicies } from './actions/list-policies.js';
 export { setFromPolicy } from './actions/set-from-policy.js';
-// Export action (v5.0.0 - SaaS-only)
+// Export action (v5.0.0, local since v5.1.0)
 export {
+  exportDecisions,
+  buildExportBlocks,
   formatExportBlocks,
-  validateExportParams,
-  EXPORT_SAAS_ONLY_ERROR
+  validateExportParams
 } from './actions/export.js';
+// In-place tag/status actions (v5.1.0)
+export { addDecisionTags } from './actions/add-tags.js';
+export { deprecateDecision } from './actions/deprecate.js';
+// Relation actions (v5.1.0)
+export { linkDecisions } from './actions/link.js';
+export { unlinkDecisions } from './actions/unlink.js';
+export { listDecisionRelations } from './actions/relations.js';
+// Diff action (v5.1.0)
+export { diffDecision } from './actions/diff.js';
+// Revert action (v5.1.0)
+export { revertDecision } from './actions/revert.js';
+// Changefeed action (v5.1.0)
+export { getChanges } from './actions/changes.js';
 
 // Help exports
 export { decisionHelp } from './help/help.js';
@@ -69,7 +83,27 @@ export type {
   HasUpdatesResponse,
   HardDeleteDecisionParams,
   HardDeleteDecisionResponse,
-  DecisionAction
+  AddDecisionTagsParams,
+  AddDecisionTagsResponse,
+  DeprecateDecisionParams,
+  DeprecateDecisionResponse,
+  DecisionAction,
+  DecisionRelationType,
+  DecisionRelation,
+  DecisionRelations,
+  LinkDecisionParams,
+  LinkDecisionResponse,
+  UnlinkDecisionParams,
+  UnlinkDecisionResponse,
+  GetDecisionRelationsParams,
+  GetDecisionRelationsResponse,
+  DiffDecisionParams,
+  DiffDecisionResponse,
+  RevertDecisionParams,
+  RevertDecisionResponse,
+  GetChangesParams,
+  GetChangesResponse,
+  ChangeEvent
 } from './types.js';
 
 // Analytics type exports
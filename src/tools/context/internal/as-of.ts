@@ -0,0 +1,136 @@
+/**
+ * Point-in-time decision state (v5.1.0)
+ *
+ * Rebuilds what each decision looked like at a given moment from the current
+ * rows and t_decision_history. A version becomes effective at its ts, so the
+ * state at T is the newest version (current row or history snapshot) with
+ * ts <= T. Decisions whose first version is newer than T did not exist yet.
+ *
+ * Used by decision.list, decision.get and decision.search_advanced (as_of).
+ */
+
+import { Knex } from 'knex';
+import { UniversalKnex } from '../../../utils/universal-knex.js';
+import { taggedDecisionsQuery } from '../../../utils/view-queries.js';
+import { STATUS_TO_STRING } from '../../../constants.js';
+import { parseRelativeTime } from './validation.js';
+import type { Status, StatusString, TaggedDecision } from '../types.js';
+
+/**
+ * Decision state at a point in time
+ * ts is the Unix timestamp of the effective version (for sorting and time filters).
+ */
+export interface AsOfDecision extends TaggedDecision {
+  readonly key_id: number;
+  readonly ts: number;
+}
+
+/**
+ * Parse the as_of parameter into a Unix timestamp
+ * Accepts an ISO timestamp or relative time ("7d", "2h", "30m").
+ */
+export function parseAsOf(asOf: string): number {
+  const timestamp = parseRelativeTime(asOf);
+  if (timestamp === null) {
+    throw new Error(`Invalid as_of format: ${asOf}. Use ISO timestamp or relative time like "7d", "2h", "30m"`);
+  }
+  return timestamp;
+}
+
+/**
+ * Strip the internal fields of an as-of row
+ */
+export function toTaggedDecision(row: AsOfDecision): TaggedDecision {
+  const { key_id, ts, ...decision } = row;
+  return decision;
+}
+
+/**
+ * Load decisions of a project as they were at a point in time
+ *
+ * History rows recorded before v5.1.0 carry no layer, status, tags or scopes;
+ * those fields fall back to the current decision.
+ *
+ * @param asOf - Unix timestamp
+ * @param key - Limit to a single decision key
+ * @returns Decisions that existed at asOf, in their state at that time
+ */
+export async function getDecisionsAsOf(
+  knex: Knex,
+  projectId: number,
+  asOf: number,
+  key?: string
+): Promise<AsOfDecision[]> {
+  const db = new UniversalKnex(knex);
+
+  const currentQuery = taggedDecisionsQuery(knex)
+    .select('d.key_id', 'd.ts')
+    .where('d.project_id', projectId);
+  if (key !== undefined) {
+    currentQuery.where('k.key_name', key);
+  }
+  const current = await currentQuery as Array<Omit<AsOfDecision, 'status' | 'value'> & { status: Status; value: string | number }>;
+
+  // Newest first: the first history row per key at or before asOf wins
+  const historyQuery = knex('t_decision_history as dh')
+    .join('m_context_keys as k', 'dh.key_id', 'k.id')
+    .leftJoin('m_layers as l', 'dh.layer_id', 'l.id')
+    .where('dh.project_id', projectId)
+    .where('dh.ts', '<=', asOf)
+    .orderBy([{ column: 'dh.ts', order: 'desc' }, { column: 'dh.id', order: 'desc' }])
+    .select(
+      'dh.key_id', 'dh.version', 'dh.value', 'dh.status', 'dh.tags', 'dh.scopes', 'dh.ts',
+      'l.name as layer',
+      knex.raw(`${db.dateFunction('dh.ts')} as updated`)
+    );
+  if (key !== undefined) {
+    historyQuery.where('k.key_name', key);
+  }
+  const history = await historyQuery as Array<{
+    key_id: number; version: string; value: string; status: Status | null;
+    tags: string | null; scopes: string | null; ts: number;
+    layer: string | null; updated: string;
+  }>;
+
+  const snapshots = new Map<number, typeof history[number]>();
+  for (const row of history) {
+    if (!snapshots.has(row.key_id)) {
+      snapshots.set(row.key_id, row);
+    }
+  }
+
+  const decisions: AsOfDecision[] = [];
+  for (const row of current) {
+    if (row.ts <= asOf) {
+      decisions.push({
+        ...row,
+        value: String(row.value),  // Numeric decisions come back as numbers on SQLite
+        status: STATUS_TO_STRING[row.status] as StatusString
+      });
+      continue;
+    }
+
+    const snapshot = snapshots.get(row.key_id);
+    if (!snapshot) {
+      continue;  // Created after asOf
+    }
+
+    const known = snapshot.status !== null;
+    decisions.push({
+      key: row.key,
+      key_id: row.key_id,
+      value: snapshot.value,
+      version: snapshot.version,
+      status: STATUS_TO_STRING[known ? snapshot.status! : row.status] as StatusString,
+      layer: known ? snapshot.layer : row.layer,
+      tags: known ? snapshot.tags || null : row.tags,
+      scopes: known ? snapshot.scopes || null : row.scopes,
+      decided_by: null,
+      updated: snapshot.updated,
+      project_id: projectId,
+      ts: snapshot.ts
+    });
+  }
+
+  return decisions;
+}
@@ -0,0 +1,85 @@
+/**
+ * Decision history snapshots (v5.1.0)
+ *
+ * t_decision_history stores the previous state of a decision each time it is
+ * overwritten: value plus layer, status, tags and scopes, so versions can be
+ * compared field by field (decision.diff).
+ */
+
+import { Knex } from 'knex';
+
+/**
+ * Tag and scope names of a decision, sorted
+ */
+export interface DecisionLabels {
+  tags: string[];
+  scopes: string[];
+}
+
+/**
+ * Row of t_decisions / t_decisions_numeric needed for a snapshot
+ */
+interface DecisionRow {
+  key_id: number;
+  value: string | number;
+  version: string;
+  layer_id: number | null;
+  status: number;
+  ts: number;
+}
+
+/**
+ * Load the current tag and scope names of a decision
+ */
+export async function getDecisionLabels(
+  knex: Knex | Knex.Transaction,
+  projectId: number,
+  keyId: number
+): Promise<DecisionLabels> {
+  const tags = await knex('t_decision_tags as dt')
+    .join('m_tags as t', 'dt.tag_id', 't.id')
+    .where({ 'dt.decision_key_id': keyId, 'dt.project_id': projectId })
+    .pluck('t.name') as string[];
+
+  const scopes = await knex('t_decision_scopes as ds')
+    .join('m_scopes as s', 'ds.scope_id', 's.id')
+    .where({ 'ds.decision_key_id': keyId, 'ds.project_id': projectId })
+    .pluck('s.name') as string[];
+
+  return { tags: tags.sort(), scopes: scopes.sort() };
+}
+
+/**
+ * Record the current state of a decision in t_decision_history
+ * Call BEFORE the decision row, tags or scopes are overwritten.
+ */
+export async function recordDecisionHistory(
+  knex: Knex | Knex.Transaction,
+  projectId: number,
+  decision: DecisionRow
+): Promise<void> {
+  const labels = await getDecisionLabels(knex, projectId, decision.key_id);
+
+  // Numeric decisions keep '' in t_decisions; the value lives in t_decisions_numeric
+  let value = String(decision.value);
+  if (value === '') {
+    const numeric = await knex('t_decisions_numeric')
+      .where({ key_id: decision.key_id, project_id: projectId })
+      .first('value') as { value: number } | undefined;
+    if (numeric) {
+      value = String(numeric.value);
+    }
+  }
+
+  await knex('t_decision_history').insert({
+    key_id: decision.key_id,
+    project_id: projectId,
+    version: decision.version,
+    value,
+    layer_id: decision.layer_id,
+    status: decision.status,
+    tags: labels.tags.join(','),
+    scopes: labels.scopes.join(','),
+    ts: decision.ts,
+  });
+}
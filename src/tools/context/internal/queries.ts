@@ -10,13 +10,18 @@ import {
   getOrCreateScope,
   getLayerId
 } from '../../../database.js';
-import { STRING_TO_STATUS, DEFAULT_VERSION, DEFAULT_STATUS, SUGGEST_THRESHOLDS, SUGGEST_LIMITS, VALID_STATUSES } from '../../../constants.js';
+import { STRING_TO_STATUS, STATUS_TO_STRING, DEFAULT_VERSION, DEFAULT_STATUS, SUGGEST_THRESHOLDS, SUGGEST_LIMITS, VALID_STATUSES } from '../../../constants.js';
 import { parseStringArray } from '../../../utils/param-parser.js';
 import { incrementSemver, isValidSemver } from '../../../utils/semver.js';
 import { validateAgainstPolicies } from '../../../utils/policy-validator.js';
 import { handleSuggestAction } from '../../suggest/index.js';
 import { constraintByContext } from '../../suggest/actions/constraint-by-context.js';
-import type { SetDecisionParams, SetDecisionResponse } from '../types.js';
+import { suggestConflicts } from '../../suggest/actions/conflicts.js';
+import { findDecisionKeyId, upsertDecisionRelation } from './relations.js';
+import { syncDecisionSearchIndex } from '../../../utils/fulltext-search.js';
+import { recordChangeEvent } from '../../../utils/change-feed.js';
+import { recordDecisionHistory } from './history.js';
+import type { SetDecisionParams, SetDecisionResponse, Status } from '../types.js';
 
 // ============================================================================
 // Helper Functions for Hybrid Similarity Detection (v3.9.0)
@@ -374,6 +379,31 @@ This check prevents accidental duplicate decisions.
 `.trim();
 }
 
+/**
+ * Layer, tags and scopes a decision has after a set (v5.1.0)
+ * set only replaces the ones it is given; the others are kept from the previous version.
+ */
+async function loadDecisionContext(
+  knex: Knex | Knex.Transaction,
+  projectId: number,
+  keyId: number,
+  layerId: number | null
+): Promise<{ layer?: string; tags: string[]; scopes: string[] }> {
+  const layer = layerId !== null
+    ? await knex('m_layers').where({ id: layerId }).first('name') as { name: string } | undefined
+    : undefined;
+  const tags = await knex('t_decision_tags as dt')
+    .join('m_tags as t', 'dt.tag_id', 't.id')
+    .where({ 'dt.decision_key_id': keyId, 'dt.project_id': projectId })
+    .pluck('t.name') as string[];
+  const scopes = await knex('t_decision_scopes as ds')
+    .join('m_scopes as s', 'ds.scope_id', 's.id')
+    .where({ 'ds.decision_key_id': keyId, 'ds.project_id': projectId })
+    .pluck('s.name') as string[];
+
+  return { layer: layer?.name, tags, scopes };
+}
+
 // ============================================================================
 // Main Decision Operations
 // ============================================================================
@@ -472,8 +502,10 @@ export async function setDecisionInternal(
           const suggestions = await handleSuggestAction({
             action: 'by_context',
             key: params.key,
+            value,
             tags,
             layer: params.layer,
+            scopes: params.scopes ? parseStringArray(params.scopes) : undefined,
             limit: 5,
             min_score: SUGGEST_THRESHOLDS.GENTLE_NUDGE,
             knex: trx || knex
@@ -622,13 +654,7 @@ export async function setDecisionInternal(
   // Record history BEFORE update (only for existing decisions)
   // This preserves the previous version before it gets overwritten
   if (existingDecision) {
-    await knex('t_decision_history').insert({
-      key_id: keyId,
-      project_id: projectId,
-      version: existingDecision.version,
-      value: existingDecision.value,
-      ts: existingDecision.ts,
-    });
+    await recordDecisionHistory(knex, projectId, existingDecision);
   }
 
   // Insert or update decision
@@ -741,6 +767,36 @@ export async function setDecisionInternal(
     }
   }
 
+  // Refresh full-text search index (v5.1.0)
+  await syncDecisionSearchIndex(knex, projectId, keyId);
+
+  // Changefeed (v5.1.0): every write is a created/updated event, plus status_changed on status transitions
+  await recordChangeEvent(knex, projectId, existingDecision
+    ? { type: 'updated', key_id: keyId, version, details: { previous_version: existingDecision.version } }
+    : { type: 'created', key_id: keyId, version });
+  if (existingDecision && existingDecision.status !== status) {
+    await recordChangeEvent(knex, projectId, {
+      type: 'status_changed',
+      key_id: keyId,
+      version,
+      details: { from: STATUS_TO_STRING[existingDecision.status as Status], to: STATUS_TO_STRING[status] }
+    });
+  }
+
+  // Handle supersedes relations (v5.1.0)
+  // Superseded decisions must already exist and are moved to deprecated
+  const superseded: string[] = [];
+  if (params.supersedes) {
+    for (const targetKey of parseStringArray(params.supersedes)) {
+      const targetKeyId = await findDecisionKeyId(knex, projectId, targetKey);
+      if (targetKeyId === null) {
+        throw new Error(`Superseded decision "${targetKey}" not found`);
+      }
+      await upsertDecisionRelation(knex, projectId, keyId, targetKeyId, 'supersedes', null, ts);
+      superseded.push(targetKey);
+    }
+  }
+
   // Build response object
   const response: SetDecisionResponse = {
     success: true,
@@ -753,6 +809,10 @@ export async function setDecisionInternal(
       : `Decision "${params.key}" created at version ${version}`
   };
 
+  if (superseded.length > 0) {
+    response.superseded = superseded;
+  }
+
   // v3.9.1: Tier 1 gentle nudge (post-creation warning for CREATE operations)
   // Tier 2 (hard block) and Tier 3 (auto-update) already handled before decision creation
   if (isCreate && !ignoreCheck) {
@@ -790,8 +850,10 @@ export async function setDecisionInternal(
           const suggestions = await handleSuggestAction({
             action: 'by_context',
             key: params.key,
+            value,
             tags,
             layer: params.layer,
+            scopes: params.scopes ? parseStringArray(params.scopes) : undefined,
             limit: 5,
             min_score: SUGGEST_THRESHOLDS.GENTLE_NUDGE,
             knex: trx || knex
@@ -831,6 +893,7 @@ export async function setDecisionInternal(
         text: typeof value === 'string' ? value : String(value),
         tags,
         layer: params.layer,
+        scopes: params.scopes ? parseStringArray(params.scopes) : undefined,
         limit: 3,
         min_score: 35,
         knex: trx || knex
@@ -853,5 +916,25 @@ export async function setDecisionInternal(
     }
   }
 
+  // v5.1.0: Contradiction check against constraints and decisions in the same scope, layer or tags
+  // Uses the stored layer, tags and scopes, which include the ones kept from the previous version
+  if (params.check_conflicts !== false) {
+    try {
+      const conflicts = await suggestConflicts({
+        key: params.key,
+        value,
+        ...await loadDecisionContext(knex, projectId, keyId, layerId),
+        knex: trx || knex
+      });
+
+      if (conflicts.count > 0) {
+        response.conflicts = conflicts.conflicts;
+      }
+    } catch (err) {
+      // Don't fail the decision creation if the contradiction check fails
+      console.error('[Decision Conflicts] Failed to check conflicts:', err);
+    }
+  }
+
   return response;
 }
@@ -0,0 +1,196 @@
+/**
+ * Shared queries for decision-to-decision relations (v5.1.0)
+ *
+ * Relations are directed (source → target) and stored in t_decision_relations.
+ * A `supersedes` relation moves the target decision to deprecated.
+ */
+
+import { Knex } from 'knex';
+import { DECISION_RELATION_TYPES, STATUS_TO_STRING } from '../../../constants.js';
+import { recordChangeEvent } from '../../../utils/change-feed.js';
+import { recordDecisionHistory } from './history.js';
+import { Status } from '../../../types.js';
+import type { DecisionRelation, DecisionRelations, DecisionRelationType } from '../types.js';
+
+/**
+ * Validate a relation type string
+ * @throws Error if the type is not one of DECISION_RELATION_TYPES
+ */
+export function validateRelationType(relationType: string): asserts relationType is DecisionRelationType {
+  if (!DECISION_RELATION_TYPES.includes(relationType as DecisionRelationType)) {
+    throw new Error(
+      `Invalid relation_type: "${relationType}". Valid values: ${DECISION_RELATION_TYPES.join(', ')}`
+    );
+  }
+}
+
+/**
+ * Resolve a decision key to its key_id, requiring the decision to exist in the project
+ * @returns key_id, or null if no decision with this key exists in the project
+ */
+export async function findDecisionKeyId(
+  knex: Knex | Knex.Transaction,
+  projectId: number,
+  key: string
+): Promise<number | null> {
+  const row = await knex('t_decisions as d')
+    .join('m_context_keys as k', 'd.key_id', 'k.id')
+    .where('k.key_name', key)
+    .andWhere('d.project_id', projectId)
+    .first('d.key_id') as { key_id: number } | undefined;
+
+  return row ? row.key_id : null;
+}
+
+/**
+ * Move a decision to deprecated status
+ * Updates both t_decisions and t_decisions_numeric (numeric row may not exist).
+ * The previous state is recorded in t_decision_history so as_of views keep it.
+ *
+ * @returns true if the decision was changed, false if it was already deprecated
+ */
+export async function deprecateDecision(
+  knex: Knex | Knex.Transaction,
+  projectId: number,
+  keyId: number,
+  ts: number
+): Promise<boolean> {
+  const previous = await knex('t_decisions')
+    .where({ key_id: keyId, project_id: projectId })
+    .first('key_id', 'value', 'version', 'layer_id', 'status', 'ts') as {
+      key_id: number; value: string; version: string; layer_id: number | null; status: Status; ts: number;
+    };
+
+  if (previous.status === Status.DEPRECATED) {
+    return false;
+  }
+
+  await recordDecisionHistory(knex, projectId, previous);
+
+  await knex('t_decisions')
+    .where({ key_id: keyId, project_id: projectId })
+    .update({ status: Status.DEPRECATED, ts });
+
+  await knex('t_decisions_numeric')
+    .where({ key_id: keyId, project_id: projectId })
+    .update({ status: Status.DEPRECATED, ts });
+
+  await recordChangeEvent(knex, projectId, {
+    type: 'status_changed',
+    key_id: keyId,
+    version: previous.version,
+    details: { from: STATUS_TO_STRING[previous.status], to: 'deprecated' }
+  });
+
+  return true;
+}
+
+/**
+ * Create (or refresh) a relation between two decisions
+ * Re-linking an existing pair with the same type updates the note instead of failing.
+ *
+ * @returns created=false when the relation already existed;
+ *          deprecated_target=true when a supersedes link deprecated the target
+ */
+export async function upsertDecisionRelation(
+  knex: Knex | Knex.Transaction,
+  projectId: number,
+  sourceKeyId: number,
+  targetKeyId: number,
+  relationType: DecisionRelationType,
+  note: string | null,
+  ts: number
+): Promise<{ created: boolean; deprecated_target: boolean }> {
+  if (sourceKeyId === targetKeyId) {
+    throw new Error('A decision cannot be related to itself');
+  }
+
+  const existing = await knex('t_decision_relations')
+    .where({
+      project_id: projectId,
+      source_key_id: sourceKeyId,
+      target_key_id: targetKeyId,
+      relation_type: relationType
+    })
+    .first('id') as { id: number } | undefined;
+
+  if (existing) {
+    if (note !== null) {
+      await knex('t_decision_relations').where({ id: existing.id }).update({ note });
+    }
+  } else {
+    await knex('t_decision_relations').insert({
+      project_id: projectId,
+      source_key_id: sourceKeyId,
+      target_key_id: targetKeyId,
+      relation_type: relationType,
+      note,
+      ts
+    });
+  }
+
+  const deprecatedTarget = relationType === 'supersedes'
+    ? await deprecateDecision(knex, projectId, targetKeyId, ts)
+    : false;
+
+  return { created: !existing, deprecated_target: deprecatedTarget };
+}
+
+/**
+ * Get inbound and outbound relations of a decision
+ *
+ * @param options.direction - Limit to one direction (default: both)
+ * @param options.relationType - Limit to one relation type
+ */
+export async function getDecisionRelations(
+  knex: Knex | Knex.Transaction,
+  projectId: number,
+  keyId: number,
+  options: { direction?: 'outbound' | 'inbound' | 'both'; relationType?: DecisionRelationType } = {}
+): Promise<DecisionRelations> {
+  const direction = options.direction ?? 'both';
+
+  const query = (own: 'source_key_id' | 'target_key_id', other: 'source_key_id' | 'target_key_id') => {
+    const q = knex('t_decision_relations as r')
+      .join('m_context_keys as k', `r.${other}`, 'k.id')
+      .where(`r.${own}`, keyId)
+      .andWhere('r.project_id', projectId)
+      .select('k.key_name as key', 'r.relation_type', 'r.note', 'r.ts')
+      .orderBy('r.ts', 'asc')
+      .orderBy('r.id', 'asc');
+    if (options.relationType) {
+      q.andWhere('r.relation_type', options.relationType);
+    }
+    return q;
+  };
+
+  const toRelation = (row: any): DecisionRelation => ({
+    key: row.key,
+    relation_type: row.relation_type,
+    note: row.note ?? null,
+    created: new Date(Number(row.ts) * 1000).toISOString()
+  });
+
+  const outbound = direction === 'inbound' ? [] : await query('source_key_id', 'target_key_id');
+  const inbound = direction === 'outbound' ? [] : await query('target_key_id', 'source_key_id');
+
+  return {
+    outbound: outbound.map(toRelation),
+    inbound: inbound.map(toRelation)
+  };
+}
+
+/**
+ * Delete all relations where the decision is source or target
+ * @returns Number of deleted relation rows
+ */
+export async function deleteDecisionRelations(
+  knex: Knex | Knex.Transaction,
+  projectId: number,
+  keyId: number
+): Promise<number> {
+  return await knex('t_decision_relations')
+    .where('project_id', projectId)
+    .andWhere(q => q.where('source_key_id', keyId).orWhere('target_key_id', keyId))
+    .delete();
+}
@@ -73,8 +73,8 @@ export function validatePaginationParams(limit?: number, offset?: number): void
  * Validate sort parameters
  */
 export function validateSortParams(sortBy?: string, sortOrder?: string): void {
-  if (sortBy && !['updated', 'key', 'version'].includes(sortBy)) {
-    throw new Error(`Invalid sort_by: ${sortBy}. Must be 'updated', 'key', or 'version'`);
+  if (sortBy && !['updated', 'key', 'version', 'relevance'].includes(sortBy)) {
+    throw new Error(`Invalid sort_by: ${sortBy}. Must be 'updated', 'key', 'version', or 'relevance'`);
   }
   if (sortOrder && !['asc', 'desc'].includes(sortOrder)) {
     throw new Error(`Invalid sort_order: ${sortOrder}. Must be 'asc' or 'desc'`);
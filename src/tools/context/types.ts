@@ -11,6 +11,7 @@ export type {
   GetContextResponse,
   GetDecisionResponse,
   TaggedDecision,
+  RankedDecision,
   Status,
   StatusString,
   SearchByTagsParams,
@@ -35,7 +36,34 @@ export type {
   HasUpdatesResponse,
   HardDeleteDecisionParams,
   HardDeleteDecisionResponse,
+  AddDecisionTagsParams,
+  AddDecisionTagsResponse,
+  DeprecateDecisionParams,
+  DeprecateDecisionResponse,
   DecisionAction,
+  // Relation types (v5.1.0)
+  DecisionRelationType,
+  DecisionRelation,
+  DecisionRelations,
+  LinkDecisionParams,
+  LinkDecisionResponse,
+  UnlinkDecisionParams,
+  UnlinkDecisionResponse,
+  GetDecisionRelationsParams,
+  GetDecisionRelationsResponse,
+  // Diff types (v5.1.0)
+  DiffDecisionParams,
+  DiffDecisionResponse,
+  DecisionFieldChange,
+  DecisionLabelChange,
+  // Revert types (v5.1.0)
+  RevertDecisionParams,
+  RevertDecisionResponse,
+  // Changefeed types (v5.1.0)
+  GetChangesParams,
+  GetChangesResponse,
+  ChangeEvent,
+  ChangeEventType,
   // Export types (v5.0.0)
   ExportFormat,
   ExportDecisionParams,
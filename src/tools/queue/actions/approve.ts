@@ -0,0 +1,104 @@
+/**
+ * Queue approve action
+ *
+ * Moves plan candidates awaiting approval (ExitPlanMode preview) to the
+ * queue, optionally editing one first. Only approved candidates reach the
+ * database.
+ *
+ * @since v5.1.0
+ */
+
+import { enqueuePlanDecisions, enqueueConstraintCreate } from '../../../utils/hook-queue.js';
+import type { DecisionCandidate } from '../../../config/global-config.js';
+import { loadPendingCandidates, savePendingCandidates, summarizeCandidate } from '../internal/plan-candidates.js';
+import { validatePatch, type PatchFieldType } from '../internal/patch-fields.js';
+import type { ApproveQueueParams, ApproveQueueResponse } from '../types.js';
+
+/** Candidate fields that can be edited before approval, per type */
+const PATCHABLE_FIELDS: Record<'decision' | 'constraint', Record<string, PatchFieldType>> = {
+  decision: {
+    key: 'string', value: 'string', status: 'string', layer: 'string', tags: 'string[]', rationale: 'string',
+    alternatives: 'string[]', tradeoffs: 'tradeoffs', supersedes: 'string[]', scopes: 'string[]',
+  },
+  constraint: { text: 'string', category: 'string', priority: 'string', layer: 'string', tags: 'string[]' },
+};
+
+/**
+ * Approve one candidate (by index) or all of them
+ *
+ * @param projectPath - Project root path
+ * @param params - Approve parameters (index and patch optional)
+ * @returns Approve result with queued candidates
+ */
+export function approveQueue(projectPath: string, params?: ApproveQueueParams): ApproveQueueResponse {
+  const index = params?.index;
+  const patch = params?.patch;
+
+  // Validate index
+  if (index !== undefined && (typeof index !== 'number' || index < 0)) {
+    return failure(`Invalid index: ${index}. Index must be a non-negative number.`);
+  }
+  if (patch !== undefined && index === undefined) {
+    return failure('Parameter "patch" requires "index": edit one candidate at a time.');
+  }
+  if (patch !== undefined && (patch === null || typeof patch !== 'object' || Array.isArray(patch))) {
+    return failure('Parameter "patch" must be an object of candidate fields.');
+  }
+
+  const { cache, candidates } = loadPendingCandidates(projectPath);
+
+  if (!cache || candidates.length === 0) {
+    return { success: true, approved: [], remainingPending: 0, message: 'No plan candidates awaiting approval.' };
+  }
+
+  if (index !== undefined && index >= candidates.length) {
+    return failure(
+      `Index ${index} is out of range. ${candidates.length} candidate(s) awaiting approval (valid indices: 0-${candidates.length - 1}).`,
+      candidates.length
+    );
+  }
+
+  // Edit-then-approve: the duplicate warning no longer applies to the edited candidate
+  if (index !== undefined && patch !== undefined) {
+    const target = candidates[index];
+    const invalid = validatePatch(patch, PATCHABLE_FIELDS[target.type], `${target.type} candidate`);
+    if (invalid) {
+      return failure(invalid, candidates.length);
+    }
+    Object.assign(target.candidate, patch);
+    delete target.candidate.duplicate_warning;
+  }
+
+  const approved = index !== undefined ? [candidates[index]] : candidates;
+  const remaining = candidates.filter(c => !approved.includes(c));
+
+  enqueuePlanDecisions(
+    projectPath,
+    approved.filter(c => c.type === 'decision').map(c => c.candidate as DecisionCandidate)
+  );
+  for (const c of approved) {
+    if (c.type !== 'constraint') continue;
+    enqueueConstraintCreate(projectPath, {
+      text: c.candidate.text,
+      category: c.candidate.category,
+      priority: c.candidate.priority || 'medium',
+      layer: c.candidate.layer || 'cross-cutting',
+      tags: c.candidate.tags || [],
+      active: true,
+      plan_id: cache.plan_id,
+    });
+  }
+
+  savePendingCandidates(projectPath, cache, remaining);
+
+  return {
+    success: true,
+    approved: approved.map(summarizeCandidate),
+    remainingPending: remaining.length,
+    message: `Queued ${approved.length} approved candidate(s). ${remaining.length} candidate(s) awaiting approval.`,
+  };
+}
+
+function failure(message: string, remainingPending: number = -1): ApproveQueueResponse {
+  return { success: false, approved: [], remainingPending, message };
+}
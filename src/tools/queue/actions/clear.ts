@@ -7,8 +7,7 @@
  */
 
 import {
-  readQueue,
-  writeQueue,
+  clearQueue as clearPendingQueue,
   readFailedQueue,
   clearFailedQueue,
   tryAcquireLock,
@@ -43,11 +42,7 @@ export function clearQueue(projectPath: string, params?: ClearQueueParams): Clea
 
     // Clear pending queue
     if (target === 'pending' || target === 'all') {
-      const queue = readQueue(projectPath);
-      clearedPending = queue.items.length;
-      if (clearedPending > 0) {
-        writeQueue(projectPath, { items: [] }, 'queueTool_clear');
-      }
+      clearedPending = clearPendingQueue(projectPath);
     }
 
     // Clear failed queue
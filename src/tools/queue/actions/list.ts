@@ -1,7 +1,8 @@
 /**
  * Queue list action
  *
- * Lists all pending items in the hook queue (both pending and failed)
+ * Lists all pending items in the hook queue (both pending and failed),
+ * plus plan candidates awaiting approval (v5.1.0)
  *
  * @since v5.0.0
  */
@@ -13,7 +14,9 @@ import {
   getFailedQueuePath,
   DecisionQueueItem,
   ConstraintQueueItem,
+  FailedQueueItem,
 } from '../../../utils/hook-queue.js';
+import { loadPendingCandidates } from '../internal/plan-candidates.js';
 import type { ListQueueParams, ListQueueResponse } from '../types.js';
 
 /**
@@ -63,7 +66,7 @@ export function listQueue(projectPath: string, _params?: ListQueueParams): ListQ
 
   const failedItems = failedQueue.items
     // Filter out invalid items (defensive parsing)
-    .filter((failedItem): failedItem is { item: DecisionQueueItem | ConstraintQueueItem; error: string; failedAt: string } =>
+    .filter((failedItem): failedItem is FailedQueueItem & { item: DecisionQueueItem | ConstraintQueueItem } =>
       failedItem != null &&
       failedItem.item != null &&
       typeof failedItem.item.type === 'string'
@@ -78,8 +81,12 @@ export function listQueue(projectPath: string, _params?: ListQueueParams): ListQ
           action: decisionItem.action,
           timestamp: decisionItem.timestamp,
           key: decisionItem.data?.key,
+          layer: decisionItem.data?.layer,
+          tags: decisionItem.data?.tags,
           error: failedItem.error,
           failedAt: failedItem.failedAt,
+          attempts: failedItem.attempts ?? 1,
+          ...(failedItem.nextRetryAt ? { nextRetryAt: failedItem.nextRetryAt } : {}),
         };
       } else {
         const constraintItem = item as ConstraintQueueItem;
@@ -89,8 +96,12 @@ export function listQueue(projectPath: string, _params?: ListQueueParams): ListQ
           action: constraintItem.action,
           timestamp: constraintItem.timestamp,
           text: constraintItem.data?.text,
+          layer: constraintItem.data?.layer,
+          tags: constraintItem.data?.tags,
           error: failedItem.error,
           failedAt: failedItem.failedAt,
+          attempts: failedItem.attempts ?? 1,
+          ...(failedItem.nextRetryAt ? { nextRetryAt: failedItem.nextRetryAt } : {}),
         };
       }
     });
@@ -108,5 +119,32 @@ export function listQueue(projectPath: string, _params?: ListQueueParams): ListQ
     response.failedQueuePath = failedQueuePath;
   }
 
+  // Plan candidates awaiting approval (v5.1.0)
+  const { cache, candidates } = loadPendingCandidates(projectPath);
+  if (cache && candidates.length > 0) {
+    response.pendingApproval = candidates.map((c, index) => c.type === 'decision'
+      ? {
+          index,
+          type: 'decision' as const,
+          key: c.candidate.key,
+          value: c.candidate.value,
+          layer: c.candidate.layer,
+          tags: c.candidate.tags,
+          ...(c.candidate.duplicate_warning ? { duplicateWarning: c.candidate.duplicate_warning } : {}),
+        }
+      : {
+          index,
+          type: 'constraint' as const,
+          text: c.candidate.text,
+          category: c.candidate.category,
+          layer: c.candidate.layer,
+          tags: c.candidate.tags,
+          ...(c.candidate.duplicate_warning ? { duplicateWarning: c.candidate.duplicate_warning } : {}),
+        }
+    );
+    response.pendingApprovalCount = candidates.length;
+    response.planFile = cache.plan_file;
+  }
+
   return response;
 }
@@ -0,0 +1,55 @@
+/**
+ * Queue reject action
+ *
+ * Drops plan candidates awaiting approval (ExitPlanMode preview) without
+ * registering them
+ *
+ * @since v5.1.0
+ */
+
+import { loadPendingCandidates, savePendingCandidates, summarizeCandidate } from '../internal/plan-candidates.js';
+import type { RejectQueueParams, RejectQueueResponse } from '../types.js';
+
+/**
+ * Reject one candidate (by index) or all of them
+ *
+ * @param projectPath - Project root path
+ * @param params - Reject parameters (index optional)
+ * @returns Reject result with dropped candidates
+ */
+export function rejectQueue(projectPath: string, params?: RejectQueueParams): RejectQueueResponse {
+  const index = params?.index;
+
+  // Validate index
+  if (index !== undefined && (typeof index !== 'number' || index < 0)) {
+    return failure(`Invalid index: ${index}. Index must be a non-negative number.`);
+  }
+
+  const { cache, candidates } = loadPendingCandidates(projectPath);
+
+  if (!cache || candidates.length === 0) {
+    return { success: true, rejected: [], remainingPending: 0, message: 'No plan candidates awaiting approval.' };
+  }
+
+  if (index !== undefined && index >= candidates.length) {
+    return failure(
+      `Index ${index} is out of range. ${candidates.length} candidate(s) awaiting approval (valid indices: 0-${candidates.length - 1}).`,
+      candidates.length
+    );
+  }
+
+  const rejected = index !== undefined ? [candidates[index]] : candidates;
+  const remaining = candidates.filter(c => !rejected.includes(c));
+  savePendingCandidates(projectPath, cache, remaining);
+
+  return {
+    success: true,
+    rejected: rejected.map(summarizeCandidate),
+    remainingPending: remaining.length,
+    message: `Dropped ${rejected.length} candidate(s). ${remaining.length} candidate(s) awaiting approval.`,
+  };
+}
+
+function failure(message: string, remainingPending: number = -1): RejectQueueResponse {
+  return { success: false, rejected: [], remainingPending, message };
+}
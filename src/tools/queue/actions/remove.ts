@@ -8,7 +8,7 @@
 
 import {
   readQueue,
-  writeQueue,
+  removeQueueItem,
   tryAcquireLock,
   releaseLock,
   DecisionQueueItem,
@@ -61,9 +61,17 @@ export function removeFromQueue(projectPath: string, params: RemoveQueueParams):
       };
     }
 
-    // Remove the item
-    const removedItem = queue.items.splice(index, 1)[0];
-    writeQueue(projectPath, queue, 'queueTool_remove');
+    // Remove the item (null if it was claimed for processing meanwhile)
+    const removedItem = removeQueueItem(projectPath, index);
+    if (!removedItem) {
+      return {
+        success: false,
+        removed: null,
+        remainingCount: readQueue(projectPath).items.length,
+        message: `Item at index ${index} is already being processed. Use 'list' to see the current queue.`,
+      };
+    }
+    const remainingCount = queue.items.length - 1;
 
     // Format removed item for response
     let removed: RemoveQueueResponse['removed'];
@@ -86,8 +94,8 @@ export function removeFromQueue(projectPath: string, params: RemoveQueueParams):
     return {
       success: true,
       removed,
-      remainingCount: queue.items.length,
-      message: `Successfully removed item at index ${index}. ${queue.items.length} item(s) remaining.`,
+      remainingCount,
+      message: `Successfully removed item at index ${index}. ${remainingCount} item(s) remaining.`,
     };
   } finally {
     releaseLock(projectPath);
@@ -0,0 +1,109 @@
+/**
+ * Queue retry action
+ *
+ * Moves failed items (.sqlew/queue/failed.json) back to the pending queue,
+ * optionally patching the item's data first (edit-then-retry)
+ *
+ * @since v5.1.0
+ */
+
+import {
+  readFailedQueue,
+  writeFailedQueue,
+  requeueFailedItems,
+  tryAcquireLock,
+  releaseLock,
+  DecisionQueueItem,
+  ConstraintQueueItem,
+} from '../../../utils/hook-queue.js';
+import { validatePatch, type PatchFieldType } from '../internal/patch-fields.js';
+import type { RetryQueueParams, RetryQueueResponse } from '../types.js';
+
+/** Data fields that can be patched before a retry, per item type */
+const PATCHABLE_FIELDS: Record<'decision' | 'constraint', Record<string, PatchFieldType>> = {
+  decision: {
+    key: 'string', value: 'string', status: 'string', layer: 'string', tags: 'string[]', scopes: 'string[]',
+    rationale: 'string', alternatives_considered: 'string[]', tradeoffs: 'tradeoffs', decided_by: 'string',
+    superseded_by: 'string', reason: 'string',
+  },
+  constraint: { text: 'string', category: 'string', priority: 'string', layer: 'string', tags: 'string[]' },
+};
+
+/**
+ * Retry one failed item (by index) or all of them
+ *
+ * Uses lock mechanism to prevent race conditions with QueueWatcher.
+ * Retried items keep their attempt count.
+ *
+ * @param projectPath - Project root path
+ * @param params - Retry parameters (index and patch optional)
+ * @returns Retry result with retried items
+ */
+export function retryQueue(projectPath: string, params?: RetryQueueParams): RetryQueueResponse {
+  const index = params?.index;
+  const patch = params?.patch;
+
+  // Validate index
+  if (index !== undefined && (typeof index !== 'number' || index < 0)) {
+    return failure(`Invalid index: ${index}. Index must be a non-negative number.`);
+  }
+  if (patch !== undefined && index === undefined) {
+    return failure('Parameter "patch" requires "index": edit one failed item at a time.');
+  }
+  if (patch !== undefined && (patch === null || typeof patch !== 'object' || Array.isArray(patch))) {
+    return failure('Parameter "patch" must be an object of data fields.');
+  }
+
+  // Acquire lock to prevent race conditions
+  if (!tryAcquireLock(projectPath)) {
+    return failure('Cannot retry: another process is currently processing the queue. Please try again.');
+  }
+
+  try {
+    const failedQueue = readFailedQueue(projectPath);
+
+    if (failedQueue.items.length === 0) {
+      return { success: true, retried: [], remainingFailed: 0, message: 'Failed queue is empty.' };
+    }
+
+    if (index !== undefined && index >= failedQueue.items.length) {
+      return failure(
+        `Index ${index} is out of range. Failed queue has ${failedQueue.items.length} item(s) (valid indices: 0-${failedQueue.items.length - 1}).`,
+        failedQueue.items.length
+      );
+    }
+
+    // Edit-then-retry: patch the failed item's data before re-enqueuing
+    if (index !== undefined && patch !== undefined) {
+      const item = failedQueue.items[index].item;
+      const invalid = validatePatch(patch, PATCHABLE_FIELDS[item.type], `${item.type} item`);
+      if (invalid) {
+        return failure(invalid, failedQueue.items.length);
+      }
+      Object.assign(item.data, patch);
+      writeFailedQueue(projectPath, failedQueue);
+    }
+
+    const indices = index !== undefined ? [index] : failedQueue.items.map((_, i) => i);
+    const requeued = requeueFailedItems(projectPath, indices);
+    const remainingFailed = failedQueue.items.length - requeued.length;
+
+    const retried = requeued.map(item => item.type === 'decision'
+      ? { type: 'decision' as const, action: item.action, key: (item as DecisionQueueItem).data.key, attempts: item.attempts ?? 1 }
+      : { type: 'constraint' as const, action: item.action, text: (item as ConstraintQueueItem).data.text, attempts: item.attempts ?? 1 }
+    );
+
+    return {
+      success: true,
+      retried,
+      remainingFailed,
+      message: `Moved ${retried.length} item(s) back to the pending queue. ${remainingFailed} failed item(s) remaining.`,
+    };
+  } finally {
+    releaseLock(projectPath);
+  }
+}
+
+function failure(message: string, remainingFailed: number = -1): RetryQueueResponse {
+  return { success: false, retried: [], remainingFailed, message };
+}
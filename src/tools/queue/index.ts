@@ -1,7 +1,7 @@
 /**
  * Queue tool - Barrel export
  *
- * Manages the hook queue file (.sqlew/queue/pending.json)
+ * Manages the hook queue (pending items in the queue store, .sqlew/queue/failed.json)
  * Help documentation is loaded from src/help-data/queue.toml
  *
  * @since v5.0.0
@@ -11,6 +11,9 @@
 export { listQueue } from './actions/list.js';
 export { clearQueue } from './actions/clear.js';
 export { removeFromQueue } from './actions/remove.js';
+export { retryQueue } from './actions/retry.js';
+export { approveQueue } from './actions/approve.js';
+export { rejectQueue } from './actions/reject.js';
 
 // Type exports
 export type {
@@ -21,6 +24,12 @@ export type {
   ClearQueueResponse,
   RemoveQueueParams,
   RemoveQueueResponse,
+  RetryQueueParams,
+  RetryQueueResponse,
+  ApproveQueueParams,
+  ApproveQueueResponse,
+  RejectQueueParams,
+  RejectQueueResponse,
   QueueItem,
   QueueFile,
   DecisionQueueItem,
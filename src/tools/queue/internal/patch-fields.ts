@@ -0,0 +1,62 @@
+/**
+ * Patch validation for queue.approve and queue.retry
+ *
+ * Patches are merged into plan candidates / failed item data as-is, so each
+ * field must already have the type the queue processor expects (a string
+ * in an array field would be iterated character by character).
+ *
+ * @since v5.1.0
+ */
+
+/** Value type of a patchable field */
+export type PatchFieldType = 'string' | 'string[]' | 'tradeoffs';
+
+const TYPE_DESCRIPTIONS: Record<PatchFieldType, string> = {
+  'string': 'a string',
+  'string[]': 'an array of strings',
+  'tradeoffs': 'a string or a { pros, cons } table of string arrays',
+};
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function matchesType(value: unknown, type: PatchFieldType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'string[]':
+      return isStringArray(value);
+    case 'tradeoffs':
+      return typeof value === 'string' || (
+        value !== null && typeof value === 'object' && !Array.isArray(value) &&
+        Object.entries(value).every(([side, items]) => (side === 'pros' || side === 'cons') && isStringArray(items))
+      );
+  }
+}
+
+/**
+ * Check a patch against the patchable fields of an item type
+ *
+ * @param patch - Fields to merge
+ * @param fields - Patchable fields and their types
+ * @param target - What is patched, for the message (e.g. "decision candidate")
+ * @returns Error message, or null if the patch can be applied
+ */
+export function validatePatch(
+  patch: Record<string, unknown>,
+  fields: Record<string, PatchFieldType>,
+  target: string
+): string | null {
+  const unknown = Object.keys(patch).filter(field => !Object.hasOwn(fields, field));
+  if (unknown.length > 0) {
+    return `Cannot patch ${unknown.join(', ')} on a ${target}. Patchable fields: ${Object.keys(fields).join(', ')}`;
+  }
+
+  const invalid = Object.entries(patch).filter(([field, value]) => !matchesType(value, fields[field]));
+  if (invalid.length > 0) {
+    return `Invalid patch: ${invalid.map(([field]) => `"${field}" must be ${TYPE_DESCRIPTIONS[fields[field]]}`).join('; ')}`;
+  }
+
+  return null;
+}
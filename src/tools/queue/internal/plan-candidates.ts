@@ -0,0 +1,83 @@
+/**
+ * Plan candidates awaiting approval
+ *
+ * Candidates extracted at ExitPlanMode stay in the plan cache until
+ * queue.approve or queue.reject. Indices run over decisions first, then
+ * constraints (same order as the preview message).
+ *
+ * @since v5.1.0
+ */
+
+import {
+  loadPlanCache,
+  savePlanCache,
+  type PlanCache,
+  type DecisionCandidate,
+  type ConstraintCandidate,
+} from '../../../config/global-config.js';
+
+/** A candidate with its type */
+export type PlanCandidate =
+  | { type: 'decision'; candidate: DecisionCandidate }
+  | { type: 'constraint'; candidate: ConstraintCandidate };
+
+/** Pending candidates with the cache they belong to */
+export interface PendingPlanCandidates {
+  cache: PlanCache | null;
+  candidates: PlanCandidate[];
+}
+
+/**
+ * Load candidates awaiting approval (empty if no preview is pending)
+ *
+ * @param projectPath - Project root path
+ * @returns Plan cache and its candidates in index order
+ */
+export function loadPendingCandidates(projectPath: string): PendingPlanCandidates {
+  const cache = loadPlanCache(projectPath);
+  if (!cache?.pending_approval) {
+    return { cache: null, candidates: [] };
+  }
+  return {
+    cache,
+    candidates: [
+      ...(cache.decisions || []).map(candidate => ({ type: 'decision' as const, candidate })),
+      ...(cache.constraints || []).map(candidate => ({ type: 'constraint' as const, candidate })),
+    ],
+  };
+}
+
+/**
+ * Save the candidates still awaiting approval
+ *
+ * Ends the approval stage once none are left, marking the cache as
+ * registered/prompted so Stop hooks don't act on it again.
+ *
+ * @param projectPath - Project root path
+ * @param cache - Plan cache from loadPendingCandidates
+ * @param remaining - Candidates still pending
+ */
+export function savePendingCandidates(projectPath: string, cache: PlanCache, remaining: PlanCandidate[]): void {
+  const decisions = remaining.filter(c => c.type === 'decision').map(c => c.candidate as DecisionCandidate);
+  const constraints = remaining.filter(c => c.type === 'constraint').map(c => c.candidate as ConstraintCandidate);
+  const done = remaining.length === 0;
+
+  savePlanCache(projectPath, {
+    ...cache,
+    decisions,
+    constraints,
+    updated_at: new Date().toISOString(),
+    decisions_registered: done || cache.decisions_registered,
+    constraints_prompted: done || cache.constraints_prompted,
+    pending_approval: !done,
+  });
+}
+
+/**
+ * Short description of a candidate for responses
+ */
+export function summarizeCandidate(c: PlanCandidate): { type: 'decision' | 'constraint'; key?: string; text?: string } {
+  return c.type === 'decision'
+    ? { type: 'decision', key: c.candidate.key }
+    : { type: 'constraint', text: c.candidate.text };
+}
@@ -1,7 +1,7 @@
 /**
  * Queue tool types
  *
- * Types for managing the hook queue file (.sqlew/queue/pending.json)
+ * Types for managing the hook queue (queue store and .sqlew/queue/failed.json)
  *
  * @since v5.0.0
  */
@@ -20,7 +20,7 @@ export type {
 /**
  * Queue tool action types
  */
-export type QueueToolAction = 'list' | 'clear' | 'remove' | 'help' | 'example';
+export type QueueToolAction = 'list' | 'clear' | 'remove' | 'retry' | 'approve' | 'reject' | 'help' | 'example';
 
 /**
  * List action params (no params needed)
@@ -53,11 +53,31 @@ export interface ListQueueResponse {
     timestamp: string;
     key?: string;
     text?: string;
+    layer?: string;
+    tags?: string[];
     error: string;
     failedAt: string;
+    /** Failed processing attempts (v5.1.0) */
+    attempts: number;
+    /** Scheduled automatic retry, if any (v5.1.0) */
+    nextRetryAt?: string;
   }>;
   failedCount?: number;
   failedQueuePath?: string;
+  /** Plan candidates awaiting queue.approve / queue.reject (v5.1.0) */
+  pendingApproval?: Array<{
+    index: number;
+    type: 'decision' | 'constraint';
+    key?: string;
+    value?: string;
+    text?: string;
+    category?: string;
+    layer?: string;
+    tags?: string[];
+    duplicateWarning?: string;
+  }>;
+  pendingApprovalCount?: number;
+  planFile?: string;
 }
 
 /**
@@ -101,3 +121,78 @@ export interface RemoveQueueResponse {
   remainingCount: number;
   message: string;
 }
+
+/**
+ * Retry action params (v5.1.0)
+ */
+export interface RetryQueueParams {
+  /** Failed queue index to retry (default: all failed items) */
+  index?: number;
+  /** Data fields to change before retrying (requires index), e.g. { layer: "business" } */
+  patch?: Record<string, unknown>;
+  projectPath?: string;
+}
+
+/**
+ * Retry action response (v5.1.0)
+ */
+export interface RetryQueueResponse {
+  success: boolean;
+  retried: Array<{
+    type: 'decision' | 'constraint';
+    action: string;
+    key?: string;
+    text?: string;
+    attempts: number;
+  }>;
+  remainingFailed: number;
+  message: string;
+}
+
+/**
+ * Approve action params (v5.1.0)
+ */
+export interface ApproveQueueParams {
+  /** Candidate index to approve (default: all candidates) */
+  index?: number;
+  /** Candidate fields to change before approving (requires index), e.g. { key: "auth/jwt" } */
+  patch?: Record<string, unknown>;
+  projectPath?: string;
+}
+
+/**
+ * Approve action response (v5.1.0)
+ */
+export interface ApproveQueueResponse {
+  success: boolean;
+  approved: Array<{
+    type: 'decision' | 'constraint';
+    key?: string;
+    text?: string;
+  }>;
+  remainingPending: number;
+  message: string;
+}
+
+/**
+ * Reject action params (v5.1.0)
+ */
+export interface RejectQueueParams {
+  /** Candidate index to drop (default: all candidates) */
+  index?: number;
+  projectPath?: string;
+}
+
+/**
+ * Reject action response (v5.1.0)
+ */
+export interface RejectQueueResponse {
+  success: boolean;
+  rejected: Array<{
+    type: 'decision' | 'constraint';
+    key?: string;
+    text?: string;
+  }>;
+  remainingPending: number;
+  message: string;
+}
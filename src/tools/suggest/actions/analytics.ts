@@ -0,0 +1,48 @@
+/**
+ * Suggestion Analytics
+ *
+ * Reports suggestion precision (accepted / all suggest.feedback signals),
+ * overall and per day, week or month (v5.1.0).
+ */
+
+import type { Knex } from 'knex';
+import { getAdapter } from '../../../database/index.js';
+import { suggestionPrecision, type FeedbackBucket } from '../../../utils/suggest-feedback.js';
+import type { AnalyticsResponse, SuggestTarget } from '../types.js';
+
+export interface AnalyticsParams {
+  target?: SuggestTarget;  // Default: both targets
+  bucket?: FeedbackBucket;  // Default: 'week'
+  start_ts?: number;  // Unix seconds
+  end_ts?: number;  // Unix seconds
+  knex?: Knex;  // Optional transaction context
+}
+
+const BUCKETS: ReadonlyArray<FeedbackBucket> = ['day', 'week', 'month'];
+
+/**
+ * Precision of suggestions over time
+ *
+ * @param params - Target filter, bucket size and time range
+ * @returns Overall precision and one entry per bucket with signals
+ */
+export async function suggestAnalytics(params: AnalyticsParams): Promise<AnalyticsResponse> {
+  const bucket = params.bucket ?? 'week';
+  if (!BUCKETS.includes(bucket)) {
+    throw new Error(`Invalid bucket: ${bucket}. Must be one of: ${BUCKETS.join(', ')}`);
+  }
+
+  const knex = params.knex || getAdapter().getKnex();
+  const result = await suggestionPrecision(knex, {
+    target: params.target,
+    bucket,
+    startTs: params.start_ts,
+    endTs: params.end_ts,
+  });
+
+  return {
+    target: params.target ?? 'all',
+    bucket,
+    ...result,
+  };
+}
@@ -1,21 +1,29 @@
 /**
  * Suggest by Full Context
  *
- * Hybrid scoring combining key similarity, tags, layer, and priority.
- * Used by auto-trigger suggestions feature.
+ * Hybrid scoring combining key similarity, tags, layer, scopes and priority.
+ * Used by auto-trigger suggestions feature. With embeddings enabled, key
+ * and value are also compared semantically (v5.1.0).
  */
 
 import type { Knex } from 'knex';
 import { getAdapter } from '../../../database/index.js';
-import { transformAndScoreDecisions } from '../../../utils/suggest-helpers.js';
+import {
+  transformAndScoreDecisions,
+  decisionSemanticSimilarities,
+  decisionEmbeddingText,
+} from '../../../utils/suggest-helpers.js';
 import type { SuggestionContext } from '../../../utils/suggestion-scorer.js';
-import { buildContextQuery } from '../internal/queries.js';
+import { feedbackAdjustments } from '../../../utils/suggest-feedback.js';
+import { buildContextQuery, loadDecisionScopes } from '../internal/queries.js';
 import type { SuggestResponse, DecisionCandidate } from '../types.js';
 
 export interface ByContextParams {
   key: string;
+  value?: string | number;  // Optional: improves semantic similarity (v5.1.0)
   tags?: string[];
   layer?: string;
+  scopes?: string[];  // Optional: scored by scope overlap (v5.1.0)
   priority?: number;
   limit?: number;
   min_score?: number;
@@ -48,20 +56,30 @@ export async function suggestByContext(params: ByContextParams): Promise<Suggest
     tags: params.tags ?? [],
     layer: params.layer,
     priority: params.priority,
+    scopes: params.scopes,
   };
 
   // Use lower default threshold (20) for context searches without tags/layer
   // Key similarity max is 20 points, so default 30 may filter valid matches
+  const queryText = params.value !== undefined && params.value !== ''
+    ? decisionEmbeddingText(params.key, params.value)
+    : params.key;
+
   const suggestions = transformAndScoreDecisions(candidates, context, {
     minScore: params.min_score ?? 20,
     limit: params.limit,
+    semantic: await decisionSemanticSimilarities(knex, queryText, candidates),
+    scopes: params.scopes && params.scopes.length > 0 ? await loadDecisionScopes(knex) : undefined,
+    feedback: await feedbackAdjustments(knex, 'decision', params.key),
   });
 
   return {
     query: {
       key: params.key,
+      value: params.value,
       tags: params.tags,
       layer: params.layer,
+      scopes: params.scopes,
       priority: params.priority,
     },
     count: suggestions.length,
@@ -2,12 +2,14 @@
  * Suggest by Key Pattern
  *
  * Uses Levenshtein distance and common prefix matching
- * to find similar decision keys.
+ * to find similar decision keys, plus semantic similarity
+ * when embeddings are enabled (v5.1.0).
  */
 
 import { getAdapter } from '../../../database/index.js';
-import { transformAndScoreDecisions } from '../../../utils/suggest-helpers.js';
+import { transformAndScoreDecisions, decisionSemanticSimilarities } from '../../../utils/suggest-helpers.js';
 import type { SuggestionContext } from '../../../utils/suggestion-scorer.js';
+import { feedbackAdjustments } from '../../../utils/suggest-feedback.js';
 import { buildDecisionQuery } from '../internal/queries.js';
 import type { SuggestResponse, DecisionCandidate } from '../types.js';
 
@@ -45,6 +47,8 @@ export async function suggestByKey(params: ByKeyParams): Promise<SuggestResponse
   const suggestions = transformAndScoreDecisions(candidates, context, {
     minScore: params.min_score ?? 20,
     limit: params.limit,
+    semantic: await decisionSemanticSimilarities(knex, params.key, candidates),
+    feedback: await feedbackAdjustments(knex, 'decision', params.key),
   });
 
   return {
@@ -1,26 +1,39 @@
 /**
  * Check for Duplicate Decisions
  *
- * Detects exact matches or high similarity scores
- * to prevent duplicate decision creation.
+ * Detects exact key matches, then compares key, value, tags and rationale
+ * with existing decisions (v5.1.0) to prevent duplicate decision creation.
  */
 
 import { getAdapter } from '../../../database/index.js';
-import { checkExactMatch } from '../internal/queries.js';
-import { suggestByKey } from './by-key.js';
-import type { CheckDuplicateResponse } from '../types.js';
+import { parseGroupConcatTags } from '../../../utils/tag-parser.js';
+import { decisionEmbeddingText, decisionSemanticSimilarities } from '../../../utils/suggest-helpers.js';
+import { checkExactMatch, buildContextQuery, loadLatestRationales } from '../internal/queries.js';
+import { analyzeDuplicate, rankDuplicateMatches, textSimilarity } from '../internal/duplicate-analysis.js';
+import type { CheckDuplicateResponse, DecisionCandidate, DuplicateMatch } from '../types.js';
 
 export interface CheckDuplicateParams {
   key: string;
+  value?: string | number;  // v5.1.0: compared with existing values
+  tags?: string[];  // v5.1.0: compared with existing tags
+  rationale?: string;  // v5.1.0: compared with existing rationales
 }
 
+/** Matches returned at most */
+const MAX_MATCHES = 5;
+
+/** Exact-key value similarity below which the values are considered different */
+const SAME_VALUE_THRESHOLD = 0.8;
+
 /**
- * Check if a key already exists (duplicate detection)
+ * Check if a decision already exists (duplicate detection)
  *
- * Returns exact match if found, otherwise checks for similar keys.
+ * Returns the exact key match if found. Otherwise every active decision is
+ * compared field by field and the strongest verdict wins:
+ * near-duplicate > conflicting > related > none.
  *
- * @param params - Parameters with key to check
- * @returns Duplicate detection result with recommendation
+ * @param params - Key to check, plus optional value, tags and rationale
+ * @returns Duplicate detection result with verdict, explanation and recommendation
  */
 export async function checkDuplicate(params: CheckDuplicateParams): Promise<CheckDuplicateResponse> {
   if (!params.key) {
@@ -29,36 +42,74 @@ export async function checkDuplicate(params: CheckDuplicateParams): Promise<Chec
 
   const adapter = getAdapter();
   const knex = adapter.getKnex();
+  const hasValue = params.value !== undefined && String(params.value).trim() !== '';
 
   // Check exact match first
   const exact = await checkExactMatch(knex, params.key);
 
   if (exact) {
+    const existing_decision = {
+      key: exact.key,
+      value: exact.value,
+      version: exact.version,
+    };
+
+    if (hasValue && textSimilarity(String(params.value), String(exact.value)) < SAME_VALUE_THRESHOLD) {
+      return {
+        is_duplicate: true,
+        match_type: 'exact',
+        verdict: 'conflicting',
+        explanation: `Key "${exact.key}" already exists with a different value: ${exact.value}`,
+        existing_decision,
+        recommendation: 'Update the existing decision (with rationale) if the choice changed',
+      };
+    }
+
     return {
       is_duplicate: true,
       match_type: 'exact',
-      existing_decision: {
-        key: exact.key,
-        value: exact.value,
-        version: exact.version,
-      },
+      verdict: 'exact',
+      explanation: hasValue
+        ? `Key "${exact.key}" already exists with the same value`
+        : `Key "${exact.key}" already exists`,
+      existing_decision,
       recommendation: 'Update existing decision instead of creating new one',
     };
   }
 
-  // Check similar keys with high similarity threshold
-  const similar = await suggestByKey({
-    key: params.key,
-    limit: 1,
-    min_score: 70,  // High threshold for duplicate detection
-  });
+  // Compare with every other active decision
+  const candidates = await buildContextQuery(knex, undefined, params.key) as DecisionCandidate[];
+  const rationales = params.rationale ? await loadLatestRationales(knex) : new Map<number, string>();
+  const semantic = hasValue
+    ? await decisionSemanticSimilarities(knex, decisionEmbeddingText(params.key, params.value!), candidates)
+    : undefined;
+
+  const matches = rankDuplicateMatches(
+    candidates
+      .map(c => analyzeDuplicate(
+        params,
+        { key: c.key, value: c.value, tags: parseGroupConcatTags(c.tags), rationale: rationales.get(c.key_id) },
+        semantic?.get(c.key_id)
+      ))
+      .filter((m): m is DuplicateMatch => m.verdict !== 'none')
+  ).slice(0, MAX_MATCHES);
 
-  if (similar.count > 0) {
+  if (matches.length > 0) {
+    const top = matches[0];
     return {
-      is_duplicate: false,
+      is_duplicate: top.verdict === 'near-duplicate',
       match_type: 'similar',
-      similar_decisions: similar.suggestions,
-      recommendation: 'Review similar decisions before creating new one',
+      verdict: top.verdict,
+      explanation: `${VERDICT_LABELS[top.verdict]} "${top.key}": ${top.explanation}`,
+      matches,
+      similar_decisions: matches.map(m => ({
+        key: m.key,
+        value: m.value,
+        score: m.similarity,
+        reason: m.explanation,
+        score_breakdown: { ...m.fields },
+      })),
+      recommendation: RECOMMENDATIONS[top.verdict](top.key),
     };
   }
 
@@ -66,6 +117,22 @@ export async function checkDuplicate(params: CheckDuplicateParams): Promise<Chec
   return {
     is_duplicate: false,
     match_type: 'none',
+    verdict: 'none',
+    explanation: 'No decision with a similar key, value, tags or rationale',
     recommendation: 'No duplicates found, safe to create new decision',
   };
 }
+
+const VERDICT_LABELS: Record<DuplicateMatch['verdict'], string> = {
+  'exact': 'Same as',
+  'near-duplicate': 'Near-duplicate of',
+  'conflicting': 'Conflicts with',
+  'related': 'Related to',
+};
+
+const RECOMMENDATIONS: Record<DuplicateMatch['verdict'], (key: string) => string> = {
+  'exact': () => 'Update existing decision instead of creating new one',
+  'near-duplicate': (key) => `Reuse or update "${key}" instead of recording the same choice under a new key`,
+  'conflicting': (key) => `"${key}" records a different choice for the same topic. Update or deprecate one of them`,
+  'related': () => 'Review similar decisions before creating new one',
+};
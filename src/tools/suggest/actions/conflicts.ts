@@ -0,0 +1,138 @@
+/**
+ * Find Contradicting Constraints and Decisions
+ *
+ * Compares a decision value with active constraints and decisions that share
+ * its layer, tags or scopes, and reports the ones whose text opposes it
+ * (negation and antonym heuristics, v5.1.0).
+ */
+
+import type { Knex } from 'knex';
+import { getAdapter } from '../../../database/index.js';
+import { parseGroupConcatTags } from '../../../utils/tag-parser.js';
+import { detectContradiction } from '../../../utils/contradiction-detector.js';
+import { scopeApplies } from '../../constraints/internal/scopes.js';
+import { buildContextQuery, loadDecisionScopes } from '../internal/queries.js';
+import {
+  buildConstraintQuery,
+  loadConstraintScopes,
+  parseConstraintTags,
+  type ConstraintCandidate,
+} from '../internal/constraint-queries.js';
+import type { ConflictsResponse, DecisionCandidate } from '../types.js';
+import type { DecisionConflict } from '../../../types.js';
+
+export interface ConflictsParams {
+  key?: string;
+  value: string | number;
+  tags?: string[];
+  layer?: string;
+  scopes?: string[];
+  limit?: number;
+  knex?: Knex;  // Optional transaction context
+}
+
+/** Default number of conflicts returned */
+const DEFAULT_LIMIT = 5;
+
+/**
+ * Layer, tags and scopes a candidate shares with the decision
+ * @returns Shared context, or null when nothing is shared
+ */
+function sharedContext(
+  params: ConflictsParams,
+  candidate: { layer: string | null; tags: string[]; scopes: string[] }
+): DecisionConflict['shared'] | null {
+  const layer = params.layer && candidate.layer === params.layer ? params.layer : undefined;
+  const tags = (params.tags ?? []).filter(tag => candidate.tags.includes(tag));
+  // Either side may be the broader scope ("billing" and "billing/invoices")
+  const scopes = candidate.scopes.filter(scope =>
+    (params.scopes ?? []).some(target => scopeApplies(scope, target) || scopeApplies(target, scope))
+  );
+
+  if (!layer && tags.length === 0 && scopes.length === 0) {
+    return null;
+  }
+
+  return {
+    ...(layer && { layer }),
+    ...(tags.length > 0 && { tags }),
+    ...(scopes.length > 0 && { scopes }),
+  };
+}
+
+/** Number of shared layer / tag / scope entries (more shared context ranks first) */
+const sharedWeight = (shared: DecisionConflict['shared']) =>
+  (shared.layer ? 1 : 0) + (shared.tags?.length ?? 0) + (shared.scopes?.length ?? 0);
+
+/**
+ * Find constraints and decisions that contradict a decision value
+ *
+ * Only active constraints and decisions sharing the layer, a tag or a scope
+ * are compared. The decision itself (same key) is skipped.
+ *
+ * @param params - Decision value with its key, layer, tags and scopes
+ * @returns Conflicts, constraints first, most shared context first
+ */
+export async function suggestConflicts(params: ConflictsParams): Promise<ConflictsResponse> {
+  if (params.value === undefined || params.value === null || String(params.value).trim() === '') {
+    throw new Error('Missing required parameter: value');
+  }
+
+  const knex = params.knex || getAdapter().getKnex();
+  const limit = params.limit ?? DEFAULT_LIMIT;
+  const query = { topic: params.key, text: String(params.value) };
+  const conflicts: DecisionConflict[] = [];
+
+  // Constraints
+  const constraints = await buildConstraintQuery(knex, { distinct: true }) as ConstraintCandidate[];
+  const constraintScopes = await loadConstraintScopes(knex);
+  for (const c of constraints) {
+    const shared = sharedContext(params, {
+      layer: c.layer,
+      tags: parseConstraintTags(c.tags),
+      scopes: constraintScopes.get(c.constraint_id) ?? [],
+    });
+    if (!shared) continue;
+
+    const contradiction = detectContradiction(query, { text: c.constraint_text });
+    if (contradiction) {
+      conflicts.push({ type: 'constraint', id: c.constraint_id, text: c.constraint_text, ...contradiction, shared });
+    }
+  }
+
+  // Decisions
+  const decisions = await buildContextQuery(knex, undefined, params.key) as DecisionCandidate[];
+  const decisionScopes = await loadDecisionScopes(knex);
+  for (const d of decisions) {
+    const shared = sharedContext(params, {
+      layer: d.layer,
+      tags: parseGroupConcatTags(d.tags),
+      scopes: decisionScopes.get(d.key_id) ?? [],
+    });
+    if (!shared) continue;
+
+    const contradiction = detectContradiction(query, { topic: d.key, text: String(d.value) });
+    if (contradiction) {
+      conflicts.push({ type: 'decision', key: d.key, text: String(d.value), ...contradiction, shared });
+    }
+  }
+
+  const ranked = conflicts
+    .sort((a, b) =>
+      (a.type === b.type ? 0 : a.type === 'constraint' ? -1 : 1)
+      || sharedWeight(b.shared) - sharedWeight(a.shared)
+    )
+    .slice(0, limit);
+
+  return {
+    query: {
+      ...(params.key && { key: params.key }),
+      value: params.value,
+      ...(params.tags && params.tags.length > 0 && { tags: params.tags }),
+      ...(params.layer && { layer: params.layer }),
+      ...(params.scopes && params.scopes.length > 0 && { scopes: params.scopes }),
+    },
+    count: ranked.length,
+    conflicts: ranked,
+  };
+}
@@ -9,12 +9,15 @@ import type { Knex } from 'knex';
 import { getAdapter } from '../../../database/index.js';
 import {
   buildConstraintQuery,
+  loadConstraintScopes,
   type ConstraintCandidate as QueryConstraintCandidate,
 } from '../internal/constraint-queries.js';
 import {
   transformAndScoreConstraints,
+  constraintSemanticSimilarities,
   parseConstraintTags,
 } from '../../../utils/suggest-helpers.js';
+import { feedbackAdjustments } from '../../../utils/suggest-feedback.js';
 import type {
   ConstraintScoringContext,
   ScoreBreakdown,
@@ -28,6 +31,7 @@ export interface ConstraintByContextParams {
   text?: string;
   tags?: string[];
   layer?: string;
+  scopes?: string[];  // Optional: scored by scope overlap (v5.1.0)
   priority?: number;
   limit?: number;
   min_score?: number;
@@ -57,6 +61,7 @@ export interface ConstraintSuggestResponse {
     text?: string;
     tags?: string[];
     layer?: string;
+    scopes?: string[];
     priority?: number;
   };
   count: number;
@@ -73,10 +78,15 @@ export interface ConstraintSuggestResponse {
  * Scoring breakdown (100 points max):
  * - Tag overlap: 40 points (10 per matching tag, max 4)
  * - Layer match: 25 points
- * - Text similarity: 20 points (Levenshtein distance)
+ * - Text similarity: 20 points (Levenshtein distance, or semantic
+ *   similarity when embeddings are enabled and it scores higher)
+ * - Scope overlap: 0 points (v5.1.0, share of the query scopes covered)
  * - Recency: 10 points
  * - Priority: 5 points
  *
+ * Points are the default weights; projects can change them with
+ * [suggest.weights] (v5.1.0).
+ *
  * @param params - Full context parameters
  * @returns Suggestions ranked by hybrid score
  */
@@ -84,8 +94,8 @@ export async function constraintByContext(
   params: ConstraintByContextParams
 ): Promise<ConstraintSuggestResponse> {
   // At least one search criteria must be provided
-  if (!params.text && (!params.tags || params.tags.length === 0) && !params.layer) {
-    throw new Error('At least one search criteria (text, tags, or layer) must be provided');
+  if (!params.text && (!params.tags || params.tags.length === 0) && !params.layer && (!params.scopes || params.scopes.length === 0)) {
+    throw new Error('At least one search criteria (text, tags, layer, or scopes) must be provided');
   }
 
   // Use provided knex (transaction context) or get adapter
@@ -107,11 +117,15 @@ export async function constraintByContext(
     tags: params.tags ?? [],
     layer: params.layer,
     priority: params.priority,
+    scopes: params.scopes,
   };
 
   const suggestions = transformAndScoreConstraints(candidates, context, {
     minScore: params.min_score,
     limit: params.limit,
+    semantic: await constraintSemanticSimilarities(knex, context.text, candidates),
+    scopes: params.scopes && params.scopes.length > 0 ? await loadConstraintScopes(knex) : undefined,
+    feedback: context.text ? await feedbackAdjustments(knex, 'constraint', context.text) : undefined,
   });
 
   // Map to include ts from original candidates
@@ -122,6 +136,7 @@ export async function constraintByContext(
       text: params.text,
       tags: params.tags,
       layer: params.layer,
+      scopes: params.scopes,
       priority: params.priority,
     },
     count: suggestions.length,
@@ -2,7 +2,8 @@
  * Constraint Suggest by Text Pattern
  *
  * Uses Levenshtein distance to find similar constraints
- * based on constraint_text similarity.
+ * based on constraint_text similarity, plus semantic similarity
+ * when embeddings are enabled (v5.1.0).
  */
 
 import { getAdapter } from '../../../database/index.js';
@@ -10,7 +11,11 @@ import {
   buildConstraintQuery,
   type ConstraintCandidate as QueryConstraintCandidate,
 } from '../internal/constraint-queries.js';
-import { transformAndScoreConstraints } from '../../../utils/suggest-helpers.js';
+import {
+  transformAndScoreConstraints,
+  constraintSemanticSimilarities,
+} from '../../../utils/suggest-helpers.js';
+import { feedbackAdjustments } from '../../../utils/suggest-feedback.js';
 import type {
   ConstraintScoringContext,
   ScoreBreakdown,
@@ -88,6 +93,8 @@ export async function constraintByText(
   const suggestions = transformAndScoreConstraints(candidates, context, {
     minScore: params.min_score,
     limit: params.limit,
+    semantic: await constraintSemanticSimilarities(knex, context.text, candidates),
+    feedback: await feedbackAdjustments(knex, 'constraint', context.text),
   });
 
   return {
@@ -0,0 +1,121 @@
+/**
+ * Explain Suggestion Ranking
+ *
+ * Runs the by_context scoring for a query without the score threshold and
+ * returns every ranked candidate with its per-component points and the
+ * project's weights (v5.1.0). Used to tune [suggest.weights].
+ */
+
+import type { Knex } from 'knex';
+import { getSuggestWeights, SUGGEST_WEIGHT_KEYS, type SuggestWeights } from '../../../utils/suggest-weights.js';
+import { suggestByContext } from './by-context.js';
+import { constraintByContext } from './constraint-by-context.js';
+import type { ExplainEntry, ExplainResponse, SuggestTarget } from '../types.js';
+
+export interface ExplainParams {
+  target?: SuggestTarget;
+  key?: string;
+  value?: string | number;
+  text?: string;
+  constraint_text?: string;
+  tags?: string[];
+  layer?: string;
+  scopes?: string[];
+  priority?: number;
+  limit?: number;
+  min_score?: number;
+  knex?: Knex;  // Optional transaction context
+}
+
+/** Candidates explained by default */
+const DEFAULT_LIMIT = 10;
+
+/** by_context default thresholds */
+const DEFAULT_MIN_SCORE: Record<SuggestTarget, number> = {
+  decision: 20,
+  constraint: 30,
+};
+
+/**
+ * Weights rounded for display (one decimal)
+ */
+function roundWeights(weights: SuggestWeights): SuggestWeights {
+  const rounded = { ...weights };
+  for (const key of SUGGEST_WEIGHT_KEYS) {
+    rounded[key] = Math.round(weights[key] * 10) / 10;
+  }
+  return rounded;
+}
+
+/**
+ * Explain the by_context ranking of a query under the current weights
+ *
+ * @param params - by_context query (key for decisions, text for constraints)
+ * @returns Ranked candidates with score breakdowns, weights and the threshold
+ */
+export async function suggestExplain(params: ExplainParams): Promise<ExplainResponse> {
+  const target: SuggestTarget = params.target ?? 'decision';
+  const weights = getSuggestWeights();
+  const minScore = params.min_score ?? DEFAULT_MIN_SCORE[target];
+  const limit = params.limit ?? DEFAULT_LIMIT;
+
+  let query: Record<string, unknown>;
+  let ranking: ExplainEntry[];
+
+  if (target === 'constraint') {
+    const result = await constraintByContext({
+      text: params.text ?? params.constraint_text,
+      tags: params.tags,
+      layer: params.layer,
+      scopes: params.scopes,
+      priority: params.priority,
+      limit,
+      min_score: 0,
+      knex: params.knex,
+    });
+    query = result.query;
+    ranking = result.suggestions.map((s, i) => ({
+      rank: i + 1,
+      id: s.id,
+      constraint_text: s.constraint_text,
+      score: s.score,
+      above_min_score: s.score >= minScore,
+      reason: s.reason,
+      score_breakdown: { ...s.score_breakdown },
+    }));
+  } else {
+    if (!params.key) {
+      throw new Error('Missing required parameter: key');
+    }
+    const result = await suggestByContext({
+      key: params.key,
+      value: params.value,
+      tags: params.tags,
+      layer: params.layer,
+      scopes: params.scopes,
+      priority: params.priority,
+      limit,
+      min_score: 0,
+      knex: params.knex,
+    });
+    query = result.query;
+    ranking = result.suggestions.map((s, i) => ({
+      rank: i + 1,
+      key: s.key,
+      value: s.value,
+      score: s.score,
+      above_min_score: s.score >= minScore,
+      reason: s.reason,
+      score_breakdown: s.score_breakdown,
+    }));
+  }
+
+  return {
+    target,
+    query,
+    weights: roundWeights(weights),
+    min_score: minScore,
+    count: ranking.length,
+    ranking,
+  };
+}
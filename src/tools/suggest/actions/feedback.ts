@@ -0,0 +1,98 @@
+/**
+ * Record Suggestion Feedback
+ *
+ * Records that a suggested decision or constraint was accepted or rejected
+ * for a query (v5.1.0). by_key, by_context and explain boost accepted pairs
+ * and penalize rejected ones the next time the same query is scored.
+ */
+
+import type { Knex } from 'knex';
+import { getAdapter } from '../../../database/index.js';
+import { getProjectContext } from '../../../utils/project-context.js';
+import {
+  recordSuggestFeedback,
+  loadPairFeedback,
+  feedbackPoints,
+} from '../../../utils/suggest-feedback.js';
+import { findDecisionKeyId } from '../../context/internal/relations.js';
+import type { FeedbackResponse, SuggestTarget } from '../types.js';
+
+export interface FeedbackParams {
+  target?: SuggestTarget;
+  key?: string;  // Query decision key (target 'decision')
+  text?: string;  // Query constraint text (target 'constraint')
+  constraint_text?: string;  // Alias for text
+  suggested_key?: string;  // Suggested decision key (target 'decision')
+  suggested_id?: number;  // Suggested constraint ID (target 'constraint')
+  accepted?: boolean;
+  knex?: Knex;  // Optional transaction context
+}
+
+/**
+ * Record an accept / reject signal for a suggested pair
+ *
+ * @param params - Query, suggested item and the signal
+ * @returns Recorded pair with its feedback totals and current score adjustment
+ */
+export async function suggestFeedback(params: FeedbackParams): Promise<FeedbackResponse> {
+  const target: SuggestTarget = params.target ?? 'decision';
+  const knex = params.knex || getAdapter().getKnex();
+  const projectId = getProjectContext().getProjectId();
+
+  if (typeof params.accepted !== 'boolean') {
+    throw new Error('Missing required parameter: accepted (true or false)');
+  }
+
+  let query: string | undefined;
+  let suggestedId: number;
+  let suggested: string | number;
+
+  if (target === 'constraint') {
+    query = params.text ?? params.constraint_text;
+    if (!query) {
+      throw new Error('Missing required parameter: text');
+    }
+    if (params.suggested_id === undefined) {
+      throw new Error('Missing required parameter: suggested_id');
+    }
+
+    const constraint = await knex('t_constraints')
+      .where('id', params.suggested_id)
+      .where('project_id', projectId)
+      .first('id');
+    if (!constraint) {
+      throw new Error(`Constraint not found: ${params.suggested_id}`);
+    }
+    suggestedId = params.suggested_id;
+    suggested = params.suggested_id;
+  } else {
+    query = params.key;
+    if (!query) {
+      throw new Error('Missing required parameter: key');
+    }
+    if (!params.suggested_key) {
+      throw new Error('Missing required parameter: suggested_key');
+    }
+
+    const keyId = await findDecisionKeyId(knex, projectId, params.suggested_key);
+    if (keyId === null) {
+      throw new Error(`Decision not found: ${params.suggested_key}`);
+    }
+    suggestedId = keyId;
+    suggested = params.suggested_key;
+  }
+
+  await recordSuggestFeedback(knex, target, query, suggestedId, params.accepted);
+
+  const totals = (await loadPairFeedback(knex, target, query)).get(suggestedId) ?? { accepted: 0, rejected: 0 };
+
+  return {
+    success: true,
+    target,
+    query,
+    suggested,
+    accepted: params.accepted,
+    totals,
+    adjustment: feedbackPoints(totals),
+  };
+}
@@ -31,8 +31,10 @@ export function getSuggestHelp(): any {
         description: 'Hybrid scoring with key, tags, layer, priority',
         params: {
           key: 'Required: Decision key',
+          value: 'Optional: Decision value (semantic similarity)',
           tags: 'Optional: Array of tags',
           layer: 'Optional: Layer name',
+          scopes: 'Optional: Array of scopes (scope overlap)',
           priority: 'Optional: Priority level',
           limit: 'Optional: Max suggestions (default: 5)',
           min_score: 'Optional: Minimum relevance score (default: 30)',
@@ -40,9 +42,59 @@ export function getSuggestHelp(): any {
       },
       {
         action: 'check_duplicate',
-        description: 'Check if key already exists or is very similar',
+        description: 'Check if a decision already exists (verdict: exact, near-duplicate, conflicting, related, none)',
         params: {
           key: 'Required: Decision key to check',
+          value: 'Optional: Proposed value (compared with existing values)',
+          tags: 'Optional: Proposed tags',
+          rationale: 'Optional: Proposed rationale',
+        },
+      },
+      {
+        action: 'conflicts',
+        description: 'Find active constraints and decisions sharing the layer, tags or scopes whose text contradicts a value',
+        params: {
+          value: 'Required: Decision value to check',
+          key: 'Optional: Decision key (skipped when comparing decisions)',
+          tags: 'Optional: Array of tags',
+          layer: 'Optional: Layer name',
+          scopes: 'Optional: Array of scopes',
+          limit: 'Optional: Max conflicts (default: 5)',
+        },
+      },
+      {
+        action: 'explain',
+        description: 'Show the by_context ranking of a query with per-component points under the current [suggest.weights]',
+        params: {
+          key: 'Required for decisions: Decision key',
+          text: 'Constraint text (target=constraint)',
+          value: 'Optional: Decision value',
+          tags: 'Optional: Array of tags',
+          layer: 'Optional: Layer name',
+          scopes: 'Optional: Array of scopes',
+          limit: 'Optional: Max ranked candidates (default: 10)',
+          min_score: 'Optional: Threshold to mark (default: by_context threshold)',
+        },
+      },
+      {
+        action: 'feedback',
+        description: 'Record that a suggestion was accepted or rejected (boosts or penalizes the pair in later by_key/by_context scores)',
+        params: {
+          key: 'Required for decisions: Decision key the suggestion was made for',
+          suggested_key: 'Required for decisions: Suggested decision key',
+          text: 'Required for constraints: Constraint text the suggestion was made for',
+          suggested_id: 'Required for constraints: Suggested constraint ID',
+          accepted: 'Required: true (accepted) or false (rejected)',
+        },
+      },
+      {
+        action: 'analytics',
+        description: 'Suggestion precision (accepted / all feedback) overall and over time',
+        params: {
+          target: 'Optional: decision or constraint (default: both)',
+          bucket: 'Optional: day, week or month (default: week)',
+          start_ts: 'Optional: Start time (Unix seconds)',
+          end_ts: 'Optional: End time (Unix seconds)',
         },
       },
     ],
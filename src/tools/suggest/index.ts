@@ -10,16 +10,20 @@ import { suggestByKey } from './actions/by-key.js';
 import { suggestByTags } from './actions/by-tags.js';
 import { suggestByContext } from './actions/by-context.js';
 import { checkDuplicate } from './actions/check-duplicate.js';
+import { suggestConflicts } from './actions/conflicts.js';
+import { suggestExplain } from './actions/explain.js';
+import { suggestFeedback } from './actions/feedback.js';
+import { suggestAnalytics } from './actions/analytics.js';
 // Constraint suggest actions
 // Note: constraintByText is not used directly - by_key falls through to constraintByContext
 import { constraintByTags } from './actions/constraint-by-tags.js';
 import { constraintByContext } from './actions/constraint-by-context.js';
 import { constraintCheckDuplicate } from './actions/constraint-check-duplicate.js';
 import { getSuggestHelp } from './help/help.js';
-import type { SuggestParams, SuggestResponse, CheckDuplicateResponse, SuggestTarget } from './types.js';
+import type { SuggestParams, SuggestResponse, CheckDuplicateResponse, ConflictsResponse, ExplainResponse, FeedbackResponse, AnalyticsResponse, SuggestTarget } from './types.js';
 
 // Re-export types for external use
-export type { SuggestParams, SuggestResponse, CheckDuplicateResponse, SuggestTarget } from './types.js';
+export type { SuggestParams, SuggestResponse, CheckDuplicateResponse, ConflictsResponse, ExplainResponse, FeedbackResponse, AnalyticsResponse, SuggestTarget } from './types.js';
 
 /**
  * Handle constraint suggest actions
@@ -41,6 +45,7 @@ async function handleConstraintAction(params: SuggestParams): Promise<any> {
         text: text,
         tags: params.tags,
         layer: params.layer,
+        scopes: params.scopes,
         priority: params.priority,
         limit: params.limit,
         min_score: params.min_score,
@@ -95,8 +100,10 @@ async function handleDecisionAction(params: SuggestParams): Promise<any> {
     case 'by_context':
       return await suggestByContext({
         key: params.key!,
+        value: params.value,
         tags: params.tags,
         layer: params.layer,
+        scopes: params.scopes,
         priority: params.priority,
         limit: params.limit,
         min_score: params.min_score,
@@ -106,6 +113,9 @@ async function handleDecisionAction(params: SuggestParams): Promise<any> {
     case 'check_duplicate':
       return await checkDuplicate({
         key: params.key!,
+        value: params.value,
+        tags: params.tags,
+        rationale: params.rationale,
       });
 
     case 'help':
@@ -130,6 +140,40 @@ export async function handleSuggestAction(
 ): Promise<any> {
   const target: SuggestTarget = params.target ?? 'decision';
 
+  // Conflicts compare a decision with both constraints and decisions (v5.1.0)
+  if (params.action === 'conflicts') {
+    return await suggestConflicts({
+      key: params.key,
+      value: (params.value ?? params.text)!,
+      tags: params.tags,
+      layer: params.layer,
+      scopes: params.scopes,
+      limit: params.limit,
+      knex: params.knex,
+    });
+  }
+
+  // Explain ranks decisions or constraints under the current weights (v5.1.0)
+  if (params.action === 'explain') {
+    return await suggestExplain({ ...params, target });
+  }
+
+  // Feedback records accepted / rejected suggestions (v5.1.0)
+  if (params.action === 'feedback') {
+    return await suggestFeedback({ ...params, target });
+  }
+
+  // Analytics reports suggestion precision over time (v5.1.0)
+  if (params.action === 'analytics') {
+    return await suggestAnalytics({
+      target: params.target,
+      bucket: params.bucket,
+      start_ts: params.start_ts,
+      end_ts: params.end_ts,
+      knex: params.knex,
+    });
+  }
+
   if (target === 'constraint') {
     return await handleConstraintAction(params);
   }
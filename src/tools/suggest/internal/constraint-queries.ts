@@ -7,6 +7,7 @@
 
 import type { Knex } from 'knex';
 import { getProjectContext } from '../../../utils/project-context.js';
+import { whereNotExpired } from '../../../utils/constraint-expiry.js';
 
 /**
  * Constraint candidate structure (before scoring)
@@ -51,7 +52,7 @@ export function buildConstraintQuery(
     ? (isPostgres ? knex.raw("string_agg(DISTINCT t.name, ',') as tags") : knex.raw('GROUP_CONCAT(DISTINCT t.name) as tags'))
     : (isPostgres ? knex.raw("string_agg(t.name, ',') as tags") : knex.raw('GROUP_CONCAT(t.name) as tags'));
 
-  return knex('t_constraints as c')
+  const query = knex('t_constraints as c')
     .select(
       'c.id as constraint_id',
       'c.constraint_text',
@@ -68,6 +69,9 @@ export function buildConstraintQuery(
     .where('c.project_id', projectId)
     .where('c.active', 1)
     .groupBy('c.id', 'c.constraint_text', 'cc.name', 'l.name', 'c.priority', 'c.ts');
+
+  // Expired constraints no longer apply, even before startup deactivates them (v5.1.0)
+  return whereNotExpired(query, 'c.expires_at');
 }
 
 /**
@@ -123,6 +127,27 @@ export async function checkExactConstraintMatch(
   return result as ConstraintCandidate;
 }
 
+/**
+ * Load the scope names of each active constraint (v5.1.0)
+ *
+ * @param knex - Knex instance (or transaction context)
+ * @returns Scope names per constraint id
+ */
+export async function loadConstraintScopes(knex: Knex): Promise<Map<number, string[]>> {
+  const projectId = getProjectContext().getProjectId();
+
+  const rows = await knex('t_constraint_scopes as cs')
+    .join('m_scopes as s', 'cs.scope_id', 's.id')
+    .where('cs.project_id', projectId)
+    .select('cs.constraint_id', 's.name') as Array<{ constraint_id: number; name: string }>;
+
+  const scopes = new Map<number, string[]>();
+  for (const row of rows) {
+    scopes.set(row.constraint_id, [...(scopes.get(row.constraint_id) ?? []), row.name]);
+  }
+  return scopes;
+}
+
 /**
  * Parse comma-separated tags string to array
  *
@@ -0,0 +1,219 @@
+/**
+ * Suggest Tool - Duplicate Analysis
+ *
+ * Field-by-field comparison used by check_duplicate (v5.1.0). A decision is
+ * compared on key, value, tags and rationale; the combination decides the
+ * verdict:
+ * - near-duplicate: same value, related topic (key, tags or rationale)
+ * - conflicting: same topic, different value
+ * - related: similar overall, or a strongly similar key
+ */
+
+import { calculateKeySimilarity } from '../../../utils/suggestion-scorer.js';
+import { tokenizeForEmbedding } from '../../../utils/embeddings/index.js';
+import type { DuplicateFieldScores, DuplicateMatch, DuplicateVerdict } from '../types.js';
+
+/**
+ * What check_duplicate was asked about
+ */
+export interface DuplicateQuery {
+  key: string;
+  value?: string | number;
+  tags?: string[];
+  rationale?: string;
+}
+
+/**
+ * Existing decision to compare against
+ */
+export interface DuplicateCandidate {
+  key: string;
+  value: string | number;
+  tags: string[];
+  rationale?: string;
+}
+
+/** Field weights of the combined similarity (renormalized over compared fields) */
+const FIELD_WEIGHTS: Record<keyof DuplicateFieldScores, number> = {
+  key: 0.35,
+  value: 0.35,
+  tags: 0.15,
+  rationale: 0.15,
+};
+
+/** Verdict thresholds (similarities 0-1) */
+const THRESHOLDS = {
+  VALUE_MATCH: 0.8,       // Values say the same thing
+  VALUE_DIFFERS: 0.3,     // Values say different things
+  KEY_SAME_TOPIC: 0.7,    // Key alone identifies the same topic
+  KEY_RELATED: 0.4,       // Key related enough when tags or rationale agree
+  CONTEXT_MATCH: 0.5,     // Tags / rationale agree
+  TOPIC_OVERLAP: 0.3,     // Minimal overlap for a near-duplicate
+  RELATED: 0.45,          // Combined similarity of a related decision
+} as const;
+
+/** Order of verdicts, strongest first */
+const VERDICT_RANK: Record<DuplicateVerdict, number> = {
+  'exact': 0,
+  'near-duplicate': 1,
+  'conflicting': 2,
+  'related': 3,
+  'none': 4,
+};
+
+/**
+ * Dice coefficient of two token sets
+ */
+function dice(a: string[], b: string[]): number {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  if (setA.size === 0 || setB.size === 0) return 0;
+  const shared = [...setA].filter(t => setB.has(t)).length;
+  return (2 * shared) / (setA.size + setB.size);
+}
+
+/**
+ * Similarity of two free texts (0-1)
+ * Identical after normalization: 1; otherwise shared stemmed words.
+ */
+export function textSimilarity(a: string, b: string): number {
+  const normalizedA = a.toLowerCase().trim();
+  const normalizedB = b.toLowerCase().trim();
+  if (!normalizedA || !normalizedB) return 0;
+  if (normalizedA === normalizedB) return 1;
+  return dice(tokenizeForEmbedding(normalizedA), tokenizeForEmbedding(normalizedB));
+}
+
+/**
+ * Similarity of two keys (0-1)
+ * Best of the suggest key score and shared key segments ("db/orm" ~ "persistence/orm-choice").
+ */
+export function keySimilarity(a: string, b: string): number {
+  const segments = (key: string) => key.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  return Math.max(calculateKeySimilarity(a, b) / 20, dice(segments(a), segments(b)));
+}
+
+/**
+ * Jaccard similarity of two tag lists (0-1)
+ */
+function tagSimilarity(a: string[], b: string[]): { similarity: number; shared: string[] } {
+  const setB = new Set(b);
+  const shared = [...new Set(a)].filter(t => setB.has(t));
+  const union = new Set([...a, ...b]).size;
+  return { similarity: union === 0 ? 0 : shared.length / union, shared };
+}
+
+const percent = (similarity: number) => Math.round(similarity * 100);
+
+/**
+ * Describe which fields matched
+ */
+function describeFields(fields: DuplicateFieldScores, sharedTags: string[]): string {
+  const parts: string[] = [];
+
+  if (fields.key >= 90) parts.push('same key pattern');
+  else if (fields.key >= 50) parts.push(`similar key (${fields.key}%)`);
+  else parts.push(`different key (${fields.key}%)`);
+
+  if (fields.value !== undefined) {
+    if (fields.value >= THRESHOLDS.VALUE_MATCH * 100) parts.push(`value matches (${fields.value}%)`);
+    else if (fields.value >= THRESHOLDS.VALUE_DIFFERS * 100) parts.push(`value partly matches (${fields.value}%)`);
+    else parts.push(`value differs (${fields.value}%)`);
+  }
+
+  if (fields.tags !== undefined) {
+    parts.push(sharedTags.length > 0
+      ? `${sharedTags.length} shared tag(s) (${sharedTags.join(', ')})`
+      : 'no shared tags');
+  }
+
+  if (fields.rationale !== undefined) {
+    parts.push(fields.rationale >= THRESHOLDS.CONTEXT_MATCH * 100
+      ? `rationale matches (${fields.rationale}%)`
+      : `rationale differs (${fields.rationale}%)`);
+  }
+
+  return parts.join(', ');
+}
+
+/**
+ * Compare a query with one existing decision
+ *
+ * @param query - Decision being checked
+ * @param candidate - Existing decision
+ * @param semantic - Embedding similarity of "key: value" texts (0-1), when embeddings are enabled
+ * @returns Match with verdict, or verdict 'none'
+ */
+export function analyzeDuplicate(
+  query: DuplicateQuery,
+  candidate: DuplicateCandidate,
+  semantic?: number
+): DuplicateMatch | { verdict: 'none' } {
+  const key = keySimilarity(query.key, candidate.key);
+  const hasValue = query.value !== undefined && String(query.value).trim() !== '';
+  const value = hasValue
+    ? Math.max(textSimilarity(String(query.value), String(candidate.value)), semantic ?? 0)
+    : undefined;
+  const tags = query.tags && query.tags.length > 0 ? tagSimilarity(query.tags, candidate.tags) : undefined;
+  const rationale = query.rationale && candidate.rationale
+    ? textSimilarity(query.rationale, candidate.rationale)
+    : undefined;
+
+  const scores: Partial<Record<keyof DuplicateFieldScores, number>> = {
+    key,
+    ...(value !== undefined && { value }),
+    ...(tags !== undefined && { tags: tags.similarity }),
+    ...(rationale !== undefined && { rationale }),
+  };
+  const compared = Object.keys(scores) as Array<keyof DuplicateFieldScores>;
+  const totalWeight = compared.reduce((sum, field) => sum + FIELD_WEIGHTS[field], 0);
+  const similarity = compared.reduce((sum, field) => sum + FIELD_WEIGHTS[field] * scores[field]!, 0) / totalWeight;
+
+  const contextMatch = (tags?.similarity ?? 0) >= THRESHOLDS.CONTEXT_MATCH
+    || (rationale ?? 0) >= THRESHOLDS.CONTEXT_MATCH;
+  const sameTopic = key >= THRESHOLDS.KEY_SAME_TOPIC || (key >= THRESHOLDS.KEY_RELATED && contextMatch);
+  const topicOverlap = key >= THRESHOLDS.TOPIC_OVERLAP || (tags?.similarity ?? 0) > 0 || contextMatch;
+
+  let verdict: DuplicateVerdict = 'none';
+  if (value !== undefined && value >= THRESHOLDS.VALUE_MATCH && topicOverlap) {
+    verdict = 'near-duplicate';
+  } else if (value !== undefined && value < THRESHOLDS.VALUE_DIFFERS && sameTopic) {
+    verdict = 'conflicting';
+  } else if (similarity >= THRESHOLDS.RELATED || key >= THRESHOLDS.KEY_SAME_TOPIC) {
+    verdict = 'related';
+  }
+
+  if (verdict === 'none') {
+    return { verdict };
+  }
+
+  const fields: DuplicateFieldScores = {
+    key: percent(key),
+    ...(value !== undefined && { value: percent(value) }),
+    ...(tags !== undefined && { tags: percent(tags.similarity) }),
+    ...(rationale !== undefined && { rationale: percent(rationale) }),
+  };
+  const matchedFields = compared.filter(field =>
+    field === 'tags' ? (tags?.shared.length ?? 0) > 0 : scores[field]! >= THRESHOLDS.CONTEXT_MATCH
+  );
+
+  return {
+    key: candidate.key,
+    value: candidate.value,
+    verdict,
+    similarity: percent(similarity),
+    fields,
+    matched_fields: matchedFields,
+    ...(tags && tags.shared.length > 0 && { shared_tags: tags.shared }),
+    explanation: describeFields(fields, tags?.shared ?? []),
+  };
+}
+
+/**
+ * Sort matches strongest verdict first, then by similarity
+ */
+export function rankDuplicateMatches(matches: DuplicateMatch[]): DuplicateMatch[] {
+  return [...matches].sort((a, b) =>
+    VERDICT_RANK[a.verdict] - VERDICT_RANK[b.verdict] || b.similarity - a.similarity
+  );
+}
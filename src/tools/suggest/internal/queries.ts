@@ -213,3 +213,47 @@ export async function checkExactMatch(
 
   return null;
 }
+
+/**
+ * Load the latest rationale of each decision (v5.1.0)
+ *
+ * Used by check_duplicate to compare rationales.
+ *
+ * @param knex - Knex instance (or transaction context)
+ * @returns Rationale per decision key_id
+ */
+export async function loadLatestRationales(knex: Knex): Promise<Map<number, string>> {
+  const projectId = getProjectContext().getProjectId();
+
+  const rows = await knex('t_decision_context')
+    .where('project_id', projectId)
+    .whereNotNull('rationale')
+    .orderBy('id', 'asc')
+    .select('decision_key_id', 'rationale') as Array<{ decision_key_id: number; rationale: string }>;
+
+  // Later rows overwrite earlier ones
+  return new Map(rows.map(r => [r.decision_key_id, r.rationale]));
+}
+
+/**
+ * Load the scope names of each decision (v5.1.0)
+ *
+ * Used by conflicts to find decisions in the same scope.
+ *
+ * @param knex - Knex instance (or transaction context)
+ * @returns Scope names per decision key_id
+ */
+export async function loadDecisionScopes(knex: Knex): Promise<Map<number, string[]>> {
+  const projectId = getProjectContext().getProjectId();
+
+  const rows = await knex('t_decision_scopes as ds')
+    .join('m_scopes as s', 'ds.scope_id', 's.id')
+    .where('ds.project_id', projectId)
+    .select('ds.decision_key_id', 's.name') as Array<{ decision_key_id: number; name: string }>;
+
+  const scopes = new Map<number, string[]>();
+  for (const row of rows) {
+    scopes.set(row.decision_key_id, [...(scopes.get(row.decision_key_id) ?? []), row.name]);
+  }
+  return scopes;
+}
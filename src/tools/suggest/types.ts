@@ -3,6 +3,9 @@
  */
 
 import type { Knex } from 'knex';
+import type { DecisionConflict } from '../../types.js';
+import type { SuggestWeights } from '../../utils/suggest-weights.js';
+import type { FeedbackBucket, FeedbackPrecision } from '../../utils/suggest-feedback.js';
 
 /**
  * Available suggest actions
@@ -12,6 +15,10 @@ export type SuggestAction =
   | 'by_tags'
   | 'by_context'
   | 'check_duplicate'
+  | 'conflicts'
+  | 'explain'
+  | 'feedback'
+  | 'analytics'
   | 'help';
 
 /**
@@ -29,6 +36,8 @@ export interface SuggestParams {
   target?: SuggestTarget;  // Default: 'decision'
   // For decisions (existing)
   key?: string;
+  value?: string | number;  // by_context, check_duplicate: compared with existing values (v5.1.0)
+  rationale?: string;  // check_duplicate: compared with existing rationales (v5.1.0)
   // For constraints (NEW)
   text?: string;
   constraint_text?: string;  // Alias for text
@@ -36,9 +45,17 @@ export interface SuggestParams {
   // Common
   tags?: string[];
   layer?: string;
+  scopes?: string[];  // by_context, conflicts, explain: scopes of the decision (v5.1.0)
   priority?: number;
   min_score?: number;
   limit?: number;
+  // Feedback and analytics (v5.1.0)
+  suggested_key?: string;  // feedback: suggested decision key
+  suggested_id?: number;  // feedback: suggested constraint ID
+  accepted?: boolean;  // feedback: true accepted, false rejected
+  bucket?: FeedbackBucket;  // analytics: 'day' | 'week' | 'month'
+  start_ts?: number;  // analytics: Unix seconds
+  end_ts?: number;  // analytics: Unix seconds
   knex?: Knex;  // Optional transaction context to avoid connection pool exhaustion
 }
 
@@ -66,21 +83,131 @@ export interface SuggestResponse {
   suggestions: Suggestion[];
 }
 
+/**
+ * Combined check_duplicate verdict (v5.1.0)
+ * - exact: the key exists with the same value
+ * - near-duplicate: another key records the same value for a related topic
+ * - conflicting: the same topic records a different value
+ * - related: similar key, tags or rationale
+ * - none: nothing similar
+ */
+export type DuplicateVerdict = 'exact' | 'near-duplicate' | 'conflicting' | 'related' | 'none';
+
+/**
+ * Per-field similarity (0-100) of a check_duplicate match
+ * Fields not given in the query (or missing on the match) are omitted.
+ */
+export interface DuplicateFieldScores {
+  key: number;
+  value?: number;
+  tags?: number;
+  rationale?: number;
+}
+
+/**
+ * Decision compared by check_duplicate (v5.1.0)
+ */
+export interface DuplicateMatch {
+  key: string;
+  value: string | number;
+  verdict: Exclude<DuplicateVerdict, 'none'>;
+  similarity: number;  // Weighted field similarity (0-100)
+  fields: DuplicateFieldScores;
+  matched_fields: Array<keyof DuplicateFieldScores>;
+  shared_tags?: string[];
+  explanation: string;
+}
+
 /**
  * Response structure for check_duplicate action
  */
 export interface CheckDuplicateResponse {
   is_duplicate: boolean;
   match_type: 'exact' | 'similar' | 'none';
+  verdict: DuplicateVerdict;  // v5.1.0
+  explanation: string;  // v5.1.0: which fields matched
   existing_decision?: {
     key: string;
     value: string | number;
     version: string;
   };
+  matches?: DuplicateMatch[];  // v5.1.0: strongest first
   similar_decisions?: Suggestion[];
   recommendation: string;
 }
 
+/**
+ * Response structure for conflicts action (v5.1.0)
+ */
+export interface ConflictsResponse {
+  query: {
+    key?: string;
+    value: string | number;
+    tags?: string[];
+    layer?: string;
+    scopes?: string[];
+  };
+  count: number;
+  conflicts: DecisionConflict[];
+}
+
+/**
+ * Ranked decision or constraint in an explain response (v5.1.0)
+ */
+export interface ExplainEntry {
+  rank: number;
+  key?: string;  // Decision key (target 'decision')
+  value?: string | number;  // Decision value (target 'decision')
+  id?: number;  // Constraint ID (target 'constraint')
+  constraint_text?: string;  // Constraint text (target 'constraint')
+  score: number;
+  above_min_score: boolean;
+  reason: string;
+  score_breakdown: Record<string, number>;
+}
+
+/**
+ * Response structure for explain action (v5.1.0)
+ */
+export interface ExplainResponse {
+  target: SuggestTarget;
+  query: Record<string, unknown>;
+  /** Maximum points per score component (the project's weights, scaled to sum to 100) */
+  weights: SuggestWeights;
+  /** Threshold by_context applies to this query */
+  min_score: number;
+  count: number;
+  ranking: ExplainEntry[];
+}
+
+/**
+ * Response structure for feedback action (v5.1.0)
+ */
+export interface FeedbackResponse {
+  success: boolean;
+  target: SuggestTarget;
+  /** Decision key or constraint text the suggestion was made for */
+  query: string;
+  /** Suggested decision key or constraint ID */
+  suggested: string | number;
+  accepted: boolean;
+  /** All signals recorded for this pair */
+  totals: { accepted: number; rejected: number };
+  /** Points the pair now gets in by_key / by_context scores */
+  adjustment: number;
+}
+
+/**
+ * Response structure for analytics action (v5.1.0)
+ */
+export interface AnalyticsResponse {
+  target: SuggestTarget | 'all';
+  bucket: FeedbackBucket;
+  total: FeedbackPrecision;
+  /** Buckets with signals, oldest first (bucket_ts: bucket start, Unix seconds) */
+  time_series: Array<FeedbackPrecision & { bucket_ts: number }>;
+}
+
 /**
  * Internal candidate structure (before scoring)
  */
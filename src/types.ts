@@ -28,6 +28,27 @@ export enum Status {
  */
 export type StatusString = 'active' | 'deprecated' | 'draft' | 'in_progress' | 'in_review' | 'implemented';
 
+/**
+ * Decision relation types (v5.1.0)
+ * Matches DECISION_RELATION_TYPES in constants.ts
+ */
+export type DecisionRelationType = 'supersedes' | 'depends_on' | 'refines' | 'conflicts_with';
+
+/**
+ * Change event types recorded in t_change_events (v5.1.0)
+ * Matches CHANGE_EVENT_TYPES in constants.ts
+ */
+export type ChangeEventType =
+  | 'created'
+  | 'updated'
+  | 'status_changed'
+  | 'deleted'
+  | 'context_added'
+  | 'constraint_added'
+  | 'constraint_updated'
+  | 'constraint_activated'
+  | 'constraint_deactivated';
+
 /**
  * Message type enumeration
  * 1 = decision, 2 = warning, 3 = request, 4 = info
@@ -85,7 +106,9 @@ export interface ContextKey {
 
 export interface ConstraintCategory {
   readonly id: number;
+  readonly project_id: number;  // v5.1.0: categories are per project
   readonly name: string;
+  readonly active: number;  // 1 = usable for new constraints, 0 = retired
 }
 
 export interface Layer {
@@ -239,6 +262,37 @@ export interface TaggedConstraint {
   readonly tags: string | null;  // Comma-separated
   readonly created_by: string | null;
   readonly created_at: string;  // ISO 8601 datetime
+  readonly rules?: ConstraintRules | null;  // v5.1.0
+  readonly expires_at?: string;  // v5.1.0, ISO 8601
+  readonly review_by?: string;  // v5.1.0, ISO 8601
+  readonly scopes?: string[];  // v5.1.0, omitted when the constraint applies everywhere
+}
+
+/**
+ * Machine-checkable rules attached to a constraint (v5.1.0)
+ * Checked against the working tree by constraint.check / `sqlew check`.
+ */
+export interface ConstraintRules {
+  paths?: string[];  // Gitignore-style globs the rules apply to (default: every file)
+  forbidden_imports?: string[];  // Import specifiers; `*` is a wildcard, subpaths match too
+  forbidden_patterns?: string[];  // Regexes that must not match any line
+  required_patterns?: string[];  // Regexes that must match somewhere in each file
+}
+
+export type ConstraintRuleType = 'forbidden_import' | 'forbidden_pattern' | 'required_pattern';
+
+/**
+ * Rule violation found by constraint.check (v5.1.0)
+ */
+export interface ConstraintViolation {
+  constraint_id: number;
+  constraint_text: string;
+  rule: ConstraintRuleType;
+  pattern: string;
+  file: string;  // Relative to the project root, forward slashes
+  line: number | null;  // null for a missing required pattern
+  text?: string;  // Offending line (trimmed)
+  message: string;
 }
 
 // ============================================================================
@@ -260,8 +314,15 @@ export interface SetDecisionParams {
   alternatives?: any[];
   tradeoffs?: any;
   policy_name?: string;  // Explicit policy to validate against
+  // Duplicate detection bypass (v3.9.0)
+  ignore_suggest?: boolean;  // Skip similarity checks
+  ignore_reason?: string;    // Explanation for bypassing check
   // Constraint suggestion (v4.1.0)
   suggest_constraints?: boolean;  // If true, suggest related constraints after decision creation
+  // Contradiction check (v5.1.0)
+  check_conflicts?: boolean;  // Default true: report constraints/decisions the value contradicts
+  // Decision relations (v5.1.0)
+  supersedes?: string | string[];  // Keys replaced by this decision (moved to deprecated)
 }
 
 export interface QuickSetDecisionParams {
@@ -283,16 +344,72 @@ export interface GetContextParams {
   tag_match?: 'AND' | 'OR';
   full_value?: boolean;  // Return full value without truncation (default: false = 30 chars)
   _reference_project?: string;  // Cross-project query: project name to query instead of current project
+  as_of?: string;  // Point-in-time state: ISO timestamp or relative time ("7d") (v5.1.0)
 }
 
 export interface GetDecisionParams {
   key: string;
+  as_of?: string;  // Point-in-time state: ISO timestamp or relative time ("7d") (v5.1.0)
 }
 
 export interface HardDeleteDecisionParams {
   key: string;
 }
 
+// In-place tag/status changes, no version bump (v5.1.0)
+export interface AddDecisionTagsParams {
+  key: string;
+  tags: string[];
+}
+
+export interface DeprecateDecisionParams {
+  key: string;
+}
+
+// Decision relations (v5.1.0)
+export interface LinkDecisionParams {
+  key: string;            // Source decision
+  target_key: string;     // Target decision
+  relation_type: DecisionRelationType;
+  note?: string;
+}
+
+export interface UnlinkDecisionParams {
+  key: string;
+  target_key: string;
+  relation_type?: DecisionRelationType;  // Omit to remove all relations between the pair
+}
+
+export interface GetDecisionRelationsParams {
+  key: string;
+  direction?: 'outbound' | 'inbound' | 'both';  // Default: both
+  relation_type?: DecisionRelationType;
+}
+
+// Decision diff (v5.1.0)
+export interface DiffDecisionParams {
+  key: string;
+  from_version?: string;  // Default: version before to_version
+  to_version?: string;    // Default: current version
+  granularity?: 'line' | 'word';  // Default: word for single-line values, line otherwise
+}
+
+// Decision revert (v5.1.0)
+export interface RevertDecisionParams {
+  key: string;
+  version: string;   // Version to restore (from t_decision_history)
+  reason: string;    // Stored as rationale in t_decision_context
+  auto_increment?: 'major' | 'minor' | 'patch';  // Default: patch
+}
+
+// Decision changefeed (v5.1.0)
+export interface GetChangesParams {
+  cursor?: string;                 // Token from a previous call; omit to start from the beginning
+  since?: string;                  // First call only: ISO timestamp or relative time ("7d")
+  event_types?: ChangeEventType[]; // Default: all event types
+  limit?: number;                  // Default: 100, max 1000
+}
+
 export interface SearchByTagsParams {
   tags: string[];
   match_mode?: 'AND' | 'OR';
@@ -323,12 +440,13 @@ export interface SearchAdvancedParams {
   updated_before?: string;  // ISO timestamp or relative time
   decided_by?: string[];  // Array of agent names
   statuses?: StatusString[];  // Multiple statuses
-  search_text?: string;  // Full-text search in value field
-  sort_by?: 'updated' | 'key' | 'version';
+  search_text?: string;  // Full-text search in key, value, rationale, alternatives, tradeoffs (v5.1.0)
+  sort_by?: 'updated' | 'key' | 'version' | 'relevance';  // relevance: requires search_text (default when set)
   sort_order?: 'asc' | 'desc';
   limit?: number;  // Max results (default: 20)
   offset?: number;  // For pagination (default: 0)
   full_value?: boolean;  // Return full value without truncation (default: false = 30 chars)
+  as_of?: string;  // Point-in-time state: ISO timestamp or relative time ("7d") (v5.1.0)
 }
 
 export interface HasUpdatesParams {
@@ -337,7 +455,7 @@ export interface HasUpdatesParams {
 }
 
 // ============================================================================
-// Export Types (v5.0.0 - SaaS-only document export)
+// Export Types (v5.0.0 - document export, local since v5.1.0)
 // ============================================================================
 
 /**
@@ -347,16 +465,16 @@ export type ExportFormat = 'blocks' | 'markdown' | 'adr' | 'notion' | 'confluenc
 
 /**
  * Parameters for decision:export action
- * SaaS-only feature for document generation
+ * Document generation (SaaS, or LocalBackend since v5.1.0)
  */
 export interface ExportDecisionParams {
-  // Filter options (processed by SaaS)
+  // Filter options (processed by SaaS or LocalBackend)
   tags?: string[];          // Filter by tags (AND logic)
   layers?: string[];        // Filter by layers
   since?: string;           // ISO timestamp - decisions updated after this
   status?: StatusString[];  // Filter by status (active, draft, etc.)
 
-  // Grouping (processed by SaaS)
+  // Grouping (processed by SaaS or LocalBackend, default: layer)
   group_by?: 'layer' | 'tag' | 'none';
 
   // Output format
@@ -376,6 +494,7 @@ export interface ExportBlockItem {
   layer?: string;
   tags?: string[];
   version?: string;
+  status?: string;          // Decision status (defaults to active when absent)
   updated?: string;
   // Optional context
   rationale?: string;
@@ -403,7 +522,7 @@ export interface ExportBlockConstraint {
 }
 
 /**
- * Structured blocks response from SaaS
+ * Structured export blocks (from SaaS or built locally)
  */
 export interface ExportBlocks {
   metadata: {
@@ -425,6 +544,14 @@ export interface AddConstraintParams {
   created_by?: string;
   /** @since v4.2.1 - Set to false to create inactive constraint (for plan-based workflow) */
   active?: boolean;
+  /** @since v5.1.0 - Machine-checkable rules (object or JSON string) */
+  rules?: ConstraintRules | string;
+  /** @since v5.1.0 - ISO date or duration from now ("30d"); deactivated at server startup once passed */
+  expires_at?: string;
+  /** @since v5.1.0 - ISO date or duration from now ("90d"); listed by due_for_review once passed */
+  review_by?: string;
+  /** @since v5.1.0 - Scopes the constraint applies to (default: everywhere); wildcards allowed */
+  scopes?: string[];
 }
 
 export interface GetConstraintsParams {
@@ -434,12 +561,66 @@ export interface GetConstraintsParams {
   tags?: string[];
   include_inactive?: boolean;
   limit?: number;
+  offset?: number;  // v5.1.0: Skip this many constraints (pagination)
+  constraint_id?: number;  // v5.1.0: Only this constraint
+  scope?: string;  // v5.1.0: Only constraints that apply to this scope (wildcards allowed)
+  file_path?: string;  // v5.1.0: Only constraints that apply to this file
+  include_unscoped?: boolean;  // v5.1.0: With scope/file_path, also return constraints without scopes (default: true)
 }
 
 export interface DeactivateConstraintParams {
   constraint_id: number;
 }
 
+// Constraint revisions (v5.1.0)
+export interface UpdateConstraintParams {
+  constraint_id: number;
+  constraint_text?: string;
+  priority?: 'low' | 'medium' | 'high' | 'critical';
+  layer?: string;
+  tags?: string[];  // Replaces the existing tags
+  rules?: ConstraintRules | string | null;  // Replaces the rules; null removes them
+  expires_at?: string | null;  // ISO date or duration from now; null removes it
+  review_by?: string | null;  // ISO date or duration from now; null removes it
+  scopes?: string[];  // Replaces the scopes; [] makes the constraint apply everywhere
+}
+
+export interface GetConstraintVersionsParams {
+  constraint_id: number;
+}
+
+// Constraint compliance check (v5.1.0)
+export interface CheckConstraintsParams {
+  constraint_ids?: number[];  // Default: every active constraint with rules
+  paths?: string[];  // Gitignore-style globs limiting the scan
+  limit?: number;  // Max violations returned (default: 100)
+}
+
+// Constraint review (v5.1.0)
+export interface DueForReviewParams {
+  within?: string;  // Also include constraints due within this duration ("7d"); default: overdue only
+  include_inactive?: boolean;
+  limit?: number;
+}
+
+// Constraint categories (v5.1.0)
+export interface ListConstraintCategoriesParams {
+  include_retired?: boolean;
+}
+
+export interface CreateConstraintCategoryParams {
+  name: string;
+}
+
+export interface RenameConstraintCategoryParams {
+  name: string;
+  new_name: string;
+}
+
+export interface RetireConstraintCategoryParams {
+  name: string;
+}
+
 // ============================================================================
 // Batch Operation Parameter Types (FR-005)
 // ============================================================================
@@ -488,6 +669,24 @@ export interface ListTemplatesParams {
 // MCP Tool Response Types
 // ============================================================================
 
+/**
+ * Constraint or decision whose text opposes a decision value (v5.1.0)
+ */
+export interface DecisionConflict {
+  type: 'constraint' | 'decision';
+  id?: number;  // Constraint ID (type 'constraint')
+  key?: string;  // Decision key (type 'decision')
+  text: string;  // Constraint text or decision value
+  kind: 'negation' | 'antonym';
+  concepts: string[];  // Opposed concepts (e.g. "cache")
+  reason: string;
+  shared: {
+    layer?: string;
+    tags?: string[];
+    scopes?: string[];
+  };
+}
+
 export interface SetDecisionResponse {
   success: boolean;
   key: string;
@@ -531,6 +730,10 @@ export interface SetDecisionResponse {
     layer?: string;
     tags?: string[];
   }>;
+  // Contradicting constraints and decisions in the same scope, layer or tags (v5.1.0)
+  conflicts?: DecisionConflict[];
+  // Keys deprecated via supersedes (v5.1.0)
+  superseded?: string[];
   // Human-readable warnings from SaaS backend (v5.1.0)
   warnings?: string[];
 }
@@ -553,6 +756,7 @@ export interface QuickSetDecisionResponse {
 export interface GetContextResponse {
   decisions: TaggedDecision[];
   count: number;
+  as_of?: string;  // Resolved point in time (ISO 8601), when as_of was given
 }
 
 export interface GetDecisionResponse {
@@ -568,8 +772,11 @@ export interface GetDecisionResponse {
     related_task_id: number | null;
     related_constraint_id: number | null;
   }>;
+  // Decision relations (v5.1.0) - present only when links exist
+  relations?: DecisionRelations;
   // Human-readable warnings from SaaS backend (v5.1.0)
   warnings?: string[];
+  as_of?: string;  // Resolved point in time (ISO 8601), when as_of was given
 }
 
 export interface HardDeleteDecisionResponse {
@@ -578,6 +785,131 @@ export interface HardDeleteDecisionResponse {
   message?: string;
 }
 
+export interface AddDecisionTagsResponse {
+  success: boolean;
+  key: string;
+  version: string;   // Unchanged current version
+  added: string[];   // Tags the decision did not have yet
+  tags: string[];    // All tags after the change
+  message: string;
+}
+
+export interface DeprecateDecisionResponse {
+  success: boolean;
+  key: string;
+  version: string;      // Unchanged current version
+  deprecated: boolean;  // false if the decision was already deprecated
+  message: string;
+}
+
+/**
+ * A single decision relation as seen from one decision (v5.1.0)
+ * `key` is the other end of the link.
+ */
+export interface DecisionRelation {
+  key: string;
+  relation_type: DecisionRelationType;
+  note: string | null;
+  created: string;  // ISO 8601 datetime
+}
+
+export interface DecisionRelations {
+  outbound: DecisionRelation[];  // This decision → other
+  inbound: DecisionRelation[];   // Other → this decision
+}
+
+export interface LinkDecisionResponse {
+  success: boolean;
+  key: string;
+  target_key: string;
+  relation_type: DecisionRelationType;
+  created: boolean;          // false if the link already existed (note updated)
+  deprecated_target: boolean;  // true if a supersedes link deprecated the target
+  message: string;
+}
+
+export interface UnlinkDecisionResponse {
+  success: boolean;
+  key: string;
+  target_key: string;
+  removed: number;
+  message: string;
+}
+
+export interface GetDecisionRelationsResponse extends DecisionRelations {
+  key: string;
+  count: number;
+}
+
+/**
+ * Changed scalar field between two decision versions (v5.1.0)
+ */
+export interface DecisionFieldChange<T> {
+  from: T;
+  to: T;
+}
+
+/**
+ * Changed label set (tags or scopes) between two decision versions (v5.1.0)
+ */
+export interface DecisionLabelChange {
+  added: string[];
+  removed: string[];
+}
+
+export interface DiffDecisionResponse {
+  key: string;
+  from_version: string;
+  to_version: string;
+  from_timestamp: string;  // ISO 8601
+  to_timestamp: string;    // ISO 8601
+  granularity: 'line' | 'word';
+  value: {
+    changed: boolean;
+    chunks: Array<{ type: 'equal' | 'added' | 'removed'; value: string }>;
+    rendered: string;  // "+ "/"- " lines, or [-removed-]{+added+} for word diffs
+  };
+  changes: {
+    layer?: DecisionFieldChange<string | null>;
+    status?: DecisionFieldChange<StatusString>;
+    tags?: DecisionLabelChange;
+    scopes?: DecisionLabelChange;
+  };
+  unknown_fields?: string[];  // Metadata not recorded for versions saved before v5.1.0
+}
+
+export interface RevertDecisionResponse {
+  success: boolean;
+  key: string;
+  reverted_to: string;       // Restored version
+  previous_version: string;  // Version before the revert
+  version: string;           // New version carrying the restored value
+  version_action?: SetDecisionResponse['version_action'];
+  context_id: number;        // t_decision_context row with the reason
+  policy_validation?: {
+    matched_policy: string;
+    violations: string[];
+  };
+  message: string;
+}
+
+export interface ChangeEvent {
+  id: number;
+  type: ChangeEventType;
+  key: string | null;            // Decision key (decision and context events)
+  constraint_id: number | null;  // Constraint events
+  version: string | null;        // Decision version written by the change
+  details: Record<string, unknown> | null;
+  timestamp: string;             // ISO 8601
+}
+
+export interface GetChangesResponse {
+  events: ChangeEvent[];  // Oldest first
+  count: number;
+  cursor: string;         // Pass back as cursor to resume after the last event
+  has_more: boolean;      // More events are available right away
+}
+
 export interface SearchByTagsResponse {
   decisions: TaggedDecision[];
   count: number;
@@ -600,10 +932,19 @@ export interface SearchByLayerResponse {
   count: number;
 }
 
+/**
+ * Decision matched by search_text (v5.1.0)
+ */
+export interface RankedDecision extends TaggedDecision {
+  rank: number;      // Relevance score, higher is better (comparable within one search only)
+  snippet: string;   // Matched text with terms highlighted as **term**
+}
+
 export interface SearchAdvancedResponse {
-  decisions: TaggedDecision[];
+  decisions: TaggedDecision[] | RankedDecision[];  // RankedDecision[] when search_text is set
   count: number;
   total_count: number;  // Total matching records (for pagination)
+  as_of?: string;  // Resolved point in time (ISO 8601), when as_of was given
 }
 
 export interface HasUpdatesResponse {
@@ -649,6 +990,84 @@ export interface DeactivateConstraintResponse {
   success: boolean;
 }
 
+export interface UpdateConstraintResponse {
+  success: boolean;
+  constraint_id: number;
+  version: number;  // Current revision after the update
+  previous_version?: number;  // Omitted when nothing changed
+  changed: string[];  // Fields that changed: constraint_text, priority, layer, tags, scopes, rules, expires_at, review_by
+  message: string;
+}
+
+export interface GetConstraintVersionsResponse {
+  constraint_id: number;
+  current_version: number;
+  history: Array<{
+    version: number;
+    constraint_text: string;
+    priority: 'low' | 'medium' | 'high' | 'critical';
+    layer: string | null;
+    tags: string[];
+    scopes: string[];
+    rules: ConstraintRules | null;
+    expires_at: string | null;
+    review_by: string | null;
+    timestamp: string;  // When this revision took effect
+  }>;
+  count: number;
+}
+
+/**
+ * Constraint due for review (v5.1.0)
+ * reason is 'review' when review_by is due, 'expiring' when only expires_at is.
+ */
+export interface ConstraintReviewItem {
+  id: number;
+  category: string;
+  layer: string | null;
+  constraint_text: string;
+  priority: 'low' | 'medium' | 'high' | 'critical';
+  active: boolean;
+  review_by: string | null;
+  expires_at: string | null;
+  reason: 'review' | 'expiring';
+  overdue: boolean;
+}
+
+export interface DueForReviewResponse {
+  constraints: ConstraintReviewItem[];
+  count: number;
+}
+
+export interface CheckConstraintsResponse {
+  passed: boolean;
+  constraints_checked: number;
+  files_scanned: number;
+  violations: ConstraintViolation[];
+  count: number;  // Total violations found
+  truncated?: boolean;  // True when count exceeds the limit
+}
+
+/**
+ * Constraint category with usage (v5.1.0)
+ */
+export interface ConstraintCategoryInfo {
+  name: string;
+  active: boolean;
+  constraint_count: number;
+}
+
+export interface ListConstraintCategoriesResponse {
+  categories: ConstraintCategoryInfo[];
+  count: number;
+}
+
+export interface ConstraintCategoryResponse {
+  success: boolean;
+  category: ConstraintCategoryInfo;
+  message: string;
+}
+
 export interface GetStatsResponse {
   agents: number;
   context_keys: number;
@@ -763,10 +1182,14 @@ export type DecisionAction =
   | 'versions' | 'quick_set' | 'search_advanced' | 'set_batch'
   | 'has_updates' | 'set_from_template' | 'create_template'
   | 'list_templates' | 'hard_delete' | 'add_decision_context'
+  | 'add_tags' | 'deprecate'  // v5.1.0 in-place tag/status changes
   | 'list_decision_contexts'
   | 'create_policy' | 'list_policies' | 'set_from_policy'  // v3.9.0 policy actions
   | 'analytics'  // v3.9.0 analytics action
-  | 'export'  // v5.0.0 SaaS-only document export
+  | 'export'  // v5.0.0 document export (local since v5.1.0)
+  | 'link' | 'unlink' | 'relations'  // v5.1.0 decision relations
+  | 'diff' | 'revert'  // v5.1.0 version diff / revert
+  | 'changes'  // v5.1.0 changefeed
   | 'help' | 'example' | 'use_case';
 
 /**
@@ -775,6 +1198,8 @@ export type DecisionAction =
  */
 export type ConstraintAction =
   | 'add' | 'get' | 'activate' | 'deactivate' | 'suggest_pending'
+  | 'update' | 'versions' | 'check' | 'due_for_review'  // v5.1.0
+  | 'list_categories' | 'create_category' | 'rename_category' | 'retire_category'  // v5.1.0
   | 'help' | 'example' | 'use_case';
 
 /**
@@ -885,6 +1310,7 @@ export interface ImportStats {
   junction_tables: {
     decision_tags_created: number;
     decision_scopes_created: number;
+    decision_relations_created: number;  // v5.1.0
     constraint_tags_created: number;
   };
 }
@@ -51,7 +51,8 @@ export type ConstraintAction =
  * Provides compile-time type checking for suggestion actions
  */
 export type SuggestAction =
-  | 'by_key' | 'by_tags' | 'by_context' | 'check_duplicate'
+  | 'by_key' | 'by_tags' | 'by_context' | 'check_duplicate' | 'conflicts' | 'explain'
+  | 'feedback' | 'analytics'
   | 'help';
 
 /**
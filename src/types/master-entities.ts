@@ -20,7 +20,9 @@ export interface ContextKey {
 
 export interface ConstraintCategory {
   readonly id: number;
+  readonly project_id: number;  // v5.1.0: categories are per project
   readonly name: string;
+  readonly active: number;  // 1 = usable for new constraints, 0 = retired
 }
 
 export interface Layer {
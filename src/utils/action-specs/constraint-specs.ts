@@ -1,7 +1,7 @@
 /**
  * Constraint Tool Action Specifications
  *
- * Parameter requirements and examples for all constraint tool actions (5 actions).
+ * Parameter requirements and examples for all constraint tool actions (13 actions).
  * Used for architectural rules with priority and metadata.
  */
 
@@ -10,7 +10,7 @@ import { ActionSpec } from './types.js';
 export const CONSTRAINT_ACTION_SPECS: Record<string, ActionSpec> = {
   add: {
     required: ['category', 'constraint_text', 'priority'],
-    optional: ['layer', 'tags', 'created_by', 'active'],
+    optional: ['layer', 'tags', 'scopes', 'created_by', 'active', 'rules', 'expires_at', 'review_by'],
     example: {
       action: 'add',
       category: 'performance',
@@ -19,19 +19,61 @@ export const CONSTRAINT_ACTION_SPECS: Record<string, ActionSpec> = {
       layer: 'business',
       tags: ['api', 'latency']
     },
-    hint: "Valid categories: performance, architecture, security, code-style. Valid priorities: low, medium, high, critical. Set active=false for draft constraints. NOTE: rationale is NOT supported - include it in tags or constraint_text if needed."
+    hint: "category must be one of the project's active categories (see list_categories; defaults: architecture, security, code-style, performance). Valid priorities: low, medium, high, critical. Set active=false for draft constraints. Optional rules make the constraint machine-checkable (see check). scopes limit where it applies (none = everywhere). expires_at/review_by take an ISO date or a duration like \"30d\". NOTE: rationale is NOT supported - include it in tags or constraint_text if needed."
   },
 
   get: {
     required: [],
-    optional: ['category', 'layer', 'priority', 'tags', 'limit', 'include_inactive'],
+    optional: ['constraint_id', 'category', 'layer', 'priority', 'tags', 'scope', 'file_path', 'include_unscoped', 'limit', 'offset', 'include_inactive'],
     example: {
       action: 'get',
       category: 'performance',
       priority: 'high',
       limit: 50
     },
-    hint: "Returns only active constraints by default. Set include_inactive=true to show all."
+    hint: "Returns only active constraints by default. Set include_inactive=true to show all. constraint_id returns that constraint only. scope or file_path returns only the constraints that apply there (scoped ones plus unscoped, unless include_unscoped=false); wildcards like \"api/*\" are supported."
+  },
+
+  update: {
+    required: ['constraint_id'],
+    optional: ['constraint_text', 'priority', 'layer', 'tags', 'scopes', 'rules', 'expires_at', 'review_by'],
+    example: {
+      action: 'update',
+      constraint_id: 5,
+      constraint_text: 'API response time must be <50ms for 95th percentile',
+      priority: 'critical'
+    },
+    hint: "Edits in place and keeps the ID. Only given fields change; tags, scopes and rules replace the existing ones; null removes rules, expires_at or review_by; scopes=[] applies everywhere. The replaced revision is kept (see versions). Category cannot be changed."
+  },
+
+  versions: {
+    required: ['constraint_id'],
+    optional: [],
+    example: {
+      action: 'versions',
+      constraint_id: 5
+    },
+    hint: "Lists replaced revisions newest first (version 1 = as added) plus current_version"
+  },
+
+  check: {
+    required: [],
+    optional: ['constraint_ids', 'paths', 'limit'],
+    example: {
+      action: 'check',
+      paths: ['src/']
+    },
+    hint: "Scans the working tree (honoring .gitignore) against constraints with rules and reports violations by file and line. Rules: paths (gitignore globs), forbidden_imports, forbidden_patterns, required_patterns (regexes). Same check as `sqlew check`."
+  },
+
+  due_for_review: {
+    required: [],
+    optional: ['within', 'include_inactive', 'limit'],
+    example: {
+      action: 'due_for_review',
+      within: '14d'
+    },
+    hint: "Lists constraints whose review_by has passed (reason=review) or that are active past expires_at (reason=expiring), earliest first. within (e.g. \"14d\") also includes upcoming dates. Expired constraints are deactivated at server startup."
   },
 
   activate: {
@@ -61,5 +103,46 @@ export const CONSTRAINT_ACTION_SPECS: Record<string, ActionSpec> = {
       action: 'suggest_pending'
     },
     hint: "Returns pending constraint candidates from plan TOML cache. No DB access - reads from session cache only."
+  },
+
+  list_categories: {
+    required: [],
+    optional: ['include_retired'],
+    example: {
+      action: 'list_categories',
+      include_retired: true
+    },
+    hint: "Lists the project's constraint categories with constraint counts. Retired categories are hidden unless include_retired=true."
+  },
+
+  create_category: {
+    required: ['name'],
+    optional: [],
+    example: {
+      action: 'create_category',
+      name: 'accessibility'
+    },
+    hint: "Creates a category for this project. Creating a retired category reactivates it."
+  },
+
+  rename_category: {
+    required: ['name', 'new_name'],
+    optional: [],
+    example: {
+      action: 'rename_category',
+      name: 'code-style',
+      new_name: 'maintainability'
+    },
+    hint: "Renames in place: existing constraints carry the new name. new_name must not exist yet."
+  },
+
+  retire_category: {
+    required: ['name'],
+    optional: [],
+    example: {
+      action: 'retire_category',
+      name: 'performance'
+    },
+    hint: "Stops new constraints from using the category. Existing constraints keep it and stay queryable."
   }
 };
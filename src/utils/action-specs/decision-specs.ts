@@ -1,7 +1,7 @@
 /**
  * Decision Tool Action Specifications
  *
- * Parameter requirements and examples for all decision tool actions (16 actions).
+ * Parameter requirements and examples for all decision tool actions (23 actions).
  * Used for context management with metadata, version history, and rich context.
  */
 
@@ -10,7 +10,7 @@ import { ActionSpec } from './types.js';
 export const DECISION_ACTION_SPECS: Record<string, ActionSpec> = {
   set: {
     required: ['key', 'value'],
-    optional: ['agent', 'layer', 'tags', 'status', 'version', 'scopes', 'ignore_suggest', 'ignore_reason'],
+    optional: ['agent', 'layer', 'tags', 'status', 'version', 'scopes', 'ignore_suggest', 'ignore_reason', 'supersedes', 'check_conflicts'],
     example: {
       action: 'set',
       key: 'database/postgresql-choice',
@@ -20,30 +20,30 @@ export const DECISION_ACTION_SPECS: Record<string, ActionSpec> = {
       status: 'active',
       version: '1.0.0'
     },
-    hint: "Use 'quick_set' for simpler usage with auto-inferred metadata"
+    hint: "Use 'quick_set' for simpler usage with auto-inferred metadata. supersedes: key(s) this decision replaces (moved to deprecated). Contradicting constraints/decisions are returned in conflicts (check_conflicts=false to skip)"
   },
 
   get: {
     required: ['key'],
-    optional: ['include_context'],
+    optional: ['include_context', 'as_of'],
     example: {
       action: 'get',
       key: 'database/postgresql-choice',
       include_context: true
     },
-    hint: "Set include_context=true to get attached rationale and alternatives"
+    hint: "Set include_context=true to get attached rationale and alternatives. Inbound/outbound relations are returned when present. as_of (ISO or '7d') returns the version in force at that time"
   },
 
   list: {
     required: [],
-    optional: ['status', 'layer', 'tags', 'scope', 'tag_match', 'limit', 'offset', 'full_value', '_reference_project'],
+    optional: ['status', 'layer', 'tags', 'scope', 'tag_match', 'limit', 'offset', 'full_value', '_reference_project', 'as_of'],
     example: {
       action: 'list',
       status: 'active',
       layer: 'business',
       limit: 20
     },
-    hint: "Values are truncated to 30 chars by default. Use full_value=true for complete text."
+    hint: "Values are truncated to 30 chars by default. Use full_value=true for complete text. as_of (ISO or '7d') lists decisions as they were at that time"
   },
 
   search_tags: {
@@ -96,7 +96,7 @@ export const DECISION_ACTION_SPECS: Record<string, ActionSpec> = {
     optional: [
       'layers', 'tags_all', 'tags_any', 'exclude_tags', 'scopes',
       'updated_after', 'updated_before', 'decided_by', 'statuses',
-      'search_text', 'sort_by', 'sort_order', 'limit', 'offset', 'full_value'
+      'search_text', 'sort_by', 'sort_order', 'limit', 'offset', 'full_value', 'as_of'
     ],
     example: {
       action: 'search_advanced',
@@ -107,7 +107,7 @@ export const DECISION_ACTION_SPECS: Record<string, ActionSpec> = {
       sort_order: 'desc',
       limit: 20
     },
-    hint: "Use tags_all for AND logic, tags_any for OR logic. Values truncated to 30 chars; use full_value=true for complete text. Aliases: after→updated_after, before→updated_before"
+    hint: "Use tags_all for AND logic, tags_any for OR logic. search_text is full-text (key, value, rationale, alternatives, tradeoffs) and returns rank + highlighted snippet, sorted by relevance unless sort_by is set. Values truncated to 30 chars; use full_value=true for complete text. as_of (ISO or '7d') searches decisions as they were at that time. Aliases: after→updated_after, before→updated_before"
   },
 
   set_batch: {
@@ -207,5 +207,111 @@ export const DECISION_ACTION_SPECS: Record<string, ActionSpec> = {
       limit: 50
     },
     hint: "Query decision contexts with optional filters for traceability. Alias: key→decision_key"
+  },
+
+  export: {
+    required: ['format'],
+    optional: ['tags', 'layers', 'since', 'status', 'group_by', 'include_metadata', 'include_context'],
+    example: {
+      action: 'export',
+      format: 'adr',
+      layers: ['data', 'infrastructure'],
+      status: ['active'],
+      group_by: 'layer',
+      include_context: true
+    },
+    hint: "Formats: blocks, markdown, adr, notion, confluence. tags use AND logic. group_by: layer (default), tag, none. Constraints are included (active only)."
+  },
+
+  add_tags: {
+    required: ['key', 'tags'],
+    optional: [],
+    example: {
+      action: 'add_tags',
+      key: 'database/postgresql-choice',
+      tags: ['infrastructure']
+    },
+    hint: "Keeps existing tags and the current version. Use set to replace tags with a new version."
+  },
+
+  deprecate: {
+    required: ['key'],
+    optional: [],
+    example: {
+      action: 'deprecate',
+      key: 'database/mysql-choice'
+    },
+    hint: "Keeps the current version. Use link with relation_type supersedes to name a replacement."
+  },
+
+  link: {
+    required: ['key', 'target_key', 'relation_type'],
+    optional: ['note'],
+    example: {
+      action: 'link',
+      key: 'database/postgresql-choice',
+      target_key: 'database/mysql-choice',
+      relation_type: 'supersedes',
+      note: 'Migrated for JSONB support'
+    },
+    hint: "relation_type: supersedes, depends_on, refines, conflicts_with. Direction is key → target_key. supersedes moves target_key to deprecated."
+  },
+
+  unlink: {
+    required: ['key', 'target_key'],
+    optional: ['relation_type'],
+    example: {
+      action: 'unlink',
+      key: 'api/rate-limit',
+      target_key: 'infra/redis-cache',
+      relation_type: 'depends_on'
+    },
+    hint: "Omit relation_type to remove all relations from key to target_key. Does not restore a superseded decision's status."
+  },
+
+  relations: {
+    required: ['key'],
+    optional: ['direction', 'relation_type'],
+    example: {
+      action: 'relations',
+      key: 'database/postgresql-choice',
+      direction: 'both'
+    },
+    hint: "direction: outbound (key → other), inbound (other → key), both (default). Follow supersedes/depends_on chains to trace reasoning."
+  },
+
+  diff: {
+    required: ['key'],
+    optional: ['from_version', 'to_version', 'granularity'],
+    example: {
+      action: 'diff',
+      key: 'database/postgresql-choice',
+      from_version: '1.0.0',
+      to_version: '1.1.0'
+    },
+    hint: "Defaults compare the previous version with the current one. granularity: word (default for single-line values) or line. Also reports layer, status, tags and scopes changes"
+  },
+
+  revert: {
+    required: ['key', 'version', 'reason'],
+    optional: ['auto_increment'],
+    example: {
+      action: 'revert',
+      key: 'database/postgresql-choice',
+      version: '1.0.0',
+      reason: 'MySQL migration abandoned after load testing'
+    },
+    hint: "Restores the value of an earlier version as a NEW version (history is never rewritten). Use versions or diff to pick the target. auto_increment: patch (default), minor, major"
+  },
+
+  changes: {
+    required: [],
+    optional: ['cursor', 'since', 'event_types', 'limit'],
+    example: {
+      action: 'changes',
+      cursor: 'eyJhZnRlciI6NDJ9',
+      limit: 50
+    },
+    hint: "Ordered change events (created, updated, status_changed, deleted, context_added, constraint_added, constraint_updated, constraint_activated, constraint_deactivated). Store the returned cursor and pass it back to sync incrementally; has_more=true means call again right away. Use since (ISO or '7d') only on the first call"
   }
 };
@@ -0,0 +1,100 @@
+/**
+ * Change feed for decisions and constraints (v5.1.0)
+ *
+ * t_change_events is an append-only log written by the mutating actions
+ * (set, hard_delete, add_decision_context, supersedes, constraint add /
+ * update / activate / deactivate / expiry). decision.changes reads it in seq
+ * order from a cursor, so long-running agents can sync incrementally.
+ *
+ * Events are written with the caller's knex/transaction: a rolled back
+ * mutation leaves no event behind.
+ *
+ * seq, not the auto-increment id, is the cursor: it comes from the project's
+ * m_change_sequence row, which stays locked until the writing transaction
+ * commits. Event writers of a project are serialized from their first event
+ * to commit, so committed events always form a gapless prefix in seq order
+ * and a reader never moves past an event that commits later.
+ */
+
+import type { Knex } from 'knex';
+import type { ChangeEventType } from '../types.js';
+
+export const CHANGE_EVENTS_TABLE = 't_change_events';
+export const CHANGE_SEQUENCE_TABLE = 'm_change_sequence';
+
+/**
+ * Event to record
+ * Decision events carry key_id (and version); constraint events carry constraint_id.
+ */
+export interface ChangeEventInput {
+  type: ChangeEventType;
+  key_id?: number;
+  constraint_id?: number;
+  version?: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Append an event to the change feed
+ * Without a transaction, the event gets its own (sequence bump and insert commit together).
+ */
+export async function recordChangeEvent(
+  knex: Knex | Knex.Transaction,
+  projectId: number,
+  event: ChangeEventInput
+): Promise<void> {
+  if (!(knex as Knex.Transaction).isTransaction) {
+    await knex.transaction(trx => recordChangeEvent(trx, projectId, event));
+    return;
+  }
+
+  await knex(CHANGE_EVENTS_TABLE).insert({
+    project_id: projectId,
+    seq: await nextChangeSequence(knex as Knex.Transaction, projectId),
+    event_type: event.type,
+    key_id: event.key_id ?? null,
+    constraint_id: event.constraint_id ?? null,
+    version: event.version ?? null,
+    details: event.details ? JSON.stringify(event.details) : null,
+    ts: Math.floor(Date.now() / 1000),
+  });
+}
+
+/**
+ * Take the project's next sequence number
+ * The increment locks the counter row until trx commits or rolls back.
+ */
+async function nextChangeSequence(trx: Knex.Transaction, projectId: number): Promise<number> {
+  await trx(CHANGE_SEQUENCE_TABLE)
+    .insert({ project_id: projectId, last_seq: 0 })
+    .onConflict('project_id')
+    .ignore();
+  await trx(CHANGE_SEQUENCE_TABLE).where({ project_id: projectId }).increment('last_seq', 1);
+  const row = await trx(CHANGE_SEQUENCE_TABLE)
+    .where({ project_id: projectId })
+    .first('last_seq') as { last_seq: number };
+  return Number(row.last_seq);
+}
+
+/**
+ * Encode the seq of the last seen event as an opaque cursor token
+ */
+export function encodeChangeCursor(seq: number): string {
+  return Buffer.from(JSON.stringify({ after: seq })).toString('base64url');
+}
+
+/**
+ * Decode a cursor token into the seq of the last seen event
+ * @throws Error if the token was not produced by encodeChangeCursor
+ */
+export function decodeChangeCursor(cursor: string): number {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Number.isInteger(decoded?.after) && decoded.after >= 0) {
+      return decoded.after;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error(`Invalid cursor: "${cursor}". Pass the cursor returned by a previous changes call`);
+}
@@ -0,0 +1,89 @@
+/**
+ * Per-project constraint categories (v5.1.0)
+ *
+ * m_constraint_categories holds each project's categories. New projects are
+ * seeded with DEFAULT_CONSTRAINT_CATEGORIES; constraint.create_category,
+ * rename_category and retire_category manage them from there on.
+ *
+ * Retired categories (active = 0) keep their constraints and stay readable,
+ * but new constraints can only use active categories.
+ */
+
+import type { Knex } from 'knex';
+import { DEFAULT_CONSTRAINT_CATEGORIES } from '../constants.js';
+
+/**
+ * Category row of a project
+ */
+export interface ConstraintCategoryRow {
+  id: number;
+  name: string;
+  active: boolean;
+}
+
+/**
+ * Seed the default categories into a project (idempotent)
+ */
+export async function seedConstraintCategories(
+  knex: Knex | Knex.Transaction,
+  projectId: number
+): Promise<void> {
+  await knex('m_constraint_categories')
+    .insert(DEFAULT_CONSTRAINT_CATEGORIES.map(name => ({ project_id: projectId, name, active: 1 })))
+    .onConflict(['project_id', 'name'])
+    .ignore();
+}
+
+/**
+ * List the categories of a project, sorted by name
+ *
+ * @param options.includeRetired - Also return retired categories
+ */
+export async function listConstraintCategories(
+  knex: Knex | Knex.Transaction,
+  projectId: number,
+  options: { includeRetired?: boolean } = {}
+): Promise<ConstraintCategoryRow[]> {
+  const query = knex('m_constraint_categories')
+    .where({ project_id: projectId })
+    .orderBy('name', 'asc')
+    .select('id', 'name', 'active');
+  if (!options.includeRetired) {
+    query.where('active', 1);
+  }
+
+  const rows = await query as Array<{ id: number; name: string; active: number }>;
+  return rows.map(row => ({ id: row.id, name: row.name, active: row.active === 1 }));
+}
+
+/**
+ * Resolve the ID of an active category for new constraints
+ *
+ * @throws Error listing the project's active categories if the name is unknown or retired
+ */
+export async function getActiveCategoryId(
+  knex: Knex | Knex.Transaction,
+  projectId: number,
+  name: string
+): Promise<number> {
+  const categories = await listConstraintCategories(knex, projectId);
+  const category = categories.find(c => c.name === name);
+  if (!category) {
+    throw new Error(`Invalid category. Must be one of: ${categories.map(c => c.name).join(', ')}`);
+  }
+  return category.id;
+}
+
+/**
+ * Find a category of a project by name (active or retired)
+ */
+export async function findConstraintCategory(
+  knex: Knex | Knex.Transaction,
+  projectId: number,
+  name: string
+): Promise<ConstraintCategoryRow | null> {
+  const row = await knex('m_constraint_categories')
+    .where({ project_id: projectId, name })
+    .first('id', 'name', 'active') as { id: number; name: string; active: number } | undefined;
+  return row ? { id: row.id, name: row.name, active: row.active === 1 } : null;
+}
@@ -0,0 +1,70 @@
+/**
+ * Constraint expiry (v5.1.0)
+ *
+ * Constraints with expires_at are temporary (e.g. a library freeze until a
+ * migration lands). The server deactivates expired ones at startup, next to
+ * QueueWatcher processing; constraint.update can extend or clear expires_at.
+ * Queries for active constraints also skip expired ones, so a constraint that
+ * expires mid-session (or in another HTTP session's project) stops applying
+ * without a restart.
+ */
+
+import type { Knex } from 'knex';
+import { SQLITE_FALSE } from '../constants.js';
+import { recordChangeEvent } from './change-feed.js';
+
+/**
+ * Restrict a constraint query to constraints that have not expired
+ *
+ * @param column - expires_at column (qualified when the query uses an alias)
+ * @param now - Unix timestamp to compare against (default: current time)
+ */
+export function whereNotExpired(
+  query: Knex.QueryBuilder,
+  column: string = 'expires_at',
+  now: number = Math.floor(Date.now() / 1000)
+): Knex.QueryBuilder {
+  return query.where(function () {
+    this.whereNull(column).orWhere(column, '>', now);
+  });
+}
+
+/**
+ * Deactivate the project's active constraints whose expires_at has passed
+ * Each deactivation is recorded as a constraint_deactivated change event.
+ *
+ * @param now - Unix timestamp to compare against (default: current time)
+ * @returns IDs of the deactivated constraints
+ */
+export async function deactivateExpiredConstraints(
+  knex: Knex,
+  projectId: number,
+  now: number = Math.floor(Date.now() / 1000)
+): Promise<number[]> {
+  return await knex.transaction(async (trx) => {
+    const expired = await trx('t_constraints')
+      .where({ project_id: projectId, active: 1 })
+      .whereNotNull('expires_at')
+      .where('expires_at', '<=', now)
+      .orderBy('id', 'asc')
+      .select('id', 'expires_at') as Array<{ id: number; expires_at: number }>;
+
+    if (expired.length === 0) {
+      return [];
+    }
+
+    await trx('t_constraints')
+      .whereIn('id', expired.map(c => c.id))
+      .update({ active: SQLITE_FALSE });
+
+    for (const constraint of expired) {
+      await recordChangeEvent(trx, projectId, {
+        type: 'constraint_deactivated',
+        constraint_id: constraint.id,
+        details: { reason: 'expired', expires_at: new Date(constraint.expires_at * 1000).toISOString() }
+      });
+    }
+
+    return expired.map(c => c.id);
+  });
+}
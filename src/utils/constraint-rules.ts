@@ -0,0 +1,359 @@
+/**
+ * Machine-checkable constraint rules (v5.1.0)
+ *
+ * A constraint can carry rules in t_constraints.rules (JSON). constraint.check
+ * and `sqlew check` walk the working tree, honoring .gitignore through
+ * GitIgnoreParser, and report every violation by file and line:
+ * - forbidden_imports:  import/export/require/import() specifiers
+ * - forbidden_patterns: regexes tested line by line
+ * - required_patterns:  regexes tested against the whole file
+ *
+ * `paths` limits a constraint's rules to matching files (gitignore syntax,
+ * so `src/api/` and `*.ts` both work).
+ */
+
+import ignore, { Ignore } from 'ignore';
+import { readdirSync, readFileSync, statSync } from 'fs';
+import { join, relative } from 'path';
+import type { Knex } from 'knex';
+import { createGitIgnoreParser, GitIgnoreParser } from '../watcher/gitignore-parser.js';
+import { whereNotExpired } from './constraint-expiry.js';
+import type { ConstraintRules, ConstraintRuleType, ConstraintViolation } from '../types.js';
+
+/** Rule lists accepted in a rules object */
+const RULE_LISTS = ['paths', 'forbidden_imports', 'forbidden_patterns', 'required_patterns'] as const;
+
+/** Files larger than this are not scanned */
+const MAX_FILE_SIZE = 1024 * 1024;
+
+/** Longest offending line returned in a violation */
+const MAX_LINE_TEXT = 200;
+
+/** Import specifiers in JavaScript/TypeScript sources */
+const IMPORT_PATTERNS = [
+  /\bfrom\s+['"]([^'"]+)['"]/g,
+  /^\s*import\s+['"]([^'"]+)['"]/g,
+  /\b(?:require|import)\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
+];
+
+/**
+ * Constraint with parsed rules, ready to check
+ */
+export interface CheckableConstraint {
+  id: number;
+  constraint_text: string;
+  rules: ConstraintRules;
+}
+
+/**
+ * Result of a working tree scan
+ */
+export interface ConstraintCheckResult {
+  files_scanned: number;
+  violations: ConstraintViolation[];
+}
+
+/**
+ * Validate and normalize rules given to constraint.add / constraint.update
+ *
+ * @param input - Rules object, or its JSON string (MCP clients may send either)
+ * @returns Normalized rules, or null when input is null/undefined
+ * @throws Error on unknown keys, non-string entries, invalid regexes or no checks
+ */
+export function parseConstraintRules(input: unknown): ConstraintRules | null {
+  if (input === null || input === undefined) {
+    return null;
+  }
+
+  let value = input;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      throw new Error('Parameter "rules" must be an object or a JSON object string');
+    }
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('Parameter "rules" must be an object');
+  }
+
+  const unknown = Object.keys(value).filter(key => !(RULE_LISTS as readonly string[]).includes(key));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown rule "${unknown[0]}". Valid rules: ${RULE_LISTS.join(', ')}`);
+  }
+
+  // Fixed key order so stored rules compare equal regardless of input order
+  const rules: ConstraintRules = {};
+  for (const key of RULE_LISTS) {
+    const entries = (value as Record<string, unknown>)[key];
+    if (entries === undefined) {
+      continue;
+    }
+    const list = typeof entries === 'string' ? [entries] : entries;
+    if (!Array.isArray(list) || list.some(entry => typeof entry !== 'string' || entry.trim() === '')) {
+      throw new Error(`Rule "${key}" must be an array of non-empty strings`);
+    }
+    if (list.length > 0) {
+      rules[key] = list.map((entry: string) => entry.trim());
+    }
+  }
+
+  for (const key of ['forbidden_patterns', 'required_patterns'] as const) {
+    for (const pattern of rules[key] ?? []) {
+      try {
+        new RegExp(pattern);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Invalid regex in ${key}: ${message}`);
+      }
+    }
+  }
+
+  if (!rules.forbidden_imports && !rules.forbidden_patterns && !rules.required_patterns) {
+    throw new Error('Rules must define at least one of: forbidden_imports, forbidden_patterns, required_patterns');
+  }
+
+  return rules;
+}
+
+/**
+ * Read rules stored in t_constraints.rules
+ * Malformed JSON is treated as no rules.
+ */
+export function readConstraintRules(stored: string | null | undefined): ConstraintRules | null {
+  if (!stored) {
+    return null;
+  }
+  try {
+    return parseConstraintRules(stored);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Serialize rules for storage (null when there are none)
+ */
+export function serializeConstraintRules(rules: ConstraintRules | null): string | null {
+  return rules ? JSON.stringify(rules) : null;
+}
+
+/**
+ * Load the project's active constraints that carry rules
+ *
+ * @param constraintIds - Only these constraints (inactive ones included)
+ * @throws Error if a requested constraint does not exist or has no rules
+ */
+export async function loadCheckableConstraints(
+  knex: Knex | Knex.Transaction,
+  projectId: number,
+  constraintIds?: number[]
+): Promise<CheckableConstraint[]> {
+  const query = knex('t_constraints')
+    .where({ project_id: projectId })
+    .whereNotNull('rules')
+    .orderBy('id', 'asc')
+    .select('id', 'constraint_text', 'rules');
+
+  if (constraintIds && constraintIds.length > 0) {
+    query.whereIn('id', constraintIds);
+  } else {
+    whereNotExpired(query.where('active', 1));
+  }
+
+  const rows = await query as Array<{ id: number; constraint_text: string; rules: string | null }>;
+  const constraints = rows
+    .map(row => ({ id: row.id, constraint_text: row.constraint_text, rules: readConstraintRules(row.rules) }))
+    .filter((row): row is CheckableConstraint => row.rules !== null);
+
+  if (constraintIds && constraintIds.length > 0) {
+    const found = new Set(constraints.map(c => c.id));
+    const missing = constraintIds.filter(id => !found.has(id));
+    if (missing.length > 0) {
+      throw new Error(`Constraints not found or without rules: ${missing.join(', ')}`);
+    }
+  }
+
+  return constraints;
+}
+
+/**
+ * Compile a forbidden import pattern
+ * `*` matches anything; "lodash" also matches "lodash/fp".
+ */
+function compileImportPattern(pattern: string): RegExp {
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}(?:/.*)?$`);
+}
+
+/**
+ * Extract import specifiers from one source line
+ */
+function extractImports(line: string): string[] {
+  const specifiers: string[] = [];
+  for (const pattern of IMPORT_PATTERNS) {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(line)) !== null) {
+      specifiers.push(match[1]);
+    }
+  }
+  return specifiers;
+}
+
+/**
+ * List the files of the working tree that are not ignored, sorted by path
+ */
+function listFiles(projectRoot: string, parser: GitIgnoreParser): string[] {
+  const files: string[] = [];
+
+  const walk = (dir: string): void => {
+    let entries;
+    try {
+      entries = readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      const fullPath = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!parser.shouldIgnore(`${fullPath}/`)) {
+          walk(fullPath);
+        }
+      } else if (entry.isFile() && !parser.shouldIgnore(fullPath)) {
+        files.push(fullPath);
+      }
+    }
+  };
+
+  walk(projectRoot);
+  return files;
+}
+
+/**
+ * Read a text file, or null for large and binary files
+ */
+function readTextFile(filePath: string): string | null {
+  try {
+    if (statSync(filePath).size > MAX_FILE_SIZE) {
+      return null;
+    }
+    const buffer = readFileSync(filePath);
+    if (buffer.subarray(0, 8000).includes(0)) {
+      return null;
+    }
+    return buffer.toString('utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Scan the working tree against constraint rules
+ *
+ * @param projectRoot - Absolute project root (its .gitignore is honored)
+ * @param constraints - Constraints with rules
+ * @param options.paths - Gitignore-style globs limiting which files are scanned
+ * @returns Number of files scanned and violations ordered by file and line
+ *          (file-level violations of required_patterns first)
+ */
+export function checkConstraintRules(
+  projectRoot: string,
+  constraints: CheckableConstraint[],
+  options: { paths?: string[] } = {}
+): ConstraintCheckResult {
+  const violations: ConstraintViolation[] = [];
+  if (constraints.length === 0) {
+    return { files_scanned: 0, violations };
+  }
+
+  const scanFilter: Ignore | null = options.paths && options.paths.length > 0
+    ? ignore().add(options.paths)
+    : null;
+
+  const compiled = constraints.map(constraint => ({
+    constraint,
+    paths: constraint.rules.paths ? ignore().add(constraint.rules.paths) : null,
+    imports: (constraint.rules.forbidden_imports ?? []).map(p => ({ pattern: p, regex: compileImportPattern(p) })),
+    forbidden: (constraint.rules.forbidden_patterns ?? []).map(p => ({ pattern: p, regex: new RegExp(p) })),
+    required: (constraint.rules.required_patterns ?? []).map(p => ({ pattern: p, regex: new RegExp(p, 'm') })),
+  }));
+
+  // .sqlew holds the database and session state, never source
+  const parser = createGitIgnoreParser(projectRoot, ['.sqlew']);
+  let filesScanned = 0;
+
+  for (const filePath of listFiles(projectRoot, parser)) {
+    const file = relative(projectRoot, filePath).replace(/\\/g, '/');
+    if (scanFilter && !scanFilter.ignores(file)) {
+      continue;
+    }
+
+    const applicable = compiled.filter(c => !c.paths || c.paths.ignores(file));
+    if (applicable.length === 0) {
+      continue;
+    }
+
+    const content = readTextFile(filePath);
+    if (content === null) {
+      continue;
+    }
+    filesScanned++;
+
+    const lines = content.split(/\r?\n/);
+    const fileViolations: ConstraintViolation[] = [];
+    const report = (
+      constraint: CheckableConstraint,
+      rule: ConstraintRuleType,
+      pattern: string,
+      line: number | null,
+      message: string
+    ): void => {
+      const text = line !== null ? lines[line - 1].trim().slice(0, MAX_LINE_TEXT) : undefined;
+      fileViolations.push({
+        constraint_id: constraint.id,
+        constraint_text: constraint.constraint_text,
+        rule,
+        pattern,
+        file,
+        line,
+        ...(text !== undefined ? { text } : {}),
+        message,
+      });
+    };
+
+    for (const { constraint, imports, forbidden, required } of applicable) {
+      lines.forEach((line, index) => {
+        if (imports.length > 0) {
+          for (const specifier of extractImports(line)) {
+            const hit = imports.find(i => i.regex.test(specifier));
+            if (hit) {
+              report(constraint, 'forbidden_import', hit.pattern, index + 1, `Import "${specifier}" is forbidden`);
+            }
+          }
+        }
+        for (const { pattern, regex } of forbidden) {
+          if (regex.test(line)) {
+            report(constraint, 'forbidden_pattern', pattern, index + 1, `Forbidden pattern /${pattern}/ matched`);
+          }
+        }
+      });
+
+      for (const { pattern, regex } of required) {
+        if (!regex.test(content)) {
+          report(constraint, 'required_pattern', pattern, null, `Required pattern /${pattern}/ not found`);
+        }
+      }
+    }
+
+    fileViolations.sort((a, b) => (a.line ?? 0) - (b.line ?? 0) || a.constraint_id - b.constraint_id);
+    violations.push(...fileViolations);
+  }
+
+  return { files_scanned: filesScanned, violations };
+}
@@ -1,16 +1,31 @@
 /**
  * Constraint scoring algorithm for Constraint Intelligence System
  *
- * Scores constraints based on:
+ * Scores constraints based on (default weights):
  * - Tag overlap (40 points max, 10 per matching tag)
  * - Layer match (25 points)
  * - Text similarity (20 points, Levenshtein distance)
+ *   or semantic similarity when embeddings are enabled and it scores higher (v5.1.0)
+ * - Scope overlap (0 points; v5.1.0)
  * - Recency (10 points)
  * - Priority (5 points)
  *
- * Total: 100 points max
+ * Total: 100 points max. Weights are configurable per project with
+ * [suggest.weights] (v5.1.0, see suggest-weights.ts). Accept / reject
+ * feedback on the same query and constraint adds or subtracts up to 15
+ * points (v5.1.0, see suggest-feedback.ts); totals stay within 0-100.
  */
 
+import {
+  tagOverlapRatio,
+  scopeOverlapRatio,
+  recencyRatio,
+  priorityRatio,
+  weightedPoints,
+  clampScore,
+} from './suggestion-scorer.js';
+import { DEFAULT_SUGGEST_WEIGHTS, type SuggestWeights } from './suggest-weights.js';
+
 /**
  * Candidate constraint from database query
  */
@@ -22,6 +37,7 @@ export interface ConstraintCandidate {
   layer: string | null;
   priority: number;
   ts: number;
+  scopes?: string[];  // v5.1.0: scored by scope overlap
 }
 
 /**
@@ -31,8 +47,11 @@ export interface ScoreBreakdown {
   tag_overlap: number;
   layer_match: number;
   text_similarity: number;
+  semantic_similarity?: number;  // Only when embeddings are enabled (v5.1.0)
+  scope_overlap?: number;  // Only when the context has scopes (v5.1.0)
   recency: number;
   priority: number;
+  feedback?: number;  // Only for pairs with accept / reject feedback (v5.1.0)
 }
 
 /**
@@ -57,6 +76,7 @@ export interface ConstraintScoringContext {
   tags: string[];
   layer?: string;
   priority?: number;
+  scopes?: string[];  // v5.1.0: scored by scope overlap
 }
 
 /**
@@ -132,35 +152,19 @@ function calculateTextSimilarity(text1: string, text2: string): number {
 }
 
 /**
- * Calculate tag overlap score (0-40 points, 10 per tag, max 4)
+ * Calculate semantic similarity score (0-20 points)
+ * Scales the embedding cosine similarity (0-1) of query and constraint text
  *
- * @param contextTags - Tags from the scoring context
- * @param constraintTags - Tags from the constraint candidate
- * @returns Tag overlap score (0-40)
+ * @param similarity - Cosine similarity, undefined if not computed
+ * @returns Semantic similarity score (0-20)
  */
-function calculateTagOverlap(contextTags: string[], constraintTags: string[]): number {
-  if (!contextTags || !constraintTags) return 0;
-  const overlap = contextTags.filter(t => constraintTags.includes(t)).length;
-  return Math.min(overlap * 10, 40);
+function calculateSemanticSimilarity(similarity: number | undefined): number {
+  if (similarity === undefined) return 0;
+  return Math.round(Math.max(0, Math.min(1, similarity)) * 20);
 }
 
 /**
- * Calculate layer match score (0 or 25 points)
- *
- * @param contextLayer - Layer from the scoring context
- * @param constraintLayer - Layer from the constraint candidate
- * @returns Layer match score (0 or 25)
- */
-function calculateLayerMatch(
-  contextLayer: string | undefined,
-  constraintLayer: string | null
-): number {
-  if (!contextLayer || !constraintLayer) return 0;
-  return contextLayer === constraintLayer ? 25 : 0;
-}
-
-/**
- * Calculate recency score (0-10 points)
+ * Calculate recency score (0-10 points, default weight)
  * Constraints updated recently score higher
  *
  * Scoring tiers:
@@ -173,36 +177,7 @@ function calculateLayerMatch(
  * @returns Recency score (0-10)
  */
 export function calculateRecencyScore(ts: number): number {
-  const now = Math.floor(Date.now() / 1000);
-  const ageSeconds = now - ts;
-  const ageDays = ageSeconds / 86400;
-
-  if (ageDays <= 30) return 10;
-  if (ageDays <= 90) return 5;
-  if (ageDays <= 180) return 2;
-  return 0;
-}
-
-/**
- * Calculate priority score (0-5 points)
- *
- * Priority mapping:
- * - Critical (4): 5 points
- * - High (3): 4 points
- * - Medium (2): 3 points
- * - Low (1): 2 points
- *
- * @param priority - Priority level (1-4)
- * @returns Priority score (0-5)
- */
-function calculatePriorityScore(priority: number): number {
-  const scoreMap: Record<number, number> = {
-    4: 5, // Critical
-    3: 4, // High
-    2: 3, // Medium
-    1: 2, // Low
-  };
-  return scoreMap[priority] ?? 0;
+  return weightedPoints(recencyRatio(ts), DEFAULT_SUGGEST_WEIGHTS.recency);
 }
 
 /**
@@ -210,27 +185,48 @@ function calculatePriorityScore(priority: number): number {
  *
  * @param candidate - Constraint candidate to score
  * @param context - Scoring context (text, tags, layer, priority)
+ * @param semanticSimilarity - Embedding similarity (0-1), when embeddings are enabled
+ * @param weights - Component weights (default: built-in weights)
+ * @param feedbackPoints - Feedback points of this query / constraint pair, if any
  * @returns Scored constraint with breakdown
  */
 export function scoreConstraint(
   candidate: ConstraintCandidate,
-  context: ConstraintScoringContext
+  context: ConstraintScoringContext,
+  semanticSimilarity?: number,
+  weights: SuggestWeights = DEFAULT_SUGGEST_WEIGHTS,
+  feedbackPoints?: number
 ): ScoredConstraint {
-  const tagOverlap = calculateTagOverlap(context.tags, candidate.tags);
-  const layerMatch = calculateLayerMatch(context.layer, candidate.layer);
-  const textSimilarity = calculateTextSimilarity(context.text, candidate.constraint_text);
-  const recency = calculateRecencyScore(candidate.ts);
-  const priority = calculatePriorityScore(candidate.priority);
+  const sharedTags = (context.tags ?? []).filter(t => (candidate.tags ?? []).includes(t)).length;
+  const tagOverlap = weightedPoints(tagOverlapRatio(sharedTags), weights.tags);
+  const layerMatch = context.layer && context.layer === candidate.layer ? weightedPoints(1, weights.layer) : 0;
+  const textRaw = calculateTextSimilarity(context.text, candidate.constraint_text);
+  const semanticRaw = semanticSimilarity !== undefined ? calculateSemanticSimilarity(semanticSimilarity) : undefined;
+  const textSimilarity = weightedPoints(textRaw / 20, weights.similarity);
+  const semantic = semanticRaw !== undefined ? weightedPoints(semanticRaw / 20, weights.similarity) : undefined;
+  const scopeOverlap = context.scopes && context.scopes.length > 0
+    ? weightedPoints(scopeOverlapRatio(context.scopes, candidate.scopes ?? []), weights.scope)
+    : undefined;
+  const recency = weightedPoints(recencyRatio(candidate.ts), weights.recency);
+  const priority = weightedPoints(priorityRatio(candidate.priority), weights.priority);
 
-  const totalScore = tagOverlap + layerMatch + textSimilarity + recency + priority;
+  // Text and semantic similarity share the similarity slot
+  const similarity = Math.max(textSimilarity, semantic ?? 0);
+  const totalScore = clampScore(
+    tagOverlap + layerMatch + similarity + (scopeOverlap ?? 0) + recency + priority + (feedbackPoints ?? 0)
+  );
 
   // Generate human-readable reason
   const reasons: string[] = [];
-  if (tagOverlap >= 20) reasons.push(`${tagOverlap / 10} matching tags`);
+  if (sharedTags >= 2 && tagOverlap > 0) reasons.push(`${sharedTags} matching tags`);
   if (layerMatch > 0) reasons.push('same layer');
-  if (textSimilarity >= 15) reasons.push('similar constraint text');
-  if (recency >= 5) reasons.push('recently updated');
-  if (priority >= 4) reasons.push('high priority');
+  if (textRaw >= 15 && textSimilarity > 0) reasons.push('similar constraint text');
+  if ((semanticRaw ?? 0) >= 10 && (semanticRaw ?? 0) > textRaw && (semantic ?? 0) > 0) reasons.push('semantically similar');
+  if ((scopeOverlap ?? 0) > 0) reasons.push('shared scope');
+  if (recency > 0 && recency >= weights.recency / 2) reasons.push('recently updated');
+  if (priorityRatio(candidate.priority) >= 0.8 && priority > 0) reasons.push('high priority');
+  if ((feedbackPoints ?? 0) > 0) reasons.push('accepted before');
+  if ((feedbackPoints ?? 0) < 0) reasons.push('rejected before');
 
   return {
     id: candidate.id,
@@ -241,8 +237,11 @@ export function scoreConstraint(
       tag_overlap: tagOverlap,
       layer_match: layerMatch,
       text_similarity: textSimilarity,
+      ...(semantic !== undefined && { semantic_similarity: semantic }),
+      ...(scopeOverlap !== undefined && { scope_overlap: scopeOverlap }),
       recency,
       priority,
+      ...(feedbackPoints !== undefined && { feedback: feedbackPoints }),
     },
     reason: reasons.length > 0 ? reasons.join(', ') : 'low similarity',
     tags: candidate.tags,
@@ -256,13 +255,27 @@ export function scoreConstraint(
  *
  * @param candidates - Array of constraint candidates
  * @param context - Scoring context (text, tags, layer, priority)
+ * @param semantic - Embedding similarity (0-1) per constraint id, when embeddings are enabled
+ * @param weights - Component weights (default: built-in weights)
+ * @param feedback - Feedback points per constraint id, from feedbackAdjustments()
  * @returns Array of scored constraints, sorted by score descending
  */
 export function scoreConstraints(
   candidates: ConstraintCandidate[],
-  context: ConstraintScoringContext
+  context: ConstraintScoringContext,
+  semantic?: Map<number, number>,
+  weights: SuggestWeights = DEFAULT_SUGGEST_WEIGHTS,
+  feedback?: Map<number, number>
 ): ScoredConstraint[] {
-  const scored = candidates.map(candidate => scoreConstraint(candidate, context));
+  const scored = candidates.map(candidate =>
+    scoreConstraint(
+      candidate,
+      context,
+      semantic ? semantic.get(candidate.id) ?? 0 : undefined,
+      weights,
+      feedback?.get(candidate.id)
+    )
+  );
 
   // Sort by score descending
   return scored.sort((a, b) => b.score - a.score);
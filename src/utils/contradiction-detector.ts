@@ -0,0 +1,292 @@
+/**
+ * Contradiction detection between decisions and constraints (v5.1.0)
+ *
+ * Heuristics, no model:
+ * - Negation: a topic is negated in one text and affirmed in the other
+ *   ("no caching layer" vs "all reads go through Redis": Redis is a cache)
+ * - Antonyms: the texts take opposite sides ("sync" vs "async") on a shared topic
+ *
+ * Words are stemmed with the embedding tokenizer's stemmer and mapped to
+ * concepts (Redis → cache, PostgreSQL → database). Stances are kept per
+ * literal term: two texts naming products are compared product by product
+ * ("Redis, not Memcached" agrees with "Redis"); the concept's stance is only
+ * used when a text names no product ("no caching layer").
+ */
+
+import { stem } from './embeddings/tfidf-provider.js';
+
+/**
+ * Text to compare
+ * The topic (e.g. a decision key) only identifies what the text is about;
+ * negations in it are not taken as a stance.
+ */
+export interface ContradictionText {
+  topic?: string;
+  text: string;
+}
+
+/**
+ * Detected contradiction
+ */
+export interface Contradiction {
+  kind: 'negation' | 'antonym';
+  /** Concepts both texts talk about */
+  concepts: string[];
+  /** Why the texts oppose each other */
+  reason: string;
+}
+
+/** Words that negate the following words of their clause */
+const NEGATION_CUES = new Set([
+  'no', 'not', 'never', 'without', 'none', 'nothing', 'neither', 'nor', 'avoid', 'disable', 'disabled',
+  'disallow', 'disallowed', 'forbid', 'forbidden', 'prohibit', 'prohibited', 'ban', 'banned',
+  'remove', 'drop', 'skip', 'stop', 'against', 'cannot',
+]);
+
+/** Content words a negation reaches (e.g. "no caching layer" → caching, layer) */
+const NEGATION_SCOPE = 2;
+
+/** Clause words that end a negation */
+const CLAUSE_BREAKS = new Set(['but', 'instead', 'except', 'unless', 'however', 'so', 'then']);
+
+/** Words too generic to be a shared topic */
+const GENERIC_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'of', 'to', 'in', 'on', 'at', 'by', 'for', 'from', 'with', 'into', 'via',
+  'is', 'are', 'be', 'do', 'doe', 'it', 'this', 'that', 'we', 'us', 'our', 'all', 'any', 'every', 'each', 'some',
+  'must', 'should', 'shall', 'will', 'can', 'may', 'use', 'using', 'used', 'go', 'goe', 'through',
+  'layer', 'system', 'service', 'app', 'application', 'code', 'data', 'value', 'strategy', 'approach',
+  'pattern', 'way', 'default', 'new', 'only', 'always', 'also', 'policy', 'rule', 'level', 'mode',
+]);
+
+/** Concept words and products mapped to one concept (stemmed forms) */
+const CONCEPTS: Record<string, { words: string[]; products: string[] }> = {
+  cache: { words: ['cache', 'cach'], products: ['redis', 'memcache', 'memcach', 'memcached', 'varnish'] },
+  database: {
+    words: ['database', 'db', 'sql'],
+    products: ['postgres', 'postgresql', 'mysql', 'mariadb', 'sqlite', 'mongodb', 'mongo'],
+  },
+  queue: { words: ['queue'], products: ['kafka', 'rabbitmq', 'sqs', 'nat', 'pubsub'] },
+  orm: { words: ['orm'], products: ['prisma', 'typeorm', 'sequelize', 'drizzle', 'knex', 'hibernate'] },
+  auth: { words: ['auth', 'authentication', 'authorization', 'login'], products: ['jwt', 'oauth', 'sso'] },
+  log: { words: ['log', 'logg', 'logger'], products: [] },
+  retry: { words: ['retry', 'retri'], products: [] },
+  encryption: { words: ['encrypt', 'encryption'], products: ['tls', 'ssl', 'https'] },
+  test: { words: ['test', 'tests', 'testing'], products: [] },
+};
+
+/** Opposite word stems (each side matched as a word prefix) */
+const ANTONYMS: Array<[string[], string[]]> = [
+  [['sync', 'synchronous'], ['async', 'asynchronous']],
+  [['stateless'], ['stateful']],
+  [['enabl', 'allow', 'permit'], ['disabl', 'disallow', 'forbid', 'prohibit', 'deny', 'block']],
+  [['always', 'mandatory', 'requir'], ['never', 'optional']],
+  [['mutabl'], ['immutabl']],
+  [['public'], ['private', 'internal']],
+  [['encrypt'], ['plaintext', 'unencrypt']],
+  [['centraliz'], ['decentraliz', 'distribut']],
+  [['monolith'], ['microservice']],
+  [['eager'], ['lazy']],
+  [['optimistic'], ['pessimistic']],
+  [['manual'], ['automat']],
+  [['strict'], ['lenient', 'loose']],
+  [['client'], ['server']],
+];
+
+/**
+ * Stance of a text on one literal term
+ */
+export interface TermStance {
+  concept: string;
+  /** The term names a product of the concept (Redis) rather than the concept (cache) */
+  product: boolean;
+  /** 1 affirmed, -1 negated, 0 both in the same text (no stance) */
+  stance: 1 | -1 | 0;
+}
+
+const conceptOf = (() => {
+  const lookup = new Map<string, { concept: string; product: boolean }>();
+  for (const [concept, { words, products }] of Object.entries(CONCEPTS)) {
+    for (const word of words) {
+      lookup.set(word, { concept, product: false });
+    }
+    for (const product of products) {
+      lookup.set(product, { concept, product: true });
+    }
+  }
+  return (word: string): { concept: string; product: boolean } =>
+    lookup.get(word) ?? lookup.get(stem(word)) ?? { concept: stem(word), product: false };
+})();
+
+/**
+ * Split text into lowercase words and clause breaks ("." "," ";" etc.)
+ */
+function tokenize(text: string): string[] {
+  return text.toLowerCase().replace(/n't\b/g, ' not').match(/[\p{L}\p{N}]+|[.,;:!?()]/gu) ?? [];
+}
+
+/**
+ * Stances of a text per literal term (stemmed)
+ */
+export function analyzeStances(text: string): Map<string, TermStance> {
+  const stances = new Map<string, TermStance>();
+  let negatedWords = 0;
+
+  for (const token of tokenize(text)) {
+    if (!/[\p{L}\p{N}]/u.test(token) || CLAUSE_BREAKS.has(token)) {
+      negatedWords = 0;
+      continue;
+    }
+    if (NEGATION_CUES.has(token)) {
+      negatedWords = NEGATION_SCOPE;
+      continue;
+    }
+    if (GENERIC_WORDS.has(token) || GENERIC_WORDS.has(stem(token))) {
+      continue;
+    }
+
+    const term = stem(token);
+    const stance: 1 | -1 = negatedWords > 0 ? -1 : 1;
+    if (negatedWords > 0) negatedWords--;
+
+    // Affirmed and negated in the same text: no stance
+    const previous = stances.get(term);
+    stances.set(term, {
+      ...conceptOf(token),
+      stance: previous && previous.stance !== stance ? 0 : stance,
+    });
+  }
+
+  return stances;
+}
+
+/**
+ * Stance of a text on a concept: the common stance of its terms (0 if they differ)
+ */
+function conceptStance(stances: Map<string, TermStance>, concept: string): 1 | -1 | 0 | undefined {
+  let result: 1 | -1 | 0 | undefined;
+  for (const term of stances.values()) {
+    if (term.concept === concept) {
+      result = result === undefined || result === term.stance ? term.stance : 0;
+    }
+  }
+  return result;
+}
+
+/**
+ * Stance of each product of a concept a text names
+ */
+function productStances(stances: Map<string, TermStance>, concept: string): Map<string, 1 | -1 | 0> {
+  const products = new Map<string, 1 | -1 | 0>();
+  for (const [term, { concept: termConcept, product, stance }] of stances) {
+    if (product && termConcept === concept) {
+      products.set(term, stance);
+    }
+  }
+  return products;
+}
+
+/**
+ * Opposite stances on a concept, as the stance of the first text (null if none)
+ *
+ * When both texts name products of the concept, only the same product is
+ * compared; otherwise the concept's stance in each text is.
+ */
+function opposedStance(a: Map<string, TermStance>, b: Map<string, TermStance>, concept: string): 1 | -1 | null {
+  const productsA = productStances(a, concept);
+  const productsB = productStances(b, concept);
+
+  const pairs: Array<[1 | -1 | 0 | undefined, 1 | -1 | 0 | undefined]> = productsA.size > 0 && productsB.size > 0
+    ? [...productsA].map(([term, stance]) => [stance, productsB.get(term)])
+    : [[conceptStance(a, concept), conceptStance(b, concept)]];
+
+  for (const [stanceA, stanceB] of pairs) {
+    if (stanceA && stanceB && stanceA !== stanceB) {
+      return stanceA;
+    }
+  }
+  return null;
+}
+
+/**
+ * Topic concepts of a text (stance ignored)
+ */
+function topicConcepts(input: ContradictionText): Set<string> {
+  return new Set(
+    [...analyzeStances(input.topic ?? '').values(), ...analyzeStances(input.text).values()].map(t => t.concept)
+  );
+}
+
+/**
+ * Antonym side (0 or 1) a text takes for each antonym pair
+ */
+function antonymSides(text: string): Map<number, { side: 0 | 1; word: string }> {
+  const words = tokenize(text);
+  const sides = new Map<number, { side: 0 | 1; word: string }>();
+  ANTONYMS.forEach((pair, index) => {
+    for (const side of [0, 1] as const) {
+      const word = words.find(w => pair[side].some(prefix => w.startsWith(prefix)));
+      // First side found wins
+      if (word && !sides.has(index)) {
+        sides.set(index, { side, word });
+      }
+    }
+  });
+  return sides;
+}
+
+/**
+ * Check whether two texts contradict each other
+ *
+ * @param a - New decision (topic: key, text: value)
+ * @param b - Existing decision or constraint
+ * @returns The contradiction, or null
+ */
+export function detectContradiction(a: ContradictionText, b: ContradictionText): Contradiction | null {
+  const stancesA = analyzeStances(a.text);
+  const stancesB = analyzeStances(b.text);
+
+  // Negation: same concept (or product), opposite stance
+  const conceptsB = new Set([...stancesB.values()].map(t => t.concept));
+  const opposed: string[] = [];
+  let negatedInA = false;
+  for (const concept of new Set([...stancesA.values()].map(t => t.concept))) {
+    const stance = conceptsB.has(concept) ? opposedStance(stancesA, stancesB, concept) : null;
+    if (stance !== null) {
+      negatedInA = opposed.length === 0 ? stance === -1 : negatedInA;
+      opposed.push(concept);
+    }
+  }
+  if (opposed.length > 0) {
+    return {
+      kind: 'negation',
+      concepts: opposed,
+      reason: `"${opposed.join('", "')}" is ${negatedInA ? 'negated' : 'required'} in "${a.text}" but ${negatedInA ? 'required' : 'negated'} in "${b.text}"`,
+    };
+  }
+
+  // Antonyms: opposite sides of a pair on a shared topic
+  const topicA = topicConcepts(a);
+  const shared = [...topicConcepts(b)].filter(concept => topicA.has(concept));
+  if (shared.length === 0) {
+    return null;
+  }
+
+  const sidesA = antonymSides(a.text);
+  const sidesB = antonymSides(b.text);
+  for (const [index, sideA] of sidesA) {
+    const sideB = sidesB.get(index);
+    if (sideB && sideB.side !== sideA.side) {
+      // The antonym words themselves are not the shared topic
+      const topics = shared.filter(c => c !== conceptOf(sideA.word).concept && c !== conceptOf(sideB.word).concept);
+      if (topics.length > 0) {
+        return {
+          kind: 'antonym',
+          concepts: topics,
+          reason: `"${sideA.word}" vs "${sideB.word}" on "${topics.join('", "')}"`,
+        };
+      }
+    }
+  }
+
+  return null;
+}
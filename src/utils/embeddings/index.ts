@@ -0,0 +1,264 @@
+/**
+ * Embeddings - Provider selection, vector storage and semantic similarity
+ *
+ * The provider is selected by [suggest.embeddings] in .sqlew/config.toml:
+ * - "none" (default): no semantic scoring, suggest stays lexical
+ * - "tfidf": built-in TF-IDF vectors
+ * - "transformers": local ONNX model; falls back to "tfidf" if it can't load
+ *
+ * Vectors are stored per decision / constraint in t_embeddings. They are
+ * derived data: computed lazily on the first comparison and recomputed when
+ * the text or the provider changes.
+ *
+ * @since v5.1.0
+ */
+
+import { createHash } from 'crypto';
+import { isAbsolute, resolve } from 'path';
+import type { Knex } from 'knex';
+import { loadConfigFile } from '../../config/loader.js';
+import { getProjectContext } from '../project-context.js';
+import { determineProjectRoot } from '../project-root.js';
+import { debugLog } from '../debug-logger.js';
+import { createTfidfProvider } from './tfidf-provider.js';
+import { createTransformersProvider } from './transformers-provider.js';
+import type { EmbeddingProvider, EmbeddingEntityType, EmbeddingDocument } from './types.js';
+
+export { createTfidfProvider, tokenizeForEmbedding, TFIDF_DIMENSIONS } from './tfidf-provider.js';
+export { createTransformersProvider } from './transformers-provider.js';
+export type { EmbeddingProvider, EmbeddingEntityType, EmbeddingDocument } from './types.js';
+
+export const EMBEDDINGS_TABLE = 't_embeddings';
+
+/** Rows per insert (keeps SQLite bound-parameter counts low) */
+const INSERT_CHUNK_SIZE = 100;
+
+/** Providers per project root (null: embeddings disabled) */
+const providers = new Map<string, Promise<EmbeddingProvider | null>>();
+
+// ============================================================================
+// Provider Selection
+// ============================================================================
+
+/**
+ * Create the provider configured for a project
+ */
+async function loadProvider(root: string): Promise<EmbeddingProvider | null> {
+  const config = loadConfigFile(root).suggest?.embeddings;
+
+  switch (config?.provider ?? 'none') {
+    case 'tfidf':
+      return createTfidfProvider();
+
+    case 'transformers': {
+      const modelPath = config?.model_path ?? '';
+      try {
+        return await createTransformersProvider(isAbsolute(modelPath) ? modelPath : resolve(root, modelPath));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        debugLog('WARN', `Embedding model unavailable, using TF-IDF: ${message}`);
+        return createTfidfProvider();
+      }
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Get the embedding provider of a project (loaded once per process)
+ *
+ * @param projectRoot - Project root (default: current project context)
+ * @returns Provider, or null when embeddings are disabled
+ */
+export function getEmbeddingProvider(projectRoot?: string): Promise<EmbeddingProvider | null> {
+  const root = resolve(
+    projectRoot ?? (getProjectContext().getProjectMetadata().project_root_path || determineProjectRoot())
+  );
+
+  let provider = providers.get(root);
+  if (!provider) {
+    provider = loadProvider(root);
+    providers.set(root, provider);
+  }
+  return provider;
+}
+
+/**
+ * Forget loaded providers (config reload, tests)
+ */
+export function resetEmbeddingProviders(): void {
+  providers.clear();
+}
+
+// ============================================================================
+// Vector Storage
+// ============================================================================
+
+function hashText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Get vectors for documents, embedding and storing missing or stale ones
+ */
+async function loadVectors(
+  knex: Knex | Knex.Transaction,
+  projectId: number,
+  entityType: EmbeddingEntityType,
+  provider: EmbeddingProvider,
+  docs: EmbeddingDocument[]
+): Promise<Map<number, number[]>> {
+  const rows = await knex(EMBEDDINGS_TABLE)
+    .where({ project_id: projectId, entity_type: entityType })
+    .select('entity_id', 'provider', 'vector', 'source_hash') as
+    Array<{ entity_id: number; provider: string; vector: string; source_hash: string }>;
+  const stored = new Map(rows.map(r => [Number(r.entity_id), r]));
+
+  const vectors = new Map<number, number[]>();
+  const stale: Array<{ doc: EmbeddingDocument; hash: string }> = [];
+
+  for (const doc of docs) {
+    const hash = hashText(doc.text);
+    const row = stored.get(doc.id);
+    if (row && row.provider === provider.name && row.source_hash === hash) {
+      vectors.set(doc.id, JSON.parse(row.vector));
+    } else {
+      stale.push({ doc, hash });
+    }
+  }
+
+  if (stale.length === 0) {
+    return vectors;
+  }
+
+  const embedded = await provider.embed(stale.map(s => s.doc.text));
+  const now = Math.floor(Date.now() / 1000);
+  const inserts = stale.map(({ doc, hash }, i) => {
+    const vector = embedded[i].map(v => Math.round(v * 1e5) / 1e5);
+    vectors.set(doc.id, vector);
+    return {
+      project_id: projectId,
+      entity_type: entityType,
+      entity_id: doc.id,
+      provider: provider.name,
+      dims: vector.length,
+      vector: JSON.stringify(vector),
+      source_hash: hash,
+      updated_ts: now,
+    };
+  });
+
+  for (let i = 0; i < inserts.length; i += INSERT_CHUNK_SIZE) {
+    await knex(EMBEDDINGS_TABLE)
+      .insert(inserts.slice(i, i + INSERT_CHUNK_SIZE))
+      .onConflict(['project_id', 'entity_type', 'entity_id'])
+      .merge();
+  }
+
+  return vectors;
+}
+
+/**
+ * Remove the stored vector of a decision or constraint
+ */
+export async function removeEmbedding(
+  knex: Knex | Knex.Transaction,
+  projectId: number,
+  entityType: EmbeddingEntityType,
+  entityId: number
+): Promise<void> {
+  await knex(EMBEDDINGS_TABLE)
+    .where({ project_id: projectId, entity_type: entityType, entity_id: entityId })
+    .delete();
+}
+
+// ============================================================================
+// Similarity
+// ============================================================================
+
+/**
+ * Cosine similarity of two vectors (0 when either is empty or zero)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Smoothed IDF weight per dimension over the compared documents
+ */
+function idfWeights(vectors: number[][]): number[] {
+  const dims = vectors[0]?.length ?? 0;
+  const weights = new Array<number>(dims).fill(0);
+  for (let d = 0; d < dims; d++) {
+    const df = vectors.reduce((count, v) => count + (v[d] > 0 ? 1 : 0), 0);
+    weights[d] = Math.log((vectors.length + 1) / (df + 1)) + 1;
+  }
+  return weights;
+}
+
+/**
+ * Semantic similarity of a query to each document
+ *
+ * Never throws: when embeddings are disabled, the query is empty or the
+ * provider fails, suggest falls back to lexical scoring.
+ *
+ * @param knex - Knex instance (or transaction context)
+ * @param entityType - Entity type of the documents
+ * @param queryText - Text to compare
+ * @param docs - Candidate documents
+ * @param provider - Provider to use (default: the project's configured provider)
+ * @returns Similarity per document id (0-1), or undefined when unavailable
+ */
+export async function semanticSimilarities(
+  knex: Knex | Knex.Transaction,
+  entityType: EmbeddingEntityType,
+  queryText: string,
+  docs: EmbeddingDocument[],
+  provider?: EmbeddingProvider | null
+): Promise<Map<number, number> | undefined> {
+  if (!queryText.trim() || docs.length === 0) {
+    return undefined;
+  }
+
+  try {
+    const active = provider === undefined ? await getEmbeddingProvider() : provider;
+    if (!active) {
+      return undefined;
+    }
+
+    const projectId = getProjectContext().getProjectId();
+    const vectors = await loadVectors(knex, projectId, entityType, active, docs);
+    let [query] = await active.embed([queryText]);
+
+    let docVectors = docs.map(doc => vectors.get(doc.id) ?? []);
+    if (active.idf) {
+      const weights = idfWeights(docVectors);
+      const weigh = (v: number[]) => v.map((x, d) => x * (weights[d] ?? 1));
+      query = weigh(query);
+      docVectors = docVectors.map(weigh);
+    }
+
+    return new Map(docs.map((doc, i) => [
+      doc.id,
+      Math.max(0, Math.min(1, cosineSimilarity(query, docVectors[i]))),
+    ]));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    debugLog('WARN', `Semantic similarity skipped: ${message}`);
+    return undefined;
+  }
+}
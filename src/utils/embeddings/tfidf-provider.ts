@@ -0,0 +1,88 @@
+/**
+ * TF-IDF embedding provider
+ *
+ * Built-in fallback that needs no model files. Each text becomes a hashed
+ * bag of features: stemmed words plus their character trigrams, so
+ * "sessions" matches "session" and "Postgres" mostly matches "PostgreSQL".
+ * Vectors hold term frequencies; IDF weights are applied over the compared
+ * documents at query time (see semanticSimilarities).
+ *
+ * @since v5.1.0
+ */
+
+import type { EmbeddingProvider } from './types.js';
+
+/** Vector length (features are hashed into this many buckets) */
+export const TFIDF_DIMENSIONS = 512;
+
+/** Words that carry no meaning for similarity */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'into', 'is', 'it',
+  'of', 'on', 'or', 'should', 'that', 'the', 'this', 'to', 'use', 'used', 'using', 'via',
+  'we', 'will', 'with',
+]);
+
+/**
+ * Strip common English suffixes ("sessions" → "session", "caching" → "cach")
+ */
+export function stem(word: string): string {
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Split text into stemmed words without stop words
+ * Keys are split too ("db/session-store" → db, session, store).
+ */
+export function tokenizeForEmbedding(text: string): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words.filter(w => !STOP_WORDS.has(w)).map(stem);
+}
+
+/**
+ * FNV-1a hash of a feature into a bucket
+ */
+function bucket(feature: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % TFIDF_DIMENSIONS;
+}
+
+/**
+ * Term-frequency vector of one text
+ * Each word adds 1 for itself and 1 spread over its character trigrams.
+ */
+export function termFrequencyVector(text: string): number[] {
+  const vector = new Array<number>(TFIDF_DIMENSIONS).fill(0);
+
+  for (const word of tokenizeForEmbedding(text)) {
+    vector[bucket(`w:${word}`)] += 1;
+
+    const padded = `^${word}$`;
+    const trigrams = padded.length - 2;
+    for (let i = 0; i < trigrams; i++) {
+      vector[bucket(`t:${padded.slice(i, i + 3)}`)] += 1 / trigrams;
+    }
+  }
+
+  return vector;
+}
+
+/**
+ * Create the TF-IDF provider
+ */
+export function createTfidfProvider(): EmbeddingProvider {
+  return {
+    name: `tfidf:${TFIDF_DIMENSIONS}`,
+    idf: true,
+    async embed(texts: string[]): Promise<number[][]> {
+      return texts.map(termFrequencyVector);
+    },
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * transformers.js embedding provider
+ *
+ * Runs a sentence-embedding model (ONNX, e.g. all-MiniLM-L6-v2) from a local
+ * directory through @huggingface/transformers. The package is optional and
+ * loaded on demand; remote model downloads are disabled.
+ *
+ * @since v5.1.0
+ */
+
+import { existsSync } from 'fs';
+import { basename, dirname } from 'path';
+import type { EmbeddingProvider } from './types.js';
+
+/** Package providing the ONNX runtime and pipelines */
+const TRANSFORMERS_PACKAGE = '@huggingface/transformers';
+
+/** The parts of @huggingface/transformers used here */
+interface TransformersModule {
+  env: {
+    allowRemoteModels: boolean;
+    allowLocalModels: boolean;
+    localModelPath: string;
+  };
+  pipeline(
+    task: 'feature-extraction',
+    model: string,
+    options?: { local_files_only?: boolean }
+  ): Promise<
+    (texts: string[], options: { pooling: 'mean'; normalize: boolean }) => Promise<{ tolist(): number[][] }>
+  >;
+}
+
+/**
+ * Load a local model as an embedding provider
+ *
+ * @param modelPath - Absolute path of the model directory (config.json, onnx/, tokenizer files)
+ * @throws If the directory or the package is missing, or the model fails to load
+ */
+export async function createTransformersProvider(modelPath: string): Promise<EmbeddingProvider> {
+  if (!existsSync(modelPath)) {
+    throw new Error(`Model directory not found: ${modelPath}`);
+  }
+
+  let transformers: TransformersModule;
+  try {
+    // Variable specifier: the package is optional and not a build dependency
+    transformers = await import(TRANSFORMERS_PACKAGE) as TransformersModule;
+  } catch {
+    throw new Error(`${TRANSFORMERS_PACKAGE} is not installed (npm install ${TRANSFORMERS_PACKAGE})`);
+  }
+
+  transformers.env.allowRemoteModels = false;
+  transformers.env.allowLocalModels = true;
+  transformers.env.localModelPath = dirname(modelPath);
+
+  const model = basename(modelPath);
+  const extractor = await transformers.pipeline('feature-extraction', model, { local_files_only: true });
+
+  return {
+    name: `transformers:${model}`,
+    idf: false,
+    async embed(texts: string[]): Promise<number[][]> {
+      if (texts.length === 0) {
+        return [];
+      }
+      const output = await extractor(texts, { pooling: 'mean', normalize: true });
+      return output.tolist();
+    },
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Embedding types
+ *
+ * An embedding provider turns text into vectors whose cosine similarity
+ * reflects meaning ("use Postgres for sessions" ~ "session store on
+ * PostgreSQL"). Providers run locally; nothing is sent over the network.
+ *
+ * @since v5.1.0
+ */
+
+/** Entities that get an embedding vector */
+export type EmbeddingEntityType = 'decision' | 'constraint';
+
+/**
+ * Text-to-vector provider
+ */
+export interface EmbeddingProvider {
+  /** Provider name incl. model, stored with each vector (a change invalidates vectors) */
+  readonly name: string;
+
+  /**
+   * Whether vectors are raw term weights that need IDF weighting over the
+   * compared documents before cosine similarity (TF-IDF provider)
+   */
+  readonly idf: boolean;
+
+  /** Embed texts, one vector per text, all of the same length */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/** A document to compare against the query */
+export interface EmbeddingDocument {
+  /** key_id for decisions, constraint id for constraints */
+  id: number;
+  text: string;
+}
@@ -70,7 +70,7 @@ export interface JsonExport {
     context_keys: Array<{ id: number; key: string }>;  // No project_id - global keys
     tags: Array<{ id: number; project_id: number; name: string }>;
     scopes: Array<{ id: number; project_id: number; name: string }>;
-    constraint_categories: Array<{ id: number; name: string }>;
+    constraint_categories: Array<{ id: number; project_id: number; name: string; active: number }>;
     layers: Array<{ id: number; name: string }>;
     // v4.0+ tables
     decision_policies: Array<{ id: number; project_id: number; name: string; description: string | null; defaults: string | null; required_fields: string | null; validation_rules: string | null; quality_gates: string | null; suggest_similar: number; category: string | null; ts: number }>;
@@ -86,6 +86,7 @@ export interface JsonExport {
     decision_tags: any[];
     decision_scopes: any[];
     decision_context: any[];
+    decision_relations: any[];  // v5.1.0
     constraints: any[];
     constraint_tags: any[];
   };
@@ -190,6 +191,7 @@ export async function generateJsonExport(
       decision_tags: [],
       decision_scopes: [],
       decision_context: [],
+      decision_relations: [],
       constraints: [],
       constraint_tags: [],
     },
@@ -286,19 +288,10 @@ async function exportMasterTables(
       .select('id', 'project_id', 'name');
   }
 
-  // Get used category IDs from t_constraints
-  const usedCategoryIds = new Set<number>();
-
-  const constraints = await knex('t_constraints')
+  // All categories of the projects, including unused and retired ones (v5.1.0: per project)
+  masterTables.constraint_categories = await knex('m_constraint_categories')
     .whereIn('project_id', projectIds)
-    .distinct('category_id');
-  constraints.forEach(row => usedCategoryIds.add(row.category_id));
-
-  if (usedCategoryIds.size > 0) {
-    masterTables.constraint_categories = await knex('m_constraint_categories')
-      .whereIn('id', Array.from(usedCategoryIds))
-      .select('id', 'name');
-  }
+    .select('id', 'project_id', 'name', 'active');
 
   // Get used layer IDs from decisions and constraints
   const usedLayerIds = new Set<number>();
@@ -349,6 +342,7 @@ async function exportTransactionTables(
     decision_tags: [],
     decision_scopes: [],
     decision_context: [],
+    decision_relations: [],
     constraints: [],
     constraint_tags: [],
   };
@@ -381,6 +375,13 @@ async function exportTransactionTables(
     .whereIn('project_id', projectIds)
     .select('*');
 
+  // Decision relations (v5.1.0) - table may not exist before migration
+  if (await knex.schema.hasTable('t_decision_relations')) {
+    transactionTables.decision_relations = await knex('t_decision_relations')
+      .whereIn('project_id', projectIds)
+      .select('*');
+  }
+
   // Export constraint tables
   transactionTables.constraints = await knex('t_constraints')
     .whereIn('project_id', projectIds)
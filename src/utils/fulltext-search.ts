@@ -0,0 +1,335 @@
+/**
+ * Full-text search index for decisions (v5.1.0)
+ *
+ * t_decision_search holds one row per decision (project_id, key_id) with the
+ * searchable text: key, value, rationale, alternatives and tradeoffs
+ * (the last three aggregated from t_decision_context).
+ *
+ * Database-specific index:
+ * - SQLite:     FTS5 virtual table, ranked with bm25(), snippet()
+ * - PostgreSQL: weighted tsvector column + GIN index, ts_rank(), ts_headline()
+ * - MySQL:      FULLTEXT index, MATCH ... AGAINST (boolean mode), snippet built here;
+ *               terms the index skips (short words, stopwords) are matched with LIKE
+ *
+ * The index is derived data: it is refreshed by setDecision / addDecisionContext
+ * and can always be rebuilt from the source tables.
+ */
+
+import type { Knex } from 'knex';
+import { UniversalKnex } from './universal-knex.js';
+
+export const SEARCH_INDEX_TABLE = 't_decision_search';
+
+/** Markers wrapped around matched terms in snippets */
+export const SNIPPET_HIGHLIGHT_START = '**';
+export const SNIPPET_HIGHLIGHT_END = '**';
+const SNIPPET_ELLIPSIS = '…';
+const SNIPPET_WORDS = 16;
+
+/**
+ * InnoDB FULLTEXT defaults: words shorter than innodb_ft_min_token_size and
+ * the built-in stopwords are not indexed, so "+term*" could never match them
+ */
+const MYSQL_FT_MIN_TOKEN_SIZE = 3;
+const MYSQL_FT_STOPWORDS = new Set([
+  'a', 'about', 'an', 'are', 'as', 'at', 'be', 'by', 'com', 'de', 'en', 'for', 'from', 'how', 'i', 'in',
+  'is', 'it', 'la', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'where', 'who',
+  'will', 'with', 'und', 'www',
+]);
+
+/**
+ * Single full-text match, best match first
+ */
+export interface FullTextMatch {
+  key_id: number;
+  key: string;
+  rank: number;      // Higher is more relevant (only comparable within one search)
+  snippet: string;   // Matched text with highlighted terms
+}
+
+interface SearchDocument {
+  key_name: string;
+  value: string;
+  rationale: string;
+  alternatives: string;
+  tradeoffs: string;
+}
+
+// ============================================================================
+// Index Maintenance
+// ============================================================================
+
+/**
+ * Flatten a JSON column (alternatives_considered / tradeoffs) into plain text
+ */
+function jsonToText(raw: string | null): string {
+  if (!raw) {
+    return '';
+  }
+  try {
+    const collect = (value: unknown): string[] => {
+      if (value === null || value === undefined) return [];
+      if (Array.isArray(value)) return value.flatMap(collect);
+      if (typeof value === 'object') return Object.values(value as Record<string, unknown>).flatMap(collect);
+      return [String(value)];
+    };
+    return collect(JSON.parse(raw)).join(' ');
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * Load the searchable text of one decision from the source tables
+ * @returns null if the decision does not exist in the project
+ */
+async function loadSearchDocument(
+  knex: Knex | Knex.Transaction,
+  projectId: number,
+  keyId: number
+): Promise<SearchDocument | null> {
+  const decision = await knex('t_decisions as d')
+    .join('m_context_keys as k', 'd.key_id', 'k.id')
+    .leftJoin('t_decisions_numeric as dn', function () {
+      this.on('dn.key_id', '=', 'd.key_id').andOn('dn.project_id', '=', 'd.project_id');
+    })
+    .where({ 'd.key_id': keyId, 'd.project_id': projectId })
+    .first('k.key_name', 'd.value', 'dn.value as numeric_value') as
+    { key_name: string; value: string; numeric_value: number | null } | undefined;
+
+  if (!decision) {
+    return null;
+  }
+
+  const contexts = await knex('t_decision_context')
+    .where({ decision_key_id: keyId, project_id: projectId })
+    .orderBy('id', 'asc')
+    .select('rationale', 'alternatives_considered', 'tradeoffs') as
+    Array<{ rationale: string | null; alternatives_considered: string | null; tradeoffs: string | null }>;
+
+  return {
+    key_name: decision.key_name,
+    value: decision.numeric_value !== null && decision.numeric_value !== undefined
+      ? String(decision.numeric_value)
+      : decision.value,
+    rationale: contexts.map(c => c.rationale ?? '').filter(Boolean).join('\n'),
+    alternatives: contexts.map(c => jsonToText(c.alternatives_considered)).filter(Boolean).join('\n'),
+    tradeoffs: contexts.map(c => jsonToText(c.tradeoffs)).filter(Boolean).join('\n'),
+  };
+}
+
+/**
+ * Refresh the search index row for one decision
+ * Removes the row when the decision no longer exists.
+ * Call inside the same transaction as the write that changed the decision.
+ */
+export async function syncDecisionSearchIndex(
+  knex: Knex | Knex.Transaction,
+  projectId: number,
+  keyId: number
+): Promise<void> {
+  await knex(SEARCH_INDEX_TABLE).where({ project_id: projectId, key_id: keyId }).delete();
+
+  const document = await loadSearchDocument(knex, projectId, keyId);
+  if (document) {
+    await knex(SEARCH_INDEX_TABLE).insert({ project_id: projectId, key_id: keyId, ...document });
+  }
+}
+
+/**
+ * Remove a decision from the search index
+ */
+export async function removeFromDecisionSearchIndex(
+  knex: Knex | Knex.Transaction,
+  projectId: number,
+  keyId: number
+): Promise<void> {
+  await knex(SEARCH_INDEX_TABLE).where({ project_id: projectId, key_id: keyId }).delete();
+}
+
+/**
+ * Rebuild the search index for every decision
+ *
+ * @param projectId - Limit the rebuild to one project (default: all projects)
+ * @returns Number of indexed decisions
+ */
+export async function rebuildDecisionSearchIndex(
+  knex: Knex | Knex.Transaction,
+  projectId?: number
+): Promise<number> {
+  const query = knex('t_decisions').select('project_id', 'key_id');
+  if (projectId !== undefined) {
+    query.where({ project_id: projectId });
+  }
+  const decisions = await query as Array<{ project_id: number; key_id: number }>;
+
+  for (const d of decisions) {
+    await syncDecisionSearchIndex(knex, d.project_id, d.key_id);
+  }
+
+  return decisions.length;
+}
+
+// ============================================================================
+// Search
+// ============================================================================
+
+/**
+ * Split free text into search terms
+ * Only letters, digits and underscores are kept, so user input can never
+ * inject query syntax (FTS5 operators, tsquery operators, boolean mode).
+ */
+export function tokenizeSearchText(text: string): string[] {
+  const terms = text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+  return [...new Set(terms)];
+}
+
+/**
+ * Build a snippet around the first matched term (used where the database has no snippet function)
+ */
+export function buildSnippet(text: string, terms: string[], maxWords: number = SNIPPET_WORDS): string {
+  const words = text.split(/\s+/).filter(Boolean);
+  const isMatch = (word: string) => {
+    const normalized = word.toLowerCase();
+    return terms.some(term => normalized.includes(term));
+  };
+
+  const first = Math.max(0, words.findIndex(isMatch));
+  const start = Math.max(0, first - Math.floor(maxWords / 4));
+  const end = Math.min(words.length, start + maxWords);
+
+  const body = words
+    .slice(start, end)
+    .map(word => isMatch(word) ? `${SNIPPET_HIGHLIGHT_START}${word}${SNIPPET_HIGHLIGHT_END}` : word)
+    .join(' ');
+
+  return `${start > 0 ? SNIPPET_ELLIPSIS : ''}${body}${end < words.length ? SNIPPET_ELLIPSIS : ''}`;
+}
+
+/**
+ * Row of a full-text match query
+ * snippet comes from the database where it has a snippet function;
+ * MySQL returns the concatenated document instead and the snippet is built here.
+ */
+interface MatchRow {
+  key_id: number;
+  key_name: string;
+  score: number | string;
+  snippet: string | null;
+  document: string | null;
+}
+
+/**
+ * Full-text match query of a project: one row per matching decision
+ * Every term must match as a word or word prefix ("auth" matches "authentication").
+ *
+ * Columns: key_id, key_name, score (higher is more relevant), snippet, document.
+ * Join it as a derived table to combine matching with other SQL filters,
+ * then pass each row to matchSnippet().
+ *
+ * @param terms - Terms from tokenizeSearchText() (at least one)
+ */
+export function decisionSearchQuery(
+  knex: Knex | Knex.Transaction,
+  projectId: number,
+  terms: string[]
+): Knex.QueryBuilder {
+  const db = new UniversalKnex(knex as Knex);
+
+  if (db.isSQLite) {
+    // Column weights: key_name, value, rationale, alternatives, tradeoffs
+    const match = terms.map(term => `"${term}"*`).join(' ');
+    return knex(SEARCH_INDEX_TABLE)
+      .select(
+        'key_id', 'key_name',
+        knex.raw(`-bm25(${SEARCH_INDEX_TABLE}, 4.0, 3.0, 2.0, 1.0, 1.0) as score`),
+        knex.raw(`snippet(${SEARCH_INDEX_TABLE}, -1, ?, ?, ?, ?) as snippet`, [
+          SNIPPET_HIGHLIGHT_START, SNIPPET_HIGHLIGHT_END, SNIPPET_ELLIPSIS, SNIPPET_WORDS,
+        ]),
+        knex.raw('NULL as document')
+      )
+      .whereRaw(`${SEARCH_INDEX_TABLE} MATCH ?`, [match])
+      .andWhere('project_id', projectId);
+  }
+
+  if (db.isPostgreSQL) {
+    const tsquery = terms.map(term => `${term}:*`).join(' & ');
+    return knex(SEARCH_INDEX_TABLE)
+      .select(
+        'key_id', 'key_name',
+        knex.raw(`ts_rank(search_vector, to_tsquery('simple', ?)) as score`, [tsquery]),
+        knex.raw(
+          `ts_headline('simple', concat_ws(' ', value, rationale, alternatives, tradeoffs), to_tsquery('simple', ?), ?) as snippet`,
+          [tsquery, `StartSel=${SNIPPET_HIGHLIGHT_START}, StopSel=${SNIPPET_HIGHLIGHT_END}, MaxWords=${SNIPPET_WORDS}, MinWords=5`]
+        ),
+        knex.raw('CAST(NULL AS TEXT) as document')
+      )
+      .whereRaw(`search_vector @@ to_tsquery('simple', ?)`, [tsquery])
+      .andWhere('project_id', projectId);
+  }
+
+  // MySQL: boolean mode requires every indexed term; relevance from natural language mode.
+  // Short terms and stopwords are not in the FULLTEXT index and fall back to LIKE.
+  const indexed = terms.filter(term => term.length >= MYSQL_FT_MIN_TOKEN_SIZE && !MYSQL_FT_STOPWORDS.has(term));
+  const unindexed = terms.filter(term => !indexed.includes(term));
+  const document = `concat_ws(' ', value, rationale, alternatives, tradeoffs, key_name)`;
+
+  const query = knex(SEARCH_INDEX_TABLE)
+    .select(
+      'key_id', 'key_name',
+      indexed.length > 0
+        ? knex.raw('MATCH(key_name, value, rationale, alternatives, tradeoffs) AGAINST (?) as score', [indexed.join(' ')])
+        : knex.raw('0 as score'),
+      knex.raw('NULL as snippet'),
+      knex.raw(`${document} as document`)
+    )
+    .where('project_id', projectId);
+
+  if (indexed.length > 0) {
+    const booleanQuery = indexed.map(term => `+${term}*`).join(' ');
+    query.whereRaw('MATCH(key_name, value, rationale, alternatives, tradeoffs) AGAINST (? IN BOOLEAN MODE)', [booleanQuery]);
+  }
+  for (const term of unindexed) {
+    // "_" is a LIKE wildcard; terms contain no other special characters
+    query.whereRaw(`${document} LIKE ?`, [`%${term.replace(/_/g, '\\_')}%`]);
+  }
+
+  return query;
+}
+
+/**
+ * Snippet of a decisionSearchQuery() row
+ */
+export function matchSnippet(row: { snippet: string | null; document: string | null }, terms: string[]): string {
+  return row.snippet ?? buildSnippet(row.document ?? '', terms);
+}
+
+/**
+ * Search the decision index of a project
+ * Every term must match as a word or word prefix ("auth" matches "authentication").
+ *
+ * @param limit - Max matches (default: no limit)
+ * @returns Matches ordered by relevance, best first; empty when text has no terms
+ */
+export async function searchDecisionIndex(
+  knex: Knex | Knex.Transaction,
+  projectId: number,
+  text: string,
+  limit?: number
+): Promise<FullTextMatch[]> {
+  const terms = tokenizeSearchText(text);
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const query = decisionSearchQuery(knex, projectId, terms).orderBy('score', 'desc');
+  if (limit !== undefined) query.limit(limit);
+  const rows = await query as MatchRow[];
+
+  return rows.map(row => ({
+    key_id: Number(row.key_id),
+    key: row.key_name,
+    rank: Number(row.score),
+    snippet: matchSnippet(row, terms),
+  }));
+}
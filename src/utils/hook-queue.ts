@@ -1,15 +1,18 @@
 /**
  * Hook Queue System
  *
- * File-based queue for async decision operations.
+ * Queue for async decision operations.
  * Hooks write to queue (fast), MCP server processes on startup.
+ * Pending items live in a pluggable queue store (spool files or SQLite, v5.1.0).
  *
  * @since v4.1.0
  */
 
 import { existsSync, mkdirSync, readFileSync, writeFileSync, unlinkSync, renameSync, appendFileSync } from 'fs';
-import { join, dirname } from 'path';
+import { join } from 'path';
 import { debugLog } from './debug-logger.js';
+import { getQueueStore, QUEUE_DIR } from './queue-store/index.js';
+import type { DecisionCandidate } from '../config/global-config.js';
 
 // ============================================================================
 // Debug Configuration
@@ -18,10 +21,6 @@ import { debugLog } from './debug-logger.js';
 /**
  * Enable detailed trace logging for queue operations.
  * Set to `true` when debugging queue issues (writes to .sqlew/queue/trace.log)
- *
- * Also controls:
- * - snapshot_*.json files (per-write snapshots)
- * - pending-debug.json (write history)
  */
 const QUEUE_TRACE_ENABLED = false;
 
@@ -96,20 +95,44 @@ export function releaseLock(projectPath: string): void {
 // Types
 // ============================================================================
 
-/** Queue item action type */
-export type QueueAction = 'create' | 'update' | 'activate';
+/**
+ * Queue item action type
+ *
+ * Decision items (v5.1.0) also support:
+ * - add_context: record rationale, alternatives and tradeoffs
+ * - deprecate: move to deprecated (via a supersedes link when superseded_by is set)
+ * - tag: add tags, keeping existing ones
+ * - delete: hard delete
+ */
+export type QueueAction = 'create' | 'update' | 'activate' | 'add_context' | 'deprecate' | 'tag' | 'delete';
 
 /** Queue item for decision operations */
 export interface DecisionQueueItem {
   type: 'decision';
   action: QueueAction;
   timestamp: string;
+  /** Failed processing attempts so far (set when retried from failed.json) */
+  attempts?: number;
   data: {
     key: string;
     value?: string;
     status?: string;
     layer?: string;
     tags?: string[];
+    /** create: scopes (v5.1.0, inferred from the key when omitted) */
+    scopes?: string[];
+    /** add_context: why this choice was made (v5.1.0) */
+    rationale?: string;
+    /** add_context: other options considered (v5.1.0) */
+    alternatives_considered?: string[];
+    /** add_context: gains vs sacrifices (v5.1.0) */
+    tradeoffs?: { pros?: string[]; cons?: string[] } | string;
+    /** add_context: who decided (v5.1.0) */
+    decided_by?: string;
+    /** deprecate: key of the decision replacing this one (v5.1.0) */
+    superseded_by?: string;
+    /** deprecate: reason, stored as the supersedes link note (v5.1.0) */
+    reason?: string;
   };
 }
 
@@ -118,6 +141,8 @@ export interface ConstraintQueueItem {
   type: 'constraint';
   action: QueueAction;
   timestamp: string;
+  /** Failed processing attempts so far (set when retried from failed.json) */
+  attempts?: number;
   data: {
     text: string;
     category?: string;
@@ -142,6 +167,10 @@ export interface FailedQueueItem {
   item: QueueItem;
   error: string;
   failedAt: string;
+  /** Number of failed processing attempts (v5.1.0; missing in older files = 1) */
+  attempts?: number;
+  /** When QueueWatcher retries the item automatically (transient errors only, v5.1.0) */
+  nextRetryAt?: string;
 }
 
 /** Failed queue file structure */
@@ -153,24 +182,45 @@ export interface FailedQueueFile {
 // Constants
 // ============================================================================
 
-/** Queue directory relative to project root */
-const QUEUE_DIR = '.sqlew/queue';
+/** Failed queue file name (for items that failed processing) */
+const FAILED_QUEUE_FILE = 'failed.json';
 
-/** Queue file name */
-const QUEUE_FILE = 'pending.json';
+/** Automatic retries for transient failures before an item waits for queue.retry */
+export const MAX_AUTO_RETRY_ATTEMPTS = 5;
 
-/** Failed queue file name (for items that cannot be retried) */
-const FAILED_QUEUE_FILE = 'failed.json';
+/** Backoff before the first automatic retry; doubles per attempt */
+const RETRY_BASE_DELAY_MS = 30_000;
+
+/** Upper bound for the automatic retry backoff (30 minutes) */
+const RETRY_MAX_DELAY_MS = 30 * 60_000;
+
+/**
+ * Error messages of transient failures (database unavailable or busy)
+ * Other errors (validation, HighSimilarity) need a fix before retrying.
+ */
+const TRANSIENT_ERROR_PATTERNS = [
+  /ECONNREFUSED|ECONNRESET|ETIMEDOUT|EHOSTUNREACH|ENETUNREACH/,
+  /SQLITE_BUSY|database is locked|unable to open database/i,
+  /connection (lost|refused|reset|closed|terminated|timeout)|lost connection|cannot connect|unable to connect/i,
+  /server has gone away|timeout acquiring a connection/i,
+];
 
 // ============================================================================
 // Queue File Operations
 // ============================================================================
 
 /**
- * Get queue file path for a project
+ * Get queue directory for a project (.sqlew/queue)
+ */
+export function getQueueDir(projectPath: string): string {
+  return join(projectPath, QUEUE_DIR);
+}
+
+/**
+ * Get location of the pending items (spool directory or queue.db)
  */
 export function getQueuePath(projectPath: string): string {
-  return join(projectPath, QUEUE_DIR, QUEUE_FILE);
+  return getQueueStore(projectPath).location;
 }
 
 /**
@@ -190,11 +240,47 @@ function ensureQueueDir(projectPath: string): void {
   }
 }
 
+/**
+ * Whether a processing error is transient (retried automatically with backoff)
+ */
+export function isTransientQueueError(error: string): boolean {
+  return TRANSIENT_ERROR_PATTERNS.some(pattern => pattern.test(error));
+}
+
+/**
+ * Backoff before the next automatic retry: 30s, 1m, 2m, ... capped at 30 minutes
+ *
+ * @param attempts - Failed attempts so far (>= 1)
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0)), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Write failed queue file (atomic write-to-temp + rename)
+ */
+export function writeFailedQueue(projectPath: string, failedQueue: FailedQueueFile): void {
+  ensureQueueDir(projectPath);
+  const failedPath = getFailedQueuePath(projectPath);
+  const content = JSON.stringify(failedQueue, null, 2);
+
+  const tempPath = failedPath + '.tmp';
+  writeFileSync(tempPath, content, 'utf-8');
+  try {
+    renameSync(tempPath, failedPath);
+  } catch {
+    writeFileSync(failedPath, content, 'utf-8');
+    try { unlinkSync(tempPath); } catch { /* ignore */ }
+  }
+}
+
 /**
  * Append failed items to failed queue file
  *
- * Items that fail processing (e.g., HighSimilarity errors) are moved here
- * instead of being retried in pending.json indefinitely.
+ * Items that fail processing are moved here instead of being retried in
+ * the queue indefinitely. Each entry counts its attempts; transient errors
+ * (database unavailable) get a nextRetryAt with exponential backoff until
+ * MAX_AUTO_RETRY_ATTEMPTS, other errors wait for queue.retry.
  *
  * @param projectPath - Project root path
  * @param errors - Array of failed items with error messages
@@ -205,51 +291,113 @@ export function appendToFailedQueue(
 ): void {
   if (errors.length === 0) return;
 
-  ensureQueueDir(projectPath);
-  const failedPath = getFailedQueuePath(projectPath);
-
-  // Read existing failed queue
-  let failedQueue: FailedQueueFile = { items: [] };
-  if (existsSync(failedPath)) {
-    try {
-      const parsed = JSON.parse(readFileSync(failedPath, 'utf-8'));
-      // Validate structure - items must be an array
-      if (parsed && Array.isArray(parsed.items)) {
-        failedQueue = parsed as FailedQueueFile;
-      }
-      // else: keep default { items: [] }
-    } catch {
-      // Corrupted file, start fresh
-      failedQueue = { items: [] };
-    }
-  }
+  const failedQueue = readFailedQueue(projectPath);
 
   // Append new failed items
-  const now = new Date().toISOString();
+  const now = Date.now();
   for (const { item, error } of errors) {
-    failedQueue.items.push({
-      item,
+    const { attempts: previousAttempts, ...failedItem } = item;
+    const attempts = (previousAttempts ?? 0) + 1;
+    const entry: FailedQueueItem = {
+      item: failedItem as QueueItem,
       error,
-      failedAt: now,
-    });
+      failedAt: new Date(now).toISOString(),
+      attempts,
+    };
+    if (isTransientQueueError(error) && attempts < MAX_AUTO_RETRY_ATTEMPTS) {
+      entry.nextRetryAt = new Date(now + getRetryDelayMs(attempts)).toISOString();
+    }
+    failedQueue.items.push(entry);
   }
 
-  // Write atomically
-  const tempPath = failedPath + '.tmp';
-  writeFileSync(tempPath, JSON.stringify(failedQueue, null, 2), 'utf-8');
-  try {
-    renameSync(tempPath, failedPath);
-  } catch {
-    writeFileSync(failedPath, JSON.stringify(failedQueue, null, 2), 'utf-8');
-    try { unlinkSync(tempPath); } catch { /* ignore */ }
-  }
+  writeFailedQueue(projectPath, failedQueue);
 
   debugLog('INFO', '[hook-queue] Appended failed items to failed queue', {
     count: errors.length,
-    failedPath,
+    failedPath: getFailedQueuePath(projectPath),
   });
 }
 
+/**
+ * Move failed items back to the pending queue
+ *
+ * The item keeps its attempt count so a further failure continues the backoff.
+ * Caller must hold the queue lock.
+ *
+ * @param projectPath - Project root path
+ * @param select - Indices in failed.json to move, or a filter applied to its items
+ * @returns The re-enqueued items
+ */
+export function requeueFailedItems(
+  projectPath: string,
+  select: number[] | ((failed: FailedQueueItem) => boolean)
+): QueueItem[] {
+  const failedQueue = readFailedQueue(projectPath);
+  const indices = new Set(Array.isArray(select) ? select : []);
+  const isSelected = (failed: FailedQueueItem, index: number) =>
+    Array.isArray(select) ? indices.has(index) : select(failed);
+  const requeued: QueueItem[] = [];
+  const remaining: FailedQueueItem[] = [];
+
+  failedQueue.items.forEach((failed, index) => {
+    if (isSelected(failed, index)) {
+      requeued.push({ ...failed.item, attempts: failed.attempts ?? 1 });
+    } else {
+      remaining.push(failed);
+    }
+  });
+
+  if (requeued.length === 0) {
+    return [];
+  }
+
+  // Pending first: an interrupted requeue duplicates an item rather than losing it
+  const store = getQueueStore(projectPath);
+  for (const item of requeued) {
+    store.enqueue(item);
+  }
+  writeFailedQueue(projectPath, { items: remaining });
+
+  debugLog('INFO', '[hook-queue] Re-enqueued failed items', { count: requeued.length });
+  return requeued;
+}
+
+/**
+ * Re-enqueue failed items whose automatic retry is due
+ * Called by QueueWatcher before processing; skipped if the lock is held.
+ *
+ * @param projectPath - Project root path
+ * @param now - Unix epoch ms to compare nextRetryAt against
+ * @returns Number of re-enqueued items
+ */
+export function requeueDueFailedItems(projectPath: string, now: number = Date.now()): number {
+  // Cheap check without the lock; the due items themselves are selected under it
+  const nextRetry = getNextRetryTime(projectPath);
+  if (nextRetry === null || nextRetry > now || !tryAcquireLock(projectPath)) {
+    return 0;
+  }
+
+  try {
+    return requeueFailedItems(
+      projectPath,
+      failed => !!failed?.nextRetryAt && Date.parse(failed.nextRetryAt) <= now
+    ).length;
+  } finally {
+    releaseLock(projectPath);
+  }
+}
+
+/**
+ * Earliest scheduled automatic retry in failed.json (Unix epoch ms), or null
+ */
+export function getNextRetryTime(projectPath: string): number | null {
+  const times = readFailedQueue(projectPath).items
+    .filter(failed => failed?.nextRetryAt)
+    .map(failed => Date.parse(failed.nextRetryAt!))
+    .filter(time => !Number.isNaN(time));
+  return times.length > 0 ? Math.min(...times) : null;
+}
+
 /**
  * Read failed queue file
  */
@@ -299,124 +447,34 @@ function writeQueueTrace(projectPath: string, level: 'INFO' | 'WARN' | 'ERROR',
 }
 
 /**
- * Read queue file (returns empty queue if not exists)
+ * Read pending queue items (oldest first)
  */
 export function readQueue(projectPath: string): QueueFile {
-  const queuePath = getQueuePath(projectPath);
-  writeQueueTrace(projectPath, 'INFO', 'readQueue: START', { queuePath });
-
-  if (!existsSync(queuePath)) {
-    writeQueueTrace(projectPath, 'INFO', 'readQueue: file does not exist, returning empty');
-    debugLog('DEBUG', '[hook-queue] readQueue: file does not exist', { queuePath });
-    return { items: [] };
-  }
+  writeQueueTrace(projectPath, 'INFO', 'readQueue: START');
   try {
-    const content = readFileSync(queuePath, 'utf-8');
-    writeQueueTrace(projectPath, 'INFO', 'readQueue: read file', {
-      contentLength: content.length,
-      contentPreview: content.slice(0, 100),
-    });
-    debugLog('DEBUG', '[hook-queue] readQueue: read file', {
-      queuePath,
-      contentLength: content.length,
-      contentPreview: content.slice(0, 100),
-    });
-    const parsed = JSON.parse(content);
-    // Validate structure - items must be an array
-    if (!parsed || !Array.isArray(parsed.items)) {
-      writeQueueTrace(projectPath, 'WARN', 'readQueue: invalid structure, returning empty', {
-        hasItems: !!parsed?.items,
-        isArray: Array.isArray(parsed?.items),
-      });
-      debugLog('WARN', '[hook-queue] readQueue: invalid structure', { queuePath });
-      return { items: [] };
-    }
-    writeQueueTrace(projectPath, 'INFO', 'readQueue: SUCCESS', { itemCount: parsed.items.length });
-    debugLog('DEBUG', '[hook-queue] readQueue: parsed successfully', {
-      itemCount: parsed.items.length,
-    });
-    return parsed as QueueFile;
+    const items = getQueueStore(projectPath).list();
+    writeQueueTrace(projectPath, 'INFO', 'readQueue: SUCCESS', { itemCount: items.length });
+    debugLog('DEBUG', '[hook-queue] readQueue', { itemCount: items.length });
+    return { items };
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : String(error);
-    writeQueueTrace(projectPath, 'ERROR', 'readQueue: JSON parse FAILED', { error: errorMsg });
-    debugLog('ERROR', '[hook-queue] readQueue: JSON parse failed', {
-      queuePath,
-      error: errorMsg,
-    });
+    writeQueueTrace(projectPath, 'ERROR', 'readQueue: FAILED', { error: errorMsg });
+    debugLog('ERROR', '[hook-queue] readQueue failed', { error: errorMsg });
     return { items: [] };
   }
 }
 
 /**
- * Write queue file (atomic write to prevent partial reads)
- *
- * Uses write-to-temp + rename pattern to ensure readers always see
- * complete file content, even on Windows where file locking is different.
+ * Add an item to the queue store
+ * Other pending items are not rewritten, so parallel hooks cannot lose writes.
  *
  * @param projectPath - Project root path
- * @param queue - Queue data to write
- * @param caller - Name of the calling function (for debug snapshots)
+ * @param item - Queue item
+ * @param caller - Name of the calling function (for trace logging)
  */
-export function writeQueue(projectPath: string, queue: QueueFile, caller: string = 'unknown'): void {
-  ensureQueueDir(projectPath);
-  const queuePath = getQueuePath(projectPath);
-  const tempPath = queuePath + '.tmp';
-
-  // Write to temp file first
-  const content = JSON.stringify(queue, null, 2);
-  writeFileSync(tempPath, content, 'utf-8');
-
-  // Atomic rename (Windows: uses MoveFileEx internally)
-  try {
-    renameSync(tempPath, queuePath);
-  } catch (error) {
-    // Fallback: If rename fails (e.g., cross-device), write directly
-    debugLog('WARN', '[hook-queue] writeQueue: rename failed, using direct write', {
-      error: error instanceof Error ? error.message : String(error),
-    });
-    writeFileSync(queuePath, content, 'utf-8');
-    try { unlinkSync(tempPath); } catch { /* ignore */ }
-  }
-
-  // DEBUG: Snapshot after each write with caller name + epoch time
-  // Controlled by QUEUE_TRACE_ENABLED flag
-  if (QUEUE_TRACE_ENABLED) {
-    const epoch = Date.now();
-    const snapshotPath = queuePath.replace('pending.json', `snapshot_${caller}_${epoch}.json`);
-    try {
-      const snapshotData = {
-        caller,
-        timestamp: new Date().toISOString(),
-        epoch,
-        pid: process.pid,
-        itemCount: queue.items.length,
-        items: queue.items,
-      };
-      writeFileSync(snapshotPath, JSON.stringify(snapshotData, null, 2), 'utf-8');
-    } catch { /* ignore snapshot errors */ }
-
-    // DEBUG: Also write to pending-debug.json with timestamp for tracing
-    const debugPath = queuePath.replace('pending.json', 'pending-debug.json');
-    const debugData = {
-      timestamp: new Date().toISOString(),
-      pid: process.pid,
-      itemCount: queue.items.length,
-      items: queue.items,
-    };
-    try {
-      // Append to debug file (read existing + append)
-      let existing: unknown[] = [];
-      if (existsSync(debugPath)) {
-        try {
-          existing = JSON.parse(readFileSync(debugPath, 'utf-8'));
-        } catch { existing = []; }
-      }
-      existing.push(debugData);
-      // Keep last 50 entries
-      if (existing.length > 50) existing = existing.slice(-50);
-      writeFileSync(debugPath, JSON.stringify(existing, null, 2), 'utf-8');
-    } catch { /* ignore debug file errors */ }
-  }
+function enqueueItem(projectPath: string, item: QueueItem, caller: string): void {
+  writeQueueTrace(projectPath, 'INFO', `${caller}: enqueue`, { type: item.type, action: item.action });
+  getQueueStore(projectPath).enqueue(item);
 }
 
 // ============================================================================
@@ -437,15 +495,17 @@ export function enqueueDecisionCreate(
     status: string;
     layer: string;
     tags: string[];
+    scopes?: string[];
   }
 ): void {
   writeQueueTrace(projectPath, 'INFO', 'enqueueDecisionCreate: START', { key: data.key });
   const queue = readQueue(projectPath);
   writeQueueTrace(projectPath, 'INFO', 'enqueueDecisionCreate: after readQueue', { existingItems: queue.items.length });
 
-  // Duplicate check: skip if same key already in queue
+  // Duplicate check: skip if same key already in queue (context/tag/... items don't count)
   const existingDecision = queue.items.find(
-    i => i.type === 'decision' && (i as DecisionQueueItem).data.key === data.key
+    i => i.type === 'decision' && (i.action === 'create' || i.action === 'update') &&
+      (i as DecisionQueueItem).data.key === data.key
   );
   if (existingDecision) {
     writeQueueTrace(projectPath, 'WARN', 'enqueueDecisionCreate: SKIP duplicate', { key: data.key });
@@ -459,9 +519,7 @@ export function enqueueDecisionCreate(
     timestamp: new Date().toISOString(),
     data,
   };
-  queue.items.push(item);
-  writeQueueTrace(projectPath, 'INFO', 'enqueueDecisionCreate: before writeQueue', { totalItems: queue.items.length });
-  writeQueue(projectPath, queue, 'enqueueDecisionCreate');
+  enqueueItem(projectPath, item, 'enqueueDecisionCreate');
   writeQueueTrace(projectPath, 'INFO', 'enqueueDecisionCreate: DONE');
 }
 
@@ -481,15 +539,144 @@ export function enqueueDecisionUpdate(
     tags?: string[];
   }
 ): void {
-  const queue = readQueue(projectPath);
   const item: DecisionQueueItem = {
     type: 'decision',
     action: 'update',
     timestamp: new Date().toISOString(),
     data,
   };
-  queue.items.push(item);
-  writeQueue(projectPath, queue, 'enqueueDecisionUpdate');
+  enqueueItem(projectPath, item, 'enqueueDecisionUpdate');
+}
+
+/**
+ * Enqueue decision context (rationale, alternatives, tradeoffs)
+ * Enqueue after the decision's create item so it is processed afterwards.
+ *
+ * @param projectPath - Project root path
+ * @param data - Decision key and context
+ * @since v5.1.0
+ */
+export function enqueueDecisionContext(
+  projectPath: string,
+  data: {
+    key: string;
+    rationale: string;
+    alternatives_considered?: string[];
+    tradeoffs?: { pros?: string[]; cons?: string[] } | string;
+    decided_by?: string;
+  }
+): void {
+  const item: DecisionQueueItem = {
+    type: 'decision',
+    action: 'add_context',
+    timestamp: new Date().toISOString(),
+    data,
+  };
+  enqueueItem(projectPath, item, 'enqueueDecisionContext');
+}
+
+/**
+ * Enqueue a decision deprecation
+ *
+ * @param projectPath - Project root path
+ * @param data - Decision key, optional replacing decision and reason
+ * @since v5.1.0
+ */
+export function enqueueDecisionDeprecate(
+  projectPath: string,
+  data: {
+    key: string;
+    superseded_by?: string;
+    reason?: string;
+  }
+): void {
+  const item: DecisionQueueItem = {
+    type: 'decision',
+    action: 'deprecate',
+    timestamp: new Date().toISOString(),
+    data,
+  };
+  enqueueItem(projectPath, item, 'enqueueDecisionDeprecate');
+}
+
+/**
+ * Enqueue tags to add to a decision (existing tags are kept)
+ *
+ * @param projectPath - Project root path
+ * @param data - Decision key and tags
+ * @since v5.1.0
+ */
+export function enqueueDecisionTag(
+  projectPath: string,
+  data: {
+    key: string;
+    tags: string[];
+  }
+): void {
+  const item: DecisionQueueItem = {
+    type: 'decision',
+    action: 'tag',
+    timestamp: new Date().toISOString(),
+    data,
+  };
+  enqueueItem(projectPath, item, 'enqueueDecisionTag');
+}
+
+/**
+ * Enqueue a decision hard delete (irreversible, removes history)
+ *
+ * @param projectPath - Project root path
+ * @param key - Decision key
+ * @since v5.1.0
+ */
+export function enqueueDecisionDelete(projectPath: string, key: string): void {
+  const item: DecisionQueueItem = {
+    type: 'decision',
+    action: 'delete',
+    timestamp: new Date().toISOString(),
+    data: { key },
+  };
+  enqueueItem(projectPath, item, 'enqueueDecisionDelete');
+}
+
+/**
+ * Enqueue plan TOML decisions with their context and supersedes links
+ *
+ * Per decision: create, then add_context (when a rationale is given),
+ * then a deprecate item for each superseded key.
+ *
+ * @param projectPath - Project root path
+ * @param decisions - Decision candidates from the plan cache
+ * @since v5.1.0
+ */
+export function enqueuePlanDecisions(projectPath: string, decisions: DecisionCandidate[]): void {
+  for (const d of decisions) {
+    enqueueDecisionCreate(projectPath, {
+      key: d.key,
+      value: d.value,
+      status: d.status || 'active',
+      layer: d.layer || 'cross-cutting',
+      tags: d.tags || [],
+      ...(d.scopes && { scopes: d.scopes }),
+    });
+
+    if (d.rationale) {
+      enqueueDecisionContext(projectPath, {
+        key: d.key,
+        rationale: d.rationale,
+        ...(d.alternatives && { alternatives_considered: d.alternatives }),
+        ...(d.tradeoffs && { tradeoffs: d.tradeoffs }),
+      });
+    }
+
+    for (const supersededKey of d.supersedes || []) {
+      enqueueDecisionDeprecate(projectPath, {
+        key: supersededKey,
+        superseded_by: d.key,
+        ...(d.rationale && { reason: d.rationale }),
+      });
+    }
+  }
 }
 
 // ============================================================================
@@ -500,7 +687,10 @@ export function enqueueDecisionUpdate(
  * Process all pending queue items
  *
  * Called by MCP server after DB initialization.
- * Processes items in order, then clears the queue.
+ * Claims one item at a time, processes it and acks it right away; failed
+ * items are acked once they are in failed.json. Claiming item by item keeps
+ * every claim younger than CLAIM_TIMEOUT_MS however long the queue is; the
+ * item of a crashed run is claimed again after the timeout (v5.1.0).
  *
  * @param projectPath - Project root path
  * @param processor - Function to process each item
@@ -512,72 +702,49 @@ export async function processQueue(
   processor: (item: QueueItem) => Promise<void>,
   callId?: string
 ): Promise<number> {
-  // Try to acquire file lock for exclusive processing
+  // Try to acquire file lock for exclusive processing (also guards failed.json)
   if (!tryAcquireLock(projectPath)) {
     debugLog('INFO', '[hook-queue] Skipping processQueue - another process holds the lock', { callId });
     return 0;
   }
 
   try {
-    const queue = readQueue(projectPath);
-    debugLog('INFO', '[hook-queue] processQueue called', {
-      callId,
-      pid: process.pid,
-      itemCount: queue.items.length,
-      items: queue.items.map(i => ({
-        type: i.type,
-        action: i.action,
-        key: i.type === 'decision' ? (i as DecisionQueueItem).data.key : undefined,
-        text: i.type === 'constraint' ? (i as ConstraintQueueItem).data.text?.slice(0, 30) : undefined,
-      })),
-    });
-
-    if (queue.items.length === 0) {
-      return 0;
-    }
-
-    // CRITICAL: Clear queue IMMEDIATELY after reading to prevent duplicate processing
-    // If another call comes in while we're processing, it will see an empty queue
-    debugLog('INFO', '[hook-queue] Clearing queue before processing (race condition prevention)', { callId });
-    clearQueue(projectPath);
+    const store = getQueueStore(projectPath);
+    debugLog('INFO', '[hook-queue] processQueue called', { callId, pid: process.pid, store: store.kind });
 
     let processed = 0;
-    const errors: Array<{ item: QueueItem; error: string }> = [];
+    let failed = 0;
 
-    for (let i = 0; i < queue.items.length; i++) {
-      const item = queue.items[i];
-      debugLog('INFO', `[hook-queue] Processing item ${i + 1}/${queue.items.length}`, {
+    while (true) {
+      const [claimed] = store.claim(1);
+      if (claimed === undefined) {
+        break;
+      }
+      const { id, item } = claimed;
+      const position = processed + failed + 1;
+      debugLog('INFO', `[hook-queue] Processing item ${position}`, {
         callId,
         type: item.type,
         action: item.action,
+        key: item.type === 'decision' ? (item as DecisionQueueItem).data.key : undefined,
+        text: item.type === 'constraint' ? (item as ConstraintQueueItem).data.text?.slice(0, 30) : undefined,
       });
 
       try {
         await processor(item);
         processed++;
-        debugLog('INFO', `[hook-queue] Item ${i + 1} processed successfully`, { callId });
+        debugLog('INFO', `[hook-queue] Item ${position} processed successfully`, { callId });
       } catch (error) {
+        // Move to the failed queue (transient errors are retried later with backoff)
         const message = error instanceof Error ? error.message : String(error);
-        errors.push({ item, error: message });
-        debugLog('ERROR', `[hook-queue] Item ${i + 1} failed`, { callId, error: message });
+        failed++;
+        debugLog('ERROR', `[hook-queue] Item ${position} failed, moving it to the failed queue`, { callId, error: message });
+        appendToFailedQueue(projectPath, [{ item, error: message }]);
       }
+      store.ack(id);
     }
 
-    debugLog('INFO', '[hook-queue] Processing complete', {
-      callId,
-      processed,
-      errors: errors.length,
-      errorDetails: errors.map(e => e.error),
-    });
-
-    // Move failed items to failed queue (no retry - errors like HighSimilarity are permanent)
-    if (errors.length > 0) {
-      debugLog('WARN', '[hook-queue] Moving failed items to failed queue', {
-        callId,
-        failedCount: errors.length,
-      });
-      appendToFailedQueue(projectPath, errors);
-    }
+    debugLog('INFO', '[hook-queue] Processing complete', { callId, processed, errors: failed });
 
     return processed;
   } finally {
@@ -586,13 +753,12 @@ export async function processQueue(
 }
 
 /**
- * Clear the queue file
+ * Clear all pending queue items
+ *
+ * @returns Number of cleared items
  */
-export function clearQueue(projectPath: string): void {
-  const queuePath = getQueuePath(projectPath);
-  if (existsSync(queuePath)) {
-    writeQueue(projectPath, { items: [] }, 'clearQueue');
-  }
+export function clearQueue(projectPath: string): number {
+  return getQueueStore(projectPath).clear();
 }
 
 /**
@@ -603,6 +769,15 @@ export function hasQueueItems(projectPath: string): boolean {
   return queue.items.length > 0;
 }
 
+/**
+ * Remove the pending item at an index (as listed by readQueue)
+ *
+ * @returns The removed item, or null if the index is out of range
+ */
+export function removeQueueItem(projectPath: string, index: number): QueueItem | null {
+  return getQueueStore(projectPath).removeAt(index);
+}
+
 // ============================================================================
 // Constraint Queue Operations (v4.2.1+)
 // ============================================================================
@@ -645,15 +820,13 @@ export function enqueueConstraintCreate(
     timestamp: new Date().toISOString(),
     data,
   };
-  queue.items.push(item);
-  writeQueueTrace(projectPath, 'INFO', 'enqueueConstraintCreate: before writeQueue', { totalItems: queue.items.length });
   debugLog('INFO', '[hook-queue] enqueueConstraintCreate', {
     projectPath,
     text: data.text?.slice(0, 30),
     category: data.category,
-    queueSizeAfter: queue.items.length,
+    queueSizeAfter: queue.items.length + 1,
   });
-  writeQueue(projectPath, queue, 'enqueueConstraintCreate');
+  enqueueItem(projectPath, item, 'enqueueConstraintCreate');
   writeQueueTrace(projectPath, 'INFO', 'enqueueConstraintCreate: DONE');
 }
 
@@ -667,7 +840,6 @@ export function enqueueConstraintActivate(
   projectPath: string,
   planId: string
 ): void {
-  const queue = readQueue(projectPath);
   const item: ConstraintQueueItem = {
     type: 'constraint',
     action: 'activate',
@@ -678,6 +850,5 @@ export function enqueueConstraintActivate(
       active: true,
     },
   };
-  queue.items.push(item);
-  writeQueue(projectPath, queue, 'enqueueConstraintActivate');
+  enqueueItem(projectPath, item, 'enqueueConstraintActivate');
 }
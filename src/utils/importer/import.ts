@@ -22,6 +22,8 @@ import type {
   IdMapping
 } from '../../types.js';
 import { importMasterTables } from './master-tables.js';
+import { rebuildDecisionSearchIndex } from '../fulltext-search.js';
+import { seedConstraintCategories } from '../constraint-categories.js';
 
 /**
  * Main import function
@@ -121,6 +123,9 @@ async function performImport(
 
   console.error(`  ✓ Created project "${projectName}" (ID: ${projectId})`);
 
+  // Default constraint categories, as for projects created at startup (v5.1.0)
+  await seedConstraintCategories(trx, projectId);
+
   // Step 2: Initialize import context
   // Note: agents mapping removed in v4.0 (agent system deleted)
   const ctx: ImportContext = {
@@ -176,6 +181,9 @@ async function importTransactionTables(ctx: ImportContext): Promise<void> {
   await importDecisionPolicies(ctx);  // v4.0+ table
   await importTagIndex(ctx);  // v4.0+ table
 
+  // Full-text index is derived data, rebuilt rather than imported (v5.1.0)
+  await rebuildDecisionSearchIndex(ctx.knex, ctx.projectId);
+
   console.error(`  ✓ Transaction tables imported`);
 }
 
@@ -240,10 +248,15 @@ async function importDecisionHistory(ctx: ImportContext): Promise<void> {
     if (!newKeyId) continue;
 
     // Note: agent_id removed in v4.0
+    // Metadata snapshot columns (v5.1.0) are absent in older exports
     await ctx.knex('t_decision_history').insert({
       key_id: newKeyId,
       version: entry.version,
       value: entry.value,
+      layer_id: entry.layer_id != null ? ctx.mappings.layers.get(entry.layer_id) ?? null : null,
+      status: entry.status ?? null,
+      tags: entry.tags ?? null,
+      scopes: entry.scopes ?? null,
       ts: entry.ts,
       project_id: ctx.projectId
     });
@@ -292,7 +305,10 @@ async function importConstraints(ctx: ImportContext): Promise<void> {
       active: constraint.active,
       layer_id: ctx.mappings.layers.get(constraint.layer_id) || null,
       ts: constraint.ts,
-      project_id: ctx.projectId
+      project_id: ctx.projectId,
+      rules: constraint.rules ?? null,  // v5.1.0 (absent in older exports)
+      expires_at: constraint.expires_at ?? null,
+      review_by: constraint.review_by ?? null
     });
   }
 
@@ -364,6 +380,7 @@ async function importJunctionTables(ctx: ImportContext): Promise<void> {
 
   await importDecisionTags(ctx);
   await importDecisionScopes(ctx);
+  await importDecisionRelations(ctx);  // v5.1.0
   await importConstraintTags(ctx);
   // Note: task-related junction tables removed in v5.0
 
@@ -412,6 +429,33 @@ async function importDecisionScopes(ctx: ImportContext): Promise<void> {
   ctx.stats.junction_tables.decision_scopes_created = scopes.length;
 }
 
+/**
+ * Import t_decision_relations with remapped IDs (v5.1.0)
+ * Older exports have no decision_relations section
+ */
+async function importDecisionRelations(ctx: ImportContext): Promise<void> {
+  const relations = ctx.jsonData.transaction_tables.decision_relations || [];
+
+  let created = 0;
+  for (const relation of relations) {
+    const newSourceKeyId = ctx.mappings.context_keys.get(relation.source_key_id);
+    const newTargetKeyId = ctx.mappings.context_keys.get(relation.target_key_id);
+    if (!newSourceKeyId || !newTargetKeyId) continue;
+
+    await ctx.knex('t_decision_relations').insert({
+      project_id: ctx.projectId,
+      source_key_id: newSourceKeyId,
+      target_key_id: newTargetKeyId,
+      relation_type: relation.relation_type,
+      note: relation.note,
+      ts: relation.ts
+    });
+    created++;
+  }
+
+  ctx.stats.junction_tables.decision_relations_created = created;
+}
+
 /**
  * Import t_constraint_tags with remapped IDs
  */
@@ -459,6 +503,7 @@ function initializeStats(): ImportStats {
     junction_tables: {
       decision_tags_created: 0,
       decision_scopes_created: 0,
+      decision_relations_created: 0,
       constraint_tags_created: 0
       // Note: task_tags_created, task_file_links_created, task_decision_links_created, task_dependencies_created removed in v5.0
     }
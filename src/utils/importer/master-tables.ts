@@ -2,7 +2,7 @@
  * Master Table Import with Smart Merge
  *
  * Handles importing master tables with intelligent ID remapping:
- * - Project-scoped tables (m_tags, m_scopes): Smart merge on UNIQUE (project_id, name)
+ * - Project-scoped tables (m_tags, m_scopes, m_constraint_categories): Smart merge on UNIQUE (project_id, name)
  * - Global tables (m_context_keys, etc.): Always create new IDs
  *
  * Note: Agent system removed in v4.0 - no agent imports
@@ -146,24 +146,30 @@ async function importScopes(ctx: ImportContext): Promise<void> {
 }
 
 /**
- * Import m_constraint_categories (global, create or reuse by name)
+ * Import m_constraint_categories (project-scoped, smart merge since v5.1.0)
+ * Retired categories stay retired; exports without the active flag import as active.
  */
 async function importConstraintCategories(ctx: ImportContext): Promise<void> {
   const categories = ctx.jsonData.master_tables.constraint_categories || [];
 
   for (const category of categories) {
-    // Check if category exists by name (global lookup)
+    // Check if category already exists in target project
     const existing = await ctx.knex('m_constraint_categories')
-      .where({ name: category.name })
+      .where({
+        project_id: ctx.projectId,
+        name: category.name
+      })
       .first();
 
     if (existing) {
-      // Reuse existing global category
+      // Reuse existing ID
       ctx.mappings.constraint_categories.set(category.id, existing.id);
     } else {
-      // Create new category
+      // Create new category entry
       const [newId] = await ctx.knex('m_constraint_categories').insert({
-        name: category.name
+        project_id: ctx.projectId,
+        name: category.name,
+        active: category.active === 0 ? 0 : 1
       });
 
       ctx.mappings.constraint_categories.set(category.id, newId);
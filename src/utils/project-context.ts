@@ -6,9 +6,15 @@
  * - #44, #30 (HIGH): Provides getProjectId() and getProjectName() methods
  * - #47 (HIGH): Provides reset() for test isolation
  * - #23, #24 (CRITICAL): Config.toml as source of truth, auto-write on first run
+ *
+ * HTTP transport (v5.1.0): each session may run in a different project.
+ * runWithProject() scopes a project to an async call chain; getters prefer
+ * that scoped project over the server-wide one.
  */
 
+import { AsyncLocalStorage } from 'node:async_hooks';
 import type { Knex } from 'knex';
+import { seedConstraintCategories } from './constraint-categories.js';
 
 export interface ProjectMetadata {
   id: number;
@@ -31,6 +37,7 @@ export interface ProjectMetadata {
  */
 export class ProjectContext {
   private static instance: ProjectContext | null = null;
+  private static readonly sessionScope = new AsyncLocalStorage<ProjectMetadata>();
   private projectMetadata: ProjectMetadata | null = null;
   private initialized = false;
 
@@ -89,12 +96,81 @@ export class ProjectContext {
       return this.projectMetadata;
     }
 
+    // Cache project metadata in memory (Constraint #41)
+    this.projectMetadata = await this.loadProject(knex, projectName, detectionSource, options);
+    this.initialized = true;
+
+    return this.projectMetadata;
+  }
+
+  /**
+   * Find or register a project without caching it as the server-wide project
+   *
+   * @param knex - Database connection
+   * @param projectName - Project name
+   * @param detectionSource - How the project name was detected
+   * @param options - Optional metadata (only used when the project is created)
+   * @returns Project metadata
+   */
+  public async loadProject(
+    knex: Knex,
+    projectName: string,
+    detectionSource: 'cli' | 'config' | 'git' | 'metadata' | 'directory',
+    options?: {
+      displayName?: string;
+      projectRootPath?: string;
+      metadata?: Record<string, unknown>;
+    }
+  ): Promise<ProjectMetadata> {
     // Validate project name (Constraint #37)
     this.validateProjectName(projectName);
 
     // Query database for existing project or create new one
     // Uses Knex query builder (Constraint #49, #50)
-    let project = await knex('m_projects')
+    const existing = await this.findProject(knex, projectName);
+    if (existing) {
+      return existing;
+    }
+
+    // Insert new project using Knex query builder (Constraint #49)
+    // Set timestamps in application code for cross-DB compatibility
+    const now = Math.floor(Date.now() / 1000);
+
+    await knex('m_projects').insert({
+      name: projectName,
+      display_name: options?.displayName || projectName,
+      detection_source: detectionSource,
+      project_root_path: options?.projectRootPath || null,
+      created_ts: now,
+      last_active_ts: now,
+      metadata: options?.metadata ? JSON.stringify(options.metadata) : null,
+    });
+
+    // Fetch the newly created project by name
+    // (Avoids cross-database inconsistencies with .returning())
+    const project = await this.findProject(knex, projectName);
+    if (!project) {
+      throw new Error(`Failed to create project: ${projectName}`);
+    }
+
+    // Default constraint categories (v5.1.0)
+    await seedConstraintCategories(knex, project.id);
+
+    return project;
+  }
+
+  /**
+   * Find a registered project without creating it
+   * Used by the HTTP transport, which only serves registered projects (v5.1.0).
+   *
+   * @param knex - Database connection
+   * @param projectName - Project name
+   * @returns Project metadata, or null if no project has this name
+   */
+  public async findProject(knex: Knex, projectName: string): Promise<ProjectMetadata | null> {
+    this.validateProjectName(projectName);
+
+    const project = await knex('m_projects')
       .where({ name: projectName })
       .first<{
         id: number;
@@ -103,43 +179,13 @@ export class ProjectContext {
         detection_source: string;
         project_root_path: string | null;
         metadata: string | null;
-      }>();
+      } | undefined>();
 
     if (!project) {
-      // Insert new project using Knex query builder (Constraint #49)
-      // Set timestamps in application code for cross-DB compatibility
-      const now = Math.floor(Date.now() / 1000);
-
-      await knex('m_projects').insert({
-        name: projectName,
-        display_name: options?.displayName || projectName,
-        detection_source: detectionSource,
-        project_root_path: options?.projectRootPath || null,
-        created_ts: now,
-        last_active_ts: now,
-        metadata: options?.metadata ? JSON.stringify(options.metadata) : null,
-      });
-
-      // Fetch the newly created project by name
-      // (Avoids cross-database inconsistencies with .returning())
-      project = await knex('m_projects')
-        .where({ name: projectName })
-        .first<{
-          id: number;
-          name: string;
-          display_name: string | null;
-          detection_source: string;
-          project_root_path: string | null;
-          metadata: string | null;
-        }>();
-
-      if (!project) {
-        throw new Error(`Failed to create project: ${projectName}`);
-      }
+      return null;
     }
 
-    // Cache project metadata in memory (Constraint #41)
-    this.projectMetadata = {
+    return {
       id: project.id,
       name: project.name,
       display_name: project.display_name || undefined,
@@ -147,10 +193,27 @@ export class ProjectContext {
       project_root_path: project.project_root_path || undefined,
       metadata: project.metadata ? JSON.parse(project.metadata) : undefined,
     };
+  }
 
-    this.initialized = true;
+  /**
+   * Run a function with a session-scoped project (v5.1.0)
+   *
+   * Every getProjectId()/getProjectName() call made within fn (including
+   * awaited async work) returns this project instead of the server-wide one.
+   *
+   * @param project - Project metadata from loadProject() or getProjectMetadata()
+   * @param fn - Function to run
+   * @returns Result of fn
+   */
+  public static runWithProject<T>(project: ProjectMetadata, fn: () => T): T {
+    return ProjectContext.sessionScope.run(project, fn);
+  }
 
-    return this.projectMetadata;
+  /**
+   * Get the active project: session-scoped if set, else the server-wide project
+   */
+  private currentProject(): ProjectMetadata | null {
+    return ProjectContext.sessionScope.getStore() ?? (this.initialized ? this.projectMetadata : null);
   }
 
   /**
@@ -216,12 +279,13 @@ export class ProjectContext {
    * Satisfies Constraint #44: Provide getProjectId() method
    */
   public getProjectId(): number {
-    if (!this.initialized || !this.projectMetadata) {
+    const project = this.currentProject();
+    if (!project) {
       throw new Error(
         'ProjectContext not initialized. Call ensureProject() first during server startup.'
       );
     }
-    return this.projectMetadata.id;
+    return project.id;
   }
 
   /**
@@ -233,12 +297,13 @@ export class ProjectContext {
    * Satisfies Constraint #44: Provide getProjectName() method
    */
   public getProjectName(): string {
-    if (!this.initialized || !this.projectMetadata) {
+    const project = this.currentProject();
+    if (!project) {
       throw new Error(
         'ProjectContext not initialized. Call ensureProject() first during server startup.'
       );
     }
-    return this.projectMetadata.name;
+    return project.name;
   }
 
   /**
@@ -248,12 +313,13 @@ export class ProjectContext {
    * @returns Complete project metadata
    */
   public getProjectMetadata(): ProjectMetadata {
-    if (!this.initialized || !this.projectMetadata) {
+    const project = this.currentProject();
+    if (!project) {
       throw new Error(
         'ProjectContext not initialized. Call ensureProject() first during server startup.'
       );
     }
-    return { ...this.projectMetadata }; // Return copy to prevent mutations
+    return { ...project }; // Return copy to prevent mutations
   }
 
   /**
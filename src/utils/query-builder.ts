@@ -14,7 +14,8 @@ export type FilterCondition =
   | { type: 'lessThanOrEqual'; field: string; value: number }
   | { type: 'in'; field: string; values: any[]; operator: 'OR' | 'AND' }
   | { type: 'likeAny'; field: string; values: string[]; operator: 'OR' | 'AND' }
-  | { type: 'likeExclude'; field: string; values: string[] };
+  | { type: 'likeExclude'; field: string; values: string[] }
+  | { type: 'exists'; subquery: string; params: any[]; negate?: boolean };
 
 /**
  * Build WHERE clause from filter conditions
@@ -65,8 +66,9 @@ export function buildWhereClause(conditions: FilterCondition[]): {
         if (condition.values.length > 0) {
           if (condition.operator === 'OR') {
             // Match any value (OR logic)
-            const inConditions = condition.values.map(() => `${condition.field} = ?`).join(' OR ');
-            clauses.push(`(${inConditions})`);
+            // IN list rather than chained ORs: SQLite limits expression depth
+            const placeholders = condition.values.map(() => '?').join(', ');
+            clauses.push(`${condition.field} IN (${placeholders})`);
             params.push(...condition.values);
           } else {
             // Match all values (AND logic) - typically not used for IN, but included for completeness
@@ -106,6 +108,12 @@ export function buildWhereClause(conditions: FilterCondition[]): {
           }
         }
         break;
+
+      case 'exists':
+        // Correlated subquery (e.g. tag/scope junction tables)
+        clauses.push(`${condition.negate ? 'NOT ' : ''}EXISTS (${condition.subquery})`);
+        params.push(...condition.params);
+        break;
     }
   }
 
@@ -0,0 +1,97 @@
+/**
+ * Queue store - Barrel export and factory
+ *
+ * The store is selected by [queue].store in .sqlew/config.toml
+ * ("spool" by default, or "sqlite").
+ *
+ * @since v5.1.0
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, unlinkSync } from 'fs';
+import { join, resolve } from 'path';
+import { loadConfigFile } from '../../config/loader.js';
+import { debugLog } from '../debug-logger.js';
+import { SpoolQueueStore } from './spool-store.js';
+import { SqliteQueueStore } from './sqlite-store.js';
+import { QUEUE_DIR, type QueueStore, type QueueStoreKind } from './types.js';
+
+export { SpoolQueueStore } from './spool-store.js';
+export { SqliteQueueStore } from './sqlite-store.js';
+export { QUEUE_DIR, CLAIM_TIMEOUT_MS } from './types.js';
+export type { QueueStore, QueueStoreKind, ClaimedQueueItem } from './types.js';
+
+/** Queue file used before v5.1.0 (whole queue rewritten on every enqueue) */
+const LEGACY_QUEUE_FILE = 'pending.json';
+
+/** Open stores per project root */
+const stores = new Map<string, QueueStore>();
+
+/**
+ * Get the queue store for a project (opened once per process)
+ *
+ * @param projectPath - Project root path
+ * @param kind - Store to use (default: from config.toml)
+ */
+export function getQueueStore(projectPath: string, kind?: QueueStoreKind): QueueStore {
+  const root = resolve(projectPath);
+  const existing = stores.get(root);
+  if (existing && (!kind || existing.kind === kind)) {
+    return existing;
+  }
+  existing?.close();
+
+  const queueDir = join(root, QUEUE_DIR);
+  mkdirSync(queueDir, { recursive: true });
+
+  const storeKind = kind ?? loadConfigFile(root).queue?.store ?? 'spool';
+  const store = storeKind === 'sqlite' ? new SqliteQueueStore(queueDir) : new SpoolQueueStore(queueDir);
+  importLegacyQueue(queueDir, store);
+
+  stores.set(root, store);
+  return store;
+}
+
+/**
+ * Close all open stores (server shutdown, tests)
+ */
+export function closeQueueStores(): void {
+  for (const store of stores.values()) {
+    store.close();
+  }
+  stores.clear();
+}
+
+/**
+ * Move items of a legacy pending.json into the store
+ * The file is renamed first so only one process imports it.
+ */
+function importLegacyQueue(queueDir: string, store: QueueStore): void {
+  const legacyPath = join(queueDir, LEGACY_QUEUE_FILE);
+  if (!existsSync(legacyPath)) {
+    return;
+  }
+
+  const importingPath = `${legacyPath}.importing-${process.pid}`;
+  try {
+    renameSync(legacyPath, importingPath);
+  } catch {
+    return; // Another process is importing it
+  }
+
+  try {
+    const parsed = JSON.parse(readFileSync(importingPath, 'utf-8'));
+    const items = parsed && Array.isArray(parsed.items) ? parsed.items : [];
+    for (const item of items) {
+      if (item && typeof item.type === 'string') {
+        store.enqueue(item);
+      }
+    }
+    unlinkSync(importingPath);
+    debugLog('INFO', '[queue-store] Imported legacy pending.json', { count: items.length, store: store.kind });
+  } catch (error) {
+    debugLog('ERROR', '[queue-store] Failed to import legacy pending.json', {
+      importingPath,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
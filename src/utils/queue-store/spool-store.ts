@@ -0,0 +1,234 @@
+/**
+ * Spool queue store
+ *
+ * Append-only spool: every item is its own file in .sqlew/queue/spool/,
+ * written to a temp file and renamed into place, so parallel hooks never
+ * overwrite each other. File names sort by enqueue time.
+ *
+ * Claiming renames the file into spool/claimed/ (rename is atomic: only one
+ * process succeeds) and ack deletes it there. The claim time is part of the
+ * claimed file name ("<claim ms>@<item name>"), so it is recorded by the same
+ * rename that takes the claim.
+ *
+ * @since v5.1.0
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from 'fs';
+import { join, resolve, sep } from 'path';
+import { debugLog } from '../debug-logger.js';
+import type { QueueItem } from '../hook-queue.js';
+import { CLAIM_TIMEOUT_MS, type ClaimedQueueItem, type QueueStore } from './types.js';
+
+/** Spool directory relative to the queue directory */
+const SPOOL_DIR = 'spool';
+
+/** Claimed items directory relative to the spool directory */
+const CLAIMED_DIR = 'claimed';
+
+/** Separates the claim time from the item name in claimed file names */
+const CLAIM_SEPARATOR = '@';
+
+/** Sequence number to keep names unique within one millisecond */
+let sequence = 0;
+
+/**
+ * Split a claimed file name into claim time and pending item name
+ * @returns null for files that are not claims (e.g. .corrupt items)
+ */
+function parseClaimName(claimName: string): { claimedAt: number; name: string } | null {
+  const separator = claimName.indexOf(CLAIM_SEPARATOR);
+  const claimedAt = Number(claimName.slice(0, separator));
+  const name = claimName.slice(separator + 1);
+  if (separator <= 0 || !Number.isSafeInteger(claimedAt) || !name.endsWith('.json')) {
+    return null;
+  }
+  return { claimedAt, name };
+}
+
+/**
+ * Whether an error is "file not found" (another process moved the file first)
+ */
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+export class SpoolQueueStore implements QueueStore {
+  public readonly kind = 'spool' as const;
+  public readonly location: string;
+  private readonly claimedDir: string;
+
+  constructor(queueDir: string) {
+    this.location = join(queueDir, SPOOL_DIR);
+    this.claimedDir = join(this.location, CLAIMED_DIR);
+    this.ensureDirs();
+  }
+
+  public enqueue(item: QueueItem): void {
+    sequence = (sequence + 1) % 1_000_000;
+    const name = [
+      String(Date.now()).padStart(15, '0'),
+      String(process.pid).padStart(7, '0'),
+      String(sequence).padStart(6, '0'),
+      Math.random().toString(36).slice(2, 8),
+    ].join('-') + '.json';
+
+    this.ensureDirs();
+    const tempPath = join(this.location, `.${name}.tmp`);
+    writeFileSync(tempPath, JSON.stringify(item, null, 2), 'utf-8');
+    renameSync(tempPath, join(this.location, name));
+  }
+
+  public list(): QueueItem[] {
+    this.recoverAbandonedClaims();
+    return this.pendingEntries().map(entry => entry.item);
+  }
+
+  public claim(limit: number = Infinity): ClaimedQueueItem[] {
+    this.ensureDirs();
+    this.recoverAbandonedClaims();
+
+    const claimed: ClaimedQueueItem[] = [];
+    for (const name of this.pendingNames()) {
+      if (claimed.length >= limit) break;
+
+      const claimName = `${Date.now()}${CLAIM_SEPARATOR}${name}`;
+      const claimedPath = join(this.claimedDir, claimName);
+      try {
+        renameSync(join(this.location, name), claimedPath);
+      } catch (error) {
+        if (isNotFound(error)) continue; // Claimed or removed by another process
+        throw error;
+      }
+
+      const item = this.readItem(claimedPath);
+      if (item === null) {
+        // Unreadable item: keep it aside for inspection instead of retrying forever
+        renameSync(claimedPath, join(this.claimedDir, `${name}.corrupt`));
+        continue;
+      }
+      claimed.push({ id: claimName, item });
+    }
+    return claimed;
+  }
+
+  public ack(id: string): void {
+    try {
+      unlinkSync(join(this.claimedDir, id));
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+    }
+  }
+
+  public release(id: string): void {
+    const claim = parseClaimName(id);
+    if (claim === null) {
+      return;
+    }
+    try {
+      renameSync(join(this.claimedDir, id), join(this.location, claim.name));
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+    }
+  }
+
+  public removeAt(index: number): QueueItem | null {
+    this.recoverAbandonedClaims();
+    const entry = this.pendingEntries()[index];
+    if (entry === undefined) {
+      return null;
+    }
+
+    try {
+      unlinkSync(join(this.location, entry.name));
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+    return entry.item;
+  }
+
+  public clear(): number {
+    let cleared = 0;
+    for (const name of this.pendingNames()) {
+      try {
+        unlinkSync(join(this.location, name));
+        cleared++;
+      } catch (error) {
+        if (!isNotFound(error)) throw error;
+      }
+    }
+    return cleared;
+  }
+
+  public isChangeSignal(path: string): boolean {
+    const absolute = resolve(path);
+    return absolute.startsWith(resolve(this.location) + sep)
+      && !absolute.startsWith(resolve(this.claimedDir) + sep)
+      && absolute.endsWith('.json')
+      && !absolute.slice(absolute.lastIndexOf(sep) + 1).startsWith('.');
+  }
+
+  public close(): void {
+    // Nothing to release
+  }
+
+  /**
+   * Create the spool directories (recreated if .sqlew/queue was removed)
+   */
+  private ensureDirs(): void {
+    mkdirSync(this.claimedDir, { recursive: true });
+  }
+
+  /**
+   * Pending item file names, oldest first (temp files start with ".")
+   */
+  private pendingNames(): string[] {
+    if (!existsSync(this.location)) {
+      return [];
+    }
+    return readdirSync(this.location)
+      .filter(name => name.endsWith('.json') && !name.startsWith('.'))
+      .sort();
+  }
+
+  /**
+   * Readable pending items with their file names, oldest first
+   */
+  private pendingEntries(): Array<{ name: string; item: QueueItem }> {
+    return this.pendingNames()
+      .map(name => ({ name, item: this.readItem(join(this.location, name)) }))
+      .filter((entry): entry is { name: string; item: QueueItem } => entry.item !== null);
+  }
+
+  /**
+   * Move claims older than CLAIM_TIMEOUT_MS back to the spool
+   */
+  private recoverAbandonedClaims(): void {
+    if (!existsSync(this.claimedDir)) {
+      return;
+    }
+    const cutoff = Date.now() - CLAIM_TIMEOUT_MS;
+    for (const claimName of readdirSync(this.claimedDir)) {
+      const claim = parseClaimName(claimName);
+      if (claim === null || claim.claimedAt >= cutoff) continue;
+      try {
+        renameSync(join(this.claimedDir, claimName), join(this.location, claim.name));
+        debugLog('WARN', '[queue-store] Recovered abandoned spool claim', { name: claim.name });
+      } catch (error) {
+        if (!isNotFound(error)) throw error;
+      }
+    }
+  }
+
+  private readItem(path: string): QueueItem | null {
+    try {
+      const parsed = JSON.parse(readFileSync(path, 'utf-8'));
+      return parsed && typeof parsed.type === 'string' ? parsed as QueueItem : null;
+    } catch (error) {
+      if (!isNotFound(error)) {
+        debugLog('WARN', '[queue-store] Unreadable spool item', { path, error: String(error) });
+      }
+      return null;
+    }
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * SQLite queue store
+ *
+ * Keeps pending items in a table of .sqlew/queue/queue.db (WAL mode), a
+ * separate file from the main database so hooks stay fast and independent
+ * of the configured [database] backend.
+ *
+ * Claiming runs in an IMMEDIATE transaction (write lock taken up front), so
+ * concurrent claimers never receive the same row. Enqueue touches
+ * queue.signal for QueueWatcher.
+ *
+ * @since v5.1.0
+ */
+
+import Database from 'better-sqlite3';
+import { writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import type { QueueItem } from '../hook-queue.js';
+import { CLAIM_TIMEOUT_MS, type ClaimedQueueItem, type QueueStore } from './types.js';
+
+/** Queue database file name */
+const QUEUE_DB_FILE = 'queue.db';
+
+/** File touched on enqueue so QueueWatcher notices new rows */
+const SIGNAL_FILE = 'queue.signal';
+
+/** Wait for other writers instead of failing with SQLITE_BUSY */
+const BUSY_TIMEOUT_MS = 5000;
+
+/** Stored row */
+interface QueueRow {
+  id: number;
+  item: string;
+}
+
+export class SqliteQueueStore implements QueueStore {
+  public readonly kind = 'sqlite' as const;
+  public readonly location: string;
+  private readonly signalPath: string;
+  private readonly db: Database.Database;
+
+  constructor(queueDir: string) {
+    this.location = join(queueDir, QUEUE_DB_FILE);
+    this.signalPath = join(queueDir, SIGNAL_FILE);
+
+    this.db = new Database(this.location);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma(`busy_timeout = ${BUSY_TIMEOUT_MS}`);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS queue_items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        item TEXT NOT NULL,
+        enqueued_at INTEGER NOT NULL,
+        claimed_by TEXT,
+        claimed_at INTEGER
+      )
+    `);
+  }
+
+  public enqueue(item: QueueItem): void {
+    this.db.prepare('INSERT INTO queue_items (item, enqueued_at) VALUES (?, ?)')
+      .run(JSON.stringify(item), Date.now());
+    writeFileSync(this.signalPath, String(Date.now()), 'utf-8');
+  }
+
+  public list(): QueueItem[] {
+    return this.pendingRows().map(row => JSON.parse(row.item) as QueueItem);
+  }
+
+  public claim(limit: number = Infinity): ClaimedQueueItem[] {
+    const claimRows = this.db.transaction(() => {
+      const rows = this.pendingRows(limit);
+      const update = this.db.prepare('UPDATE queue_items SET claimed_by = ?, claimed_at = ? WHERE id = ?');
+      const now = Date.now();
+      for (const row of rows) {
+        update.run(String(process.pid), now, row.id);
+      }
+      return rows;
+    });
+
+    return claimRows.immediate().map(row => ({ id: String(row.id), item: JSON.parse(row.item) as QueueItem }));
+  }
+
+  public ack(id: string): void {
+    this.db.prepare('DELETE FROM queue_items WHERE id = ?').run(Number(id));
+  }
+
+  public release(id: string): void {
+    this.db.prepare('UPDATE queue_items SET claimed_by = NULL, claimed_at = NULL WHERE id = ?').run(Number(id));
+  }
+
+  public removeAt(index: number): QueueItem | null {
+    const removeRow = this.db.transaction(() => {
+      const row = this.pendingRows(1, index)[0];
+      if (!row) {
+        return null;
+      }
+      this.db.prepare('DELETE FROM queue_items WHERE id = ?').run(row.id);
+      return JSON.parse(row.item) as QueueItem;
+    });
+    return removeRow.immediate();
+  }
+
+  public clear(): number {
+    return this.db.prepare('DELETE FROM queue_items WHERE claimed_at IS NULL OR claimed_at < ?')
+      .run(Date.now() - CLAIM_TIMEOUT_MS).changes;
+  }
+
+  public isChangeSignal(path: string): boolean {
+    return resolve(path) === resolve(this.signalPath);
+  }
+
+  public close(): void {
+    if (this.db.open) {
+      this.db.close();
+    }
+  }
+
+  /**
+   * Pending rows (unclaimed or abandoned claims), oldest first
+   */
+  private pendingRows(limit: number = Infinity, offset: number = 0): QueueRow[] {
+    return this.db.prepare(`
+      SELECT id, item FROM queue_items
+      WHERE claimed_at IS NULL OR claimed_at < ?
+      ORDER BY id
+      LIMIT ? OFFSET ?
+    `).all(Date.now() - CLAIM_TIMEOUT_MS, Number.isFinite(limit) ? limit : -1, offset) as QueueRow[];
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Queue store types
+ *
+ * A queue store holds pending hook items. Hooks enqueue (fast, no main DB);
+ * the MCP server claims items atomically, processes them and acks each one.
+ *
+ * @since v5.1.0
+ */
+
+import type { QueueItem } from '../hook-queue.js';
+
+/** Queue directory relative to project root */
+export const QUEUE_DIR = '.sqlew/queue';
+
+/** Available queue store implementations */
+export type QueueStoreKind = 'spool' | 'sqlite';
+
+/** Claims older than this are considered abandoned (e.g. crashed server) */
+export const CLAIM_TIMEOUT_MS = 5 * 60_000;
+
+/** An item claimed for processing */
+export interface ClaimedQueueItem {
+  /** Store-specific item ID (spool file name or row ID) */
+  id: string;
+  item: QueueItem;
+}
+
+/**
+ * Pending-item storage used by hook-queue.ts
+ *
+ * Implementations must be safe with several processes enqueueing in
+ * parallel, and claim() must hand each item to one caller only.
+ */
+export interface QueueStore {
+  readonly kind: QueueStoreKind;
+
+  /** Spool directory or database file (for display) */
+  readonly location: string;
+
+  /** Add an item without touching other pending items */
+  enqueue(item: QueueItem): void;
+
+  /** Pending items, oldest first (abandoned claims count as pending) */
+  list(): QueueItem[];
+
+  /** Atomically claim up to `limit` pending items, oldest first */
+  claim(limit?: number): ClaimedQueueItem[];
+
+  /** Delete a claimed item after it was processed */
+  ack(id: string): void;
+
+  /** Return a claimed item to the pending items */
+  release(id: string): void;
+
+  /** Delete the pending item at a list() index; null if out of range or claimed meanwhile */
+  removeAt(index: number): QueueItem | null;
+
+  /** Delete all pending items and return how many were deleted */
+  clear(): number;
+
+  /** Whether a file change under .sqlew/queue/ signals new items (QueueWatcher) */
+  isChangeSignal(path: string): boolean;
+
+  /** Release resources (database handle) */
+  close(): void;
+}
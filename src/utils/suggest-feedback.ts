@@ -0,0 +1,205 @@
+/**
+ * Suggest feedback - accept / reject signals
+ *
+ * suggest.feedback records whether a suggested decision or constraint was
+ * accepted or rejected for a query (decision key, or constraint text). The
+ * scorers add a feedback component for pairs seen before: each net accept
+ * is worth FEEDBACK_POINTS, capped at ±MAX_FEEDBACK_POINTS. Precision over
+ * time (accepted / all signals) is reported by suggest.analytics.
+ *
+ * @since v5.1.0
+ */
+
+import { createHash } from 'crypto';
+import type { Knex } from 'knex';
+import { getProjectContext } from './project-context.js';
+import type { SuggestTarget } from '../tools/suggest/types.js';
+
+export const SUGGEST_FEEDBACK_TABLE = 't_suggest_feedback';
+
+/** Points per net accept (rejects subtract) */
+export const FEEDBACK_POINTS = 5;
+
+/** Largest boost or penalty of one pair */
+export const MAX_FEEDBACK_POINTS = 15;
+
+/** Seconds per precision bucket */
+const BUCKET_SECONDS = {
+  day: 86400,
+  week: 604800,
+  month: 2592000,
+} as const;
+
+export type FeedbackBucket = keyof typeof BUCKET_SECONDS;
+
+/**
+ * Accept / reject counts and precision (accepted share, null without signals)
+ */
+export interface FeedbackPrecision {
+  accepted: number;
+  rejected: number;
+  precision: number | null;
+}
+
+/**
+ * Normalize a query so "Auth/Method " and "auth/method" are the same pair
+ */
+function normalizeQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function hashQuery(query: string): string {
+  return createHash('sha256').update(normalizeQuery(query)).digest('hex');
+}
+
+/**
+ * Record one accept / reject signal
+ *
+ * @param knex - Knex instance (or transaction context)
+ * @param target - Suggestion target
+ * @param query - Decision key or constraint text the suggestion was made for
+ * @param suggestedId - Suggested decision key_id or constraint id
+ * @param accepted - Whether the suggestion was accepted
+ */
+export async function recordSuggestFeedback(
+  knex: Knex | Knex.Transaction,
+  target: SuggestTarget,
+  query: string,
+  suggestedId: number,
+  accepted: boolean
+): Promise<void> {
+  await knex(SUGGEST_FEEDBACK_TABLE).insert({
+    project_id: getProjectContext().getProjectId(),
+    target,
+    query_hash: hashQuery(query),
+    query_text: query.trim(),
+    suggested_id: suggestedId,
+    accepted: accepted ? 1 : 0,
+    ts: Math.floor(Date.now() / 1000),
+  });
+}
+
+/**
+ * Accept / reject counts of each suggested item for a query
+ *
+ * @param knex - Knex instance (or transaction context)
+ * @param target - Suggestion target
+ * @param query - Decision key or constraint text
+ * @returns Counts per suggested key_id / constraint id
+ */
+export async function loadPairFeedback(
+  knex: Knex | Knex.Transaction,
+  target: SuggestTarget,
+  query: string
+): Promise<Map<number, { accepted: number; rejected: number }>> {
+  const rows = await knex(SUGGEST_FEEDBACK_TABLE)
+    .where({ project_id: getProjectContext().getProjectId(), target, query_hash: hashQuery(query) })
+    .select('suggested_id', 'accepted') as Array<{ suggested_id: number; accepted: number }>;
+
+  const counts = new Map<number, { accepted: number; rejected: number }>();
+  for (const row of rows) {
+    const count = counts.get(Number(row.suggested_id)) ?? { accepted: 0, rejected: 0 };
+    if (Number(row.accepted) === 1) count.accepted++;
+    else count.rejected++;
+    counts.set(Number(row.suggested_id), count);
+  }
+  return counts;
+}
+
+/**
+ * Score points of a pair's feedback (±MAX_FEEDBACK_POINTS)
+ */
+export function feedbackPoints(count: { accepted: number; rejected: number }): number {
+  const points = (count.accepted - count.rejected) * FEEDBACK_POINTS;
+  return Math.max(-MAX_FEEDBACK_POINTS, Math.min(MAX_FEEDBACK_POINTS, points));
+}
+
+/**
+ * Feedback points per suggested item for a query (pairs without feedback omitted)
+ *
+ * @param knex - Knex instance (or transaction context)
+ * @param target - Suggestion target
+ * @param query - Decision key or constraint text
+ * @returns Points per key_id / constraint id
+ */
+export async function feedbackAdjustments(
+  knex: Knex | Knex.Transaction,
+  target: SuggestTarget,
+  query: string
+): Promise<Map<number, number>> {
+  const adjustments = new Map<number, number>();
+  for (const [id, count] of await loadPairFeedback(knex, target, query)) {
+    adjustments.set(id, feedbackPoints(count));
+  }
+  return adjustments;
+}
+
+function precisionOf(accepted: number, rejected: number): FeedbackPrecision {
+  const total = accepted + rejected;
+  return { accepted, rejected, precision: total === 0 ? null : Math.round((accepted / total) * 1000) / 1000 };
+}
+
+/**
+ * Suggestion precision overall and per time bucket
+ *
+ * Buckets are grouped in JavaScript (portable across databases), as in
+ * timeSeriesAggregation.
+ *
+ * @param knex - Knex instance (or transaction context)
+ * @param options - Target filter, bucket size and time range (Unix seconds)
+ * @returns Overall precision and one entry per bucket with signals, oldest first
+ */
+export async function suggestionPrecision(
+  knex: Knex | Knex.Transaction,
+  options: { target?: SuggestTarget; bucket: FeedbackBucket; startTs?: number; endTs?: number }
+): Promise<{ total: FeedbackPrecision; time_series: Array<FeedbackPrecision & { bucket_ts: number }> }> {
+  let query = knex(SUGGEST_FEEDBACK_TABLE)
+    .where('project_id', getProjectContext().getProjectId())
+    .select('accepted', 'ts');
+  if (options.target) query = query.where('target', options.target);
+  if (options.startTs !== undefined) query = query.where('ts', '>=', options.startTs);
+  if (options.endTs !== undefined) query = query.where('ts', '<=', options.endTs);
+
+  const rows = await query as Array<{ accepted: number; ts: number }>;
+  const bucketSize = BUCKET_SECONDS[options.bucket];
+
+  let accepted = 0;
+  const buckets = new Map<number, { accepted: number; rejected: number }>();
+  for (const row of rows) {
+    const bucketTs = Math.floor(Number(row.ts) / bucketSize) * bucketSize;
+    const bucket = buckets.get(bucketTs) ?? { accepted: 0, rejected: 0 };
+    if (Number(row.accepted) === 1) {
+      bucket.accepted++;
+      accepted++;
+    } else {
+      bucket.rejected++;
+    }
+    buckets.set(bucketTs, bucket);
+  }
+
+  return {
+    total: precisionOf(accepted, rows.length - accepted),
+    time_series: Array.from(buckets.entries())
+      .map(([bucket_ts, b]) => ({ bucket_ts, ...precisionOf(b.accepted, b.rejected) }))
+      .sort((a, b) => a.bucket_ts - b.bucket_ts),
+  };
+}
+
+/**
+ * Remove feedback about a hard-deleted decision or constraint
+ *
+ * @param knex - Knex instance (or transaction context)
+ * @param projectId - Project ID
+ * @param target - Suggestion target
+ * @param suggestedId - key_id or constraint id
+ */
+export async function removeSuggestFeedback(
+  knex: Knex | Knex.Transaction,
+  projectId: number,
+  target: SuggestTarget,
+  suggestedId: number
+): Promise<void> {
+  await knex(SUGGEST_FEEDBACK_TABLE)
+    .where({ project_id: projectId, target, suggested_id: suggestedId })
+    .delete();
+}
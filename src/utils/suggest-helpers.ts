@@ -7,6 +7,7 @@
  * @since v4.3.1
  */
 
+import type { Knex } from 'knex';
 import { parseGroupConcatTags } from './tag-parser.js';
 import {
   scoreAndRankSuggestions,
@@ -22,6 +23,8 @@ import {
   type ConstraintScoringContext,
   type ScoredConstraint
 } from './constraint-scorer.js';
+import { semanticSimilarities } from './embeddings/index.js';
+import { getSuggestWeights, type SuggestWeights } from './suggest-weights.js';
 import type { DecisionCandidate } from '../tools/suggest/types.js';
 
 // ============================================================================
@@ -39,6 +42,7 @@ export interface ParsedConstraint {
   layer: string;
   priority: number;
   ts: number;
+  scopes?: string[];
 }
 
 /**
@@ -60,6 +64,14 @@ export interface QueryConstraintCandidate {
 export interface TransformScoreOptions {
   minScore?: number;
   limit?: number;
+  /** Embedding similarity (0-1) per candidate id, from semanticSimilarities() (v5.1.0) */
+  semantic?: Map<number, number>;
+  /** Scope names per candidate id, for scope overlap (v5.1.0) */
+  scopes?: Map<number, string[]>;
+  /** Component weights (v5.1.0, default: the project's [suggest.weights]) */
+  weights?: SuggestWeights;
+  /** Feedback points per candidate id, from feedbackAdjustments() (v5.1.0) */
+  feedback?: Map<number, number>;
 }
 
 // ============================================================================
@@ -78,7 +90,7 @@ export interface TransformScoreOptions {
  *
  * @param candidates - Raw candidates from database query
  * @param context - Scoring context (key, tags, layer, priority)
- * @param options - Optional min_score and limit
+ * @param options - Optional min_score, limit, semantic similarities, scopes and weights
  * @returns Scored and filtered suggestions
  */
 export function transformAndScoreDecisions(
@@ -95,16 +107,51 @@ export function transformAndScoreDecisions(
     layer: c.layer,
     priority: 0,  // Default priority (not stored in DB)
     updated_ts: c.ts,  // Rename ts to updated_ts for scorer
+    scopes: options?.scopes?.get(c.key_id),
   }));
 
   // Score, filter, and limit
-  let suggestions = scoreAndRankSuggestions(context, parsed);
+  let suggestions = scoreAndRankSuggestions(
+    context,
+    parsed,
+    options?.semantic,
+    options?.weights ?? getSuggestWeights(),
+    options?.feedback
+  );
   suggestions = filterDecisionsByThreshold(suggestions, options?.minScore ?? 30);
   suggestions = limitDecisionSuggestions(suggestions, options?.limit ?? 5);
 
   return suggestions;
 }
 
+/**
+ * Text embedded for a decision: key and value
+ */
+export function decisionEmbeddingText(key: string, value: string | number): string {
+  return `${key}: ${value}`;
+}
+
+/**
+ * Semantic similarity of a query to decision candidates (v5.1.0)
+ *
+ * @param knex - Knex instance (or transaction context)
+ * @param queryText - Key, or key and value, of the query
+ * @param candidates - Raw candidates from database query
+ * @returns Similarity per key_id, or undefined when embeddings are disabled
+ */
+export async function decisionSemanticSimilarities(
+  knex: Knex,
+  queryText: string,
+  candidates: DecisionCandidate[]
+): Promise<Map<number, number> | undefined> {
+  return semanticSimilarities(
+    knex,
+    'decision',
+    queryText,
+    candidates.map(c => ({ id: c.key_id, text: decisionEmbeddingText(c.key, c.value) }))
+  );
+}
+
 // ============================================================================
 // Constraint Helpers
 // ============================================================================
@@ -132,7 +179,7 @@ export function parseConstraintTags(tags: string | null): string[] {
  *
  * @param candidates - Raw candidates from database query
  * @param context - Scoring context (text, tags, layer, priority)
- * @param options - Optional min_score and limit
+ * @param options - Optional min_score, limit, semantic similarities, scopes and weights
  * @returns Scored and filtered constraint suggestions
  */
 export function transformAndScoreConstraints(
@@ -149,12 +196,40 @@ export function transformAndScoreConstraints(
     layer: c.layer ?? '',  // Convert null to empty string
     priority: c.priority,
     ts: c.ts,
+    scopes: options?.scopes?.get(c.constraint_id),
   }));
 
   // Score, filter, and limit
-  let suggestions = scoreConstraints(parsed, context);
+  let suggestions = scoreConstraints(
+    parsed,
+    context,
+    options?.semantic,
+    options?.weights ?? getSuggestWeights(),
+    options?.feedback
+  );
   suggestions = filterConstraintsByThreshold(suggestions, options?.minScore ?? 30);
   suggestions = limitConstraintSuggestions(suggestions, options?.limit ?? 5);
 
   return suggestions;
 }
+
+/**
+ * Semantic similarity of a query to constraint candidates (v5.1.0)
+ *
+ * @param knex - Knex instance (or transaction context)
+ * @param queryText - Constraint text of the query
+ * @param candidates - Raw candidates from database query
+ * @returns Similarity per constraint id, or undefined when embeddings are disabled
+ */
+export async function constraintSemanticSimilarities(
+  knex: Knex,
+  queryText: string,
+  candidates: QueryConstraintCandidate[]
+): Promise<Map<number, number> | undefined> {
+  return semanticSimilarities(
+    knex,
+    'constraint',
+    queryText,
+    candidates.map(c => ({ id: c.constraint_id, text: c.constraint_text }))
+  );
+}
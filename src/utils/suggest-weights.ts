@@ -0,0 +1,95 @@
+/**
+ * Suggest score weights
+ *
+ * Points per score component, set per project by [suggest.weights] in
+ * .sqlew/config.toml. Weights are relative: they are scaled to sum to 100,
+ * so min_score and the duplicate thresholds (35 / 45 / 60) keep their meaning.
+ *
+ * The config file is read on every call, so edited weights apply to the next
+ * suggest call (suggest.explain shows the effect) without a restart.
+ *
+ * @since v5.1.0
+ */
+
+import { resolve } from 'path';
+import { loadConfigFile } from '../config/loader.js';
+import type { SuggestWeightsConfig } from '../config/types.js';
+import { getProjectContext } from './project-context.js';
+import { determineProjectRoot } from './project-root.js';
+
+/**
+ * Maximum points of each score component (sum: 100)
+ */
+export interface SuggestWeights {
+  /** Tag overlap (full points at 4 shared tags) */
+  tags: number;
+  /** Same layer */
+  layer: number;
+  /** Key / constraint text similarity, or semantic similarity when higher */
+  similarity: number;
+  /** Share of the query scopes covered by the candidate's scopes */
+  scope: number;
+  /** Recently updated */
+  recency: number;
+  /** Candidate priority */
+  priority: number;
+}
+
+/** Component names, in breakdown order */
+export const SUGGEST_WEIGHT_KEYS: ReadonlyArray<keyof SuggestWeights> =
+  ['tags', 'layer', 'similarity', 'scope', 'recency', 'priority'];
+
+/**
+ * Built-in weights
+ * scope is 0 (off): queries without scopes never earn scope points, so a
+ * nonzero default would lower their maximum score and shift the thresholds.
+ * Projects that scope their decisions opt in via [suggest.weights] scope.
+ */
+export const DEFAULT_SUGGEST_WEIGHTS: Readonly<SuggestWeights> = {
+  tags: 40,
+  layer: 25,
+  similarity: 20,
+  scope: 0,
+  recency: 10,
+  priority: 5,
+};
+
+/**
+ * Merge configured weights over the defaults and scale them to sum to 100
+ *
+ * @param config - [suggest.weights] section (validated by validateConfig)
+ * @returns Weights summing to 100
+ */
+export function resolveSuggestWeights(config?: SuggestWeightsConfig): SuggestWeights {
+  const merged: SuggestWeights = { ...DEFAULT_SUGGEST_WEIGHTS };
+  for (const key of SUGGEST_WEIGHT_KEYS) {
+    const weight = config?.[key];
+    // Invalid values are reported by validateConfig; the default is kept here
+    if (typeof weight === 'number' && Number.isFinite(weight) && weight >= 0) {
+      merged[key] = weight;
+    }
+  }
+
+  const total = SUGGEST_WEIGHT_KEYS.reduce((sum, key) => sum + merged[key], 0);
+  if (total <= 0) {
+    return { ...DEFAULT_SUGGEST_WEIGHTS };
+  }
+
+  for (const key of SUGGEST_WEIGHT_KEYS) {
+    merged[key] = (merged[key] * 100) / total;
+  }
+  return merged;
+}
+
+/**
+ * Get the suggest weights of a project
+ *
+ * @param projectRoot - Project root (default: current project context)
+ * @returns Weights summing to 100
+ */
+export function getSuggestWeights(projectRoot?: string): SuggestWeights {
+  const root = resolve(
+    projectRoot ?? (getProjectContext().getProjectMetadata().project_root_path || determineProjectRoot())
+  );
+  return resolveSuggestWeights(loadConfigFile(root).suggest?.weights);
+}
@@ -1,23 +1,30 @@
 /**
  * Suggestion scoring algorithm for Decision Intelligence System
  *
- * Scores suggestions based on:
+ * Scores suggestions based on (default weights):
  * - Tag overlap (40 points max)
  * - Layer match (25 points)
  * - Key pattern similarity (20 points)
+ *   or semantic similarity when embeddings are enabled and it scores higher (v5.1.0)
+ * - Scope overlap (0 points; v5.1.0)
  * - Recency (10 points)
  * - Priority (5 points)
  *
- * Total: 100 points max
+ * Total: 100 points max. Weights are configurable per project with
+ * [suggest.weights] (v5.1.0, see suggest-weights.ts). Accept / reject
+ * feedback on the same query and decision adds or subtracts up to 15 points
+ * (v5.1.0, see suggest-feedback.ts); totals stay within 0-100.
  */
 
-import { Knex } from 'knex';
+import { scopeApplies } from '../tools/constraints/internal/scopes.js';
+import { DEFAULT_SUGGEST_WEIGHTS, type SuggestWeights } from './suggest-weights.js';
 
 export interface SuggestionContext {
   key: string;
   tags: string[];
   layer?: string;
   priority?: number;
+  scopes?: string[];  // v5.1.0: scored by scope overlap
 }
 
 export interface ScoredSuggestion {
@@ -29,8 +36,11 @@ export interface ScoredSuggestion {
     tag_overlap: number;
     layer_match: number;
     key_similarity: number;
+    semantic_similarity?: number;  // Only when embeddings are enabled (v5.1.0)
+    scope_overlap?: number;  // Only when the context has scopes (v5.1.0)
     recency: number;
     priority: number;
+    feedback?: number;  // Only for pairs with accept / reject feedback (v5.1.0)
   };
   reason: string;
   tags: string[];  // For match detail analysis
@@ -90,7 +100,7 @@ function commonPrefix(a: string, b: string): string {
  * Calculate key similarity score (0-20 points)
  * Based on Levenshtein distance and common prefix/suffix
  */
-function calculateKeySimilarity(key1: string, key2: string): number {
+export function calculateKeySimilarity(key1: string, key2: string): number {
   // Guard against undefined/null values
   if (!key1 || !key2) return 0;
 
@@ -117,48 +127,81 @@ function calculateKeySimilarity(key1: string, key2: string): number {
 }
 
 /**
- * Calculate tag overlap score (0-40 points, 10 per tag, max 4)
+ * Semantic similarity on the key similarity scale (0-20)
+ * Scales the embedding cosine similarity (0-1) of query and decision text
  */
-function calculateTagOverlap(contextTags: string[], decisionTags: string[]): number {
-  const overlap = contextTags.filter(t => decisionTags.includes(t)).length;
-  return Math.min(overlap * 10, 40);
+function calculateSemanticSimilarity(similarity: number | undefined): number {
+  if (similarity === undefined) return 0;
+  return Math.round(Math.max(0, Math.min(1, similarity)) * 20);
 }
 
 /**
- * Calculate layer match score (0 or 25 points)
+ * Number of context tags the decision shares
  */
-function calculateLayerMatch(contextLayer: string | undefined, decisionLayer: string): number {
-  if (!contextLayer) return 0;
-  return contextLayer === decisionLayer ? 25 : 0;
+function countTagOverlap(contextTags: string[], decisionTags: string[]): number {
+  return contextTags.filter(t => decisionTags.includes(t)).length;
 }
 
 /**
- * Calculate recency score (0-10 points)
- * Decisions updated in last 30 days get full points, older ones decay
+ * Tag overlap ratio (0-1, full at 4 shared tags)
  */
-function calculateRecencyScore(updatedTs: number): number {
+export function tagOverlapRatio(sharedTags: number): number {
+  return Math.min(sharedTags / 4, 1);
+}
+
+/**
+ * Share of the context scopes covered by the candidate's scopes (0-1)
+ * Either side may be the broader scope ("billing" and "billing/invoices").
+ */
+export function scopeOverlapRatio(contextScopes: string[], candidateScopes: string[]): number {
+  if (contextScopes.length === 0 || candidateScopes.length === 0) return 0;
+  const covered = contextScopes.filter(target =>
+    candidateScopes.some(scope => scopeApplies(scope, target) || scopeApplies(target, scope))
+  ).length;
+  return covered / contextScopes.length;
+}
+
+/**
+ * Recency ratio (0-1)
+ * Updated in the last 30 days: 1, then decays (90 days: 0.5, 180 days: 0.2)
+ */
+export function recencyRatio(updatedTs: number): number {
   const now = Math.floor(Date.now() / 1000);
   const ageSeconds = now - updatedTs;
   const ageDays = ageSeconds / 86400;
 
-  if (ageDays <= 30) return 10;
-  if (ageDays <= 90) return 5;
-  if (ageDays <= 180) return 2;
+  if (ageDays <= 30) return 1;
+  if (ageDays <= 90) return 0.5;
+  if (ageDays <= 180) return 0.2;
   return 0;
 }
 
 /**
- * Calculate priority score (0-5 points)
- * Critical: 5, High: 4, Medium: 3, Low: 2
+ * Priority ratio (0-1)
+ * Critical: 1, High: 0.8, Medium: 0.6, Low: 0.4
  */
-function calculatePriorityScore(priority: number): number {
-  const scoreMap: Record<number, number> = {
-    4: 5, // Critical
-    3: 4, // High
-    2: 3, // Medium
-    1: 2, // Low
+export function priorityRatio(priority: number): number {
+  const ratioMap: Record<number, number> = {
+    4: 1,   // Critical
+    3: 0.8, // High
+    2: 0.6, // Medium
+    1: 0.4, // Low
   };
-  return scoreMap[priority] ?? 0;
+  return ratioMap[priority] ?? 0;
+}
+
+/**
+ * Keep a total within 0-100 (feedback can push it out)
+ */
+export function clampScore(score: number): number {
+  return Math.max(0, Math.min(100, score));
+}
+
+/**
+ * Points of a component: its ratio (0-1) of the component weight
+ */
+export function weightedPoints(ratio: number, weight: number): number {
+  return Math.round(ratio * weight);
 }
 
 /**
@@ -166,6 +209,9 @@ function calculatePriorityScore(priority: number): number {
  *
  * @param context - Decision context (key, tags, layer, priority)
  * @param candidates - Candidate decisions from database
+ * @param semantic - Embedding similarity (0-1) per key_id, when embeddings are enabled
+ * @param weights - Component weights (default: built-in weights)
+ * @param feedback - Feedback points per key_id, from feedbackAdjustments()
  * @returns Scored and ranked suggestions
  */
 export function scoreAndRankSuggestions(
@@ -178,23 +224,45 @@ export function scoreAndRankSuggestions(
     layer: string;
     priority: number;
     updated_ts: number;
-  }>
+    scopes?: string[];
+  }>,
+  semantic?: Map<number, number>,
+  weights: SuggestWeights = DEFAULT_SUGGEST_WEIGHTS,
+  feedback?: Map<number, number>
 ): ScoredSuggestion[] {
+  const contextScopes = context.scopes ?? [];
+
   const scored = candidates.map(candidate => {
-    const tagOverlap = calculateTagOverlap(context.tags, candidate.tags);
-    const layerMatch = calculateLayerMatch(context.layer, candidate.layer);
-    const keySimilarity = calculateKeySimilarity(context.key, candidate.key);
-    const recency = calculateRecencyScore(candidate.updated_ts);
-    const priority = calculatePriorityScore(candidate.priority);
+    const sharedTags = countTagOverlap(context.tags, candidate.tags);
+    const tagOverlap = weightedPoints(tagOverlapRatio(sharedTags), weights.tags);
+    const layerMatch = context.layer && context.layer === candidate.layer ? weightedPoints(1, weights.layer) : 0;
+    const keyRaw = calculateKeySimilarity(context.key, candidate.key);
+    const semanticRaw = semantic ? calculateSemanticSimilarity(semantic.get(candidate.key_id)) : undefined;
+    const keySimilarity = weightedPoints(keyRaw / 20, weights.similarity);
+    const semanticSimilarity = semanticRaw !== undefined ? weightedPoints(semanticRaw / 20, weights.similarity) : undefined;
+    const scopeOverlap = contextScopes.length > 0
+      ? weightedPoints(scopeOverlapRatio(contextScopes, candidate.scopes ?? []), weights.scope)
+      : undefined;
+    const recency = weightedPoints(recencyRatio(candidate.updated_ts), weights.recency);
+    const priority = weightedPoints(priorityRatio(candidate.priority), weights.priority);
+    const feedbackPoints = feedback?.get(candidate.key_id);
 
-    const totalScore = tagOverlap + layerMatch + keySimilarity + recency + priority;
+    // Key and semantic similarity share the similarity slot
+    const similarity = Math.max(keySimilarity, semanticSimilarity ?? 0);
+    const totalScore = clampScore(
+      tagOverlap + layerMatch + similarity + (scopeOverlap ?? 0) + recency + priority + (feedbackPoints ?? 0)
+    );
 
     // Generate human-readable reason
     const reasons: string[] = [];
-    if (tagOverlap >= 20) reasons.push(`${tagOverlap / 10} matching tags`);
+    if (sharedTags >= 2 && tagOverlap > 0) reasons.push(`${sharedTags} matching tags`);
     if (layerMatch > 0) reasons.push('same layer');
-    if (keySimilarity >= 15) reasons.push('similar key pattern');
-    if (recency >= 5) reasons.push('recently updated');
+    if (keyRaw >= 15 && keySimilarity > 0) reasons.push('similar key pattern');
+    if ((semanticRaw ?? 0) >= 10 && (semanticRaw ?? 0) > keyRaw && (semanticSimilarity ?? 0) > 0) reasons.push('semantically similar');
+    if ((scopeOverlap ?? 0) > 0) reasons.push('shared scope');
+    if (recency > 0 && recency >= weights.recency / 2) reasons.push('recently updated');
+    if ((feedbackPoints ?? 0) > 0) reasons.push('accepted before');
+    if ((feedbackPoints ?? 0) < 0) reasons.push('rejected before');
 
     return {
       key_id: candidate.key_id,
@@ -205,8 +273,11 @@ export function scoreAndRankSuggestions(
         tag_overlap: tagOverlap,
         layer_match: layerMatch,
         key_similarity: keySimilarity,
+        ...(semanticSimilarity !== undefined && { semantic_similarity: semanticSimilarity }),
+        ...(scopeOverlap !== undefined && { scope_overlap: scopeOverlap }),
         recency,
         priority,
+        ...(feedbackPoints !== undefined && { feedback: feedbackPoints }),
       },
       reason: reasons.length > 0 ? reasons.join(', ') : 'low similarity',
       tags: candidate.tags,
@@ -0,0 +1,173 @@
+/**
+ * Text Diff
+ * Line- or word-level diff of two strings (LCS based)
+ *
+ * Used by:
+ * - decision.diff (compare decision values between versions)
+ */
+
+export type DiffGranularity = 'line' | 'word';
+
+/**
+ * Largest LCS table (tokens before × tokens after, after trimming the common
+ * prefix and suffix); larger changes are reported as one removed + one added chunk
+ */
+const MAX_LCS_CELLS = 1_000_000;
+
+/**
+ * Consecutive tokens with the same change type
+ */
+export interface DiffChunk {
+  type: 'equal' | 'added' | 'removed';
+  value: string;
+}
+
+/**
+ * Split text into diff tokens
+ * Line mode keeps line breaks on each line; word mode keeps whitespace as separate tokens.
+ */
+function tokenize(text: string, granularity: DiffGranularity): string[] {
+  if (text === '') {
+    return [];
+  }
+  return granularity === 'line'
+    ? text.match(/[^\n]*\n|[^\n]+$/g) ?? []
+    : text.split(/(\s+)/).filter(token => token !== '');
+}
+
+/**
+ * Diff two strings
+ *
+ * @param before - Old text
+ * @param after - New text
+ * @param granularity - 'line' or 'word'
+ * @returns Chunks in order; joining equal+removed gives before, equal+added gives after
+ */
+export function diffText(before: string, after: string, granularity: DiffGranularity): DiffChunk[] {
+  const a = tokenize(before, granularity);
+  const b = tokenize(after, granularity);
+
+  const chunks: DiffChunk[] = [];
+  const push = (type: DiffChunk['type'], value: string) => {
+    const last = chunks[chunks.length - 1];
+    if (last && last.type === type) {
+      last.value += value;
+    } else if (value !== '') {
+      chunks.push({ type, value });
+    }
+  };
+
+  // Common prefix and suffix are equal as-is; only the middle needs LCS
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  push('equal', a.slice(0, start).join(''));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    // Too large for the LCS table: whole middle as one removed + one added chunk
+    push('removed', midA.join(''));
+    push('added', midB.join(''));
+  } else {
+    diffMiddle(midA, midB, push);
+  }
+
+  push('equal', a.slice(endA).join(''));
+
+  return granularity === 'word' ? joinWordChanges(chunks) : chunks;
+}
+
+/**
+ * LCS diff of two token lists, emitting chunks through push
+ */
+function diffMiddle(a: string[], b: string[], push: (type: DiffChunk['type'], value: string) => void): void {
+  // LCS lengths of suffixes: lcs[i][j] = LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+}
+
+/**
+ * Merge changes separated only by whitespace into one removed + one added chunk
+ * ("[-session-]{+JWT+} [-cookies-]{+tokens+}" → "[-session cookies-]{+JWT tokens+}")
+ */
+function joinWordChanges(chunks: DiffChunk[]): DiffChunk[] {
+  const result: DiffChunk[] = [];
+  let i = 0;
+
+  while (i < chunks.length) {
+    if (chunks[i].type === 'equal') {
+      result.push(chunks[i++]);
+      continue;
+    }
+
+    // Collect a change region, absorbing whitespace-only equal chunks between changes
+    let removed = '';
+    let added = '';
+    while (i < chunks.length) {
+      const chunk = chunks[i];
+      if (chunk.type === 'removed') {
+        removed += chunk.value;
+      } else if (chunk.type === 'added') {
+        added += chunk.value;
+      } else if (/^\s+$/.test(chunk.value) && i + 1 < chunks.length && chunks[i + 1].type !== 'equal') {
+        removed += chunk.value;
+        added += chunk.value;
+      } else {
+        break;
+      }
+      i++;
+    }
+
+    if (removed) result.push({ type: 'removed', value: removed });
+    if (added) result.push({ type: 'added', value: added });
+  }
+
+  return result;
+}
+
+/**
+ * Render chunks as readable text
+ * Line mode: unified-style lines prefixed with "+ ", "- " or "  ".
+ * Word mode: inline markers like git --word-diff ([-removed-]{+added+}).
+ */
+export function renderDiff(chunks: DiffChunk[], granularity: DiffGranularity): string {
+  if (granularity === 'word') {
+    return chunks
+      .map(chunk => chunk.type === 'added' ? `{+${chunk.value}+}` : chunk.type === 'removed' ? `[-${chunk.value}-]` : chunk.value)
+      .join('');
+  }
+
+  const prefix = { equal: '  ', added: '+ ', removed: '- ' };
+  return chunks
+    .flatMap(chunk => chunk.value.replace(/\n$/, '').split('\n').map(line => prefix[chunk.type] + line))
+    .join('\n');
+}
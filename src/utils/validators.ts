@@ -110,18 +110,6 @@ export function validateChangeType(changeType: string): 'created' | 'modified' |
   return changeType as 'created' | 'modified' | 'deleted';
 }
 
-/**
- * Validates category enum
- * @throws Error if category is invalid
- */
-export function validateCategory(category: string): 'performance' | 'architecture' | 'security' | 'code-style' {
-  const validCategories = ['performance', 'architecture', 'security', 'code-style'];
-  if (!validCategories.includes(category)) {
-    throw new Error(`Invalid category. Must be one of: ${validCategories.join(', ')}`);
-  }
-  return category as 'performance' | 'architecture' | 'security' | 'code-style';
-}
-
 /**
  * Validates string length
  * @throws Error if string exceeds max length
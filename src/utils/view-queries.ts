@@ -2,6 +2,7 @@
 import { Knex } from "knex";
 import { UniversalKnex } from "./universal-knex.js";
 import { convertStatusArray, convertPriorityArray } from "./enum-converter.js";
+import { whereNotExpired } from "./constraint-expiry.js";
 
 /**
  * View query functions - cross-database replacements for SQL views
@@ -17,6 +18,16 @@ import { convertStatusArray, convertPriorityArray } from "./enum-converter.js";
  * v_tagged_decisions - Decisions with metadata (tags, layers, scopes)
  */
 export async function getTaggedDecisions(knex: Knex): Promise<any[]> {
+  const result = await taggedDecisionsQuery(knex);
+  return convertStatusArray(result);
+}
+
+/**
+ * Query builder behind getTaggedDecisions (status still an integer)
+ * Callers can add WHERE / ORDER BY / LIMIT before executing (v5.1.0).
+ * Aliases: d = t_decisions, k = m_context_keys, l = m_layers, dn = t_decisions_numeric
+ */
+export function taggedDecisionsQuery(knex: Knex): Knex.QueryBuilder {
   const db = new UniversalKnex(knex);
 
   // Database-specific CAST syntax for numeric to string conversion
@@ -28,7 +39,7 @@ export async function getTaggedDecisions(knex: Knex): Promise<any[]> {
 
   // Use subqueries for tag/scope aggregation
   // Note: Agent tracking removed in v4.0 - decided_by field removed
-  const result = await knex("t_decisions as d")
+  return knex("t_decisions as d")
     .join("m_context_keys as k", "d.key_id", "k.id")
     .leftJoin("m_layers as l", "d.layer_id", "l.id")
     .leftJoin("t_decisions_numeric as dn", function () {
@@ -52,18 +63,16 @@ export async function getTaggedDecisions(knex: Knex): Promise<any[]> {
         SELECT ${db.stringAgg("t2.name", ",")}
         FROM t_decision_tags dt2
         JOIN m_tags t2 ON dt2.tag_id = t2.id
-        WHERE dt2.decision_key_id = d.key_id
+        WHERE dt2.decision_key_id = d.key_id AND dt2.project_id = d.project_id
       ) as tags`),
       // Scopes subquery
       knex.raw(`(
         SELECT ${db.stringAgg("s2.name", ",")}
         FROM t_decision_scopes ds2
         JOIN m_scopes s2 ON ds2.scope_id = s2.id
-        WHERE ds2.decision_key_id = d.key_id
+        WHERE ds2.decision_key_id = d.key_id AND ds2.project_id = d.project_id
       ) as scopes`),
     ]);
-
-  return convertStatusArray(result);
 }
 
 /**
@@ -133,10 +142,13 @@ export async function getTaggedConstraints(knex: Knex): Promise<any[]> {
   const db = new UniversalKnex(knex);
 
   // Note: Agent tracking removed in v4.0 - added_by field removed
-  const result = await knex("t_constraints as c")
-    .join("m_constraint_categories as cat", "c.category_id", "cat.id")
-    .leftJoin("m_layers as l", "c.layer_id", "l.id")
-    .where("c.active", db.boolTrue())
+  const result = await whereNotExpired(
+    knex("t_constraints as c")
+      .join("m_constraint_categories as cat", "c.category_id", "cat.id")
+      .leftJoin("m_layers as l", "c.layer_id", "l.id")
+      .where("c.active", db.boolTrue()),
+    "c.expires_at"
+  )
     .select([
       "c.id",
       "cat.name as category",
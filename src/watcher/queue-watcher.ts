@@ -1,22 +1,34 @@
 /**
- * Queue Watcher - Monitors hook queue file for changes
+ * Queue Watcher - Monitors hook queue for changes
  *
- * Watches `.sqlew/queue/pending.json` and processes queued decisions
- * when hooks write to the queue file.
+ * Watches `.sqlew/queue/` and processes queued decisions when hooks add
+ * items to the queue store (spool file or queue.signal, v5.1.0).
  *
  * Flow:
- * 1. Hook writes to queue file (fast, <100ms)
+ * 1. Hook writes to queue store (fast, <100ms)
  * 2. QueueWatcher detects change
  * 3. processHookQueue() registers decisions in DB
+ * 4. MCP clients receive notifications/resources/list_changed (v5.1.0)
+ * 5. Items failed by transient errors are retried with backoff (v5.1.0)
  *
  * @since v4.1.0
  */
 
-import { join, dirname } from 'path';
 import { existsSync, mkdirSync } from 'fs';
 import { BaseWatcher } from './base-watcher.js';
-import { getQueuePath, hasQueueItems, processQueue, type QueueItem, type DecisionQueueItem, type ConstraintQueueItem } from '../utils/hook-queue.js';
+import {
+  getQueueDir,
+  hasQueueItems,
+  processQueue,
+  requeueDueFailedItems,
+  getNextRetryTime,
+  type QueueItem,
+  type DecisionQueueItem,
+  type ConstraintQueueItem,
+} from '../utils/hook-queue.js';
+import { getQueueStore, closeQueueStores } from '../utils/queue-store/index.js';
 import { debugLog } from '../utils/debug-logger.js';
+import { notifyResourceListChanged } from '../server/resource-handlers.js';
 import type { ToolBackend } from '../backend/types.js';
 
 /**
@@ -68,8 +80,7 @@ export class QueueWatcher extends BaseWatcher {
     }
 
     try {
-      const queuePath = getQueuePath(this.projectRoot);
-      const queueDir = dirname(queuePath);
+      const queueDir = getQueueDir(this.projectRoot);
 
       // Ensure queue directory exists
       if (!existsSync(queueDir)) {
@@ -109,8 +120,8 @@ export class QueueWatcher extends BaseWatcher {
    * Handle queue file change
    */
   private handleQueueChange(path: string): void {
-    // Only process pending.json
-    if (!path.endsWith('pending.json')) {
+    // Only react to new items (not claims, acks or failed.json)
+    if (!getQueueStore(this.projectRoot).isChangeSignal(path)) {
       return;
     }
 
@@ -149,6 +160,12 @@ export class QueueWatcher extends BaseWatcher {
     });
 
     try {
+      // Failed items whose backoff has elapsed go back to the queue (v5.1.0)
+      const requeued = requeueDueFailedItems(this.projectRoot);
+      if (requeued > 0) {
+        debugLog('INFO', `${this.watcherName}: Re-enqueued ${requeued} failed item(s) for retry`, { callId });
+      }
+
       if (!hasQueueItems(this.projectRoot)) {
         debugLog('INFO', `${this.watcherName}: Queue is empty, nothing to process`, { callId });
         return;
@@ -157,12 +174,47 @@ export class QueueWatcher extends BaseWatcher {
       debugLog('INFO', `${this.watcherName}: Starting queue processing`, { callId });
       const count = await processQueue(this.projectRoot, this.processItem.bind(this), callId);
       debugLog('INFO', `${this.watcherName}: Processed ${count} queue items`, { callId });
+
+      // New decisions/constraints change the MCP resource list (v5.1.0)
+      if (count > 0) {
+        await notifyResourceListChanged();
+      }
     } catch (error) {
       debugLog('ERROR', `${this.watcherName}: Error processing queue`, { callId, error });
     } finally {
       this.processing = false;
       debugLog('INFO', `${this.watcherName}: Processing flag reset`, { callId });
+      this.scheduleRetry();
+    }
+  }
+
+  /**
+   * Schedule processing for the earliest automatic retry in failed.json
+   * Uses the debounce timer map so stop() clears it.
+   * @since v5.1.0
+   */
+  private scheduleRetry(): void {
+    const existingTimer = this.debounceTimers.get('queue-retry');
+    if (existingTimer) {
+      clearTimeout(existingTimer);
+      this.debounceTimers.delete('queue-retry');
     }
+
+    const nextRetry = getNextRetryTime(this.projectRoot);
+    if (!this.isRunning || nextRetry === null) {
+      return;
+    }
+
+    const delay = Math.max(nextRetry - Date.now(), this.debounceMs);
+    const timer = setTimeout(() => {
+      this.debounceTimers.delete('queue-retry');
+      this.processQueueIfNeeded().catch(error => {
+        debugLog('ERROR', `${this.watcherName}: Error in retry handler`, { error });
+      });
+    }, delay);
+    timer.unref();
+    this.debounceTimers.set('queue-retry', timer);
+    debugLog('INFO', `${this.watcherName}: Next retry scheduled`, { delayMs: delay });
   }
 
   /**
@@ -196,6 +248,7 @@ export class QueueWatcher extends BaseWatcher {
         status: data.status,
         layer: data.layer,
         tags: data.tags,
+        scopes: data.scopes,
       });
     } else if (action === 'update') {
       await this.backend.execute('decision', 'set', {
@@ -205,6 +258,32 @@ export class QueueWatcher extends BaseWatcher {
         layer: data.layer,
         tags: data.tags,
       });
+    } else if (action === 'add_context') {
+      await this.backend.execute('decision', 'add_decision_context', {
+        key: data.key,
+        rationale: data.rationale,
+        alternatives_considered: data.alternatives_considered,
+        tradeoffs: data.tradeoffs,
+        decided_by: data.decided_by,
+      });
+    } else if (action === 'deprecate') {
+      if (data.superseded_by) {
+        // supersedes link also moves the target to deprecated
+        await this.backend.execute('decision', 'link', {
+          key: data.superseded_by,
+          target_key: data.key,
+          relation_type: 'supersedes',
+          note: data.reason,
+        });
+      } else {
+        // Status change only: no new version
+        await this.backend.execute('decision', 'deprecate', { key: data.key });
+      }
+    } else if (action === 'tag') {
+      // Existing tags are kept: no new version
+      await this.backend.execute('decision', 'add_tags', { key: data.key, tags: data.tags || [] });
+    } else if (action === 'delete') {
+      await this.backend.execute('decision', 'hard_delete', { key: data.key });
     }
   }
 
@@ -291,4 +370,5 @@ export async function stopQueueWatcher(): Promise<void> {
   } catch {
     // Instance not initialized, nothing to stop
   }
+  closeQueueStores();
 }